@@ -0,0 +1,205 @@
+import { FileSpreadsheet } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Button } from "~/components/ui/button";
+import { Checkbox } from "~/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "~/components/ui/dialog";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  type CsvExportFormat,
+  csvExportFormats,
+  csvExportFormatsLabels,
+  downloadCsv,
+  exportCsv,
+  getCsvExportFilename,
+  isCsvExportFormat,
+} from "~/lib/data";
+import { getAllTrackers } from "~/lib/db";
+import type { Tracker } from "~/lib/trackers";
+
+interface CsvExportDialogProps {
+  // Preselected tracker and date range
+  trackerId?: string;
+  from?: string;
+  to?: string;
+  children: React.ReactNode;
+}
+
+/**
+ * Exports entries as CSV for spreadsheets, opened by its children
+ */
+export function CsvExportDialog({
+  trackerId: initialTrackerId,
+  from: initialFrom,
+  to: initialTo,
+  children,
+}: CsvExportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [trackers, setTrackers] = useState<Tracker[]>([]);
+  const [trackerId, setTrackerId] = useState(initialTrackerId);
+  const [includeChildren, setIncludeChildren] = useState(true);
+  const [from, setFrom] = useState(initialFrom ?? "");
+  const [to, setTo] = useState(initialTo ?? "");
+  const [format, setFormat] = useState<CsvExportFormat>("entries");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      getAllTrackers().then(setTrackers);
+    }
+  }, [open]);
+
+  const hasChildren = trackers.some(
+    (tracker) => trackerId && tracker.parentId === trackerId
+  );
+
+  const handleOpenChange = (isOpen: boolean) => {
+    // Start from the current selection of the page
+    if (isOpen) {
+      setTrackerId(initialTrackerId);
+      setFrom(initialFrom ?? "");
+      setTo(initialTo ?? "");
+      setError(null);
+    }
+    setOpen(isOpen);
+  };
+
+  const handleDownload = async () => {
+    const options = {
+      format,
+      trackerId,
+      includeChildren,
+      from: from || undefined,
+      to: to || undefined,
+    };
+    try {
+      const csv = await exportCsv(trackers, options);
+      downloadCsv(csv, getCsvExportFilename(trackers, options));
+      setOpen(false);
+    } catch (err) {
+      console.error("Failed to export CSV:", err);
+      setError("Failed to export CSV");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export CSV</DialogTitle>
+          <DialogDescription>
+            Values are exported in the unit each tracker shows them in.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="csv-export-tracker">Tracker</Label>
+            <Select
+              value={trackerId ?? "all"}
+              onValueChange={(value) =>
+                setTrackerId(value === "all" ? undefined : value)
+              }
+            >
+              <SelectTrigger id="csv-export-tracker">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  <SelectItem value="all">All trackers</SelectItem>
+                  {trackers.map((tracker) => (
+                    <SelectItem key={tracker.id} value={tracker.id}>
+                      {tracker.title}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          </div>
+          {hasChildren && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="csv-export-children"
+                checked={includeChildren}
+                onCheckedChange={(checked) =>
+                  setIncludeChildren(checked === true)
+                }
+              />
+              <Label htmlFor="csv-export-children" className="cursor-pointer">
+                Include sub-trackers
+              </Label>
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="csv-export-from">From</Label>
+              <Input
+                id="csv-export-from"
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="csv-export-to">To</Label>
+              <Input
+                id="csv-export-to"
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="csv-export-format">Format</Label>
+            <Select
+              value={format}
+              onValueChange={(value) =>
+                isCsvExportFormat(value) && setFormat(value)
+              }
+            >
+              <SelectTrigger id="csv-export-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  {csvExportFormats.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {csvExportFormatsLabels[value]}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          </div>
+          {error && <div className="text-red-600 text-sm">{error}</div>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleDownload}>
+            <FileSpreadsheet className="h-4 w-4" />
+            Download
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
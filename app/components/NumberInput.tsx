@@ -2,6 +2,7 @@ import { X } from "lucide-react";
 import { Button } from "~/components/ui/button";
 import { Input } from "~/components/ui/input";
 import { useState, useEffect, useRef } from "react";
+import { formatDuration, parseDuration } from "~/lib/duration";
 
 interface NumberInputProps {
   value: number | null | undefined;
@@ -11,6 +12,8 @@ interface NumberInputProps {
   id?: string;
   showClearButton?: boolean;
   className?: string;
+  // "duration" accepts input like "1h20m", "1:20" or "90m"; values are minutes
+  format?: "number" | "duration";
 }
 
 export function NumberInput({
@@ -21,7 +24,10 @@ export function NumberInput({
   id,
   showClearButton = false,
   className,
+  format = "number",
 }: NumberInputProps) {
+  const isDuration = format === "duration";
+
   // Keep track of the raw input string to allow typing decimals
   const [inputString, setInputString] = useState("");
   const isInternalChange = useRef(false);
@@ -31,14 +37,24 @@ export function NumberInput({
     if (!isInternalChange.current) {
       if (value !== null && value !== undefined) {
         // Convert to string, remove trailing zeros if it's a decimal
-        const str = value.toString();
+        const str = isDuration ? formatDuration(value * 60) : value.toString();
         setInputString(str);
       } else {
         setInputString("");
       }
     }
     isInternalChange.current = false;
-  }, [value]);
+  }, [value, isDuration]);
+
+  const handleDurationChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    // Allow digits, separators and h/m/s unit suffixes
+    const rawInput = e.target.value.replace(/[^0-9.,:hms ]/gi, "");
+    setInputString(rawInput);
+
+    isInternalChange.current = true;
+    const seconds = parseDuration(rawInput);
+    onChange(seconds === null ? null : seconds / 60);
+  };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     let rawInput = e.target.value;
@@ -83,11 +99,11 @@ export function NumberInput({
       <Input
         id={id}
         type="text"
-        inputMode="decimal"
-        pattern="[0-9.]*"
+        inputMode={isDuration ? "text" : "decimal"}
+        pattern={isDuration ? undefined : "[0-9.]*"}
         step={step}
         value={inputString}
-        onChange={handleChange}
+        onChange={isDuration ? handleDurationChange : handleChange}
         placeholder={placeholder}
         className={className}
       />
@@ -0,0 +1,76 @@
+import { Calendar } from "lucide-react";
+import { Link } from "react-router";
+import { Table, TableBody, TableCell, TableRow } from "~/components/ui/table";
+import { formatDateString } from "~/lib/dates";
+import { formatStoredValue } from "~/lib/number-conversions";
+import type { SearchResult } from "~/lib/search";
+
+type SearchResultGroupProps = {
+  date: string;
+  results: SearchResult[];
+};
+
+const formatDate = (dateString: string) => {
+  return new Intl.DateTimeFormat("en", {
+    weekday: "short",
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  }).format(new Date(dateString));
+};
+
+const formatResultValue = ({ entry, tracker }: SearchResult) => {
+  if (tracker.type === "checkbox") {
+    return entry.value > 0 ? "✓ Tracked" : "✗ Not tracked";
+  }
+  const formattedValue = formatStoredValue(
+    entry.value,
+    tracker.type,
+    true,
+    tracker.displayUnit
+  );
+  const sign = entry.value < 0 ? "" : "+";
+  return `${sign}${formattedValue}`;
+};
+
+// Search results of one date, linking to the date in each tracker's history
+export function SearchResultGroup({ date, results }: SearchResultGroupProps) {
+  const isToday = date === formatDateString(new Date());
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300 pb-1">
+        <Calendar className="h-3 w-3" />
+        <span>{isToday ? "Today" : formatDate(date)}</span>
+        <span className="text-xs text-gray-500">
+          ({results.length} {results.length === 1 ? "entry" : "entries"})
+        </span>
+      </div>
+
+      <div className="border rounded-2xl overflow-hidden">
+        <Table className="table-fixed">
+          <TableBody>
+            {results.map((result) => (
+              <TableRow key={result.entry.id}>
+                <TableCell className="w-28">
+                  <Link
+                    to={`/t/${result.tracker.id}/history#history-${date}`}
+                    className="font-medium underline-offset-4 hover:underline"
+                  >
+                    {result.tracker.title}
+                  </Link>
+                  <div className="text-xs text-gray-500">
+                    {formatResultValue(result)}
+                  </div>
+                </TableCell>
+                <TableCell className="text-sm text-gray-600 dark:text-gray-400 whitespace-normal break-words">
+                  {result.entry.comment}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -6,10 +6,8 @@ import {
   useMemo,
   type ReactNode,
 } from "react";
-import {
-  isSyncConfigured,
-  isEncryptionEnabled,
-} from "~/lib/github-gist-sync";
+import { isEncryptionEnabled } from "~/lib/github-gist-sync";
+import { isSyncConfigured } from "~/lib/sync";
 import {
   useSyncState,
   useSyncScheduler,
@@ -0,0 +1,115 @@
+import { Redo2, Undo2 } from "lucide-react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useRevalidator } from "react-router";
+import { Button } from "~/components/ui/button";
+import {
+  type UndoEvent,
+  UNDO_TIMEOUT_MS,
+  redo,
+  undo,
+  useUndoListener,
+} from "~/lib/undo";
+
+// Let text fields keep their own undo
+function isEditableTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable ||
+      ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+  );
+}
+
+/**
+ * Offers to undo the last change for a few seconds, and handles the undo
+ * (Ctrl/Cmd+Z) and redo (Ctrl/Cmd+Shift+Z, Ctrl+Y) shortcuts
+ */
+export function UndoToast() {
+  const revalidator = useRevalidator();
+  const [event, setEvent] = useState<UndoEvent | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const hideTimeout = useRef<NodeJS.Timeout | null>(null);
+
+  useUndoListener((detail) => {
+    setEvent(detail);
+    setError(null);
+    if (hideTimeout.current) {
+      clearTimeout(hideTimeout.current);
+    }
+    hideTimeout.current = setTimeout(() => setEvent(null), UNDO_TIMEOUT_MS);
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      if (hideTimeout.current) {
+        clearTimeout(hideTimeout.current);
+      }
+    };
+  }, []);
+
+  const run = useCallback(
+    async (action: typeof undo) => {
+      try {
+        if (await action()) {
+          revalidator.revalidate();
+        }
+      } catch (err) {
+        console.error("Failed to undo:", err);
+        setError(err instanceof Error ? err.message : "Failed to undo");
+      }
+    },
+    [revalidator]
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isEditableTarget(e.target)) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        run(undo);
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        run(redo);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [run]);
+
+  if (!event) {
+    return null;
+  }
+
+  const canRedo = event.type === "undone" && event.canRedo;
+
+  return (
+    <div className="fixed z-50 bottom-4 left-0 right-0 px-4 pointer-events-none">
+      <div
+        aria-live="polite"
+        className="max-w-md mx-auto flex items-center justify-between gap-2 rounded-xl border bg-background px-4 py-2 shadow-lg pointer-events-auto"
+      >
+        <span className="text-sm truncate">
+          {error ??
+            (event.type === "undone" ? `Undone: ${event.label}` : event.label)}
+        </span>
+        {canRedo ? (
+          <Button variant="ghost" size="sm" onClick={() => run(redo)}>
+            <Redo2 className="h-4 w-4" />
+            Redo
+          </Button>
+        ) : (
+          event.canUndo && (
+            <Button variant="ghost" size="sm" onClick={() => run(undo)}>
+              <Undo2 className="h-4 w-4" />
+              Undo
+            </Button>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
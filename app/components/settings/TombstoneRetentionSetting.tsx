@@ -0,0 +1,68 @@
+import { Trash2 } from "lucide-react";
+import { useState } from "react";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  getTombstoneRetentionDays,
+  setTombstoneRetentionDays,
+} from "~/lib/user-settings";
+
+const retentionOptions = [
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+  { days: 365, label: "1 year" },
+  { days: 0, label: "Forever" },
+];
+
+export function TombstoneRetentionSetting() {
+  const [retentionDays, setRetentionDaysState] = useState(
+    getTombstoneRetentionDays()
+  );
+
+  const handleValueChange = (value: string) => {
+    const days = Number(value);
+    setRetentionDaysState(days);
+    setTombstoneRetentionDays(days);
+  };
+
+  return (
+    <div className="grid items-center gap-3">
+      <Label
+        htmlFor="tombstoneRetentionTrigger"
+        className="flex items-center gap-2"
+      >
+        <Trash2 className="h-4 w-4" />
+        Keep deleted items for sync
+      </Label>
+      <Select
+        value={retentionDays.toString()}
+        onValueChange={handleValueChange}
+      >
+        <SelectTrigger id="tombstoneRetentionTrigger">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectGroup>
+            {retentionOptions.map(({ days, label }) => (
+              <SelectItem key={days} value={days.toString()}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        </SelectContent>
+      </Select>
+      <div className="text-xs text-muted-foreground">
+        Deleted trackers and entries are synced so other devices delete them
+        too. After this time, and once every device has synced, they are removed
+        for good.
+      </div>
+    </div>
+  );
+}
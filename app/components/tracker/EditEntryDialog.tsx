@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import type { HistoryEntry } from "~/lib/history";
+import {
+  formatForInput,
+  getDisplayUnit,
+  parseInputToStored,
+} from "~/lib/number-conversions";
+import type { Tracker } from "~/lib/trackers";
+
+export type EntryChanges = {
+  date: string;
+  value: number;
+  comment?: string;
+};
+
+interface EditEntryDialogProps {
+  entry: HistoryEntry | null;
+  tracker: Tracker;
+  onOpenChange: (open: boolean) => void;
+  onSave: (entryId: string, changes: EntryChanges) => void;
+}
+
+export function EditEntryDialog({
+  entry,
+  tracker,
+  onOpenChange,
+  onSave,
+}: EditEntryDialogProps) {
+  const [date, setDate] = useState("");
+  const [value, setValue] = useState("");
+  const [comment, setComment] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the fields whenever another entry is opened
+  useEffect(() => {
+    if (entry) {
+      setDate(entry.date);
+      setValue(formatForInput(entry.value, tracker.type, tracker.displayUnit));
+      setComment(entry.comment ?? "");
+      setError(null);
+    }
+  }, [entry, tracker.type, tracker.displayUnit]);
+
+  const isCheckbox = tracker.type === "checkbox";
+  const unit = getDisplayUnit(tracker.type, tracker.displayUnit).trim();
+
+  const handleSave = () => {
+    if (!entry) return;
+
+    if (!date) {
+      setError("Please pick a date");
+      return;
+    }
+
+    const storedValue = isCheckbox
+      ? entry.value
+      : parseInputToStored(value, tracker.type, tracker.displayUnit);
+    if (storedValue === null) {
+      setError("Please enter a valid value");
+      return;
+    }
+
+    onSave(entry.id, {
+      date,
+      value: storedValue,
+      comment: comment.trim() || undefined,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={entry !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit Entry</DialogTitle>
+          <DialogDescription>
+            Changes sync to your other devices like new entries.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="edit-entry-date">Date</Label>
+            <Input
+              id="edit-entry-date"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+            />
+          </div>
+          {!isCheckbox && (
+            <div className="grid gap-2">
+              <Label htmlFor="edit-entry-value">
+                Value{unit && ` (${unit})`}
+              </Label>
+              <Input
+                id="edit-entry-value"
+                inputMode={tracker.type === "duration" ? "text" : "decimal"}
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+              />
+            </div>
+          )}
+          <div className="grid gap-2">
+            <Label htmlFor="edit-entry-comment">Comment</Label>
+            <Input
+              id="edit-entry-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Add #tags to group entries"
+            />
+          </div>
+          {error && <div className="text-red-600 text-sm">{error}</div>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
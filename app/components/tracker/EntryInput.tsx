@@ -3,19 +3,28 @@ import { useState } from "react";
 import { Button } from "~/components/ui/button";
 import { Input } from "~/components/ui/input";
 import { Label } from "~/components/ui/label";
-import { formatDateString } from "~/lib/dates";
-import { quickAddValuesMap } from "~/lib/entry-quick-add-values";
+import { formatDateString, parseLocalDate } from "~/lib/dates";
+import { getQuickAddValues } from "~/lib/entry-quick-add-values";
+import {
+  formatGoal,
+  getGoalForDate,
+  getGoalPeriodTotal,
+  hasGoal,
+  isGoalExceeded,
+  isGoalMet,
+} from "~/lib/goals";
 import {
   formatStoredValue,
-  displayUnits,
+  getDisplayUnit,
   toDisplayValue,
   toStoredValue,
   getInputStep,
+  roundDisplayValue,
 } from "~/lib/number-conversions";
 import { cn } from "~/lib/utils";
 import { NumberInput } from "~/components/NumberInput";
 
-import type { Tracker } from "~/lib/trackers";
+import { type Tracker, goalPeriodsLabels } from "~/lib/trackers";
 import { useRevalidator } from "react-router";
 
 type EntryInputProps = {
@@ -42,6 +51,17 @@ export function EntryInput({
   const [comment, setComment] = useState("");
   const { revalidate } = useRevalidator();
 
+  // The goal in force on the selected date (an earlier version for past dates)
+  const goal = { ...tracker, ...getGoalForDate(tracker, selectedDate) };
+  // Weekly/monthly goals are compared with the period total instead of the day
+  const goalPeriod = goal.goalPeriod ?? "day";
+  const hasDailyGoal = hasGoal(goal) && goalPeriod === "day";
+  const periodTotal = getGoalPeriodTotal(
+    tracker.values,
+    goalPeriod,
+    parseLocalDate(selectedDate)
+  );
+
   const handleSubmit = async () => {
     if (displayValue === null || displayValue === 0) {
       return;
@@ -49,7 +69,11 @@ export function EntryInput({
 
     try {
       // Convert display value to stored value (e.g., 1.5L -> 1500ml)
-      const storedValue = toStoredValue(displayValue, tracker.type);
+      const storedValue = toStoredValue(
+        displayValue,
+        tracker.type,
+        tracker.displayUnit
+      );
       await onSubmit(storedValue, comment);
       setDisplayValue(null);
       setComment("");
@@ -72,11 +96,17 @@ export function EntryInput({
 
   const handleQuickAddClick = (value: number) => {
     setDisplayValue((oldValue) => {
-      return parseFloat(((oldValue || 0) + value).toPrecision(2));
+      // Round to the type's precision to drop floating point noise
+      // (toPrecision would also cut significant digits, e.g. 165 minutes)
+      return roundDisplayValue(
+        (oldValue || 0) + value,
+        tracker.type,
+        tracker.displayUnit
+      );
     });
   };
 
-  const quickAddValues = quickAddValuesMap[tracker.type];
+  const quickAddValues = getQuickAddValues(tracker.type, tracker.displayUnit);
   const isToday = selectedDate === formatDateString(new Date());
 
   return (
@@ -91,6 +121,26 @@ export function EntryInput({
               day: "numeric",
             })}`}
       </div>
+      {hasGoal(goal) && goalPeriod !== "day" && (
+        <div>
+          {goalPeriodsLabels[goalPeriod].adjective} total:{" "}
+          <span
+            className={cn("text-xl font-semibold", {
+              "text-green-600": isGoalMet(periodTotal, goal),
+              "text-red-600": isGoalExceeded(periodTotal, goal),
+            })}
+          >
+            {formatStoredValue(
+              periodTotal,
+              tracker.type,
+              false,
+              tracker.displayUnit
+            )}
+            {` / ${formatGoal(goal)}`}
+            {getDisplayUnit(tracker.type, tracker.displayUnit)}
+          </span>
+        </div>
+      )}
       {tracker.type === "checkbox" ? (
         <>
           {currentValue > 0 ? (
@@ -156,13 +206,19 @@ export function EntryInput({
             Current:{" "}
             <span
               className={cn("text-xl font-semibold", {
-                "text-green-600": tracker.goal && currentValue >= tracker.goal,
+                "text-green-600": hasDailyGoal && isGoalMet(currentValue, goal),
+                "text-red-600":
+                  hasDailyGoal && isGoalExceeded(currentValue, goal),
               })}
             >
-              {formatStoredValue(currentValue, tracker.type)}
-              {!!tracker.goal &&
-                ` / ${formatStoredValue(tracker.goal, tracker.type)}`}
-              {displayUnits[tracker.type]}
+              {formatStoredValue(
+                currentValue,
+                tracker.type,
+                false,
+                tracker.displayUnit
+              )}
+              {hasDailyGoal && ` / ${formatGoal(goal)}`}
+              {getDisplayUnit(tracker.type, tracker.displayUnit)}
             </span>
           </div>
 
@@ -170,16 +226,24 @@ export function EntryInput({
             id="value"
             value={displayValue}
             onChange={setDisplayValue}
-            step={getInputStep(tracker.type)}
-            placeholder="Enter value"
+            step={getInputStep(tracker.type, tracker.displayUnit)}
+            placeholder={
+              tracker.type === "duration" ? "e.g. 1h20m" : "Enter value"
+            }
             showClearButton={true}
+            format={tracker.type === "duration" ? "duration" : "number"}
           />
 
           {!!quickAddValues && (
             <div className="flex gap-4 overflow-auto -mb-2 pb-2 -mx-4 w-[calc(100%+2rem)] px-4">
               {quickAddValues.map(({ label, value }) => {
                 // Convert stored value to display value for quick-add buttons
-                const displayQuickAddValue = toDisplayValue(value, tracker.type);
+                // (rounded, since non-metric units don't map to whole ml/m/g)
+                const displayQuickAddValue = roundDisplayValue(
+                  toDisplayValue(value, tracker.type, tracker.displayUnit),
+                  tracker.type,
+                  tracker.displayUnit
+                );
                 return (
                   <Button
                     className="grow"
@@ -0,0 +1,96 @@
+import { Play, Square, X } from "lucide-react";
+import { useState } from "react";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { useElapsedSeconds } from "~/lib/hooks";
+import { type RunningTimer, formatElapsed } from "~/lib/timers";
+
+type EntryTimerProps = {
+  timer: RunningTimer | null;
+  onStart: () => void;
+  onStop: (comment?: string) => void;
+  onCancel: () => void;
+  loading: boolean;
+};
+
+export function EntryTimer({
+  timer,
+  onStart,
+  onStop,
+  onCancel,
+  loading,
+}: EntryTimerProps) {
+  const [comment, setComment] = useState("");
+  const elapsed = useElapsedSeconds(timer);
+
+  if (!timer) {
+    return (
+      <Button
+        variant="outline"
+        onClick={onStart}
+        disabled={loading}
+        className="w-full"
+      >
+        <Play /> Start timer
+      </Button>
+    );
+  }
+
+  const handleStop = () => {
+    onStop(comment || undefined);
+    setComment("");
+  };
+
+  const handleCancel = () => {
+    if (!confirm("Discard this timer without logging the time?")) {
+      return;
+    }
+    onCancel();
+    setComment("");
+  };
+
+  return (
+    <div className="flex flex-col gap-4 border rounded-xl p-4">
+      <div className="flex items-baseline justify-between">
+        <span className="text-sm text-muted-foreground">
+          Started at{" "}
+          {new Date(timer.startedAt).toLocaleTimeString("en", {
+            hour: "numeric",
+            minute: "2-digit",
+          })}
+        </span>
+        <span className="text-3xl font-semibold tabular-nums">
+          {formatElapsed(elapsed)}
+        </span>
+      </div>
+      <div className="flex gap-4 items-center">
+        <Label htmlFor="timerComment" className="w-20">
+          Comment
+        </Label>
+        <Input
+          id="timerComment"
+          className="flex-1"
+          type="text"
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          placeholder="Add a note (optional)"
+        />
+      </div>
+      <div className="flex gap-2">
+        <Button onClick={handleStop} disabled={loading} className="grow">
+          <Square /> Stop and log
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={handleCancel}
+          disabled={loading}
+          aria-label="Discard timer"
+        >
+          <X />
+        </Button>
+      </div>
+    </div>
+  );
+}
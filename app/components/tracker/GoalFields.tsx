@@ -0,0 +1,185 @@
+import { NumberInput } from "~/components/NumberInput";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  type DisplayUnit,
+  getInputStep,
+  roundDisplayValue,
+  toDisplayValue,
+  toStoredValue,
+} from "~/lib/number-conversions";
+import {
+  type GoalDirection,
+  type GoalPeriod,
+  type TrackerType,
+  goalDirections,
+  goalDirectionsLabels,
+  goalPeriods,
+  goalPeriodsLabels,
+  isGoalDirection,
+  isGoalPeriod,
+} from "~/lib/trackers";
+
+export type GoalFieldsValue = {
+  goal?: number; // Stored as integer (e.g., milliliters for liters)
+  goalPeriod: GoalPeriod;
+  goalDirection: GoalDirection;
+  goalMax?: number;
+};
+
+type GoalFieldsProps = {
+  type: TrackerType;
+  displayUnit?: DisplayUnit;
+  value: GoalFieldsValue;
+  onChange: <K extends keyof GoalFieldsValue>(
+    field: K,
+    value: GoalFieldsValue[K]
+  ) => void;
+};
+
+// Goal period, direction and value inputs shared by the tracker forms
+export function GoalFields({
+  type,
+  displayUnit,
+  value,
+  onChange,
+}: GoalFieldsProps) {
+  const toInputValue = (storedValue: number | undefined) =>
+    storedValue !== undefined
+      ? roundDisplayValue(
+          toDisplayValue(storedValue, type, displayUnit),
+          type,
+          displayUnit
+        )
+      : null;
+
+  const toGoalValue = (displayValue: number | null) =>
+    displayValue !== null
+      ? toStoredValue(displayValue, type, displayUnit)
+      : undefined;
+
+  const inputProps = {
+    step: getInputStep(type, displayUnit),
+    placeholder:
+      type === "duration"
+        ? "1h"
+        : type === "liters"
+        ? "1"
+        : type === "checkbox"
+        ? "3"
+        : "100",
+    format: type === "duration" ? ("duration" as const) : ("number" as const),
+  };
+
+  const periodLabel = goalPeriodsLabels[value.goalPeriod].adjective;
+  // Checkbox trackers can only have goals counting days per week or month
+  const canHaveGoal = type !== "checkbox" || value.goalPeriod !== "day";
+
+  return (
+    <>
+      <div className="grid items-center gap-3">
+        <Label htmlFor="trackerGoalPeriodTrigger">Goal period</Label>
+        <Select
+          value={value.goalPeriod}
+          onValueChange={(goalPeriod: string) =>
+            onChange(
+              "goalPeriod",
+              isGoalPeriod(goalPeriod) ? goalPeriod : "day"
+            )
+          }
+        >
+          <SelectTrigger id="trackerGoalPeriodTrigger">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              {goalPeriods.map((goalPeriod) => (
+                <SelectItem key={goalPeriod} value={goalPeriod}>
+                  {goalPeriodsLabels[goalPeriod].adjective}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {canHaveGoal && (
+        <div className="grid items-center gap-3">
+          <Label htmlFor="trackerGoalDirectionTrigger">Goal type</Label>
+          <Select
+            value={value.goalDirection}
+            onValueChange={(goalDirection: string) =>
+              onChange(
+                "goalDirection",
+                isGoalDirection(goalDirection) ? goalDirection : "atLeast"
+              )
+            }
+          >
+            <SelectTrigger id="trackerGoalDirectionTrigger">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                {goalDirections.map((goalDirection) => (
+                  <SelectItem key={goalDirection} value={goalDirection}>
+                    {goalDirectionsLabels[goalDirection]}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {canHaveGoal && value.goalDirection === "range" && (
+        <div className="grid items-center gap-3">
+          <Label htmlFor="trackerGoal">{periodLabel} range (optional)</Label>
+          <div className="grid grid-cols-2 gap-2">
+            <NumberInput
+              id="trackerGoal"
+              value={toInputValue(value.goal)}
+              onChange={(displayValue) =>
+                onChange("goal", toGoalValue(displayValue))
+              }
+              {...inputProps}
+              placeholder="Minimum"
+            />
+            <NumberInput
+              id="trackerGoalMax"
+              value={toInputValue(value.goalMax)}
+              onChange={(displayValue) =>
+                onChange("goalMax", toGoalValue(displayValue))
+              }
+              {...inputProps}
+              placeholder="Maximum"
+            />
+          </div>
+        </div>
+      )}
+
+      {canHaveGoal && value.goalDirection !== "range" && (
+        <div className="grid items-center gap-3">
+          <Label htmlFor="trackerGoal">
+            {periodLabel} {value.goalDirection === "atMost" ? "limit" : "goal"}{" "}
+            (optional)
+          </Label>
+          <NumberInput
+            id="trackerGoal"
+            value={toInputValue(value.goal)}
+            onChange={(displayValue) =>
+              onChange("goal", toGoalValue(displayValue))
+            }
+            {...inputProps}
+          />
+        </div>
+      )}
+    </>
+  );
+}
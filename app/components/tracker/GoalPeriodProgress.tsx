@@ -0,0 +1,55 @@
+import {
+  formatGoal,
+  getGoalLimit,
+  getGoalPeriodTotal,
+  hasGoal,
+  isGoalExceeded,
+  isGoalMet,
+} from "~/lib/goals";
+import { formatStoredValue } from "~/lib/number-conversions";
+import { type Tracker, goalPeriodsLabels } from "~/lib/trackers";
+import { cn } from "~/lib/utils";
+
+type GoalPeriodProgressProps = {
+  tracker: Tracker;
+};
+
+// Shows week/month-to-date progress for weekly and monthly goals
+export function GoalPeriodProgress({ tracker }: GoalPeriodProgressProps) {
+  const goalPeriod = tracker.goalPeriod ?? "day";
+  if (!hasGoal(tracker) || goalPeriod === "day") {
+    return null;
+  }
+
+  const total = getGoalPeriodTotal(tracker.values, goalPeriod);
+  // Limits fill the bar towards the maximum instead of the target
+  const fullValue = getGoalLimit(tracker) ?? tracker.goal;
+  const progress =
+    fullValue > 0 ? Math.min(total / fullValue, 1) : total > 0 ? 1 : 0;
+  const periodLabel = goalPeriodsLabels[goalPeriod].singular;
+
+  return (
+    <div className="flex flex-col gap-1 pt-1">
+      <div
+        className="h-1 w-full rounded-full bg-accent overflow-hidden"
+        role="progressbar"
+        aria-label={`Goal progress this ${periodLabel}`}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(progress * 100)}
+      >
+        <div
+          className={cn("h-full rounded-full bg-zinc-400", {
+            "bg-green-600": isGoalMet(total, tracker),
+            "bg-red-600": isGoalExceeded(total, tracker),
+          })}
+          style={{ width: `${progress * 100}%` }}
+        />
+      </div>
+      <span className="text-xs font-normal opacity-60">
+        {formatStoredValue(total, tracker.type, false, tracker.displayUnit)}/
+        {formatGoal(tracker)} this {periodLabel}
+      </span>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { Calendar, Trash2 } from "lucide-react";
+import { Calendar, Pencil, Trash2 } from "lucide-react";
 import { Button } from "~/components/ui/button";
 import { Table, TableBody, TableCell, TableRow } from "~/components/ui/table";
 import {
@@ -7,6 +7,13 @@ import {
   TooltipContent,
 } from "~/components/ui/tooltip";
 import { formatDateString } from "~/lib/dates";
+import {
+  formatGoal,
+  getGoalForDate,
+  hasGoal,
+  isGoalExceeded,
+  isGoalMet,
+} from "~/lib/goals";
 import type { HistoryEntry } from "~/lib/history";
 import type { Tracker } from "~/lib/trackers";
 import { formatStoredValue, toDisplayValue } from "~/lib/number-conversions";
@@ -17,6 +24,7 @@ type HistoryDateGroupProps = {
   entries: HistoryEntry[];
   tracker: Tracker;
   onDeleteEntry: (entryId: string) => Promise<void>;
+  onEditEntry?: (entry: HistoryEntry) => void;
   deletingEntryId: string | null;
   entryLoading: boolean;
 };
@@ -26,6 +34,7 @@ export function HistoryDateGroup({
   entries,
   tracker,
   onDeleteEntry,
+  onEditEntry,
   deletingEntryId,
   entryLoading,
 }: HistoryDateGroupProps) {
@@ -50,16 +59,25 @@ export function HistoryDateGroup({
       return entry.value > 0 ? "✓ Tracked" : "✗ Not tracked";
     }
     // Format the stored integer value for display
-    const formattedValue = formatStoredValue(entry.value, tracker.type);
+    const formattedValue = formatStoredValue(
+      entry.value,
+      tracker.type,
+      false,
+      tracker.displayUnit
+    );
     const sign = entry.value < 0 ? "" : "+";
     return `${sign}${formattedValue}`;
   };
 
   const totalValue = entries.reduce((sum, e) => sum + e.value, 0);
+  const goal = { ...tracker, ...getGoalForDate(tracker, date) };
+  // Weekly/monthly goals don't apply to a single day
+  const hasDailyGoal = hasGoal(goal) && (goal.goalPeriod ?? "day") === "day";
   const isToday = date === formatDateString(new Date());
 
+  // Search results link to dates with #history-yyyy-MM-dd
   return (
-    <div className="space-y-2">
+    <div id={`history-${date}`} className="space-y-2 scroll-mt-4">
       <div className="flex items-center justify-between text-sm font-medium text-gray-700 dark:text-gray-300 pb-1">
         <div className="flex items-center gap-2">
           <Calendar className="h-3 w-3" />
@@ -72,18 +90,24 @@ export function HistoryDateGroup({
           <span className="text-xs text-gray-500">Total:</span>
           <span
             className={cn("font-semibold", {
-              "text-green-600": tracker.goal && totalValue >= tracker.goal,
+              "text-green-600": hasDailyGoal && isGoalMet(totalValue, goal),
+              "text-red-600": hasDailyGoal && isGoalExceeded(totalValue, goal),
             })}
           >
             {tracker.type === "checkbox"
               ? entries.some((e) => e.value > 0)
                 ? "✓"
                 : "✗"
-              : formatStoredValue(totalValue, tracker.type)}
+              : formatStoredValue(
+                  totalValue,
+                  tracker.type,
+                  false,
+                  tracker.displayUnit
+                )}
             {tracker.type !== "checkbox" &&
               tracker.isNumber &&
-              tracker.goal &&
-              ` / ${formatStoredValue(tracker.goal, tracker.type)}`}
+              hasDailyGoal &&
+              ` / ${formatGoal(goal)}`}
           </span>
         </div>
       </div>
@@ -115,7 +139,18 @@ export function HistoryDateGroup({
                     </Tooltip>
                   )}
                 </TableCell>
-                <TableCell className="w-12">
+                <TableCell className={onEditEntry ? "w-20" : "w-12"}>
+                  {onEditEntry && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onEditEntry(entry)}
+                      disabled={entryLoading}
+                      className="p-1 h-auto mr-1"
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                  )}
                   <Button
                     variant="ghost"
                     size="sm"
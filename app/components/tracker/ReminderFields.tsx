@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { Bell, X } from "lucide-react";
+import { NumberInput } from "~/components/NumberInput";
+import { Button } from "~/components/ui/button";
+import { Checkbox } from "~/components/ui/checkbox";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { generateId } from "~/lib/db";
+import {
+  type DisplayUnit,
+  getInputStep,
+  roundDisplayValue,
+  toDisplayValue,
+  toStoredValue,
+} from "~/lib/number-conversions";
+import { reminderWeekdays, reminderWeekdaysLabels } from "~/lib/reminders";
+import type { TrackerReminder, TrackerType } from "~/lib/trackers";
+
+type ReminderFieldsProps = {
+  type: TrackerType;
+  displayUnit?: DisplayUnit;
+  value: TrackerReminder[];
+  onChange: (reminders: TrackerReminder[]) => void;
+};
+
+const getNotificationPermission = () =>
+  typeof Notification !== "undefined" ? Notification.permission : "denied";
+
+// Reminder schedules shared by the tracker forms
+export function ReminderFields({
+  type,
+  displayUnit,
+  value,
+  onChange,
+}: ReminderFieldsProps) {
+  const [permission, setPermission] = useState(getNotificationPermission);
+
+  const updateReminder = (id: string, changes: Partial<TrackerReminder>) => {
+    onChange(
+      value.map((reminder) =>
+        reminder.id === id ? { ...reminder, ...changes } : reminder
+      )
+    );
+  };
+
+  const toggleWeekday = (reminder: TrackerReminder, weekday: number) => {
+    updateReminder(reminder.id, {
+      weekdays: reminder.weekdays.includes(weekday)
+        ? reminder.weekdays.filter((day) => day !== weekday)
+        : [...reminder.weekdays, weekday].sort((a, b) => a - b),
+    });
+  };
+
+  const handleAdd = async () => {
+    onChange([
+      ...value,
+      { id: generateId(), time: "20:00", weekdays: [0, 1, 2, 3, 4, 5, 6] },
+    ]);
+
+    if (permission === "default") {
+      setPermission(await Notification.requestPermission());
+    }
+  };
+
+  return (
+    <div className="grid items-center gap-3">
+      <Label>Reminders</Label>
+
+      {value.map((reminder) => (
+        <div key={reminder.id} className="grid gap-3 rounded-md border p-3">
+          <div className="flex items-center gap-2">
+            <Input
+              type="time"
+              aria-label="Reminder time"
+              value={reminder.time}
+              onChange={(e) =>
+                e.target.value &&
+                updateReminder(reminder.id, { time: e.target.value })
+              }
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label="Remove reminder"
+              onClick={() =>
+                onChange(value.filter(({ id }) => id !== reminder.id))
+              }
+            >
+              <X />
+            </Button>
+          </div>
+
+          <div className="flex gap-1">
+            {reminderWeekdays.map((weekday) => (
+              <Button
+                key={weekday}
+                type="button"
+                size="sm"
+                variant={
+                  reminder.weekdays.includes(weekday) ? "default" : "outline"
+                }
+                className="flex-1 px-0"
+                aria-pressed={reminder.weekdays.includes(weekday)}
+                onClick={() => toggleWeekday(reminder, weekday)}
+              >
+                {reminderWeekdaysLabels[weekday]}
+              </Button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Checkbox
+              id={`reminderGoal-${reminder.id}`}
+              checked={reminder.onlyIfGoalNotMet ?? false}
+              onCheckedChange={(checked) =>
+                updateReminder(reminder.id, {
+                  onlyIfGoalNotMet: checked === true || undefined,
+                })
+              }
+            />
+            <Label htmlFor={`reminderGoal-${reminder.id}`}>
+              Only if the goal isn't met yet
+            </Label>
+          </div>
+
+          {type !== "checkbox" && (
+            <div className="grid items-center gap-2">
+              <Label htmlFor={`reminderValue-${reminder.id}`}>
+                Value to log from the notification (optional)
+              </Label>
+              <NumberInput
+                id={`reminderValue-${reminder.id}`}
+                value={
+                  reminder.quickAddValue !== undefined
+                    ? roundDisplayValue(
+                        toDisplayValue(
+                          reminder.quickAddValue,
+                          type,
+                          displayUnit
+                        ),
+                        type,
+                        displayUnit
+                      )
+                    : null
+                }
+                onChange={(displayValue) =>
+                  updateReminder(reminder.id, {
+                    quickAddValue:
+                      displayValue !== null && displayValue > 0
+                        ? toStoredValue(displayValue, type, displayUnit)
+                        : undefined,
+                  })
+                }
+                step={getInputStep(type, displayUnit)}
+                format={type === "duration" ? "duration" : "number"}
+              />
+            </div>
+          )}
+        </div>
+      ))}
+
+      {value.length > 0 && permission === "denied" && (
+        <div className="text-sm text-red-600">
+          Notifications are blocked for this site in your browser settings
+        </div>
+      )}
+
+      <Button type="button" variant="outline" onClick={handleAdd}>
+        <Bell />
+        Add reminder
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { Timer } from "lucide-react";
+import { Link } from "react-router";
+import { useElapsedSeconds } from "~/lib/hooks";
+import { type RunningTimer, formatElapsed } from "~/lib/timers";
+import type { Tracker } from "~/lib/trackers";
+
+type RunningTimersProps = {
+  timers: RunningTimer[];
+  trackers: Tracker[];
+};
+
+function RunningTimerLink({
+  timer,
+  tracker,
+}: {
+  timer: RunningTimer;
+  tracker: Tracker;
+}) {
+  const elapsed = useElapsedSeconds(timer);
+
+  return (
+    <Link
+      to={`/t/${tracker.id}/log-entry`}
+      prefetch="viewport"
+      className="flex items-center gap-2 border rounded-xl px-3 py-2 text-sm transition-colors hover:bg-accent"
+    >
+      <Timer className="h-4 w-4 text-green-600 animate-pulse" />
+      <span className="flex-1 truncate">{tracker.title}</span>
+      <span className="font-semibold tabular-nums">
+        {formatElapsed(elapsed)}
+      </span>
+    </Link>
+  );
+}
+
+export function RunningTimers({ timers, trackers }: RunningTimersProps) {
+  // Skip timers of trackers that were deleted in the meantime
+  const items = timers.flatMap((timer) => {
+    const tracker = trackers.find((t) => t.id === timer.trackerId);
+    return tracker ? [{ timer, tracker }] : [];
+  });
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col gap-2 pb-4">
+      {items.map(({ timer, tracker }) => (
+        <RunningTimerLink
+          key={timer.trackerId}
+          timer={timer}
+          tracker={tracker}
+        />
+      ))}
+    </div>
+  );
+}
@@ -3,13 +3,14 @@ import { useMemo } from "react";
 import { HistoryDateGroup } from "./HistoryDateGroup";
 import type { Tracker } from "~/lib/trackers";
 import type { HistoryEntry } from "~/lib/history";
-import { toDisplayValue, displayUnits } from "~/lib/number-conversions";
+import { formatStoredValue, getDisplayUnit } from "~/lib/number-conversions";
 import { format, subDays } from "date-fns";
 
 type TrackerHistoryProps = {
   history: HistoryEntry[];
   tracker: Tracker;
   onDeleteEntry: (entryId: string) => Promise<void>;
+  onEditEntry?: (entry: HistoryEntry) => void;
   deletingEntryId: string | null;
   entryLoading: boolean;
   withoutStats?: boolean;
@@ -20,6 +21,7 @@ export function TrackerHistory(props: TrackerHistoryProps) {
     history,
     tracker,
     onDeleteEntry,
+    onEditEntry,
     deletingEntryId,
     entryLoading,
     withoutStats,
@@ -81,21 +83,36 @@ export function TrackerHistory(props: TrackerHistoryProps) {
 
     return {
       week: {
-        total: toDisplayValue(weekTotal, tracker.type),
+        total: formatStoredValue(
+          weekTotal,
+          tracker.type,
+          false,
+          tracker.displayUnit
+        ),
         entriesCount: weekCount,
       },
       month: {
-        total: toDisplayValue(monthTotal, tracker.type),
+        total: formatStoredValue(
+          monthTotal,
+          tracker.type,
+          false,
+          tracker.displayUnit
+        ),
         entriesCount: monthCount,
       },
       year: {
-        total: toDisplayValue(yearTotal, tracker.type),
+        total: formatStoredValue(
+          yearTotal,
+          tracker.type,
+          false,
+          tracker.displayUnit
+        ),
         entriesCount: yearCount,
       },
     };
-  }, [history, tracker.type]);
+  }, [history, tracker.type, tracker.displayUnit]);
 
-  const unit = displayUnits[tracker.type];
+  const unit = getDisplayUnit(tracker.type, tracker.displayUnit);
 
   return history.length === 0 ? (
     <div className="text-center py-8">
@@ -164,6 +181,7 @@ export function TrackerHistory(props: TrackerHistoryProps) {
           entries={entries}
           tracker={tracker}
           onDeleteEntry={onDeleteEntry}
+          onEditEntry={onEditEntry}
           deletingEntryId={deletingEntryId}
           entryLoading={entryLoading}
         />
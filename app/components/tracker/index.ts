@@ -1,5 +1,13 @@
 export { TrackerHeader } from "./TrackerHeader";
 export { EntryInput } from "./EntryInput";
+export { EntryTimer } from "./EntryTimer";
+export { EditEntryDialog } from "./EditEntryDialog";
+export type { EntryChanges } from "./EditEntryDialog";
+export { GoalFields } from "./GoalFields";
+export type { GoalFieldsValue } from "./GoalFields";
+export { GoalPeriodProgress } from "./GoalPeriodProgress";
+export { ReminderFields } from "./ReminderFields";
+export { RunningTimers } from "./RunningTimers";
 export { TrackerHistory } from "./TrackerHistory";
 export { HistoryDateGroup } from "./HistoryDateGroup";
 export type { Tracker } from "~/lib/trackers";
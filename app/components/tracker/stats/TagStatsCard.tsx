@@ -0,0 +1,128 @@
+import { format } from "date-fns";
+import { Link } from "react-router";
+import { Line, LineChart, XAxis } from "recharts";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card";
+import {
+  type ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "~/components/ui/chart";
+import { parseLocalDate } from "~/lib/dates";
+import { formatStoredValue, toDisplayValue } from "~/lib/number-conversions";
+import type { TagStats, TagTrendPeriod } from "~/lib/tag-stats";
+import type { Tracker } from "~/lib/trackers";
+
+interface TagStatsCardProps {
+  tracker: Tracker;
+  stats: TagStats;
+  trendPeriod: TagTrendPeriod;
+  statsUrl: string;
+}
+
+export function TagStatsCard({
+  tracker,
+  stats,
+  trendPeriod,
+  statsUrl,
+}: TagStatsCardProps) {
+  const formatValue = (value: number) =>
+    formatStoredValue(value, tracker.type, true, tracker.displayUnit);
+
+  const chartData = stats.trend.map(({ periodStart, total }) => {
+    const date = parseLocalDate(periodStart);
+    return {
+      label: format(date, trendPeriod === "week" ? "MMM d" : "MMM yyyy"),
+      fullDate:
+        trendPeriod === "week"
+          ? `Week of ${format(date, "MMM d, yyyy")}`
+          : format(date, "MMMM yyyy"),
+      value: toDisplayValue(total, tracker.type, tracker.displayUnit),
+    };
+  });
+
+  const chartConfig = {
+    value: {
+      label: `#${stats.displayName}`,
+      color: "var(--chart-1)",
+    },
+  } satisfies ChartConfig;
+
+  return (
+    <Card className="select-none">
+      <CardHeader>
+        <CardTitle>
+          <Link to={statsUrl} className="underline-offset-4 hover:underline">
+            #{stats.displayName}
+          </Link>
+        </CardTitle>
+        <CardDescription>
+          {stats.share.toFixed(1)}% of the total
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4">
+        <div className="grid grid-cols-3 gap-2 text-sm">
+          <div>
+            <div className="text-muted-foreground">Total</div>
+            <div className="font-medium">{formatValue(stats.total)}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Uses</div>
+            <div className="font-medium">{stats.count}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Per use</div>
+            <div className="font-medium">
+              {formatValue(Math.round(stats.averagePerUse))}
+            </div>
+          </div>
+        </div>
+
+        {chartData.length > 1 && (
+          <ChartContainer config={chartConfig} className="aspect-auto h-24">
+            <LineChart
+              accessibilityLayer
+              data={chartData}
+              margin={{ left: 12, right: 12 }}
+            >
+              <XAxis
+                dataKey="label"
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+                minTickGap={30}
+                interval="preserveStartEnd"
+              />
+              <ChartTooltip
+                cursor={false}
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => {
+                      if (payload && payload.length > 0) {
+                        return payload[0].payload.fullDate;
+                      }
+                      return "";
+                    }}
+                  />
+                }
+              />
+              <Line
+                dataKey="value"
+                type="monotone"
+                stroke="var(--color-value)"
+                strokeWidth={2}
+                dot={false}
+              />
+            </LineChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
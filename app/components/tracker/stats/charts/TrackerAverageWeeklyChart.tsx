@@ -89,7 +89,11 @@ export function TrackerAverageWeeklyChart({
     const weekKey = format(currentDate, "yyyy-MM-dd");
     const weekData = weeklyData.get(weekKey);
     const averageValue = weekData ? weekData.total / weekData.days : 0;
-    const displayValue = toDisplayValue(averageValue, tracker.type);
+    const displayValue = toDisplayValue(
+      averageValue,
+      tracker.type,
+      tracker.displayUnit
+    );
 
     chartData.push({
       label: format(currentDate, "MMM d"),
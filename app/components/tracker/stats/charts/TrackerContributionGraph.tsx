@@ -9,6 +9,13 @@ import { ChevronLeft, ChevronRight } from "lucide-react";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { cn } from "~/lib/utils";
 import { formatStoredValue } from "~/lib/number-conversions";
+import {
+  type GoalSettings,
+  getGoalForDate,
+  getGoalPeriodTotal,
+  hasGoal,
+  isGoalExceeded,
+} from "~/lib/goals";
 import { ScrollArea, ScrollBar } from "~/components/ui/scroll-area";
 import type { Tracker } from "~/lib/trackers";
 import {
@@ -50,16 +57,18 @@ const colorClassNamesGoal = [
   "bg-accent",
 ];
 
+const overLimitColorClassName = "bg-rose-500";
+
 const getContributionColorClassName = (
   value: number,
-  goalValue: number | undefined,
+  goal: GoalSettings,
   maxValue: number
 ): string => {
   if (value <= 0) {
     return colorClassNamesNoGoal[colorClassNamesNoGoal.length - 1];
   }
 
-  if (!goalValue || goalValue <= 0) {
+  if (!hasGoal(goal)) {
     // No goal set, use percentage of max value
     if (maxValue <= 0) return colorClassNamesNoGoal[0];
 
@@ -72,8 +81,12 @@ const getContributionColorClassName = (
     return colorClassNamesNoGoal[colorClassNamesNoGoal.length - 1];
   }
 
-  // Color based on percentage of goal
-  const percentage = value / goalValue;
+  if (isGoalExceeded(value, goal)) return overLimitColorClassName;
+  // Anything within a limit is a success
+  if (goal.goalDirection === "atMost") return colorClassNamesGoal[0];
+
+  // Color based on percentage of goal (the minimum of ranges)
+  const percentage = goal.goal > 0 ? value / goal.goal : 1;
   if (percentage >= 1) return colorClassNamesGoal[0]; // 100%+ of goal
   if (percentage >= 0.75) return colorClassNamesGoal[1]; // 75%+ of goal
   if (percentage >= 0.5) return colorClassNamesGoal[2]; // 50%+ of goal
@@ -82,6 +95,49 @@ const getContributionColorClassName = (
   return colorClassNamesGoal[colorClassNamesGoal.length - 1];
 };
 
+const getLegendItems = (
+  goal: GoalSettings
+): Array<{ className: string; label: string }> => {
+  if (!hasGoal(goal)) {
+    const labels = [
+      "High activity",
+      "Medium activity",
+      "Low activity",
+      "Minimal activity",
+      "No activity",
+    ];
+    return colorClassNamesNoGoal.map((className, i) => ({
+      className,
+      label: labels[i],
+    }));
+  }
+
+  const overLimit = { className: overLimitColorClassName, label: "Over limit" };
+  if (goal.goalDirection === "atMost") {
+    return [
+      overLimit,
+      { className: colorClassNamesGoal[0], label: "Within limit" },
+      {
+        className: colorClassNamesGoal[colorClassNamesGoal.length - 1],
+        label: "No activity",
+      },
+    ];
+  }
+
+  const labels = [
+    "Goal met",
+    "75%+ of goal",
+    "50%+ of goal",
+    "Some progress",
+    "No activity",
+  ];
+  const items = colorClassNamesGoal.map((className, i) => ({
+    className,
+    label: labels[i],
+  }));
+  return goal.goalDirection === "range" ? [overLimit, ...items] : items;
+};
+
 const eachDayOfInterval = (start: Date, end: Date): Date[] => {
   const days: Date[] = [];
   const current = new Date(start);
@@ -192,12 +248,39 @@ export function TrackerContributionGraph({
     return { dailyValues: values, maxDailyValue: max };
   }, [entries]);
 
+  // Days are colored by the goal in force on them, weekly/monthly goals by
+  // the period-to-date total
+  const dayGoals = useMemo(() => {
+    const values: Record<string, number> = {};
+    entries.forEach((entry) => {
+      values[entry.date] = (values[entry.date] || 0) + entry.value;
+    });
+
+    const goals = new Map<
+      string,
+      { goal: GoalSettings; periodValue: number | null }
+    >();
+    weeks.flat().forEach((day) => {
+      if (!day) return;
+      const goal = getGoalForDate(tracker, formatDate(day, "yyyy-MM-dd"));
+      const goalPeriod = goal.goalPeriod ?? "day";
+      goals.set(formatDate(day, "yyyyMMdd"), {
+        goal,
+        periodValue:
+          goalPeriod !== "day"
+            ? getGoalPeriodTotal(values, goalPeriod, day)
+            : null,
+      });
+    });
+    return goals;
+  }, [entries, weeks, tracker]);
+
   const formatValue = useCallback(
     (value: number): string => {
       if (value === 0) return "0";
-      return formatStoredValue(value, tracker.type, true);
+      return formatStoredValue(value, tracker.type, true, tracker.displayUnit);
     },
-    [tracker.type]
+    [tracker.type, tracker.displayUnit]
   );
 
   useEffect(() => {
@@ -353,6 +436,7 @@ export function TrackerContributionGraph({
 
                     const dateKey = formatDate(day, "yyyyMMdd");
                     const dailyValue = dailyValues.get(dateKey) || 0;
+                    const dayGoal = dayGoals.get(dateKey);
 
                     return (
                       <Tooltip
@@ -367,8 +451,12 @@ export function TrackerContributionGraph({
                             className={cn(
                               "block h-3 w-3 rounded-xs hover:ring-2 hover:ring-ring focus-visible:ring-2 focus-visible:ring-ring focus-visible:outline-none",
                               getContributionColorClassName(
-                                dailyValue,
-                                tracker.goal,
+                                dailyValue > 0 &&
+                                  dayGoal &&
+                                  dayGoal.periodValue !== null
+                                  ? dayGoal.periodValue
+                                  : dailyValue,
+                                dayGoal?.goal ?? tracker,
                                 maxDailyValue
                               )
                             )}
@@ -407,27 +495,7 @@ export function TrackerContributionGraph({
         <div className="px-6 flex items-center gap-2 text-muted-foreground text-sm">
           <span>Less</span>
           <div className="flex flex-row-reverse gap-1">
-            {(tracker.goal && tracker.goal > 0
-              ? colorClassNamesGoal
-              : colorClassNamesNoGoal
-            ).map((className, i) => {
-              const hasGoal = tracker.goal && tracker.goal > 0;
-              const labels = hasGoal
-                ? [
-                    "Goal met",
-                    "75%+ of goal",
-                    "50%+ of goal",
-                    "Some progress",
-                    "No activity",
-                  ]
-                : [
-                    "High activity",
-                    "Medium activity",
-                    "Low activity",
-                    "Minimal activity",
-                    "No activity",
-                  ];
-
+            {getLegendItems(tracker).map(({ className, label }, i) => {
               return (
                 <Tooltip key={i}>
                   <TooltipTrigger asChild>
@@ -437,11 +505,11 @@ export function TrackerContributionGraph({
                         "block h-3 w-3 rounded-xs hover:ring-2 hover:ring-ring focus-visible:ring-2 focus-visible:ring-ring focus-visible:outline-none",
                         className
                       )}
-                      aria-label={labels[i]}
+                      aria-label={label}
                     />
                   </TooltipTrigger>
                   <TooltipContent className="pointer-events-none">
-                    <div className="text-sm">{labels[i]}</div>
+                    <div className="text-sm">{label}</div>
                   </TooltipContent>
                 </Tooltip>
               );
@@ -16,7 +16,8 @@ import {
 import type { Tracker } from "../../../../lib/trackers";
 import {
   toDisplayValue,
-  displayUnits,
+  getDisplayUnit,
+  formatDisplayValue,
 } from "../../../../lib/number-conversions";
 import { differenceInDays, format } from "date-fns";
 import { toMidnight } from "~/lib/dates";
@@ -66,7 +67,11 @@ export function TrackerCumulativeChart({
     const dateKey = format(currentDate, "yyyy-MM-dd");
     const dailyValue = dateValues.get(dateKey) || 0;
     cumulativeTotal += dailyValue;
-    const displayValue = toDisplayValue(cumulativeTotal, tracker.type);
+    const displayValue = toDisplayValue(
+      cumulativeTotal,
+      tracker.type,
+      tracker.displayUnit
+    );
 
     // Adjust label density based on date range
     let label: string;
@@ -118,6 +123,17 @@ export function TrackerCumulativeChart({
   const totalDays = days + 1;
   const avgDailyIncrease = finalValue / totalDays;
 
+  const formatSummaryValue = (value: number) => {
+    // Durations are charted in minutes but read better as hours/minutes
+    if (tracker.type === "duration") {
+      return formatDisplayValue(value, tracker.type);
+    }
+    return `${value.toFixed(2)} ${getDisplayUnit(
+      tracker.type,
+      tracker.displayUnit
+    ).trim()}`;
+  };
+
   return (
     <Card className="select-none">
       <CardHeader>
@@ -167,12 +183,10 @@ export function TrackerCumulativeChart({
       {hasData && (
         <CardFooter className="flex-col items-start gap-2 text-sm">
           <div className="text-muted-foreground leading-none">
-            Total accumulated: {finalValue.toFixed(2)}{" "}
-            {displayUnits[tracker.type]}
+            Total accumulated: {formatSummaryValue(finalValue)}
           </div>
           <div className="text-muted-foreground leading-none">
-            Average daily: {avgDailyIncrease.toFixed(2)}{" "}
-            {displayUnits[tracker.type]}
+            Average daily: {formatSummaryValue(avgDailyIncrease)}
           </div>
         </CardFooter>
       )}
@@ -1,5 +1,12 @@
 import { TrendingUp } from "lucide-react";
-import { Bar, BarChart, CartesianGrid, XAxis } from "recharts";
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  XAxis,
+  YAxis,
+} from "recharts";
 import {
   Card,
   CardContent,
@@ -18,9 +25,11 @@ import type { Tracker } from "../../../../lib/trackers";
 import {
   toDisplayValue,
   displayUnits,
+  formatDisplayValue,
 } from "../../../../lib/number-conversions";
 import { format } from "date-fns";
 import { toMidnight } from "~/lib/dates";
+import { getGoalForDate, getGoalLimit, hasGoal } from "~/lib/goals";
 
 interface Entry {
   id: string;
@@ -61,6 +70,8 @@ export function TrackerTotalDailyChart({
     label: string;
     fullDate: string;
     value: number;
+    goal?: number;
+    goalMax?: number;
     sortKey: string;
   }[] = [];
   const currentDate = new Date(fromDateMid);
@@ -68,12 +79,29 @@ export function TrackerTotalDailyChart({
   while (currentDate <= toDateMid) {
     const dateKey = format(currentDate, "yyyy-MM-dd");
     const storedValue = dateValues.get(dateKey) || 0;
-    const displayValue = toDisplayValue(storedValue, tracker.type);
+    const displayValue = toDisplayValue(
+      storedValue,
+      tracker.type,
+      tracker.displayUnit
+    );
+
+    // Goal lines follow the daily goal in force on each date
+    const goal = getGoalForDate(tracker, dateKey);
+    const hasDailyGoal = hasGoal(goal) && (goal.goalPeriod ?? "day") === "day";
+    const goalMax =
+      goal.goalDirection === "range" ? getGoalLimit(goal) : undefined;
 
     chartData.push({
       label: format(currentDate, "MMM d"),
       fullDate: format(currentDate, "MMM d, yyyy"),
       value: displayValue,
+      goal: hasDailyGoal
+        ? toDisplayValue(goal.goal, tracker.type, tracker.displayUnit)
+        : undefined,
+      goalMax:
+        hasDailyGoal && goalMax !== undefined
+          ? toDisplayValue(goalMax, tracker.type, tracker.displayUnit)
+          : undefined,
       sortKey: dateKey,
     });
 
@@ -85,6 +113,14 @@ export function TrackerTotalDailyChart({
       label: tracker.title,
       color: "var(--chart-1)",
     },
+    goal: {
+      label: "Goal",
+      color: "var(--chart-2)",
+    },
+    goalMax: {
+      label: "Goal maximum",
+      color: "var(--chart-2)",
+    },
   } satisfies ChartConfig;
 
   // Calculate trend
@@ -95,6 +131,13 @@ export function TrackerTotalDailyChart({
   const isPositiveTrend = trend > 0;
 
   const hasData = chartData.some((d) => d.value > 0);
+  const hasGoalLine = chartData.some((d) => d.goal !== undefined);
+  const hasGoalMaxLine = chartData.some((d) => d.goalMax !== undefined);
+
+  // Durations are charted in minutes, label them as hours/minutes instead
+  const isDuration = tracker.type === "duration";
+  const formatValue = (value: number) =>
+    formatDisplayValue(value, tracker.type, true, tracker.displayUnit);
 
   return (
     <Card className="select-none">
@@ -108,7 +151,7 @@ export function TrackerTotalDailyChart({
       <CardContent>
         {hasData ? (
           <ChartContainer config={chartConfig}>
-            <BarChart
+            <ComposedChart
               accessibilityLayer
               data={chartData}
               margin={{
@@ -125,6 +168,14 @@ export function TrackerTotalDailyChart({
                 minTickGap={30}
                 interval="preserveStartEnd"
               />
+              {isDuration && (
+                <YAxis
+                  tickLine={false}
+                  axisLine={false}
+                  width={48}
+                  tickFormatter={formatValue}
+                />
+              )}
               <ChartTooltip
                 cursor={false}
                 content={
@@ -135,11 +186,46 @@ export function TrackerTotalDailyChart({
                       }
                       return "";
                     }}
+                    formatter={
+                      isDuration
+                        ? (value, name) => (
+                            <div className="flex flex-1 justify-between items-center gap-2 leading-none">
+                              <span className="text-muted-foreground">
+                                {chartConfig[name as keyof typeof chartConfig]
+                                  ?.label ?? tracker.title}
+                              </span>
+                              <span className="text-foreground font-mono font-medium tabular-nums">
+                                {formatValue(Number(value))}
+                              </span>
+                            </div>
+                          )
+                        : undefined
+                    }
                   />
                 }
               />
               <Bar dataKey="value" fill="var(--color-value)" radius={4} />
-            </BarChart>
+              {hasGoalLine && (
+                <Line
+                  dataKey="goal"
+                  type="stepAfter"
+                  stroke="var(--color-goal)"
+                  strokeDasharray="4 4"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              )}
+              {hasGoalMaxLine && (
+                <Line
+                  dataKey="goalMax"
+                  type="stepAfter"
+                  stroke="var(--color-goalMax)"
+                  strokeDasharray="4 4"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              )}
+            </ComposedChart>
           </ChartContainer>
         ) : (
           <div className="flex items-center justify-center h-64 text-muted-foreground">
@@ -76,7 +76,11 @@ export function TrackerTotalWeeklyChart({
   while (currentDate <= endWeek) {
     const weekKey = format(currentDate, "yyyy-MM-dd");
     const storedValue = weeklyData.get(weekKey) || 0;
-    const displayValue = toDisplayValue(storedValue, tracker.type);
+    const displayValue = toDisplayValue(
+      storedValue,
+      tracker.type,
+      tracker.displayUnit
+    );
 
     chartData.push({
       label: format(currentDate, "MMM d"),
@@ -0,0 +1,228 @@
+import { describe, test, expect, beforeEach } from "bun:test";
+import {
+  clearAllData,
+  deleteCustomUnit,
+  getAllCustomUnits,
+  getDB,
+  saveCustomUnit,
+  saveTrackerWithId,
+} from "./db";
+import { exportData, importData, validateExportData } from "./data";
+import {
+  formatStoredValue,
+  getDisplayUnit,
+  parseInputToStored,
+  toDisplayValue,
+} from "./number-conversions";
+import { getQuickAddValues } from "./entry-quick-add-values";
+import { getTrackerTypeLabels, toCustomTrackerType } from "./trackers";
+import { validateCustomUnit } from "./custom-units";
+
+// Mock IndexedDB for testing
+import "fake-indexeddb/auto";
+
+describe("Custom units", () => {
+  beforeEach(async () => {
+    await clearAllData();
+  });
+
+  describe("Number conversions", () => {
+    test("resolves factor, decimals and unit of a saved custom unit", async () => {
+      const unit = await saveCustomUnit({
+        label: "Euros",
+        short: "EUR",
+        shortest: "€",
+        factor: 100,
+        decimals: 2,
+      });
+      const type = toCustomTrackerType(unit.id);
+
+      expect(parseInputToStored("12.34", type)).toBe(1234);
+      expect(toDisplayValue(1234, type)).toBe(12.34);
+      expect(formatStoredValue(1250, type)).toBe("12.5");
+      expect(formatStoredValue(1250, type, true)).toBe("12.5€");
+      expect(getDisplayUnit(type)).toBe("€");
+      expect(getTrackerTypeLabels(type)).toEqual({
+        shortest: "€",
+        short: "EUR",
+        long: "Euros (€)",
+      });
+    });
+
+    test("derives quick-add values from the unit factor", async () => {
+      const unit = await saveCustomUnit({
+        label: "Pages",
+        short: "pages",
+        shortest: "",
+        factor: 1,
+        decimals: 0,
+      });
+
+      const quickAddValues = getQuickAddValues(toCustomTrackerType(unit.id));
+      expect(quickAddValues).toEqual([
+        { label: "1", value: 1 },
+        { label: "5", value: 5 },
+        { label: "10", value: 10 },
+        { label: "50", value: 50 },
+      ]);
+    });
+
+    test("falls back to generic values for unknown custom units", () => {
+      const type = toCustomTrackerType("missing-unit");
+
+      expect(parseInputToStored("1.5", type)).toBe(1500);
+      expect(formatStoredValue(1500, type, true)).toBe("1.5");
+      expect(getTrackerTypeLabels(type).short).toBe("None");
+    });
+
+    test("deleted units still format existing values", async () => {
+      const unit = await saveCustomUnit({
+        label: "Minutes",
+        short: "min",
+        shortest: "m",
+        factor: 1,
+        decimals: 0,
+      });
+      await deleteCustomUnit(unit.id);
+
+      expect(await getAllCustomUnits()).toEqual([]);
+      expect(formatStoredValue(45, toCustomTrackerType(unit.id), true)).toBe(
+        "45m"
+      );
+    });
+  });
+
+  describe("Validation", () => {
+    test("rejects invalid unit definitions", () => {
+      const errors = validateCustomUnit({
+        label: " ",
+        short: "",
+        factor: 0.5,
+        decimals: 7,
+      });
+
+      expect(Object.keys(errors).sort()).toEqual([
+        "decimals",
+        "factor",
+        "label",
+        "short",
+      ]);
+    });
+
+    test("accepts valid unit definitions", () => {
+      expect(
+        validateCustomUnit({
+          label: "Cups",
+          short: "cups",
+          factor: 10,
+          decimals: 1,
+        })
+      ).toEqual({});
+    });
+  });
+
+  describe("Export and import", () => {
+    test("round-trips custom units through export and replace import", async () => {
+      const unit = await saveCustomUnit({
+        label: "Kilocalories",
+        short: "kcal",
+        shortest: "kcal",
+        factor: 1,
+        decimals: 0,
+      });
+      await saveTrackerWithId(
+        {
+          id: "tracker-1",
+          title: "Calories",
+          type: toCustomTrackerType(unit.id),
+          isNumber: true,
+        },
+        true
+      );
+
+      const exported = await exportData();
+      expect(validateExportData(exported)).toEqual([]);
+      expect(exported.customUnits?.length).toBe(1);
+
+      await clearAllData();
+      expect(await getAllCustomUnits()).toEqual([]);
+
+      await importData(exported, true);
+
+      const units = await getAllCustomUnits();
+      expect(units.length).toBe(1);
+      expect(units[0].label).toBe("Kilocalories");
+      expect(formatStoredValue(250, toCustomTrackerType(unit.id), true)).toBe(
+        "250kcal"
+      );
+    });
+
+    test("merge keeps the newer unit definition", async () => {
+      const db = await getDB();
+      await db.put("custom_units", {
+        id: "unit-1",
+        label: "Old name",
+        short: "old",
+        shortest: "",
+        factor: 1,
+        decimals: 0,
+        updatedAt: new Date("2024-01-02T10:00:00Z"),
+      });
+
+      await importData(
+        {
+          version: "1.0.0",
+          schemaVersion: 2,
+          exportDate: new Date().toISOString(),
+          trackers: [],
+          tags: [],
+          customUnits: [
+            {
+              id: "unit-1",
+              label: "Older remote name",
+              short: "older",
+              shortest: "",
+              factor: 1,
+              decimals: 0,
+              updatedAt: "2024-01-01T10:00:00Z",
+            },
+            {
+              id: "unit-2",
+              label: "Remote unit",
+              short: "remote",
+              shortest: "r",
+              factor: 10,
+              decimals: 1,
+              updatedAt: "2024-01-01T10:00:00Z",
+            },
+          ],
+        },
+        false
+      );
+
+      const units = await getAllCustomUnits();
+      expect(units.map((u) => u.label)).toEqual(["Old name", "Remote unit"]);
+      expect(formatStoredValue(15, toCustomTrackerType("unit-2"), true)).toBe(
+        "1.5r"
+      );
+    });
+
+    test("validation reports malformed custom units", () => {
+      expect(
+        validateExportData({
+          version: "1.0.0",
+          schemaVersion: 2,
+          exportDate: new Date().toISOString(),
+          trackers: [],
+          tags: [],
+          customUnits: [{ id: "unit-1", label: "No factor" }],
+        }).map((error) => error.path)
+      ).toEqual([
+        "customUnits[0].short",
+        "customUnits[0].shortest",
+        "customUnits[0].factor",
+        "customUnits[0].decimals",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+export type CustomUnit = {
+  id: string;
+  label: string; // Long form, e.g. "Minutes"
+  short: string; // Short form, e.g. "min"
+  shortest: string; // Unit suffix shown next to values, e.g. "m"
+  factor: number; // Stored integer = display value * factor
+  decimals: number; // Decimal places shown for display values
+  deletedAt?: Date;
+  updatedAt?: Date;
+};
+
+// In-memory mirror of the custom_units store so that the synchronous
+// conversion helpers in number-conversions.ts can resolve custom units.
+// Populated by loadCustomUnits() in db.ts.
+const customUnitsRegistry = new Map<string, CustomUnit>();
+
+/**
+ * Replaces the registry contents with the given units
+ * (deleted units are kept so existing entries still format correctly)
+ */
+export function setRegisteredCustomUnits(units: CustomUnit[]): void {
+  customUnitsRegistry.clear();
+  for (const unit of units) {
+    customUnitsRegistry.set(unit.id, unit);
+  }
+}
+
+/**
+ * Gets a custom unit from the registry
+ * @param id - The custom unit ID
+ * @returns The custom unit or undefined if it is not registered
+ */
+export function getRegisteredCustomUnit(id: string): CustomUnit | undefined {
+  return customUnitsRegistry.get(id);
+}
+
+type CustomUnitField = "label" | "short" | "factor" | "decimals";
+
+/**
+ * Validates user-provided custom unit fields
+ * @returns An error message per invalid field (empty if valid)
+ */
+export function validateCustomUnit(
+  unit: Pick<CustomUnit, CustomUnitField>
+): Partial<Record<CustomUnitField, string>> {
+  const errors: Partial<Record<CustomUnitField, string>> = {};
+
+  if (!unit.label.trim()) {
+    errors.label = "Unit name is required";
+  }
+  if (!unit.short.trim()) {
+    errors.short = "Short name is required";
+  }
+  if (!Number.isInteger(unit.factor) || unit.factor < 1) {
+    errors.factor = "Storage factor must be a positive whole number";
+  }
+  if (
+    !Number.isInteger(unit.decimals) ||
+    unit.decimals < 0 ||
+    unit.decimals > 6
+  ) {
+    errors.decimals = "Decimals must be a whole number between 0 and 6";
+  }
+
+  return errors;
+}
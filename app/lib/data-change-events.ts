@@ -8,6 +8,7 @@ export type DataChangeType =
   | "entry_added"
   | "entry_updated"
   | "entry_deleted"
+  | "custom_unit_updated"
   | "data_imported";
 
 export interface DataChangeEvent {
@@ -94,14 +95,36 @@ export interface DebouncedDispatcher {
     type: DataChangeType,
     details?: DataChangeEvent["details"]
   ) => void;
+  // Delays the debounced event for at least this long, e.g. while a change
+  // can still be undone
+  hold: (ms: number) => void;
   cleanup: () => void;
 }
 
 // Create a debounced dispatcher for backward compatibility
 function createDebouncedDispatcher(debounceMs = 2000): DebouncedDispatcher {
   let timeout: NodeJS.Timeout | null = null;
+  let holdUntil = 0;
   const localPendingChanges = new Set<DataChangeType>();
 
+  const schedule = (): void => {
+    if (timeout) {
+      clearTimeout(timeout);
+    }
+
+    timeout = setTimeout(() => {
+      if (localPendingChanges.size > 0) {
+        const debouncedEvent: DebouncedChangeEvent = {
+          types: Array.from(localPendingChanges),
+          timestamp: new Date(),
+        };
+        debouncedChangeEvent.dispatch(debouncedEvent);
+        localPendingChanges.clear();
+      }
+      timeout = null;
+    }, Math.max(debounceMs, holdUntil - Date.now()));
+  };
+
   const dispatch = (
     type: DataChangeType,
     details?: DataChangeEvent["details"]
@@ -114,26 +137,16 @@ function createDebouncedDispatcher(debounceMs = 2000): DebouncedDispatcher {
     };
     dataChangeEvent.dispatch(event);
 
-    // Add to pending changes
+    // Add to pending changes and restart the timeout
     localPendingChanges.add(type);
+    schedule();
+  };
 
-    // Clear existing timeout
+  const hold = (ms: number): void => {
+    holdUntil = Math.max(holdUntil, Date.now() + ms);
     if (timeout) {
-      clearTimeout(timeout);
+      schedule();
     }
-
-    // Set new timeout
-    timeout = setTimeout(() => {
-      if (localPendingChanges.size > 0) {
-        const debouncedEvent: DebouncedChangeEvent = {
-          types: Array.from(localPendingChanges),
-          timestamp: new Date(),
-        };
-        debouncedChangeEvent.dispatch(debouncedEvent);
-        localPendingChanges.clear();
-      }
-      timeout = null;
-    }, debounceMs);
   };
 
   const cleanup = (): void => {
@@ -144,7 +157,7 @@ function createDebouncedDispatcher(debounceMs = 2000): DebouncedDispatcher {
     localPendingChanges.clear();
   };
 
-  return { dispatch, cleanup };
+  return { dispatch, hold, cleanup };
 }
 
 // Global instance for debounced changes (2 second debounce)
@@ -1,10 +1,4 @@
-import {
-  downloadDataAsJson,
-  loadDataFromFile,
-  importData,
-  validateExportData,
-} from "./data";
-import { debouncedDataChange } from "./data-change-events";
+import { downloadDataAsJson } from "./data";
 
 export interface DataOperationResult {
   success: boolean;
@@ -30,42 +24,3 @@ export async function exportAllData(): Promise<DataOperationResult> {
     };
   }
 }
-
-/**
- * Import data from a JSON file, replacing all existing data
- * @returns Promise with operation result
- */
-export async function importAllData(): Promise<DataOperationResult> {
-  try {
-    const data = await loadDataFromFile();
-
-    if (!validateExportData(data)) {
-      throw new Error("Invalid data format");
-    }
-
-    await importData(data, true);
-    debouncedDataChange.dispatch("data_imported");
-    return {
-      success: true,
-      message: "Data imported successfully. Please refresh the page.",
-    };
-  } catch (error) {
-    console.error("Failed to import data:", error);
-    return {
-      success: false,
-      message: "Failed to import data. Check console for details.",
-    };
-  }
-}
-
-/**
- * Import data from a JSON file with confirmation
- * @returns Promise with operation result or null if cancelled
- */
-export async function importAllDataWithConfirmation(): Promise<DataOperationResult | null> {
-  if (!confirm("Import data? This will replace all existing data.")) {
-    return null;
-  }
-
-  return importAllData();
-}
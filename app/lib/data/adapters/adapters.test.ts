@@ -0,0 +1,225 @@
+import {
+  describe,
+  test,
+  expect,
+  beforeEach,
+  afterEach,
+} from "bun:test";
+import { detectImportAdapter, getImportAdapter } from ".";
+import { importEntries, planEntryImport, summarizeEntryImport } from "..";
+import {
+  clearAllData,
+  createEntryWithId,
+  getAllTrackers,
+  saveTrackerWithId,
+} from "../../db";
+import { setUnitSystem } from "../../user-settings";
+
+// Mock IndexedDB for testing
+import "fake-indexeddb/auto";
+
+const loopCsv = [
+  "Date,Meditate,Push-ups,",
+  "2024-01-03,2,15000,",
+  "2024-01-02,1,-1,",
+  "2024-01-01,2,2500,",
+].join("\n");
+
+const appleHealthXml = `<?xml version="1.0" encoding="UTF-8"?>
+<HealthData locale="en_US">
+ <Record type="HKQuantityTypeIdentifierStepCount" sourceName="iPhone" unit="count" startDate="2024-01-01 08:00:00 +0100" endDate="2024-01-01 08:10:00 +0100" value="1200"/>
+ <Record type="HKQuantityTypeIdentifierStepCount" sourceName="iPhone" unit="count" startDate="2024-01-01 18:00:00 +0100" endDate="2024-01-01 18:10:00 +0100" value="800"/>
+ <Record type="HKQuantityTypeIdentifierStepCount" sourceName="Watch" unit="count" startDate="2024-01-01 08:00:00 +0100" endDate="2024-01-01 08:10:00 +0100" value="1500"/>
+ <Record type="HKQuantityTypeIdentifierDistanceWalkingRunning" sourceName="iPhone" unit="mi" startDate="2024-01-02 09:00:00 +0100" endDate="2024-01-02 09:30:00 +0100" value="1"/>
+ <Record type="HKQuantityTypeIdentifierHeartRate" sourceName="Watch" unit="count/min" startDate="2024-01-02 09:00:00 +0100" endDate="2024-01-02 09:00:00 +0100" value="70"/>
+</HealthData>`;
+
+const noon = (date: string) =>
+  String(new Date(`${date}T12:00:00`).getTime() * 1_000_000);
+
+const googleFitJson = JSON.stringify({
+  "Data Source": "derived:com.google.step_count.delta:merge_step_deltas",
+  "Data Points": [
+    {
+      fitValue: [{ value: { intVal: 300 } }],
+      dataTypeName: "com.google.step_count.delta",
+      startTimeNanos: noon("2024-01-01"),
+      endTimeNanos: noon("2024-01-01"),
+    },
+    {
+      fitValue: [{ value: { intVal: 700 } }],
+      dataTypeName: "com.google.step_count.delta",
+      startTimeNanos: noon("2024-01-01"),
+      endTimeNanos: noon("2024-01-01"),
+    },
+    {
+      fitValue: [{ value: { fpVal: 1234.5 } }],
+      dataTypeName: "com.google.distance.delta",
+      startTimeNanos: noon("2024-01-02"),
+      endTimeNanos: noon("2024-01-02"),
+    },
+  ],
+});
+
+const daylioCsv = [
+  "full_date,date,weekday,time,mood,activities,note_title,note",
+  '2024-01-02,January 2,Tuesday,20:00,good,"reading | friends",,Nice<br>day',
+  "2024-01-02,January 2,Tuesday,09:00,great,reading,,",
+  "2024-01-01,January 1,Monday,21:00,awful,,,",
+].join("\n");
+
+describe("Import adapters", () => {
+  test("detects the app of a file", () => {
+    expect(detectImportAdapter(loopCsv)).toBe("loop");
+    expect(detectImportAdapter(appleHealthXml)).toBe("appleHealth");
+    expect(detectImportAdapter(googleFitJson)).toBe("googleFit");
+    expect(detectImportAdapter(daylioCsv)).toBe("daylio");
+    expect(detectImportAdapter("date,value\n2024-01-01,1.5")).toBeUndefined();
+  });
+
+  test("reads Loop Habit Tracker checkmarks", () => {
+    const { entries } = getImportAdapter("loop").parse(loopCsv);
+    expect(
+      entries.map(({ trackerTitle, trackerType, date, value }) => [
+        trackerTitle,
+        trackerType,
+        date,
+        value,
+      ])
+    ).toEqual([
+      ["Meditate", "checkbox", "2024-01-01", 1],
+      ["Push-ups", "none", "2024-01-01", 2500],
+      ["Meditate", "checkbox", "2024-01-03", 1],
+      ["Push-ups", "none", "2024-01-03", 15000],
+    ]);
+  });
+
+  test("sums Apple Health records per day from the busiest source", () => {
+    const { entries } = getImportAdapter("appleHealth").parse(appleHealthXml);
+    expect(entries).toEqual([
+      {
+        trackerTitle: "Steps",
+        trackerType: "steps",
+        date: "2024-01-01",
+        value: 2000,
+      },
+      {
+        trackerTitle: "Distance",
+        trackerType: "kilometers",
+        date: "2024-01-02",
+        value: 1609,
+      },
+    ]);
+  });
+
+  test("sums Google Fit points per day", () => {
+    const { entries } = getImportAdapter("googleFit").parse(googleFitJson);
+    expect(
+      entries.map(({ trackerTitle, date, value }) => [
+        trackerTitle,
+        date,
+        value,
+      ])
+    ).toEqual([
+      ["Steps", "2024-01-01", 1000],
+      ["Distance", "2024-01-02", 1235],
+    ]);
+  });
+
+  test("reads Daylio moods, notes and activities", () => {
+    const { entries, skipped } = getImportAdapter("daylio").parse(daylioCsv);
+    expect(
+      entries.map(({ trackerTitle, date, value, comment }) => [
+        trackerTitle,
+        date,
+        value,
+        comment,
+      ])
+    ).toEqual([
+      ["Mood", "2024-01-02", 4000, "Nice\nday"],
+      ["reading", "2024-01-02", 1, undefined],
+      ["friends", "2024-01-02", 1, undefined],
+      ["Mood", "2024-01-01", 1000, undefined],
+    ]);
+    expect(skipped).toEqual([{ line: 3, reason: 'Unknown mood "great"' }]);
+  });
+
+  describe("with the imperial unit system", () => {
+    // Minimal localStorage so the unit system preference can be changed
+    const testGlobal = globalThis as any;
+
+    beforeEach(() => {
+      const storage = new Map<string, string>();
+      testGlobal.window = testGlobal;
+      testGlobal.localStorage = {
+        getItem: (key: string) => storage.get(key) ?? null,
+        setItem: (key: string, value: string) => storage.set(key, value),
+      };
+      setUnitSystem("imperial");
+    });
+
+    afterEach(() => {
+      delete testGlobal.window;
+      delete testGlobal.localStorage;
+    });
+
+    test("stores distances of Apple Health and Google Fit as kilometers", () => {
+      const [, appleDistance] =
+        getImportAdapter("appleHealth").parse(appleHealthXml).entries;
+      expect(appleDistance.value).toBe(1609);
+      const [, fitDistance] =
+        getImportAdapter("googleFit").parse(googleFitJson).entries;
+      expect(fitDistance.value).toBe(1235);
+    });
+  });
+});
+
+describe("Import adapter merge", () => {
+  beforeEach(async () => {
+    await clearAllData();
+    await saveTrackerWithId(
+      { id: "steps", title: "Steps", type: "steps", isNumber: true },
+      true
+    );
+    await createEntryWithId(
+      "existing",
+      "steps",
+      "2024-01-01",
+      2000,
+      new Date(),
+      true
+    );
+  });
+
+  test("summarizes a dry run and merges into existing trackers", async () => {
+    const { entries } = getImportAdapter("appleHealth").parse(appleHealthXml);
+
+    const summary = summarizeEntryImport(await planEntryImport(entries));
+    expect(summary).toEqual([
+      {
+        trackerTitle: "Steps",
+        trackerType: "steps",
+        isNew: false,
+        added: 0,
+        duplicates: 1,
+      },
+      {
+        trackerTitle: "Distance",
+        trackerType: "kilometers",
+        isNew: true,
+        added: 1,
+        duplicates: 0,
+        from: "2024-01-02",
+        to: "2024-01-02",
+      },
+    ]);
+
+    const report = await importEntries(entries);
+    expect(report.trackers.added).toBe(1);
+    expect(report.entries.added).toBe(1);
+    const distance = (await getAllTrackers()).find(
+      (tracker) => tracker.title === "Distance"
+    );
+    expect(distance?.values).toEqual({ "2024-01-02": 1609 });
+  });
+});
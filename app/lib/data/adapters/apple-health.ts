@@ -0,0 +1,78 @@
+import { toStoredValue } from "../../number-conversions";
+import { DailyTotals } from "./daily-totals";
+import type { ImportAdapter } from "./types";
+
+const STEPS_TYPE = "HKQuantityTypeIdentifierStepCount";
+const DISTANCE_TYPE = "HKQuantityTypeIdentifierDistanceWalkingRunning";
+
+// Kilometers per unit of distance records
+const DISTANCE_UNITS: Record<string, number> = {
+  km: 1,
+  m: 0.001,
+  mi: 1.609344,
+};
+
+const RECORD_PATTERN = /<Record\b[^>]*>/g;
+const ATTRIBUTE_PATTERN = /(\w+)="([^"]*)"/g;
+
+function parseAttributes(element: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, value] of element.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[name] = value;
+  }
+  return attributes;
+}
+
+/**
+ * Apple Health export.xml, from "Export All Health Data" in the Health app.
+ * Steps and walking and running distance become daily totals.
+ */
+export const appleHealthAdapter: ImportAdapter = {
+  accept: ".xml,text/xml",
+
+  detect(text) {
+    return text.includes("<HealthData");
+  },
+
+  parse(text) {
+    const totals = new DailyTotals();
+
+    for (const [element] of text.matchAll(RECORD_PATTERN)) {
+      // Skip the attribute parsing for the many other record types
+      if (!element.includes(STEPS_TYPE) && !element.includes(DISTANCE_TYPE)) {
+        continue;
+      }
+      const record = parseAttributes(element);
+      const value = parseFloat(record.value);
+      // startDate is in the time zone of the recording, like
+      // 2024-01-01 08:00:00 +0100, so its date is the local day
+      const date = record.startDate?.slice(0, 10);
+      if (!Number.isFinite(value) || !date) {
+        continue;
+      }
+
+      if (record.type === STEPS_TYPE) {
+        totals.add("Steps", "steps", date, value, record.sourceName);
+      } else if (record.type === DISTANCE_TYPE) {
+        const kilometers = DISTANCE_UNITS[record.unit];
+        if (kilometers !== undefined) {
+          totals.add(
+            "Distance",
+            "kilometers",
+            date,
+            value * kilometers,
+            record.sourceName
+          );
+        }
+      }
+    }
+
+    // Distances are in kilometers, whatever unit system the user prefers
+    return {
+      entries: totals.toEntries((value, type) =>
+        toStoredValue(value, type, "km")
+      ),
+      skipped: [],
+    };
+  },
+};
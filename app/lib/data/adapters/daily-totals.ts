@@ -0,0 +1,58 @@
+import type { TrackerType } from "../../trackers";
+import type { ImportedEntry } from "../entry-import";
+
+/**
+ * Sums measurements to one entry per tracker and day, since health apps
+ * record many small samples a day. Samples are summed per source, and the
+ * source with the highest total is used, as phones and watches record the
+ * same steps.
+ */
+export class DailyTotals {
+  private totals = new Map<
+    string,
+    {
+      trackerTitle: string;
+      trackerType: TrackerType;
+      days: Map<string, Map<string, number>>;
+    }
+  >();
+
+  add(
+    trackerTitle: string,
+    trackerType: TrackerType,
+    date: string,
+    value: number,
+    source = ""
+  ): void {
+    let tracker = this.totals.get(trackerTitle);
+    if (!tracker) {
+      tracker = { trackerTitle, trackerType, days: new Map() };
+      this.totals.set(trackerTitle, tracker);
+    }
+    const sources = tracker.days.get(date) ?? new Map<string, number>();
+    sources.set(source, (sources.get(source) ?? 0) + value);
+    tracker.days.set(date, sources);
+  }
+
+  /**
+   * @param toStored - Converts a daily total to a stored value
+   */
+  toEntries(
+    toStored: (value: number, trackerType: TrackerType) => number
+  ): ImportedEntry[] {
+    const entries: ImportedEntry[] = [];
+    for (const { trackerTitle, trackerType, days } of this.totals.values()) {
+      for (const [date, sources] of days) {
+        const value = toStored(Math.max(...sources.values()), trackerType);
+        if (value > 0) {
+          entries.push({ trackerTitle, trackerType, date, value });
+        }
+      }
+    }
+    return entries.sort(
+      (a, b) =>
+        a.date.localeCompare(b.date) ||
+        a.trackerTitle.localeCompare(b.trackerTitle)
+    );
+  }
+}
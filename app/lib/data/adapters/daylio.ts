@@ -0,0 +1,96 @@
+import { parseCsv } from "../csv";
+import type { CsvSkippedRow } from "../csv-import";
+import type { ImportedEntry } from "../entry-import";
+import { toStoredValue } from "../../number-conversions";
+import type { ImportAdapter } from "./types";
+
+// Scores of the default moods. Renamed moods can't be scored.
+const MOOD_SCORES: Record<string, number> = {
+  rad: 5,
+  good: 4,
+  meh: 3,
+  bad: 2,
+  awful: 1,
+};
+
+function findColumns(header: string[]) {
+  const find = (name: string) =>
+    header.findIndex((column) => column.trim().toLowerCase() === name);
+  return {
+    date: find("full_date"),
+    mood: find("mood"),
+    activities: find("activities"),
+    noteTitle: find("note_title"),
+    note: find("note"),
+  };
+}
+
+/**
+ * Daylio CSV export. The mood becomes a "Mood" tracker scored from 1 (awful)
+ * to 5 (rad) with the note as comment; each activity becomes a checkbox
+ * tracker.
+ */
+export const daylioAdapter: ImportAdapter = {
+  accept: ".csv,text/csv",
+
+  detect(text) {
+    const [header] = parseCsv(text.slice(0, 1000));
+    const columns = findColumns(header ?? []);
+    return columns.date !== -1 && columns.mood !== -1;
+  },
+
+  parse(text) {
+    const [header = [], ...rows] = parseCsv(text);
+    const columns = findColumns(header);
+    const entries: ImportedEntry[] = [];
+    const skipped: CsvSkippedRow[] = [];
+    // Activities are checked once a day, even if logged in several entries
+    const checkedActivities = new Set<string>();
+
+    rows.forEach((row, index) => {
+      const line = index + 2;
+      const date = row[columns.date]?.trim();
+      if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        skipped.push({ line, reason: `Invalid date "${date ?? ""}"` });
+        return;
+      }
+
+      const mood = row[columns.mood]?.trim() ?? "";
+      const score = MOOD_SCORES[mood.toLowerCase()];
+      if (score === undefined) {
+        skipped.push({ line, reason: `Unknown mood "${mood}"` });
+      } else {
+        const comment = [row[columns.noteTitle], row[columns.note]]
+          .map((part) => part?.replace(/<br\s*\/?>/gi, "\n").trim())
+          .filter(Boolean)
+          .join("\n");
+        entries.push({
+          line,
+          trackerTitle: "Mood",
+          trackerType: "none",
+          date,
+          value: toStoredValue(score, "none"),
+          comment: comment || undefined,
+        });
+      }
+
+      for (const activity of (row[columns.activities] ?? "").split("|")) {
+        const trackerTitle = activity.trim();
+        const key = `${trackerTitle.toLowerCase()}|${date}`;
+        if (!trackerTitle || checkedActivities.has(key)) {
+          continue;
+        }
+        checkedActivities.add(key);
+        entries.push({
+          line,
+          trackerTitle,
+          trackerType: "checkbox",
+          date,
+          value: 1,
+        });
+      }
+    });
+
+    return { entries, skipped };
+  },
+};
@@ -0,0 +1,97 @@
+import { formatDateString } from "../../dates";
+import { toStoredValue } from "../../number-conversions";
+import { DailyTotals } from "./daily-totals";
+import type { ImportAdapter } from "./types";
+
+const STEPS_TYPE = "com.google.step_count.delta";
+const DISTANCE_TYPE = "com.google.distance.delta";
+
+interface GoogleFitValue {
+  intVal?: number;
+  fpVal?: number;
+}
+
+interface GoogleFitPoint {
+  dataTypeName: string;
+  startTimeNanos: string | number;
+  // Takeout files wrap values, the Fitness API doesn't
+  fitValue?: Array<{ value?: GoogleFitValue }>;
+  value?: GoogleFitValue[];
+  originDataSourceId?: string;
+}
+
+function isGoogleFitPoint(value: unknown): value is GoogleFitPoint {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "dataTypeName" in value &&
+    "startTimeNanos" in value
+  );
+}
+
+// Points are nested differently in Takeout files and Fitness API responses
+function collectPoints(node: unknown, points: GoogleFitPoint[]): void {
+  if (isGoogleFitPoint(node)) {
+    points.push(node);
+  } else if (Array.isArray(node)) {
+    node.forEach((child) => collectPoints(child, points));
+  } else if (typeof node === "object" && node !== null) {
+    Object.values(node).forEach((child) => collectPoints(child, points));
+  }
+}
+
+function getPointValue(point: GoogleFitPoint): number | undefined {
+  const value = point.fitValue?.[0]?.value ?? point.value?.[0];
+  return value?.intVal ?? value?.fpVal;
+}
+
+/**
+ * Google Fit step count and distance data, as JSON files from Google Takeout
+ * (Fit/All data) or from the Fitness API. Points become daily totals.
+ */
+export const googleFitAdapter: ImportAdapter = {
+  accept: ".json,application/json",
+
+  detect(text) {
+    return (
+      text.trimStart().startsWith("{") &&
+      (text.includes(STEPS_TYPE) || text.includes(DISTANCE_TYPE))
+    );
+  },
+
+  parse(text) {
+    const points: GoogleFitPoint[] = [];
+    collectPoints(JSON.parse(text), points);
+    const totals = new DailyTotals();
+
+    for (const point of points) {
+      const value = getPointValue(point);
+      if (value === undefined) {
+        continue;
+      }
+      const date = formatDateString(
+        new Date(Number(point.startTimeNanos) / 1_000_000)
+      );
+      if (point.dataTypeName === STEPS_TYPE) {
+        totals.add("Steps", "steps", date, value, point.originDataSourceId);
+      } else if (point.dataTypeName === DISTANCE_TYPE) {
+        // Distances are in meters
+        totals.add(
+          "Distance",
+          "kilometers",
+          date,
+          value / 1000,
+          point.originDataSourceId
+        );
+      }
+    }
+
+    // Distances are in kilometers, whatever unit system the user prefers
+    return {
+      entries: totals.toEntries((value, type) =>
+        toStoredValue(value, type, "km")
+      ),
+      skipped: [],
+    };
+  },
+};
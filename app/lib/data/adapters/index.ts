@@ -0,0 +1,46 @@
+import { appleHealthAdapter } from "./apple-health";
+import { daylioAdapter } from "./daylio";
+import { googleFitAdapter } from "./google-fit";
+import { loopHabitTrackerAdapter } from "./loop-habit-tracker";
+import type { ImportAdapter } from "./types";
+
+export type { ImportAdapter, ImportAdapterResult } from "./types";
+
+export const importAdapterIds = [
+  "loop",
+  "appleHealth",
+  "googleFit",
+  "daylio",
+] as const;
+
+export type ImportAdapterId = (typeof importAdapterIds)[number];
+
+export const importAdaptersLabels: Record<ImportAdapterId, string> = {
+  loop: "Loop Habit Tracker (Checkmarks.csv)",
+  appleHealth: "Apple Health (export.xml)",
+  googleFit: "Google Fit (Takeout JSON)",
+  daylio: "Daylio (CSV)",
+};
+
+const importAdapters: Record<ImportAdapterId, ImportAdapter> = {
+  loop: loopHabitTrackerAdapter,
+  appleHealth: appleHealthAdapter,
+  googleFit: googleFitAdapter,
+  daylio: daylioAdapter,
+};
+
+export function isImportAdapterId(value: unknown): value is ImportAdapterId {
+  return importAdapterIds.includes(value as ImportAdapterId);
+}
+
+export function getImportAdapter(id: ImportAdapterId): ImportAdapter {
+  return importAdapters[id];
+}
+
+/**
+ * Finds the app a file was exported from
+ * @returns The adapter id, or undefined if no adapter recognizes the file
+ */
+export function detectImportAdapter(text: string): ImportAdapterId | undefined {
+  return importAdapterIds.find((id) => importAdapters[id].detect(text));
+}
@@ -0,0 +1,69 @@
+import { parseCsv } from "../csv";
+import type { ImportedEntry } from "../entry-import";
+import type { ImportAdapter } from "./types";
+
+// Checkmark values of yes/no habits. Automatic checkmarks are days that
+// count towards the frequency of the habit, but weren't checked.
+const CHECKED = 2;
+const CHECKMARK_VALUES = [-1, 0, 1, 2, 3];
+
+function isDateColumnHeader(row: string[] | undefined): boolean {
+  return row?.[0]?.trim() === "Date";
+}
+
+/**
+ * Loop Habit Tracker Checkmarks.csv, from the zip of "Export as CSV".
+ * It has a date column and a column per habit. Yes/no habits become
+ * checkbox trackers, numeric habits become trackers without a unit.
+ */
+export const loopHabitTrackerAdapter: ImportAdapter = {
+  accept: ".csv,text/csv",
+
+  detect(text) {
+    const [header, firstRow] = parseCsv(text.slice(0, 10_000));
+    return (
+      isDateColumnHeader(header) &&
+      !!firstRow &&
+      /^\d{4}-\d{2}-\d{2}$/.test(firstRow[0]) &&
+      firstRow.slice(1).every((cell) => /^-?\d*$/.test(cell.trim()))
+    );
+  },
+
+  parse(text) {
+    const [header = [], ...rows] = parseCsv(text);
+    const entries: ImportedEntry[] = [];
+
+    header.forEach((name, column) => {
+      const trackerTitle = name.trim();
+      if (column === 0 || !trackerTitle) {
+        return;
+      }
+      const values = rows.map((row) => parseInt(row[column] ?? "", 10));
+      // Numeric habits store values times 1000, like trackers without a unit
+      const isCheckbox = values.every(
+        (value) => isNaN(value) || CHECKMARK_VALUES.includes(value)
+      );
+
+      rows.forEach((row, index) => {
+        const value = values[index];
+        if (isCheckbox ? value !== CHECKED : !(value > 0)) {
+          return;
+        }
+        entries.push({
+          line: index + 2,
+          trackerTitle,
+          trackerType: isCheckbox ? "checkbox" : "none",
+          date: row[0].trim(),
+          value: isCheckbox ? 1 : value,
+        });
+      });
+    });
+
+    return {
+      entries: entries.sort(
+        (a, b) => a.date.localeCompare(b.date) || a.line! - b.line!
+      ),
+      skipped: [],
+    };
+  },
+};
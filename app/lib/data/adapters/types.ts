@@ -0,0 +1,19 @@
+import type { CsvSkippedRow } from "../csv-import";
+import type { ImportedEntry } from "../entry-import";
+
+export interface ImportAdapterResult {
+  entries: ImportedEntry[];
+  // Rows of the source that don't become an entry, with the reason
+  skipped: CsvSkippedRow[];
+}
+
+/**
+ * Reads the export file of another app as entries for the entry import
+ */
+export interface ImportAdapter {
+  // File types for the file picker
+  accept: string;
+  // Whether the file looks like an export of the app
+  detect(text: string): boolean;
+  parse(text: string): ImportAdapterResult;
+}
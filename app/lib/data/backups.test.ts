@@ -0,0 +1,160 @@
+import {
+  describe,
+  test,
+  expect,
+  beforeEach,
+  afterEach,
+  setSystemTime,
+} from "bun:test";
+import {
+  EXPORT_SCHEMA_VERSION,
+  createBackup,
+  createDailyBackupIfDue,
+  exportData,
+  importData,
+  restoreBackup,
+  selectBackupsToKeep,
+  type ExportData,
+} from ".";
+import {
+  type Backup,
+  clearAllData,
+  deleteBackups,
+  getAllTrackers,
+  getBackupData,
+  getBackups,
+  saveTrackerWithId,
+} from "../db";
+
+// Mock IndexedDB for testing
+import "fake-indexeddb/auto";
+
+function backupAt(createdAt: string): Backup {
+  return {
+    id: createdAt,
+    createdAt: new Date(createdAt),
+    reason: "sync",
+    trackerCount: 1,
+    entryCount: 0,
+    size: 0,
+  };
+}
+
+describe("selectBackupsToKeep", () => {
+  test("keeps the latest backups and the newest of each day and week", () => {
+    // Two backups a day for 60 days, newest first
+    const backups = Array.from({ length: 120 }, (_, index) =>
+      backupAt(
+        new Date(
+          2024,
+          2,
+          1 - Math.floor(index / 2),
+          index % 2 ? 8 : 20
+        ).toISOString()
+      )
+    );
+    const kept = backups.filter((backup) =>
+      selectBackupsToKeep(backups).has(backup.id)
+    );
+
+    // The 5 latest, the newest of each day of the last week (from Friday,
+    // March 1st back to Saturday) and of the weeks starting on Monday, of
+    // which Sunday, February 25th is one of those days
+    expect(kept).toEqual(
+      [0, 1, 2, 3, 4, 6, 8, 10, 12, 24, 38].map((index) => backups[index])
+    );
+  });
+
+  test("keeps every backup while there are only a few", () => {
+    const backups = [
+      backupAt("2024-03-01T10:00:00Z"),
+      backupAt("2024-02-01T10:00:00Z"),
+    ];
+    expect(selectBackupsToKeep(backups)).toEqual(
+      new Set(backups.map(({ id }) => id))
+    );
+  });
+});
+
+describe("Backups", () => {
+  beforeEach(async () => {
+    // Backups are ordered by time, so each step gets its own
+    setSystemTime(new Date("2024-03-01T10:00:00Z"));
+    await clearAllData();
+    await deleteBackups((await getBackups()).map(({ id }) => id));
+  });
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  const importedData: ExportData = {
+    version: "1.0.0",
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    exportDate: "2024-01-01T00:00:00.000Z",
+    trackers: [
+      {
+        id: "imported",
+        title: "Imported",
+        type: "none",
+        isNumber: true,
+        entries: [],
+      },
+    ],
+    tags: [],
+  };
+
+  test("skips backups without data", async () => {
+    expect(await createBackup("manual")).toBeNull();
+    expect(await createDailyBackupIfDue()).toBeNull();
+    expect(await getBackups()).toEqual([]);
+  });
+
+  test("takes the daily backup once a day", async () => {
+    await saveTrackerWithId(
+      { id: "water", title: "Water", type: "liters", isNumber: true },
+      true
+    );
+    const backup = await createDailyBackupIfDue();
+    expect(backup).toMatchObject({
+      reason: "daily",
+      trackerCount: 1,
+      entryCount: 0,
+    });
+    expect(await createDailyBackupIfDue()).toBeNull();
+    expect((await getBackupData(backup!.id))?.trackers[0].title).toBe("Water");
+  });
+
+  test("backs up before an import and restores the backup", async () => {
+    await saveTrackerWithId(
+      { id: "water", title: "Water", type: "liters", isNumber: true },
+      true
+    );
+    await importData(importedData, true);
+    expect((await getAllTrackers()).map((tracker) => tracker.id)).toEqual([
+      "imported",
+    ]);
+
+    const [backup] = await getBackups();
+    expect(backup.reason).toBe("import");
+    setSystemTime(new Date("2024-03-01T10:05:00Z"));
+    await restoreBackup(backup.id);
+    expect((await getAllTrackers()).map((tracker) => tracker.id)).toEqual([
+      "water",
+    ]);
+
+    // Restoring backed up the imported data first
+    const [latest] = await getBackups();
+    expect(latest.reason).toBe("import");
+    expect((await getBackupData(latest.id))?.trackers[0].id).toBe("imported");
+  });
+
+  test("doesn't back up data merged by a sync", async () => {
+    await saveTrackerWithId(
+      { id: "water", title: "Water", type: "liters", isNumber: true },
+      true
+    );
+    await importData(await exportData(), false, {});
+    expect(await getBackups()).toEqual([]);
+  });
+});
@@ -0,0 +1,116 @@
+import { isSameDay, startOfWeek } from "date-fns";
+import { formatDateString } from "../dates";
+import {
+  type Backup,
+  type BackupReason,
+  addBackup,
+  deleteBackups,
+  getBackups,
+} from "../db";
+import { WEEK_STARTS_ON } from "../goals";
+import { exportData } from "./export";
+
+export const backupReasonsLabels: Record<BackupReason, string> = {
+  import: "Before import",
+  sync: "Before sync",
+  daily: "Daily",
+  manual: "Manual",
+};
+
+// Newest backups kept regardless of their day, like the ones before imports
+export const KEEP_RECENT_BACKUPS = 5;
+// Days and weeks of which the newest backup is kept
+export const KEEP_DAILY_BACKUPS = 7;
+export const KEEP_WEEKLY_BACKUPS = 4;
+
+/**
+ * Choose the backups to keep: the newest few, and the newest of each of the
+ * latest days and weeks that have backups
+ * @param backups - Backups, newest first
+ * @returns Ids of the backups to keep
+ */
+export function selectBackupsToKeep(backups: Backup[]): Set<string> {
+  const keep = new Set(
+    backups.slice(0, KEEP_RECENT_BACKUPS).map((backup) => backup.id)
+  );
+  const days = new Set<string>();
+  const weeks = new Set<string>();
+
+  for (const backup of backups) {
+    const day = formatDateString(backup.createdAt);
+    if (!days.has(day) && days.size < KEEP_DAILY_BACKUPS) {
+      days.add(day);
+      keep.add(backup.id);
+    }
+    const week = formatDateString(
+      startOfWeek(backup.createdAt, { weekStartsOn: WEEK_STARTS_ON })
+    );
+    if (!weeks.has(week) && weeks.size < KEEP_WEEKLY_BACKUPS) {
+      weeks.add(week);
+      keep.add(backup.id);
+    }
+  }
+  return keep;
+}
+
+/**
+ * Delete the backups the rotation doesn't keep
+ */
+export async function rotateBackups(): Promise<void> {
+  const backups = await getBackups();
+  const keep = selectBackupsToKeep(backups);
+  await deleteBackups(
+    backups.filter((backup) => !keep.has(backup.id)).map(({ id }) => id)
+  );
+}
+
+/**
+ * Store a snapshot of all local data
+ * @param options.rotate - Delete the backups the rotation doesn't keep
+ *   (default true). A backup that may be discarded again is added without,
+ *   and the rotation runs once it is kept.
+ * @returns The backup, or null if there is no data to back up
+ */
+export async function createBackup(
+  reason: BackupReason,
+  { rotate = true }: { rotate?: boolean } = {}
+): Promise<Backup | null> {
+  const data = await exportData();
+  if (data.trackers.length === 0 && !data.customUnits?.length) {
+    return null;
+  }
+
+  const liveTrackers = data.trackers.filter((tracker) => !tracker.deletedAt);
+  const backup = await addBackup(
+    {
+      createdAt: new Date(),
+      reason,
+      trackerCount: liveTrackers.length,
+      entryCount: liveTrackers.reduce(
+        (count, tracker) =>
+          count + tracker.entries.filter((entry) => !entry.deletedAt).length,
+        0
+      ),
+      size: new TextEncoder().encode(JSON.stringify(data)).length,
+    },
+    data
+  );
+  if (rotate) {
+    await rotateBackups();
+  }
+  return backup;
+}
+
+/**
+ * Take the daily backup, unless it was taken today already
+ * @returns The backup, or null if none was due
+ */
+export async function createDailyBackupIfDue(): Promise<Backup | null> {
+  const latest = (await getBackups()).find(
+    (backup) => backup.reason === "daily"
+  );
+  if (latest && isSameDay(latest.createdAt, new Date())) {
+    return null;
+  }
+  return createBackup("daily");
+}
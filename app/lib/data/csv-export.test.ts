@@ -0,0 +1,135 @@
+import { describe, test, expect, beforeEach } from "bun:test";
+import { exportCsv, formatCsv, getCsvExportFilename, parseCsv } from ".";
+import {
+  clearAllData,
+  createEntryWithId,
+  getAllTrackers,
+  getDB,
+  saveTrackerWithId,
+} from "../db";
+
+// Mock IndexedDB for testing
+import "fake-indexeddb/auto";
+
+describe("formatCsv", () => {
+  test("quotes cells with delimiters, quotes and line breaks", () => {
+    const csv = formatCsv([
+      ["a", "b,c", 'say "hi"'],
+      ["line\nbreak", "", "x;y"],
+    ]);
+    expect(csv).toBe('a,"b,c","say ""hi"""\n"line\nbreak",,"x;y"');
+    expect(parseCsv(csv)).toEqual([
+      ["a", "b,c", 'say "hi"'],
+      ["line\nbreak", "", "x;y"],
+    ]);
+  });
+});
+
+describe("CSV export", () => {
+  beforeEach(async () => {
+    await clearAllData();
+    await saveTrackerWithId(
+      { id: "drinks", title: "Drinks", type: "liters", isNumber: true },
+      true
+    );
+    await saveTrackerWithId(
+      {
+        id: "water",
+        title: "Water",
+        type: "liters",
+        isNumber: true,
+        parentId: "drinks",
+      },
+      true
+    );
+    await saveTrackerWithId(
+      { id: "walks", title: "Walks", type: "none", isNumber: true },
+      true
+    );
+    await createEntryWithId(
+      "w1",
+      "water",
+      "2024-01-01",
+      500,
+      new Date(2024, 0, 1, 8),
+      true,
+      "Morning, #cold"
+    );
+    await createEntryWithId(
+      "w2",
+      "water",
+      "2024-01-01",
+      250,
+      new Date(2024, 0, 1, 12),
+      true
+    );
+    await createEntryWithId(
+      "d1",
+      "drinks",
+      "2024-01-02",
+      1000,
+      new Date(2024, 0, 2),
+      true
+    );
+    await createEntryWithId(
+      "k1",
+      "walks",
+      "2024-01-03",
+      2000,
+      new Date(2024, 0, 3),
+      true
+    );
+    const db = await getDB();
+    await db.put("entry_tags", {
+      id: "w1_cold",
+      entryId: "w1",
+      trackerId: "water",
+      tagName: "cold",
+      tagNameWithOriginalCasing: "cold",
+    });
+  });
+
+  test("exports one row per entry in the display unit", async () => {
+    const trackers = await getAllTrackers();
+    const csv = await exportCsv(trackers, {
+      format: "entries",
+      trackerId: "water",
+    });
+    expect(parseCsv(csv)).toEqual([
+      ["Date", "Tracker", "Value", "Unit", "Comment", "Tags"],
+      ["2024-01-01", "Water", "0.5", "L", "Morning, #cold", "cold"],
+      ["2024-01-01", "Water", "0.25", "L", "", ""],
+    ]);
+  });
+
+  test("exports daily totals of a tracker and its children", async () => {
+    const trackers = await getAllTrackers();
+    const csv = await exportCsv(trackers, {
+      format: "dailyTotals",
+      trackerId: "drinks",
+      includeChildren: true,
+    });
+    expect(parseCsv(csv)).toEqual([
+      ["Date", "Drinks (L)", "Water (L)"],
+      ["2024-01-01", "", "0.75"],
+      ["2024-01-02", "1", ""],
+    ]);
+  });
+
+  test("limits the export to the date range", async () => {
+    const trackers = await getAllTrackers();
+    const options = {
+      format: "entries" as const,
+      from: "2024-01-02",
+      to: "2024-01-03",
+    };
+    const rows = parseCsv(await exportCsv(trackers, options));
+    expect(rows.slice(1).map(([date, tracker]) => [date, tracker])).toEqual([
+      ["2024-01-02", "Drinks"],
+      ["2024-01-03", "Walks"],
+    ]);
+    expect(getCsvExportFilename(trackers, options)).toBe(
+      "anythingtracker-all-2024-01-02_2024-01-03.csv"
+    );
+  });
+});
@@ -0,0 +1,179 @@
+import { getDB, type StoredEntry } from "../db";
+import { formatForInput, getDisplayUnit } from "../number-conversions";
+import type { Tracker } from "../trackers";
+import { formatCsv } from "./csv";
+
+export const csvExportFormats = ["entries", "dailyTotals"] as const;
+
+export type CsvExportFormat = (typeof csvExportFormats)[number];
+
+export const csvExportFormatsLabels: Record<CsvExportFormat, string> = {
+  entries: "One row per entry",
+  dailyTotals: "Daily totals per tracker",
+};
+
+export function isCsvExportFormat(value: unknown): value is CsvExportFormat {
+  return csvExportFormats.includes(value as CsvExportFormat);
+}
+
+export interface CsvExportOptions {
+  format: CsvExportFormat;
+  // Tracker to export, all trackers if not set
+  trackerId?: string;
+  // Export the child trackers of the tracker as well
+  includeChildren?: boolean;
+  // First and last date to export (yyyy-MM-dd), unbounded if not set
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Get a tracker and all trackers below it
+ */
+export function getTrackerSubtree(
+  trackers: Tracker[],
+  trackerId: string
+): Tracker[] {
+  const root = trackers.find((tracker) => tracker.id === trackerId);
+  if (!root) {
+    return [];
+  }
+  return [
+    root,
+    ...trackers
+      .filter((tracker) => tracker.parentId === trackerId)
+      .flatMap((child) => getTrackerSubtree(trackers, child.id)),
+  ];
+}
+
+function getExportedTrackers(
+  trackers: Tracker[],
+  options: CsvExportOptions
+): Tracker[] {
+  if (!options.trackerId) {
+    return trackers;
+  }
+  return options.includeChildren
+    ? getTrackerSubtree(trackers, options.trackerId)
+    : trackers.filter((tracker) => tracker.id === options.trackerId);
+}
+
+function formatValue(tracker: Tracker, value: number): string {
+  return formatForInput(value, tracker.type, tracker.displayUnit);
+}
+
+/**
+ * Export entries as CSV. The entries format has one row per entry with the
+ * value in the display unit of its tracker, so it can be imported again. The
+ * daily totals format has one row per date and one column per tracker.
+ * @param trackers - Trackers that are not deleted
+ */
+export async function exportCsv(
+  trackers: Tracker[],
+  options: CsvExportOptions
+): Promise<string> {
+  const db = await getDB();
+  const exported = getExportedTrackers(trackers, options);
+
+  const entries: StoredEntry[] = [];
+  for (const tracker of exported) {
+    const trackerEntries = await db.getAllFromIndex(
+      "entries",
+      "by-tracker",
+      tracker.id
+    );
+    entries.push(
+      ...trackerEntries.filter(
+        (entry) =>
+          !entry.deletedAt &&
+          (!options.from || entry.date >= options.from) &&
+          (!options.to || entry.date <= options.to)
+      )
+    );
+  }
+  entries.sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) ||
+      a.createdAt.getTime() - b.createdAt.getTime()
+  );
+
+  if (options.format === "dailyTotals") {
+    return formatDailyTotals(exported, entries);
+  }
+
+  const trackersById = new Map(
+    exported.map((tracker) => [tracker.id, tracker])
+  );
+  const tagsByEntry = new Map<string, string[]>();
+  for (const tag of await db.getAll("entry_tags")) {
+    const tags = tagsByEntry.get(tag.entryId) ?? [];
+    tags.push(tag.tagNameWithOriginalCasing);
+    tagsByEntry.set(tag.entryId, tags);
+  }
+
+  return formatCsv([
+    ["Date", "Tracker", "Value", "Unit", "Comment", "Tags"],
+    ...entries.map((entry) => {
+      const tracker = trackersById.get(entry.trackerId)!;
+      return [
+        entry.date,
+        tracker.title,
+        formatValue(tracker, entry.value),
+        getDisplayUnit(tracker.type, tracker.displayUnit).trim(),
+        entry.comment ?? "",
+        (tagsByEntry.get(entry.id) ?? []).join(" "),
+      ];
+    }),
+  ]);
+}
+
+function formatDailyTotals(trackers: Tracker[], entries: StoredEntry[]) {
+  const totals = new Map<string, Map<string, number>>();
+  for (const entry of entries) {
+    const dayTotals = totals.get(entry.date) ?? new Map<string, number>();
+    dayTotals.set(
+      entry.trackerId,
+      (dayTotals.get(entry.trackerId) ?? 0) + entry.value
+    );
+    totals.set(entry.date, dayTotals);
+  }
+
+  return formatCsv([
+    [
+      "Date",
+      ...trackers.map((tracker) => {
+        const unit = getDisplayUnit(tracker.type, tracker.displayUnit).trim();
+        return unit ? `${tracker.title} (${unit})` : tracker.title;
+      }),
+    ],
+    ...Array.from(totals, ([date, dayTotals]) => [
+      date,
+      ...trackers.map((tracker) => {
+        const total = dayTotals.get(tracker.id);
+        return total === undefined ? "" : formatValue(tracker, total);
+      }),
+    ]),
+  ]);
+}
+
+/**
+ * Get the file name of a CSV export
+ */
+export function getCsvExportFilename(
+  trackers: Tracker[],
+  options: CsvExportOptions
+): string {
+  const tracker = trackers.find(({ id }) => id === options.trackerId);
+  const name = tracker
+    ? tracker.title
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, "-")
+        .replace(/^-|-$/g, "")
+    : "all";
+  const range =
+    options.from || options.to
+      ? `-${options.from ?? "start"}_${options.to ?? "today"}`
+      : "";
+  const suffix = options.format === "dailyTotals" ? "-daily" : "";
+  return `anythingtracker-${name}${range}${suffix}.csv`;
+}
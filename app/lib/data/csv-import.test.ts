@@ -0,0 +1,177 @@
+import { describe, test, expect, beforeEach } from "bun:test";
+import {
+  guessCsvColumnMapping,
+  importEntries,
+  mapCsvRows,
+  parseCsv,
+  planEntryImport,
+  type CsvColumnMapping,
+} from ".";
+import {
+  clearAllData,
+  createEntryWithId,
+  deleteTracker,
+  getAllTrackers,
+  getDB,
+  getEntryTags,
+  getTrackerById,
+  saveTrackerWithId,
+} from "../db";
+
+// Mock IndexedDB for testing
+import "fake-indexeddb/auto";
+
+describe("parseCsv", () => {
+  test("parses quoted cells and detects the delimiter", () => {
+    const csv = 'date;value;comment\r\n2024-01-01;1,5;"Tea; ""green"""\n\n';
+    expect(parseCsv(csv)).toEqual([
+      ["date", "value", "comment"],
+      ["2024-01-01", "1,5", 'Tea; "green"'],
+    ]);
+  });
+
+  test("keeps line breaks in quoted cells", () => {
+    expect(parseCsv('a,"b\nc"\nd,e')).toEqual([
+      ["a", "b\nc"],
+      ["d", "e"],
+    ]);
+  });
+});
+
+describe("CSV import", () => {
+  beforeEach(async () => {
+    await clearAllData();
+    await saveTrackerWithId(
+      { id: "drinks", title: "Drinks", type: "liters", isNumber: true },
+      true
+    );
+    await saveTrackerWithId(
+      {
+        id: "water",
+        title: "Water",
+        type: "liters",
+        isNumber: true,
+        parentId: "drinks",
+      },
+      true
+    );
+  });
+
+  const csv = [
+    "Date,Tracker,Value,Note",
+    '01.01.2024,water,"0,5",Morning #hydrated',
+    "02.01.2024 08:00,Water,1,",
+    "03.01.2024,Walks,2,",
+    "not a date,Water,1,",
+    "04.01.2024,Water,,",
+  ].join("\n");
+
+  test("guesses the mapping from the column names", async () => {
+    const mapping = guessCsvColumnMapping(
+      parseCsv(csv),
+      await getAllTrackers()
+    );
+    expect(mapping).toMatchObject({
+      hasHeader: true,
+      dateColumn: 0,
+      dateFormat: "dd.MM.yyyy",
+      valueColumn: 2,
+      trackerColumn: 1,
+      commentColumn: 3,
+    });
+  });
+
+  test("converts values and skips invalid rows", async () => {
+    const mapping = guessCsvColumnMapping(
+      parseCsv(csv),
+      await getAllTrackers()
+    );
+    const { entries, skipped } = mapCsvRows(
+      parseCsv(csv),
+      mapping,
+      await getAllTrackers()
+    );
+
+    expect(
+      entries.map(({ trackerId, date, value }) => [trackerId, date, value])
+    ).toEqual([
+      ["water", "2024-01-01", 500],
+      ["water", "2024-01-02", 1000],
+      [undefined, "2024-01-03", 2000],
+    ]);
+    expect(skipped.map((row) => row.line)).toEqual([5, 6]);
+  });
+
+  test("merges into existing trackers, creates new ones and skips duplicates", async () => {
+    await createEntryWithId(
+      "existing",
+      "water",
+      "2024-01-02",
+      1000,
+      new Date(),
+      true
+    );
+    const mapping: CsvColumnMapping = {
+      ...guessCsvColumnMapping(parseCsv(csv), await getAllTrackers()),
+      newTrackerType: "kilometers",
+    };
+    const { entries } = mapCsvRows(
+      parseCsv(csv),
+      mapping,
+      await getAllTrackers()
+    );
+
+    const plan = await planEntryImport(entries);
+    expect(plan.entries.map((entry) => entry.isDuplicate)).toEqual([
+      false,
+      true,
+      false,
+    ]);
+    expect(plan.newTrackerTitles).toEqual(["Walks"]);
+
+    const report = await importEntries(entries);
+    expect(report.trackers.added).toBe(1);
+    // The water entry and its copy for the parent, and the walk
+    expect(report.entries.added).toBe(3);
+
+    const water = await getTrackerById("water");
+    expect(water?.values).toEqual({ "2024-01-01": 500, "2024-01-02": 1000 });
+    expect((await getTrackerById("drinks"))?.values).toEqual({
+      "2024-01-01": 500,
+    });
+    const walks = (await getAllTrackers()).find(
+      (tracker) => tracker.title === "Walks"
+    );
+    expect(walks?.type).toBe("kilometers");
+
+    const db = await getDB();
+    const imported = (
+      await db.getAllFromIndex("entries", "by-tracker", "water")
+    ).find((entry) => entry.comment === "Morning #hydrated");
+    expect(await getEntryTags(imported!.id)).toEqual(["hydrated"]);
+  });
+
+  test("doesn't copy entries to a deleted parent tracker", async () => {
+    await deleteTracker("drinks");
+    const report = await importEntries([
+      {
+        trackerId: "water",
+        trackerTitle: "Water",
+        trackerType: "liters",
+        date: "2024-01-01",
+        value: 500,
+      },
+    ]);
+    expect(report.entries.added).toBe(1);
+    expect(report.skipped).toEqual([]);
+
+    expect((await getTrackerById("water"))?.values).toEqual({
+      "2024-01-01": 500,
+    });
+    const db = await getDB();
+    expect((await db.get("trackers", "drinks"))?.deletedAt).toBeDefined();
+    expect(await db.getAllFromIndex("entries", "by-tracker", "drinks")).toEqual(
+      []
+    );
+  });
+});
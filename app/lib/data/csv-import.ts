@@ -0,0 +1,184 @@
+import { isValid, parse } from "date-fns";
+import { formatDateString } from "../dates";
+import { parseInputToStored } from "../number-conversions";
+import type { Tracker, TrackerType } from "../trackers";
+import type { ImportedEntry } from "./entry-import";
+
+export const csvDateFormats = [
+  "yyyy-MM-dd",
+  "dd.MM.yyyy",
+  "dd/MM/yyyy",
+  "MM/dd/yyyy",
+] as const;
+
+export type CsvDateFormat = (typeof csvDateFormats)[number];
+
+export function isCsvDateFormat(value: unknown): value is CsvDateFormat {
+  return csvDateFormats.includes(value as CsvDateFormat);
+}
+
+/**
+ * Which CSV columns hold what. Columns are indexes into a row.
+ */
+export interface CsvColumnMapping {
+  // The first row holds column names
+  hasHeader: boolean;
+  dateColumn: number;
+  dateFormat: CsvDateFormat;
+  // Values in the display unit of the tracker, as typed into the app
+  valueColumn: number;
+  // Tracker titles per row, or a fixed tracker for all rows
+  trackerColumn?: number;
+  trackerId?: string;
+  commentColumn?: number;
+  // Type of trackers created for titles that don't exist yet
+  newTrackerType: TrackerType;
+}
+
+export interface CsvSkippedRow {
+  line: number;
+  reason: string;
+}
+
+/**
+ * Guess the column mapping from the column names in the first row
+ */
+export function guessCsvColumnMapping(
+  rows: string[][],
+  trackers: Tracker[]
+): CsvColumnMapping {
+  const header = (rows[0] ?? []).map((name) => name.trim().toLowerCase());
+  const findColumn = (...names: string[]) => {
+    const index = header.findIndex((name) => names.includes(name));
+    return index === -1 ? undefined : index;
+  };
+
+  const dateColumn = findColumn("date", "day", "datum");
+  const valueColumn = findColumn("value", "amount", "quantity", "wert");
+  const trackerColumn = findColumn("tracker", "name", "habit", "title");
+  const sample = rows[dateColumn !== undefined ? 1 : 0]?.[dateColumn ?? 0];
+
+  return {
+    hasHeader: dateColumn !== undefined || valueColumn !== undefined,
+    dateColumn: dateColumn ?? 0,
+    dateFormat:
+      csvDateFormats.find(
+        (dateFormat) => sample && parseCsvDate(sample, dateFormat)
+      ) ?? "yyyy-MM-dd",
+    valueColumn: valueColumn ?? 1,
+    trackerColumn,
+    trackerId: trackerColumn === undefined ? trackers[0]?.id : undefined,
+    commentColumn: findColumn("comment", "note", "notes", "description"),
+    newTrackerType: "none",
+  };
+}
+
+/**
+ * Parse a date cell. A time after the date is ignored.
+ * @returns The date as stored in entries, or null if it doesn't match
+ */
+export function parseCsvDate(
+  cell: string,
+  dateFormat: CsvDateFormat
+): string | null {
+  const [datePart] = cell.trim().split(/[\sT]/);
+  const date = parse(datePart, dateFormat, new Date());
+  return isValid(date) ? formatDateString(date) : null;
+}
+
+/**
+ * Parse a value cell to a stored value. Checkbox trackers also accept yes,
+ * true and x; decimal commas are accepted.
+ */
+function parseCsvValue(
+  cell: string,
+  type: TrackerType,
+  displayUnit?: Tracker["displayUnit"]
+): number | null {
+  const trimmed = cell.trim();
+  if (type === "checkbox" && /^(yes|true|x|✓)$/i.test(trimmed)) {
+    return 1;
+  }
+  return parseInputToStored(
+    /^-?\d+,\d+$/.test(trimmed) ? trimmed.replace(",", ".") : trimmed,
+    type,
+    displayUnit
+  );
+}
+
+/**
+ * Read entries from CSV rows. Rows without a date, value or tracker are
+ * skipped, as are empty values and unchecked checkboxes.
+ */
+export function mapCsvRows(
+  rows: string[][],
+  mapping: CsvColumnMapping,
+  trackers: Tracker[]
+): { entries: ImportedEntry[]; skipped: CsvSkippedRow[] } {
+  const trackersById = new Map(
+    trackers.map((tracker) => [tracker.id, tracker])
+  );
+  const trackersByTitle = new Map(
+    trackers.map((tracker) => [tracker.title.toLowerCase(), tracker])
+  );
+  const entries: ImportedEntry[] = [];
+  const skipped: CsvSkippedRow[] = [];
+
+  rows.forEach((row, index) => {
+    if (mapping.hasHeader && index === 0) {
+      return;
+    }
+    const line = index + 1;
+    const skip = (reason: string) => skipped.push({ line, reason });
+
+    const fixedTracker =
+      mapping.trackerColumn === undefined && mapping.trackerId
+        ? trackersById.get(mapping.trackerId)
+        : undefined;
+    const trackerTitle =
+      fixedTracker?.title ??
+      (mapping.trackerColumn !== undefined
+        ? row[mapping.trackerColumn]?.trim()
+        : undefined);
+    if (!trackerTitle) {
+      return skip("No tracker");
+    }
+    const tracker =
+      fixedTracker ?? trackersByTitle.get(trackerTitle.toLowerCase());
+    const type = tracker?.type ?? mapping.newTrackerType;
+
+    const date = parseCsvDate(
+      row[mapping.dateColumn] ?? "",
+      mapping.dateFormat
+    );
+    if (!date) {
+      return skip(`Invalid date "${row[mapping.dateColumn] ?? ""}"`);
+    }
+
+    const cell = row[mapping.valueColumn] ?? "";
+    const value = parseCsvValue(cell, type, tracker?.displayUnit);
+    if (value === null) {
+      return cell.trim() ? skip(`Invalid value "${cell}"`) : skip("No value");
+    }
+    if (value === 0) {
+      return skip("Value is 0");
+    }
+
+    const comment =
+      mapping.commentColumn !== undefined
+        ? row[mapping.commentColumn]?.trim() || undefined
+        : undefined;
+
+    entries.push({
+      line,
+      trackerId: tracker?.id,
+      trackerTitle,
+      trackerType: type,
+      date,
+      value,
+      comment,
+    });
+  });
+
+  return { entries, skipped };
+}
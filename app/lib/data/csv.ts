@@ -0,0 +1,88 @@
+const csvDelimiters = [",", ";", "\t"] as const;
+
+/**
+ * Guess the delimiter of a CSV file from its first line
+ */
+function detectDelimiter(text: string): string {
+  const lineEnd = text.indexOf("\n");
+  const firstLine = lineEnd === -1 ? text : text.slice(0, lineEnd);
+  let best: string = csvDelimiters[0];
+  let bestCount = 0;
+  for (const delimiter of csvDelimiters) {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Parse CSV text into rows of cells (RFC 4180: quoted cells may contain
+ * delimiters, line breaks and doubled quotes). Empty lines are skipped.
+ * @param delimiter - Cell delimiter, detected from the first line if not set
+ */
+export function parseCsv(text: string, delimiter?: string): string[][] {
+  const source = text.replace(/^\uFEFF/, "");
+  const separator = delimiter ?? detectDelimiter(source);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== "") {
+      rows.push(row);
+    }
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n") {
+      endRow();
+    } else if (char !== "\r") {
+      cell += char;
+    }
+  }
+  endRow();
+
+  return rows;
+}
+
+/**
+ * Format rows of cells as CSV. Cells with delimiters, quotes or line breaks
+ * are quoted.
+ */
+export function formatCsv(rows: Array<Array<string | number>>): string {
+  return rows
+    .map((row) =>
+      row
+        .map((value) => {
+          const cell = String(value);
+          return /[",;\t\r\n]/.test(cell)
+            ? `"${cell.replace(/"/g, '""')}"`
+            : cell;
+        })
+        .join(",")
+    )
+    .join("\n");
+}
@@ -0,0 +1,261 @@
+import { generateId, getDB } from "../db";
+import { extractHashtagsWithOriginalCasing } from "../tags";
+import type { TrackerType } from "../trackers";
+import { APP_VERSION } from "../version";
+import { toExportedTracker } from "./export";
+import { importData } from "./import";
+import {
+  EXPORT_SCHEMA_VERSION,
+  type ExportData,
+  type ImportReport,
+} from "./types";
+
+/**
+ * An entry read from another format, like a CSV file
+ */
+export interface ImportedEntry {
+  // Line of the source file, to point at it in the preview
+  line?: number;
+  // Existing tracker to add the entry to
+  trackerId?: string;
+  // Otherwise the tracker is matched by title (case-insensitive), or created
+  trackerTitle: string;
+  // Type of the tracker created for an unknown title
+  trackerType: TrackerType;
+  date: string;
+  // Stored value, already converted from the unit of the source
+  value: number;
+  comment?: string;
+}
+
+export interface PlannedEntry extends ImportedEntry {
+  // trackerId is set unless the tracker is created by the import.
+  // The tracker already has an entry with the same date, value and comment
+  isDuplicate: boolean;
+}
+
+export interface EntryImportPlan {
+  entries: PlannedEntry[];
+  // Titles of the trackers the import creates
+  newTrackerTitles: string[];
+}
+
+/**
+ * What an entry import does to one tracker
+ */
+export interface EntryImportTrackerSummary {
+  trackerTitle: string;
+  trackerType: TrackerType;
+  // The tracker is created by the import
+  isNew: boolean;
+  added: number;
+  duplicates: number;
+  // First and last date of the added entries
+  from?: string;
+  to?: string;
+}
+
+/**
+ * What an entry import changed, and the entries it left out
+ */
+export interface EntryImportReport extends ImportReport {
+  // Entries of trackers deleted since the import was planned
+  skipped: ImportedEntry[];
+}
+
+function getEntryKey(
+  trackerId: string,
+  entry: { date: string; value: number; comment?: string }
+): string {
+  return [trackerId, entry.date, entry.value, entry.comment ?? ""].join("|");
+}
+
+/**
+ * Match imported entries to trackers and find the ones that already exist.
+ * An entry that is in the source twice is only a duplicate as often as the
+ * tracker already has it, since the same value can be logged twice a day.
+ */
+export async function planEntryImport(
+  entries: ImportedEntry[]
+): Promise<EntryImportPlan> {
+  const db = await getDB();
+  const trackers = (await db.getAll("trackers")).filter(
+    (tracker) => !tracker.deletedAt
+  );
+  const trackersByTitle = new Map(
+    trackers.map((tracker) => [tracker.title.toLowerCase(), tracker])
+  );
+  const trackerIds = new Set(trackers.map((tracker) => tracker.id));
+
+  const existingCounts = new Map<string, number>();
+  for (const entry of await db.getAll("entries")) {
+    if (!entry.deletedAt && trackerIds.has(entry.trackerId)) {
+      const key = getEntryKey(entry.trackerId, entry);
+      existingCounts.set(key, (existingCounts.get(key) ?? 0) + 1);
+    }
+  }
+
+  const newTrackerTitles = new Map<string, string>();
+  const planned = entries.map((entry): PlannedEntry => {
+    const trackerId =
+      entry.trackerId && trackerIds.has(entry.trackerId)
+        ? entry.trackerId
+        : trackersByTitle.get(entry.trackerTitle.toLowerCase())?.id;
+    if (!trackerId) {
+      const titleKey = entry.trackerTitle.toLowerCase();
+      if (!newTrackerTitles.has(titleKey)) {
+        newTrackerTitles.set(titleKey, entry.trackerTitle);
+      }
+      return { ...entry, trackerId: undefined, isDuplicate: false };
+    }
+
+    const key = getEntryKey(trackerId, entry);
+    const count = existingCounts.get(key) ?? 0;
+    existingCounts.set(key, count - 1);
+    return { ...entry, trackerId, isDuplicate: count > 0 };
+  });
+
+  return {
+    entries: planned,
+    newTrackerTitles: Array.from(newTrackerTitles.values()),
+  };
+}
+
+/**
+ * Summarize a planned import per tracker, for a dry run before importing
+ */
+export function summarizeEntryImport(
+  plan: EntryImportPlan
+): EntryImportTrackerSummary[] {
+  const summaries = new Map<string, EntryImportTrackerSummary>();
+  for (const entry of plan.entries) {
+    const key = entry.trackerId ?? `new:${entry.trackerTitle.toLowerCase()}`;
+    let summary = summaries.get(key);
+    if (!summary) {
+      summary = {
+        trackerTitle: entry.trackerTitle,
+        trackerType: entry.trackerType,
+        isNew: !entry.trackerId,
+        added: 0,
+        duplicates: 0,
+      };
+      summaries.set(key, summary);
+    }
+    if (entry.isDuplicate) {
+      summary.duplicates++;
+      continue;
+    }
+    summary.added++;
+    if (!summary.from || entry.date < summary.from) {
+      summary.from = entry.date;
+    }
+    if (!summary.to || entry.date > summary.to) {
+      summary.to = entry.date;
+    }
+  }
+  return Array.from(summaries.values());
+}
+
+/**
+ * Add imported entries to existing trackers, or to new ones created by
+ * title, skipping duplicates. Runs as a merge import, so no data is replaced.
+ * Entries are copied to parent trackers like entries logged in the app.
+ */
+export async function importEntries(
+  entries: ImportedEntry[]
+): Promise<EntryImportReport> {
+  const db = await getDB();
+  const plan = await planEntryImport(entries);
+  const createdAt = new Date().toISOString();
+
+  const exportedTrackers = new Map<string, ExportData["trackers"][number]>();
+  const newTrackerIds = new Map<string, string>();
+  const tags: ExportData["tags"] = [];
+  const skipped: ImportedEntry[] = [];
+
+  const getExportedTracker = async (trackerId: string) => {
+    let exported = exportedTrackers.get(trackerId);
+    if (!exported) {
+      const tracker = await db.get("trackers", trackerId);
+      if (!tracker || tracker.deletedAt) {
+        return undefined;
+      }
+      // The current version of the tracker, so merging keeps its settings
+      exported = toExportedTracker(tracker, []);
+      exportedTrackers.set(trackerId, exported);
+    }
+    return exported;
+  };
+
+  const addEntry = async (
+    trackerId: string,
+    entry: PlannedEntry
+  ): Promise<boolean> => {
+    const exported = await getExportedTracker(trackerId);
+    if (!exported) {
+      return false;
+    }
+    const id = generateId();
+    exported.entries.push({
+      id,
+      date: entry.date,
+      value: entry.value,
+      comment: entry.comment,
+      createdAt,
+    });
+    for (const { lowercase, original } of extractHashtagsWithOriginalCasing(
+      entry.comment
+    )) {
+      tags.push({
+        id: generateId(),
+        entryId: id,
+        trackerId,
+        tagName: lowercase,
+        tagNameWithOriginalCasing: original,
+      });
+    }
+
+    if (exported.parentId) {
+      await addEntry(exported.parentId, entry);
+    }
+    return true;
+  };
+
+  for (const entry of plan.entries) {
+    if (entry.isDuplicate) {
+      continue;
+    }
+
+    let trackerId = entry.trackerId;
+    if (!trackerId) {
+      const titleKey = entry.trackerTitle.toLowerCase();
+      trackerId = newTrackerIds.get(titleKey);
+      if (!trackerId) {
+        trackerId = generateId();
+        newTrackerIds.set(titleKey, trackerId);
+        exportedTrackers.set(trackerId, {
+          id: trackerId,
+          title: entry.trackerTitle,
+          type: entry.trackerType,
+          isNumber: entry.trackerType !== "checkbox",
+          updatedAt: createdAt,
+          entries: [],
+        });
+      }
+    }
+
+    if (!(await addEntry(trackerId, entry))) {
+      skipped.push(entry);
+    }
+  }
+
+  const report = await importData({
+    version: APP_VERSION,
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    exportDate: createdAt,
+    lastChangeDate: createdAt,
+    trackers: Array.from(exportedTrackers.values()),
+    tags,
+  });
+  return { ...report, skipped };
+}
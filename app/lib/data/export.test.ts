@@ -1,5 +1,5 @@
 import { describe, test, expect, beforeEach } from "bun:test";
-import { importData, type ExportData } from ".";
+import { exportData, importData, type ExportData } from ".";
 import {
   clearAllData,
   getDB,
@@ -36,6 +36,7 @@ describe("importData merge functionality", () => {
     // Import data with same tracker ID but different title and goal
     const importedData: ExportData = {
       version: "1.0.0",
+      schemaVersion: 2,
       exportDate: new Date().toISOString(),
       trackers: [
         {
@@ -44,6 +45,9 @@ describe("importData merge functionality", () => {
           type: "liters",
           isNumber: true,
           goal: 2000,
+          goalPeriod: "week",
+          goalDirection: "atMost",
+          reminders: [{ id: "reminder-1", time: "20:00", weekdays: [1, 3] }],
           entries: [],
         },
       ],
@@ -57,9 +61,62 @@ describe("importData merge functionality", () => {
     expect(tracker).not.toBeNull();
     expect(tracker?.title).toBe("New Title");
     expect(tracker?.goal).toBe(2000);
+    expect(tracker?.goalPeriod).toBe("week");
+    expect(tracker?.goalDirection).toBe("atMost");
+    expect(tracker?.reminders?.[0].time).toBe("20:00");
     expect(tracker?.type).toBe("liters"); // Should remain unchanged
   });
 
+  test("should combine goal histories when merging", async () => {
+    const trackerId = "tracker-1";
+    await saveTrackerWithId(
+      {
+        id: trackerId,
+        title: "Water",
+        type: "liters",
+        isNumber: true,
+        goal: 1500,
+        goalHistory: [
+          { effectiveFrom: "2024-01-01", goal: 1000 },
+          { effectiveFrom: "2024-03-01", goal: 1500 },
+        ],
+        updatedAt: new Date("2024-03-01T10:00:00Z"),
+      },
+      true
+    );
+
+    const importedData: ExportData = {
+      version: "1.0.0",
+      schemaVersion: 2,
+      exportDate: new Date().toISOString(),
+      trackers: [
+        {
+          id: trackerId,
+          title: "Water",
+          type: "liters",
+          isNumber: true,
+          goal: 2000,
+          goalHistory: [
+            { effectiveFrom: "2024-01-01", goal: 1000 },
+            { effectiveFrom: "2024-02-01", goal: 2000 },
+          ],
+          updatedAt: "2024-02-01T10:00:00Z",
+          entries: [],
+        },
+      ],
+      tags: [],
+    };
+
+    await importData(importedData, false);
+
+    // Local metadata is newer, but the older goal version is kept
+    const tracker = await getTrackerById(trackerId);
+    expect(tracker?.goal).toBe(1500);
+    expect(tracker?.goalHistory?.map((version) => version.goal)).toEqual([
+      1000, 2000, 1500,
+    ]);
+  });
+
   test("should keep newer entry based on createdAt", async () => {
     const trackerId = "tracker-1";
     const entryId = "entry-1";
@@ -90,6 +147,7 @@ describe("importData merge functionality", () => {
     // Import data with same entry ID but older timestamp
     const importedData: ExportData = {
       version: "1.0.0",
+      schemaVersion: 2,
       exportDate: new Date().toISOString(),
       trackers: [
         {
@@ -150,6 +208,7 @@ describe("importData merge functionality", () => {
     // Import data with same entry ID but newer timestamp
     const importedData: ExportData = {
       version: "1.0.0",
+      schemaVersion: 2,
       exportDate: new Date().toISOString(),
       trackers: [
         {
@@ -199,6 +258,7 @@ describe("importData merge functionality", () => {
     // Import data with new entries
     const importedData: ExportData = {
       version: "1.0.0",
+      schemaVersion: 2,
       exportDate: new Date().toISOString(),
       trackers: [
         {
@@ -241,6 +301,7 @@ describe("importData merge functionality", () => {
     // Import data with new tracker
     const importedData: ExportData = {
       version: "1.0.0",
+      schemaVersion: 2,
       exportDate: new Date().toISOString(),
       trackers: [
         {
@@ -275,6 +336,7 @@ describe("importData merge functionality", () => {
     // Import data with newer lastChangeDate
     const importedData: ExportData = {
       version: "1.0.0",
+      schemaVersion: 2,
       exportDate: new Date().toISOString(),
       lastChangeDate: newerDate.toISOString(),
       trackers: [],
@@ -299,6 +361,7 @@ describe("importData merge functionality", () => {
     // Import data with older lastChangeDate
     const importedData: ExportData = {
       version: "1.0.0",
+      schemaVersion: 2,
       exportDate: new Date().toISOString(),
       lastChangeDate: olderDate.toISOString(),
       trackers: [],
@@ -340,6 +403,7 @@ describe("importData merge functionality", () => {
     // Import data with tags - one for existing entry, one for non-existing entry
     const importedData: ExportData = {
       version: "1.0.0",
+      schemaVersion: 2,
       exportDate: new Date().toISOString(),
       trackers: [
         {
@@ -415,6 +479,7 @@ describe("importData merge functionality", () => {
     // Import data with same tag
     const importedData: ExportData = {
       version: "1.0.0",
+      schemaVersion: 2,
       exportDate: new Date().toISOString(),
       trackers: [
         {
@@ -458,6 +523,7 @@ describe("importData merge functionality", () => {
     // Import completely different data with clearExisting=true
     const importedData: ExportData = {
       version: "1.0.0",
+      schemaVersion: 2,
       exportDate: new Date().toISOString(),
       trackers: [
         {
@@ -480,6 +546,26 @@ describe("importData merge functionality", () => {
     expect(newTracker).not.toBeNull();
   });
 
+  test("should keep the display unit of a tracker through export and import", async () => {
+    await saveTrackerWithId(
+      {
+        id: "water",
+        title: "Water",
+        type: "liters",
+        isNumber: true,
+        displayUnit: "oz",
+      },
+      true
+    );
+
+    const data = await exportData();
+    expect(data.trackers[0].displayUnit).toBe("oz");
+
+    await clearAllData();
+    await importData(data, true);
+    expect((await getTrackerById("water"))?.displayUnit).toBe("oz");
+  });
+
   test("should handle complex merge scenario", async () => {
     // Setup: Create multiple trackers and entries
     await saveTrackerWithId(
@@ -509,6 +595,7 @@ describe("importData merge functionality", () => {
     // - New entry-2
     const importedData: ExportData = {
       version: "1.0.0",
+      schemaVersion: 2,
       exportDate: new Date().toISOString(),
       trackers: [
         {
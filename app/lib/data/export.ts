@@ -1,6 +1,80 @@
-import { getLastChangeDate, getDB } from "../db";
+import {
+  getLastChangeDate,
+  getDB,
+  type StoredEntry,
+  type StoredEntryTag,
+  type SyncChange,
+} from "../db";
+import type { CustomUnit } from "../custom-units";
+import type { Tracker } from "../trackers";
 import { APP_VERSION } from "../version";
-import type { ExportData } from "./types";
+import { EXPORT_SCHEMA_VERSION, type ExportData } from "./types";
+
+export function toExportedTracker(
+  tracker: Tracker,
+  entries: StoredEntry[]
+): ExportData["trackers"][number] {
+  return {
+    id: tracker.id,
+    title: tracker.title,
+    type: tracker.type,
+    isNumber: tracker.isNumber,
+    goal: tracker.goal,
+    goalPeriod: tracker.goalPeriod,
+    goalDirection: tracker.goalDirection,
+    goalMax: tracker.goalMax,
+    goalHistory: tracker.goalHistory,
+    reminders: tracker.reminders,
+    parentId: tracker.parentId,
+    isHidden: tracker.isHidden,
+    displayUnit: tracker.displayUnit,
+    deletedAt: tracker.deletedAt?.toISOString(),
+    updatedAt: tracker.updatedAt?.toISOString(),
+    fieldUpdatedAt: tracker.fieldUpdatedAt
+      ? Object.fromEntries(
+          Object.entries(tracker.fieldUpdatedAt).map(([group, date]) => [
+            group,
+            date.toISOString(),
+          ])
+        )
+      : undefined,
+    entries: entries.map((entry) => ({
+      id: entry.id,
+      date: entry.date,
+      value: entry.value,
+      comment: entry.comment,
+      createdAt: entry.createdAt.toISOString(),
+      updatedAt: entry.updatedAt?.toISOString(),
+      revision: entry.revision,
+      deletedAt: entry.deletedAt?.toISOString(),
+    })),
+  };
+}
+
+function toExportedTag(tag: StoredEntryTag): ExportData["tags"][number] {
+  return {
+    id: tag.id,
+    entryId: tag.entryId,
+    trackerId: tag.trackerId,
+    tagName: tag.tagName,
+    tagNameWithOriginalCasing: tag.tagNameWithOriginalCasing,
+  };
+}
+
+function toExportedCustomUnit(
+  unit: CustomUnit
+): NonNullable<ExportData["customUnits"]>[number] {
+  return {
+    id: unit.id,
+    label: unit.label,
+    short: unit.short,
+    shortest: unit.shortest,
+    factor: unit.factor,
+    decimals: unit.decimals,
+    deletedAt: unit.deletedAt?.toISOString(),
+    updatedAt: unit.updatedAt?.toISOString(),
+  };
+}
 
 /**
  * Export all data to JSON (including deleted items for sync)
@@ -15,8 +89,12 @@ export async function exportData(): Promise<ExportData> {
   // Get all tags
   const allTags = await db.getAll("entry_tags");
 
+  // Get ALL custom units (including deleted ones)
+  const allCustomUnits = await db.getAll("custom_units");
+
   const exportData: ExportData = {
     version: APP_VERSION,
+    schemaVersion: EXPORT_SCHEMA_VERSION,
     exportDate: new Date().toISOString(),
     lastChangeDate: lastChangeDate?.toISOString(),
     trackers: await Promise.all(
@@ -28,34 +106,71 @@ export async function exportData(): Promise<ExportData> {
           tracker.id
         );
 
-        return {
-          id: tracker.id,
-          title: tracker.title,
-          type: tracker.type,
-          isNumber: tracker.isNumber,
-          goal: tracker.goal,
-          parentId: tracker.parentId,
-          deletedAt: tracker.deletedAt?.toISOString(),
-          updatedAt: tracker.updatedAt?.toISOString(),
-          entries: allEntries.map((entry) => ({
-            id: entry.id,
-            date: entry.date,
-            value: entry.value,
-            comment: entry.comment,
-            createdAt: entry.createdAt.toISOString(),
-            deletedAt: entry.deletedAt?.toISOString(),
-          })),
-        };
+        return toExportedTracker(tracker, allEntries);
       })
     ),
-    tags: allTags.map((tag) => ({
-      id: tag.id,
-      entryId: tag.entryId,
-      trackerId: tag.trackerId,
-      tagName: tag.tagName,
-      tagNameWithOriginalCasing: tag.tagNameWithOriginalCasing,
-    })),
+    tags: allTags.map(toExportedTag),
+    customUnits: allCustomUnits.map(toExportedCustomUnit),
   };
 
   return exportData;
 }
+
+/**
+ * Export only the given changed entities, in the same format as exportData.
+ * Changed entries are nested in their tracker, which is included as well.
+ * Entities that no longer exist (hard deleted) are skipped.
+ */
+export async function exportChanges(
+  changes: SyncChange[]
+): Promise<ExportData> {
+  const lastChangeDate = await getLastChangeDate();
+  const db = await getDB();
+
+  const trackerIds = new Set<string>();
+  const entriesByTracker = new Map<string, StoredEntry[]>();
+  const tags: StoredEntryTag[] = [];
+  const customUnits: CustomUnit[] = [];
+
+  for (const change of changes) {
+    if (change.store === "trackers") {
+      trackerIds.add(change.key);
+    } else if (change.store === "entries") {
+      const entry = await db.get("entries", change.key);
+      if (!entry) continue;
+
+      trackerIds.add(entry.trackerId);
+      const entries = entriesByTracker.get(entry.trackerId) ?? [];
+      entries.push(entry);
+      entriesByTracker.set(entry.trackerId, entries);
+      tags.push(
+        ...(await db.getAllFromIndex("entry_tags", "by-entry", entry.id))
+      );
+    } else {
+      const unit = await db.get("custom_units", change.key);
+      if (unit) {
+        customUnits.push(unit);
+      }
+    }
+  }
+
+  const trackers: ExportData["trackers"] = [];
+  for (const trackerId of trackerIds) {
+    const tracker = await db.get("trackers", trackerId);
+    if (tracker) {
+      trackers.push(
+        toExportedTracker(tracker, entriesByTracker.get(trackerId) ?? [])
+      );
+    }
+  }
+
+  return {
+    version: APP_VERSION,
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    exportDate: new Date().toISOString(),
+    lastChangeDate: lastChangeDate?.toISOString(),
+    trackers,
+    tags: tags.map(toExportedTag),
+    customUnits: customUnits.map(toExportedCustomUnit),
+  };
+}
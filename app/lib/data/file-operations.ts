@@ -1,28 +1,41 @@
 import { exportData } from "./export";
 import type { ExportData } from "./types";
 
+function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
 /**
  * Download data as JSON file
+ * @param data - Data to download, like a backup. Defaults to all current data.
  */
-export async function downloadDataAsJson(): Promise<void> {
-  const data = await exportData();
+export async function downloadDataAsJson(data?: ExportData): Promise<void> {
+  data ??= await exportData();
   const blob = new Blob([JSON.stringify(data, null, 2)], {
     type: "application/json",
   });
 
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
   // Format the datetime for filename: YYYY-MM-DD_HH-MM-SS
   const dateForFilename = data.exportDate
     .replace(/:/g, "-")
     .replace("T", "_")
     .replace(/\.\d{3}Z$/, "");
-  a.download = `anythingtracker-backup-${dateForFilename}.json`;
-  document.body.appendChild(a);
-  a.click();
-  document.body.removeChild(a);
-  URL.revokeObjectURL(url);
+  downloadBlob(blob, `anythingtracker-backup-${dateForFilename}.json`);
+}
+
+/**
+ * Download CSV text as a file
+ */
+export function downloadCsv(csv: string, filename: string): void {
+  // The byte order mark makes spreadsheet apps read the file as UTF-8
+  downloadBlob(new Blob(["\uFEFF", csv], { type: "text/csv" }), filename);
 }
 
 /**
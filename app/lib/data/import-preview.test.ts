@@ -0,0 +1,185 @@
+import { describe, test, expect, beforeEach } from "bun:test";
+import {
+  excludeTrackersFromImport,
+  importData,
+  previewImport,
+  type ExportData,
+} from ".";
+import {
+  clearAllData,
+  createEntryWithId,
+  getAllTrackers,
+  getTrackerById,
+  saveTrackerWithId,
+  updateEntry,
+} from "../db";
+
+// Mock IndexedDB for testing
+import "fake-indexeddb/auto";
+
+const createdAt = new Date("2024-01-01T10:00:00Z");
+
+const importedData: ExportData = {
+  version: "1.0.0",
+  schemaVersion: 2,
+  exportDate: "2024-01-05T10:00:00.000Z",
+  trackers: [
+    {
+      id: "water",
+      title: "Water",
+      type: "liters",
+      isNumber: true,
+      entries: [
+        {
+          id: "w1",
+          date: "2024-01-01",
+          value: 750,
+          createdAt: createdAt.toISOString(),
+          updatedAt: "2024-01-03T10:00:00.000Z",
+          revision: 1,
+        },
+        {
+          id: "w3",
+          date: "2024-01-03",
+          value: 250,
+          createdAt: "2024-01-03T10:00:00.000Z",
+        },
+      ],
+    },
+    {
+      id: "coffee",
+      title: "Coffee",
+      type: "none",
+      isNumber: true,
+      entries: [
+        {
+          id: "c1",
+          date: "2024-01-03",
+          value: 1000,
+          createdAt: "2024-01-03T10:00:00.000Z",
+        },
+      ],
+    },
+  ],
+  tags: [],
+};
+
+describe("Import preview", () => {
+  beforeEach(async () => {
+    await clearAllData();
+    await saveTrackerWithId(
+      { id: "water", title: "Water", type: "liters", isNumber: true },
+      true
+    );
+    await saveTrackerWithId(
+      { id: "walks", title: "Walks", type: "none", isNumber: true },
+      true
+    );
+    await createEntryWithId("w1", "water", "2024-01-01", 500, createdAt, true);
+    await createEntryWithId("w2", "water", "2024-01-02", 1000, createdAt, true);
+    await createEntryWithId("k1", "walks", "2024-01-02", 2000, createdAt, true);
+  });
+
+  test("previews a merge without changing data", async () => {
+    const preview = await previewImport(importedData, "merge");
+
+    expect(
+      preview.map(({ trackerId, change, entries, conflicts }) => ({
+        trackerId,
+        change,
+        entries,
+        conflicts,
+      }))
+    ).toEqual([
+      {
+        trackerId: "water",
+        change: "unchanged",
+        entries: { added: 1, updated: 1, deleted: 0 },
+        conflicts: 0,
+      },
+      {
+        trackerId: "coffee",
+        change: "added",
+        entries: { added: 1, updated: 0, deleted: 0 },
+        conflicts: 0,
+      },
+    ]);
+    expect(preview[0].samples.updated.map((entry) => entry.value)).toEqual([
+      750,
+    ]);
+    expect(await getTrackerById("coffee")).toBeNull();
+
+    const report = await importData(importedData);
+    expect(report.entries).toEqual({ added: 2, updated: 1, deleted: 0 });
+  });
+
+  test("counts entries both sides edited as conflicts", async () => {
+    await updateEntry("w1", { date: "2024-01-01", value: 600 });
+    const [water] = await previewImport(importedData, "merge");
+
+    expect(water.conflicts).toBe(1);
+    expect(water.samples.conflicted.map((entry) => entry.value)).toEqual([
+      600,
+    ]);
+  });
+
+  test("shows entries in the display unit of the tracker", async () => {
+    const data: ExportData = {
+      ...importedData,
+      trackers: [{ ...importedData.trackers[0], displayUnit: "oz" }],
+    };
+    const [water] = await previewImport(data, "merge");
+    expect(water.displayUnit).toBe("oz");
+  });
+
+  test("previews what a replace removes", async () => {
+    const preview = await previewImport(importedData, "replace");
+
+    expect(
+      preview.map(({ trackerId, change, entries }) => ({
+        trackerId,
+        change,
+        entries,
+      }))
+    ).toEqual([
+      {
+        trackerId: "water",
+        change: "unchanged",
+        entries: { added: 1, updated: 1, deleted: 1 },
+      },
+      {
+        trackerId: "coffee",
+        change: "added",
+        entries: { added: 1, updated: 0, deleted: 0 },
+      },
+      {
+        trackerId: "walks",
+        change: "deleted",
+        entries: { added: 0, updated: 0, deleted: 1 },
+      },
+    ]);
+    expect(preview[0].samples.deleted.map((entry) => entry.id)).toEqual(["w2"]);
+  });
+
+  test("keeps excluded trackers as they are", async () => {
+    const replaceData = await excludeTrackersFromImport(
+      importedData,
+      "replace",
+      ["walks", "coffee"]
+    );
+    await importData(replaceData, true);
+
+    const trackers = await getAllTrackers();
+    expect(trackers.map((tracker) => tracker.id).sort()).toEqual([
+      "walks",
+      "water",
+    ]);
+    expect((await getTrackerById("walks"))?.values).toEqual({
+      "2024-01-02": 2000,
+    });
+    expect((await getTrackerById("water"))?.values).toEqual({
+      "2024-01-01": 750,
+      "2024-01-03": 250,
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import { getDB, type StoredEntry } from "../db";
+import type { DisplayUnit } from "../number-conversions";
+import { getChangedTrackerFields, type TrackerType } from "../trackers";
+import { exportData } from "./export";
+import {
+  compareEntryVersions,
+  createImportCounts,
+  hasSameEntryContent,
+  mergeTracker,
+  toEntry,
+  toTracker,
+} from "./import";
+import type { ChangeCounts, ExportData } from "./types";
+
+export const importModes = ["merge", "replace"] as const;
+
+export type ImportMode = (typeof importModes)[number];
+
+export const importModesLabels: Record<ImportMode, string> = {
+  merge: "Merge with existing data",
+  replace: "Replace all existing data",
+};
+
+export function isImportMode(value: unknown): value is ImportMode {
+  return importModes.includes(value as ImportMode);
+}
+
+// Entries shown per kind of change
+const SAMPLE_ENTRIES = 3;
+
+/**
+ * What an import would change in one tracker
+ */
+export interface TrackerImportPreview {
+  trackerId: string;
+  title: string;
+  type: TrackerType;
+  displayUnit?: DisplayUnit;
+  change: "added" | "updated" | "deleted" | "unchanged";
+  entries: ChangeCounts;
+  // Settings and entries both sides changed; the newer version is kept
+  conflicts: number;
+  samples: Record<keyof ChangeCounts | "conflicted", StoredEntry[]>;
+}
+
+function createTrackerPreview(
+  tracker: Pick<
+    TrackerImportPreview,
+    "trackerId" | "title" | "type" | "displayUnit"
+  >
+): TrackerImportPreview {
+  return {
+    ...tracker,
+    change: "unchanged",
+    entries: createImportCounts().entries,
+    conflicts: 0,
+    samples: { added: [], updated: [], deleted: [], conflicted: [] },
+  };
+}
+
+function addEntryChange(
+  preview: TrackerImportPreview,
+  kind: keyof ChangeCounts | "conflicted",
+  entry: StoredEntry
+): void {
+  if (kind === "conflicted") {
+    preview.conflicts++;
+  } else {
+    preview.entries[kind]++;
+  }
+  if (preview.samples[kind].length < SAMPLE_ENTRIES) {
+    preview.samples[kind].push(entry);
+  }
+}
+
+function hasChanges(preview: TrackerImportPreview): boolean {
+  const { added, updated, deleted } = preview.entries;
+  return (
+    preview.change !== "unchanged" ||
+    added + updated + deleted + preview.conflicts > 0
+  );
+}
+
+/**
+ * Work out what importing data would change, without changing anything.
+ * Merge follows the rules of the merge import; replace compares the
+ * imported data with the data it replaces.
+ * @returns The trackers the import changes
+ */
+export async function previewImport(
+  data: ExportData,
+  mode: ImportMode
+): Promise<TrackerImportPreview[]> {
+  const db = await getDB();
+  const localTrackers = new Map(
+    (await db.getAll("trackers")).map((tracker) => [tracker.id, tracker])
+  );
+  const localEntries = new Map(
+    (await db.getAll("entries")).map((entry) => [entry.id, entry])
+  );
+  const previews: TrackerImportPreview[] = [];
+
+  for (const trackerData of data.trackers) {
+    const imported = toTracker(trackerData);
+    const existing = localTrackers.get(trackerData.id);
+    const preview = createTrackerPreview({
+      trackerId: imported.id,
+      title: imported.title,
+      type: imported.type,
+      displayUnit: imported.displayUnit,
+    });
+
+    if (mode === "replace") {
+      const isLocal = !!existing && !existing.deletedAt;
+      if (imported.deletedAt) {
+        preview.change = isLocal ? "deleted" : "unchanged";
+      } else if (!isLocal) {
+        preview.change = "added";
+      } else if (getChangedTrackerFields(existing, imported).length > 0) {
+        preview.change = "updated";
+      }
+
+      const importedIds = new Set<string>();
+      for (const entryData of trackerData.entries) {
+        const entry = toEntry(entryData, imported.id);
+        importedIds.add(entry.id);
+        const existingEntry = localEntries.get(entry.id);
+        if (entry.deletedAt || imported.deletedAt) {
+          if (existingEntry && !existingEntry.deletedAt && isLocal) {
+            addEntryChange(preview, "deleted", existingEntry);
+          }
+        } else if (!existingEntry || existingEntry.deletedAt || !isLocal) {
+          addEntryChange(preview, "added", entry);
+        } else if (!hasSameEntryContent(entry, existingEntry)) {
+          addEntryChange(preview, "updated", entry);
+        }
+      }
+      // Local entries missing from the import are removed with the rest
+      for (const entry of localEntries.values()) {
+        if (
+          isLocal &&
+          entry.trackerId === imported.id &&
+          !entry.deletedAt &&
+          !importedIds.has(entry.id)
+        ) {
+          addEntryChange(preview, "deleted", entry);
+        }
+      }
+    } else {
+      if (existing) {
+        const { tracker, isChanged, conflicts } = mergeTracker(
+          existing,
+          imported
+        );
+        preview.conflicts += conflicts.length;
+        if (tracker.deletedAt && !existing.deletedAt) {
+          preview.change = "deleted";
+        } else if (isChanged) {
+          preview.change = "updated";
+        }
+      } else if (!imported.deletedAt) {
+        preview.change = "added";
+      }
+
+      for (const entryData of trackerData.entries) {
+        const entry = toEntry(entryData, imported.id);
+        const existingEntry = localEntries.get(entry.id);
+        if (!existingEntry) {
+          if (!entry.deletedAt) {
+            addEntryChange(preview, "added", entry);
+          }
+          continue;
+        }
+        const comparison = compareEntryVersions(entry, existingEntry);
+        const isChanged = !hasSameEntryContent(entry, existingEntry);
+        // Both sides edited the same revision. A side that built on the
+        // other's edit has the higher revision.
+        if (
+          isChanged &&
+          (entry.revision ?? 0) === (existingEntry.revision ?? 0)
+        ) {
+          addEntryChange(
+            preview,
+            "conflicted",
+            comparison > 0 ? entry : existingEntry
+          );
+        }
+        if (comparison > 0) {
+          if (entry.deletedAt && !existingEntry.deletedAt) {
+            addEntryChange(preview, "deleted", existingEntry);
+          } else if (isChanged) {
+            addEntryChange(preview, "updated", entry);
+          }
+        }
+      }
+    }
+
+    if (hasChanges(preview)) {
+      previews.push(preview);
+    }
+  }
+
+  if (mode === "replace") {
+    // Local trackers missing from the import are removed
+    const importedIds = new Set(data.trackers.map((tracker) => tracker.id));
+    for (const tracker of localTrackers.values()) {
+      if (tracker.deletedAt || importedIds.has(tracker.id)) {
+        continue;
+      }
+      const preview = createTrackerPreview({
+        trackerId: tracker.id,
+        title: tracker.title,
+        type: tracker.type,
+        displayUnit: tracker.displayUnit,
+      });
+      preview.change = "deleted";
+      for (const entry of localEntries.values()) {
+        if (entry.trackerId === tracker.id && !entry.deletedAt) {
+          addEntryChange(preview, "deleted", entry);
+        }
+      }
+      previews.push(preview);
+    }
+  }
+
+  return previews;
+}
+
+/**
+ * Leave trackers out of an import, so they stay as they are. When replacing,
+ * their local version, with its entries and tags, is imported instead.
+ * @returns The data to import
+ */
+export async function excludeTrackersFromImport(
+  data: ExportData,
+  mode: ImportMode,
+  excludedTrackerIds: string[]
+): Promise<ExportData> {
+  if (excludedTrackerIds.length === 0) {
+    return data;
+  }
+  const excluded = new Set(excludedTrackerIds);
+  const result: ExportData = {
+    ...data,
+    trackers: data.trackers.filter((tracker) => !excluded.has(tracker.id)),
+    tags: data.tags.filter((tag) => !excluded.has(tag.trackerId)),
+  };
+
+  if (mode === "replace") {
+    const local = await exportData();
+    const importedUnitIds = new Set(
+      (data.customUnits ?? []).map((unit) => unit.id)
+    );
+    result.trackers.push(
+      ...local.trackers.filter((tracker) => excluded.has(tracker.id))
+    );
+    result.tags.push(
+      ...local.tags.filter((tag) => excluded.has(tag.trackerId))
+    );
+    // Kept trackers may use units the import doesn't have
+    result.customUnits = [
+      ...(data.customUnits ?? []),
+      ...(local.customUnits ?? []).filter(
+        (unit) => !importedUnitIds.has(unit.id)
+      ),
+    ];
+  }
+
+  return result;
+}
@@ -4,66 +4,358 @@ import {
   getLastChangeDate,
   setLastChangeDate,
   getDB,
+  loadCustomUnits,
+  deleteEntryTags,
+  resetSyncCursor,
+  getBackupData,
+  type StoredEntry,
 } from "../db";
-import type { ExportData } from "./types";
+import type { CustomUnit } from "../custom-units";
+import { mergeGoalHistories } from "../goals";
+import { isDisplayUnit } from "../number-conversions";
+import {
+  type GoalDirection,
+  type GoalPeriod,
+  type GoalVersion,
+  type Tracker,
+  type TrackerFieldGroup,
+  getChangedTrackerFields,
+  getTrackerFieldUpdatedAt,
+  pickTrackerFields,
+  trackerFieldGroupNames,
+} from "../trackers";
+import { createBackup } from "./backups";
+import { readExportData } from "./migrate";
+import type {
+  ExportData,
+  ImportCounts,
+  ImportReport,
+  MergeConflict,
+} from "./types";
+
+export interface SyncImportOptions {
+  /**
+   * End of the previous sync. Entities both sides changed after it are
+   * reported as conflicts; without it every difference is one.
+   */
+  lastSyncedAt?: Date;
+}
 
 /**
  * Import data from JSON
  *
  * @param exportData - The data to import
  * @param clearExisting - If true, clear all existing data first
+ * @param sync - Set if the data came from the sync backend. Other imports
+ *   are not in the sync change log, so the next sync uploads all data, and
+ *   local data is backed up first.
+ * @returns What the import changed in local data
  */
 export async function importData(
   exportData: ExportData,
-  clearExisting = false
-): Promise<void> {
-  if (clearExisting) {
-    await clearAndReplace(exportData);
-  } else {
-    await mergeImportData(exportData);
+  clearExisting = false,
+  sync?: SyncImportOptions
+): Promise<ImportReport> {
+  if (!sync) {
+    await createBackup("import");
+  }
+
+  const report = clearExisting
+    ? await clearAndReplace(exportData)
+    : await mergeImportData(exportData, sync?.lastSyncedAt);
+
+  if (!sync) {
+    await resetSyncCursor();
+  }
+
+  // Imported custom units must be resolvable by number conversions right away
+  await loadCustomUnits();
+
+  return report;
+}
+
+/**
+ * Replace all data with a backup. The current data is backed up first, so
+ * restoring can be undone by restoring that backup.
+ */
+export async function restoreBackup(id: string): Promise<ImportReport> {
+  const data = await getBackupData(id);
+  if (!data) {
+    throw new Error("Backup not found");
+  }
+  // Backups of older versions use an older format
+  return importData(readExportData(data), true);
+}
+
+/**
+ * Create counts of an import that changed nothing
+ */
+export function createImportCounts(): ImportCounts {
+  const counts = () => ({ added: 0, updated: 0, deleted: 0 });
+  return { trackers: counts(), entries: counts(), tags: counts() };
+}
+
+/**
+ * Create a report of an import that changed nothing
+ */
+export function createImportReport(): ImportReport {
+  return { ...createImportCounts(), conflicts: [] };
+}
+
+/**
+ * Add the counts of one import to another
+ */
+export function addImportCounts(
+  target: ImportCounts,
+  source: ImportCounts
+): void {
+  for (const type of ["trackers", "entries", "tags"] as const) {
+    target[type].added += source[type].added;
+    target[type].updated += source[type].updated;
+    target[type].deleted += source[type].deleted;
+  }
+}
+
+/**
+ * Whether both sides changed an entity since the previous sync. A change in
+ * the same millisecond counts, since missing a conflict is worse.
+ */
+function isConcurrentChange(
+  localUpdatedAt: Date | undefined,
+  importedUpdatedAt: Date | undefined,
+  lastSyncedAt: Date | undefined
+): boolean {
+  if (!lastSyncedAt) {
+    return true;
+  }
+  return (
+    !!localUpdatedAt &&
+    !!importedUpdatedAt &&
+    localUpdatedAt >= lastSyncedAt &&
+    importedUpdatedAt >= lastSyncedAt
+  );
+}
+
+/**
+ * Convert exported custom unit data to the stored format
+ */
+function toCustomUnit(
+  unitData: NonNullable<ExportData["customUnits"]>[number]
+): CustomUnit {
+  return {
+    id: unitData.id,
+    label: unitData.label,
+    short: unitData.short,
+    shortest: unitData.shortest,
+    factor: unitData.factor,
+    decimals: unitData.decimals,
+    deletedAt: unitData.deletedAt ? new Date(unitData.deletedAt) : undefined,
+    updatedAt: unitData.updatedAt ? new Date(unitData.updatedAt) : undefined,
+  };
+}
+
+/**
+ * Convert exported entry data to the stored format
+ */
+export function toEntry(
+  entry: ExportData["trackers"][number]["entries"][number],
+  trackerId: string
+): StoredEntry {
+  return {
+    id: entry.id,
+    trackerId,
+    date: entry.date,
+    value: entry.value,
+    comment: entry.comment,
+    createdAt: new Date(entry.createdAt),
+    updatedAt: entry.updatedAt ? new Date(entry.updatedAt) : undefined,
+    revision: entry.revision,
+    deletedAt: entry.deletedAt ? new Date(entry.deletedAt) : undefined,
+  };
+}
+
+/**
+ * Whether two versions of an entry show the same data
+ */
+export function hasSameEntryContent(a: StoredEntry, b: StoredEntry): boolean {
+  return (
+    a.date === b.date &&
+    a.value === b.value &&
+    (a.comment ?? "") === (b.comment ?? "") &&
+    !!a.deletedAt === !!b.deletedAt
+  );
+}
+
+/**
+ * Order two versions of an entry: the higher revision wins, then the later
+ * change, then the deletion
+ * @returns A positive number if a is newer, negative if b is newer, 0 if equal
+ */
+export function compareEntryVersions(a: StoredEntry, b: StoredEntry): number {
+  return (
+    (a.revision ?? 0) - (b.revision ?? 0) ||
+    (a.updatedAt ?? a.createdAt).getTime() -
+      (b.updatedAt ?? b.createdAt).getTime() ||
+    Number(!!a.deletedAt) - Number(!!b.deletedAt)
+  );
+}
+
+/**
+ * Convert exported tracker data to the stored format
+ */
+export function toTracker(
+  trackerData: ExportData["trackers"][number]
+): Omit<Tracker, "values"> {
+  const fieldUpdatedAt: Partial<Record<TrackerFieldGroup, Date>> = {};
+  for (const group of trackerFieldGroupNames) {
+    const date = trackerData.fieldUpdatedAt?.[group];
+    if (date) {
+      fieldUpdatedAt[group] = new Date(date);
+    }
   }
+
+  return {
+    id: trackerData.id,
+    title: trackerData.title,
+    type: trackerData.type as any,
+    isNumber: trackerData.isNumber,
+    goal: trackerData.goal,
+    goalPeriod: trackerData.goalPeriod as GoalPeriod | undefined,
+    goalDirection: trackerData.goalDirection as GoalDirection | undefined,
+    goalMax: trackerData.goalMax,
+    goalHistory: trackerData.goalHistory as GoalVersion[] | undefined,
+    reminders: trackerData.reminders,
+    parentId: trackerData.parentId,
+    isHidden: trackerData.isHidden,
+    displayUnit: isDisplayUnit(trackerData.displayUnit)
+      ? trackerData.displayUnit
+      : undefined,
+    deletedAt: trackerData.deletedAt
+      ? new Date(trackerData.deletedAt)
+      : undefined,
+    updatedAt: trackerData.updatedAt
+      ? new Date(trackerData.updatedAt)
+      : undefined,
+    fieldUpdatedAt: trackerData.fieldUpdatedAt ? fieldUpdatedAt : undefined,
+  };
+}
+
+/**
+ * Merge two versions of a tracker, keeping the newer value of each field
+ * group. Goal versions from both sides are kept; the later of deleting and
+ * restoring wins.
+ * @returns The merged tracker, whether an imported value was used, and the
+ *   field groups both sides changed since the previous sync
+ */
+export function mergeTracker(
+  existing: Tracker,
+  imported: Omit<Tracker, "values">,
+  lastSyncedAt?: Date
+): { tracker: Tracker; isChanged: boolean; conflicts: MergeConflict[] } {
+  const merged: Tracker = { ...existing };
+  const fieldUpdatedAt: Partial<Record<TrackerFieldGroup, Date>> = {};
+  const changedGroups = getChangedTrackerFields(existing, imported);
+  const conflicts: MergeConflict[] = [];
+  let isChanged = false;
+  let preferImportedGoal = false;
+
+  for (const group of trackerFieldGroupNames) {
+    const existingUpdatedAt = getTrackerFieldUpdatedAt(existing, group);
+    const importedUpdatedAt = getTrackerFieldUpdatedAt(imported, group);
+
+    // Without timestamps (old export format) the imported value is used,
+    // except that a tracker without a deletion time was never deleted
+    const useImported =
+      group === "deletedAt"
+        ? !!importedUpdatedAt &&
+          (!existingUpdatedAt || importedUpdatedAt > existingUpdatedAt)
+        : !importedUpdatedAt ||
+          !existingUpdatedAt ||
+          importedUpdatedAt > existingUpdatedAt;
+
+    Object.assign(
+      merged,
+      pickTrackerFields(useImported ? imported : existing, group)
+    );
+    const updatedAt = useImported ? importedUpdatedAt : existingUpdatedAt;
+    if (updatedAt) {
+      fieldUpdatedAt[group] = updatedAt;
+    }
+    if (group === "goal") {
+      preferImportedGoal = useImported;
+    }
+
+    if (!changedGroups.includes(group)) {
+      continue;
+    }
+    isChanged ||= useImported;
+    if (
+      isConcurrentChange(existingUpdatedAt, importedUpdatedAt, lastSyncedAt)
+    ) {
+      conflicts.push({
+        type: "tracker",
+        id: existing.id,
+        trackerId: existing.id,
+        group,
+        kept: useImported ? "imported" : "local",
+        local: {
+          ...pickTrackerFields(existing, group),
+          updatedAt: existingUpdatedAt,
+        },
+        imported: {
+          ...pickTrackerFields(imported, group),
+          updatedAt: importedUpdatedAt,
+        },
+      });
+    }
+  }
+
+  const updatedAt =
+    existing.updatedAt &&
+    (!imported.updatedAt || existing.updatedAt > imported.updatedAt)
+      ? existing.updatedAt
+      : imported.updatedAt;
+
+  const tracker: Tracker = {
+    ...merged,
+    goalHistory: mergeGoalHistories(
+      existing.goalHistory,
+      imported.goalHistory,
+      preferImportedGoal
+    ),
+    updatedAt,
+    fieldUpdatedAt,
+  };
+  return { tracker, isChanged, conflicts };
 }
 
 /**
  * Clear existing data and replace with imported data
  */
-async function clearAndReplace(exportData: ExportData): Promise<void> {
+async function clearAndReplace(exportData: ExportData): Promise<ImportReport> {
+  const report = createImportReport();
   await clearAllData();
 
   if (exportData.lastChangeDate) {
     await setLastChangeDate(new Date(exportData.lastChangeDate));
   }
 
+  // Import custom units (if present in export data)
+  if (exportData.customUnits) {
+    const db = await getDB();
+    for (const unitData of exportData.customUnits) {
+      await db.put("custom_units", toCustomUnit(unitData));
+    }
+  }
+
   for (const trackerData of exportData.trackers) {
-    await saveTrackerWithId(
-      {
-        id: trackerData.id,
-        title: trackerData.title,
-        type: trackerData.type as any,
-        isNumber: trackerData.isNumber,
-        goal: trackerData.goal,
-        parentId: trackerData.parentId,
-        deletedAt: trackerData.deletedAt
-          ? new Date(trackerData.deletedAt)
-          : undefined,
-        updatedAt: trackerData.updatedAt
-          ? new Date(trackerData.updatedAt)
-          : undefined,
-      },
-      true
-    );
+    await saveTrackerWithId(toTracker(trackerData), true);
+    report.trackers.added++;
 
     for (const entry of trackerData.entries) {
       const db = await getDB();
-      await db.put("entries", {
-        id: entry.id,
-        trackerId: trackerData.id,
-        date: entry.date,
-        value: entry.value,
-        comment: entry.comment,
-        createdAt: new Date(entry.createdAt),
-        deletedAt: entry.deletedAt ? new Date(entry.deletedAt) : undefined,
-      });
+      await db.put("entries", toEntry(entry, trackerData.id));
+      report.entries.added++;
     }
   }
 
@@ -78,20 +370,35 @@ async function clearAndReplace(exportData: ExportData): Promise<void> {
         tagName: tag.tagName,
         tagNameWithOriginalCasing: tag.tagNameWithOriginalCasing || tag.tagName,
       });
+      report.tags.added++;
     }
   }
+
+  return report;
 }
 
 /**
  * Merge imported data with existing data (entity-level conflict resolution)
  *
  * Strategy:
- * - For trackers: Keep newer metadata (title, goal), respect deletedAt from either side
- * - For entries: Keep entry with newer createdAt, respect deletedAt from either side
- * - For tags: Only import if entry exists, no duplicates
+ * - For trackers: Keep the newer value of each field group (see mergeTracker), combine goal histories; deleting and restoring is a field group too
+ * - For entries: Keep entry with higher revision, then newer updatedAt (or createdAt); deletions are versions too
+ * - For tags: Only import if entry exists and the local entry isn't newer, no duplicates
+ * - For custom units: Keep newer definition based on updatedAt
+ *
+ * Changes both sides made after lastSyncedAt are reported as conflicts.
  */
-async function mergeImportData(exportData: ExportData): Promise<void> {
+async function mergeImportData(
+  exportData: ExportData,
+  lastSyncedAt?: Date
+): Promise<ImportReport> {
   const db = await getDB();
+  const report = createImportReport();
+
+  // Tags of entries whose local version was kept are outdated
+  const keptEntryIds = new Set<string>();
+  // Tags removed with replaced entries; the imported ones may add them back
+  const removedTagIds = new Set<string>();
 
   // Handle lastChangeDate: use imported if newer
   if (exportData.lastChangeDate) {
@@ -103,108 +410,99 @@ async function mergeImportData(exportData: ExportData): Promise<void> {
     }
   }
 
+  // Process custom units: keep the one with newer updatedAt
+  if (exportData.customUnits) {
+    for (const unitData of exportData.customUnits) {
+      const existingUnit = await db.get("custom_units", unitData.id);
+      const importedUnit = toCustomUnit(unitData);
+
+      if (
+        !existingUnit ||
+        !existingUnit.updatedAt ||
+        (importedUnit.updatedAt &&
+          importedUnit.updatedAt > existingUnit.updatedAt)
+      ) {
+        await db.put("custom_units", importedUnit);
+      }
+    }
+  }
+
   // Process trackers
   for (const trackerData of exportData.trackers) {
     const existingTracker = await db.get("trackers", trackerData.id);
+    const importedTracker = toTracker(trackerData);
 
     if (existingTracker) {
-      // Merge tracker - use updatedAt for conflict resolution
-      const existingUpdatedAt = existingTracker.updatedAt
-        ? new Date(existingTracker.updatedAt)
-        : undefined;
-      const importedUpdatedAt = trackerData.updatedAt
-        ? new Date(trackerData.updatedAt)
-        : undefined;
-
-      // Determine which metadata to keep based on updatedAt
-      let shouldUpdateMetadata = false;
-      if (!importedUpdatedAt) {
-        // Imported doesn't have timestamp (old export format) - update for backward compatibility
-        shouldUpdateMetadata = true;
-      } else if (!existingUpdatedAt) {
-        // Imported has timestamp but existing doesn't - use imported
-        shouldUpdateMetadata = true;
-      } else {
-        // Both have timestamps - use newer one
-        shouldUpdateMetadata = importedUpdatedAt > existingUpdatedAt;
+      const { tracker, isChanged, conflicts } = mergeTracker(
+        existingTracker,
+        importedTracker,
+        lastSyncedAt
+      );
+      await db.put("trackers", tracker);
+      report.conflicts.push(...conflicts);
+      if (tracker.deletedAt && !existingTracker.deletedAt) {
+        report.trackers.deleted++;
+      } else if (isChanged) {
+        report.trackers.updated++;
       }
-
-      const updatedTracker = {
-        ...existingTracker,
-        // Only update metadata if imported is newer
-        title: shouldUpdateMetadata ? trackerData.title : existingTracker.title,
-        goal: shouldUpdateMetadata ? trackerData.goal : existingTracker.goal,
-        updatedAt: shouldUpdateMetadata
-          ? importedUpdatedAt
-          : existingUpdatedAt,
-        // Always merge deletedAt (deletion should sync)
-        deletedAt: trackerData.deletedAt
-          ? new Date(trackerData.deletedAt)
-          : existingTracker.deletedAt, // Keep existing deletedAt if present
-      };
-      await db.put("trackers", updatedTracker);
     } else {
       // Create new tracker if it doesn't exist
-      await saveTrackerWithId(
-        {
-          id: trackerData.id,
-          title: trackerData.title,
-          type: trackerData.type as any,
-          isNumber: trackerData.isNumber,
-          goal: trackerData.goal,
-          parentId: trackerData.parentId,
-          deletedAt: trackerData.deletedAt
-            ? new Date(trackerData.deletedAt)
-            : undefined,
-          updatedAt: trackerData.updatedAt
-            ? new Date(trackerData.updatedAt)
-            : undefined,
-        },
-        true
-      );
+      await saveTrackerWithId(importedTracker, true);
+      if (!importedTracker.deletedAt) {
+        report.trackers.added++;
+      }
     }
 
-    // Process entries: keep the one with newer createdAt
-    for (const entry of trackerData.entries) {
+    // Process entries: keep the newer version (see compareEntryVersions)
+    for (const entryData of trackerData.entries) {
+      const entry = toEntry(entryData, trackerData.id);
       const existingEntry = await db.get("entries", entry.id);
 
-      if (existingEntry) {
-        const existingCreatedAt = new Date(existingEntry.createdAt);
-        const importedCreatedAt = new Date(entry.createdAt);
-
-        // Keep the entry with newer createdAt
-        if (importedCreatedAt > existingCreatedAt) {
-          // Imported entry is newer - use it
-          await db.put("entries", {
-            id: entry.id,
-            trackerId: trackerData.id,
-            date: entry.date,
-            value: entry.value,
-            comment: entry.comment,
-            createdAt: importedCreatedAt,
-            deletedAt: entry.deletedAt ? new Date(entry.deletedAt) : undefined,
-          });
-        } else if (importedCreatedAt.getTime() === existingCreatedAt.getTime()) {
-          // Same version - sync deletion if present in imported
-          if (entry.deletedAt && !existingEntry.deletedAt) {
-            existingEntry.deletedAt = new Date(entry.deletedAt);
-            await db.put("entries", existingEntry);
-          }
-        }
-        // Otherwise: Existing entry is newer (existingCreatedAt > importedCreatedAt)
-        // This means the deletion is trying to delete an older version - ignore it
-      } else {
+      if (!existingEntry) {
         // Create new entry if it doesn't exist
-        await db.put("entries", {
+        await db.put("entries", entry);
+        if (!entry.deletedAt) {
+          report.entries.added++;
+        }
+        continue;
+      }
+
+      const comparison = compareEntryVersions(entry, existingEntry);
+      const isChanged = !hasSameEntryContent(entry, existingEntry);
+      if (
+        isChanged &&
+        isConcurrentChange(
+          existingEntry.updatedAt ?? existingEntry.createdAt,
+          entry.updatedAt ?? entry.createdAt,
+          lastSyncedAt
+        )
+      ) {
+        report.conflicts.push({
+          type: "entry",
           id: entry.id,
-          trackerId: trackerData.id,
-          date: entry.date,
-          value: entry.value,
-          comment: entry.comment,
-          createdAt: new Date(entry.createdAt),
-          deletedAt: entry.deletedAt ? new Date(entry.deletedAt) : undefined,
+          trackerId: entry.trackerId,
+          kept: comparison > 0 ? "imported" : "local",
+          local: existingEntry,
+          imported: entry,
         });
       }
+
+      if (comparison > 0) {
+        // Imported entry is newer - use it, along with its imported tags
+        await db.put("entries", entry);
+        for (const tag of await deleteEntryTags(entry.id)) {
+          removedTagIds.add(tag.id);
+        }
+        if (entry.deletedAt && !existingEntry.deletedAt) {
+          report.entries.deleted++;
+        } else if (isChanged) {
+          report.entries.updated++;
+        }
+      } else if (comparison < 0) {
+        // Existing entry is newer
+        // Ignore the older version, including its deletion and tags
+        keptEntryIds.add(entry.id);
+      }
     }
   }
 
@@ -214,7 +512,7 @@ async function mergeImportData(exportData: ExportData): Promise<void> {
       const entry = await db.get("entries", tag.entryId);
 
       // Only import tag if the entry exists
-      if (entry) {
+      if (entry && !keptEntryIds.has(tag.entryId)) {
         const existingTag = await db.get("entry_tags", tag.id);
 
         if (!existingTag) {
@@ -227,8 +525,14 @@ async function mergeImportData(exportData: ExportData): Promise<void> {
             tagNameWithOriginalCasing:
               tag.tagNameWithOriginalCasing || tag.tagName,
           });
+          if (!removedTagIds.delete(tag.id)) {
+            report.tags.added++;
+          }
         }
       }
     }
   }
+  report.tags.deleted = removedTagIds.size;
+
+  return report;
 }
@@ -1,8 +1,95 @@
 // Export types
-export type { ExportData } from "./types";
+export type {
+  ExportData,
+  ChangeCounts,
+  ImportCounts,
+  ImportReport,
+  MergeConflict,
+} from "./types";
+export type { ExportDataError } from "./validate";
+export type { SyncImportOptions } from "./import";
+export type { ImportMode, TrackerImportPreview } from "./import-preview";
+export type {
+  ImportedEntry,
+  PlannedEntry,
+  EntryImportPlan,
+  EntryImportTrackerSummary,
+  EntryImportReport,
+} from "./entry-import";
+export type {
+  CsvColumnMapping,
+  CsvDateFormat,
+  CsvSkippedRow,
+} from "./csv-import";
+export type { CsvExportFormat, CsvExportOptions } from "./csv-export";
+export type {
+  ImportAdapter,
+  ImportAdapterId,
+  ImportAdapterResult,
+} from "./adapters";
 
 // Export functions
-export { exportData } from "./export";
-export { importData } from "./import";
-export { validateExportData } from "./validate";
-export { downloadDataAsJson, loadDataFromFile } from "./file-operations";
+export { exportData, exportChanges } from "./export";
+export {
+  importData,
+  restoreBackup,
+  createImportCounts,
+  createImportReport,
+  addImportCounts,
+} from "./import";
+export {
+  importModes,
+  importModesLabels,
+  isImportMode,
+  previewImport,
+  excludeTrackersFromImport,
+} from "./import-preview";
+export { EXPORT_SCHEMA_VERSION } from "./types";
+export {
+  KEEP_DAILY_BACKUPS,
+  KEEP_WEEKLY_BACKUPS,
+  backupReasonsLabels,
+  selectBackupsToKeep,
+  createBackup,
+  createDailyBackupIfDue,
+  rotateBackups,
+} from "./backups";
+export { validateExportData, formatExportDataErrors } from "./validate";
+export {
+  getExportSchemaVersion,
+  migrateExportData,
+  readExportData,
+} from "./migrate";
+export {
+  planEntryImport,
+  summarizeEntryImport,
+  importEntries,
+} from "./entry-import";
+export { parseCsv, formatCsv } from "./csv";
+export {
+  csvDateFormats,
+  isCsvDateFormat,
+  guessCsvColumnMapping,
+  parseCsvDate,
+  mapCsvRows,
+} from "./csv-import";
+export {
+  csvExportFormats,
+  csvExportFormatsLabels,
+  isCsvExportFormat,
+  getTrackerSubtree,
+  exportCsv,
+  getCsvExportFilename,
+} from "./csv-export";
+export {
+  importAdapterIds,
+  importAdaptersLabels,
+  isImportAdapterId,
+  getImportAdapter,
+  detectImportAdapter,
+} from "./adapters";
+export {
+  downloadDataAsJson,
+  downloadCsv,
+  loadDataFromFile,
+} from "./file-operations";
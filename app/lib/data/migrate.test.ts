@@ -0,0 +1,90 @@
+import { describe, test, expect } from "bun:test";
+import {
+  EXPORT_SCHEMA_VERSION,
+  getExportSchemaVersion,
+  migrateExportData,
+  readExportData,
+  validateExportData,
+} from ".";
+
+const legacyData = (version: string) => ({
+  version,
+  exportDate: "2025-10-01T10:00:00.000Z",
+  trackers: [
+    {
+      id: "pages",
+      title: "Pages",
+      type: "none",
+      isNumber: true,
+      goal: 20,
+      entries: [
+        {
+          id: "p1",
+          date: "2025-10-01",
+          value: 12,
+          createdAt: "2025-10-01T10:00:00.000Z",
+        },
+      ],
+    },
+  ],
+  tags: [{ id: "t1", entryId: "p1", trackerId: "pages", tagName: "book" }],
+});
+
+describe("Export data migrations", () => {
+  test("tells legacy schema versions apart by the app version", () => {
+    expect(getExportSchemaVersion(legacyData("1.0.2"))).toBe(0);
+    expect(getExportSchemaVersion(legacyData("1.0.3"))).toBe(1);
+    expect(getExportSchemaVersion(legacyData("1.0.12"))).toBe(1);
+    expect(
+      getExportSchemaVersion({ ...legacyData("1.0.2"), schemaVersion: 2 })
+    ).toBe(2);
+  });
+
+  test("scales values of trackers without a unit from before 1.0.3", () => {
+    const data = readExportData(legacyData("1.0.2"));
+    expect(data.schemaVersion).toBe(EXPORT_SCHEMA_VERSION);
+    expect(data.trackers[0].goal).toBe(20000);
+    expect(data.trackers[0].entries[0].value).toBe(12000);
+    expect(data.tags[0].tagNameWithOriginalCasing).toBe("book");
+  });
+
+  test("keeps values of later versions", () => {
+    const data = readExportData(legacyData("1.0.12"));
+    expect(data.trackers[0].entries[0].value).toBe(12);
+  });
+
+  test("adds missing tags", () => {
+    const { tags: _tags, ...withoutTags } = legacyData("1.0.12");
+    expect(migrateExportData(withoutTags).tags).toEqual([]);
+  });
+
+  test("rejects data from a newer schema version", () => {
+    expect(() =>
+      readExportData({
+        ...legacyData("9.0.0"),
+        schemaVersion: EXPORT_SCHEMA_VERSION + 1,
+      })
+    ).toThrow("newer version");
+  });
+});
+
+describe("validateExportData", () => {
+  test("reports the path of invalid values", () => {
+    const data = migrateExportData(legacyData("1.0.12"));
+    data.trackers[0].goalPeriod = "year";
+    data.trackers[0].entries[0].value = "12";
+    delete data.tags[0].entryId;
+
+    expect(validateExportData(data)).toEqual([
+      {
+        path: "trackers[0].goalPeriod",
+        message: "Expected one of day, week, month",
+      },
+      { path: "trackers[0].entries[0].value", message: "Expected a number" },
+      { path: "tags[0].entryId", message: "Missing" },
+    ]);
+    expect(() => readExportData(data)).toThrow(
+      "trackers[0].entries[0].value: Expected a number"
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import { EXPORT_SCHEMA_VERSION, type ExportData } from "./types";
+import { formatExportDataErrors, validateExportData } from "./validate";
+
+// Migrations work on data of older formats, which the current types don't
+// describe
+type LegacyExportData = Record<string, any>;
+
+/**
+ * Migrations from each schema version to the next. Version 0 and 1 predate
+ * the schemaVersion field and are told apart by the app version.
+ */
+const migrations: Record<number, (data: LegacyExportData) => LegacyExportData> =
+  {
+    // Values of trackers without a unit were stored as they were entered.
+    // Since 1.0.3 they are stored times 1000 to allow decimals, like the
+    // database migration to version 6 does for local data.
+    0: (data) => ({
+      ...data,
+      trackers: data.trackers?.map((tracker: LegacyExportData) =>
+        tracker.type === "none"
+          ? {
+              ...tracker,
+              goal: tracker.goal > 0 ? tracker.goal * 1000 : tracker.goal,
+              entries: tracker.entries?.map((entry: LegacyExportData) => ({
+                ...entry,
+                value: entry.value * 1000,
+              })),
+            }
+          : tracker
+      ),
+    }),
+    // Tags were optional, and so was the original casing of tag names
+    1: (data) => ({
+      ...data,
+      tags: (data.tags ?? []).map((tag: LegacyExportData) => ({
+        ...tag,
+        tagNameWithOriginalCasing: tag.tagNameWithOriginalCasing || tag.tagName,
+      })),
+    }),
+  };
+
+/**
+ * Get the schema version of export data from before the schemaVersion field
+ */
+function getLegacySchemaVersion(appVersion: unknown): number {
+  const match =
+    typeof appVersion === "string" && appVersion.match(/^(\d+)\.(\d+)\.(\d+)/);
+  if (!match) {
+    return 1;
+  }
+  const [major, minor, patch] = match.slice(1).map(Number);
+  const isBefore103 = major < 1 || (major === 1 && minor === 0 && patch < 3);
+  return isBefore103 ? 0 : 1;
+}
+
+/**
+ * Get the schema version of export data
+ */
+export function getExportSchemaVersion(data: LegacyExportData): number {
+  return typeof data.schemaVersion === "number"
+    ? data.schemaVersion
+    : getLegacySchemaVersion(data.version);
+}
+
+/**
+ * Migrate export data of an older schema version to the current one
+ * @throws If the data is from a newer version of the app
+ */
+export function migrateExportData(data: LegacyExportData): LegacyExportData {
+  const schemaVersion = getExportSchemaVersion(data);
+  if (schemaVersion > EXPORT_SCHEMA_VERSION) {
+    throw new Error(
+      `The data is from a newer version of AnythingTracker (schema version ${schemaVersion}). Please update the app.`
+    );
+  }
+
+  let migrated = data;
+  for (
+    let version = schemaVersion;
+    version < EXPORT_SCHEMA_VERSION;
+    version++
+  ) {
+    migrated = migrations[version](migrated);
+  }
+  return { ...migrated, schemaVersion: EXPORT_SCHEMA_VERSION };
+}
+
+/**
+ * Read parsed export data of any schema version, from a file or the sync
+ * backend, migrating it to the current version
+ * @throws If the data is not export data, with the invalid values listed
+ */
+export function readExportData(data: unknown): ExportData {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new Error("Invalid data format: expected an object");
+  }
+  const migrated = migrateExportData(data);
+  const errors = validateExportData(migrated);
+  if (errors.length > 0) {
+    throw new Error(`Invalid data format:\n${formatExportDataErrors(errors)}`);
+  }
+  return migrated as ExportData;
+}
@@ -1,5 +1,11 @@
+// Version of the ExportData format. Increase it with a migration in
+// migrate.ts whenever the format changes.
+export const EXPORT_SCHEMA_VERSION = 2;
+
 export interface ExportData {
+  // App version that exported the data
   version: string;
+  schemaVersion: typeof EXPORT_SCHEMA_VERSION;
   exportDate: string;
   lastChangeDate?: string;
   trackers: Array<{
@@ -8,15 +14,37 @@ export interface ExportData {
     type: string;
     isNumber: boolean;
     goal?: number;
+    goalPeriod?: string;
+    goalDirection?: string;
+    goalMax?: number;
+    goalHistory?: Array<{
+      effectiveFrom: string;
+      goal?: number;
+      goalPeriod?: string;
+      goalDirection?: string;
+      goalMax?: number;
+    }>;
+    reminders?: Array<{
+      id: string;
+      time: string;
+      weekdays: number[];
+      onlyIfGoalNotMet?: boolean;
+      quickAddValue?: number;
+    }>;
     parentId?: string;
+    isHidden?: boolean;
+    displayUnit?: string;
     deletedAt?: string;
     updatedAt?: string;
+    fieldUpdatedAt?: Record<string, string>;
     entries: Array<{
       id: string;
       date: string;
       value: number;
       comment?: string;
       createdAt: string;
+      updatedAt?: string;
+      revision?: number;
       deletedAt?: string;
     }>;
   }>;
@@ -25,6 +53,48 @@ export interface ExportData {
     entryId: string;
     trackerId: string;
     tagName: string;
-    tagNameWithOriginalCasing?: string;
+    tagNameWithOriginalCasing: string;
   }>;
+  customUnits?: Array<{
+    id: string;
+    label: string;
+    short: string;
+    shortest: string;
+    factor: number;
+    decimals: number;
+    deletedAt?: string;
+    updatedAt?: string;
+  }>;
+}
+
+export interface ChangeCounts {
+  added: number;
+  updated: number;
+  deleted: number;
+}
+
+export interface ImportCounts {
+  trackers: ChangeCounts;
+  entries: ChangeCounts;
+  tags: ChangeCounts;
+}
+
+/**
+ * An entity both sides changed since the previous sync. The newer version
+ * was kept; both versions are recorded so the lost change can be recovered.
+ */
+export interface MergeConflict {
+  type: "tracker" | "entry";
+  id: string;
+  trackerId: string;
+  /** Field group of a tracker conflict */
+  group?: string;
+  kept: "local" | "imported";
+  local: unknown;
+  imported: unknown;
+}
+
+/** What an import changed in local data */
+export interface ImportReport extends ImportCounts {
+  conflicts: MergeConflict[];
 }
@@ -1,46 +1,226 @@
-import type { ExportData } from "./types";
+import { isDisplayUnit } from "../number-conversions";
+import { isTrackerReminder } from "../reminders";
+import { goalDirections, goalPeriods } from "../trackers";
+import { EXPORT_SCHEMA_VERSION } from "./types";
 
 /**
- * Validate export data format
+ * An invalid value in export data
  */
-export function validateExportData(data: any): data is ExportData {
-  return (
-    typeof data === "object" &&
-    data !== null &&
-    typeof data.version === "string" &&
-    typeof data.exportDate === "string" &&
-    (typeof data.lastChangeDate === "string" ||
-      data.lastChangeDate === undefined) &&
-    Array.isArray(data.trackers) &&
-    data.trackers.every(
-      (tracker: any) =>
-        typeof tracker.id === "string" &&
-        typeof tracker.title === "string" &&
-        typeof tracker.type === "string" &&
-        typeof tracker.isNumber === "boolean" &&
-        Array.isArray(tracker.entries) &&
-        tracker.entries.every(
-          (entry: any) =>
-            typeof entry.id === "string" &&
-            typeof entry.date === "string" &&
-            typeof entry.value === "number" &&
-            typeof entry.createdAt === "string" &&
-            (entry.comment === undefined || typeof entry.comment === "string") &&
-            (entry.deletedAt === undefined || typeof entry.deletedAt === "string")
-        ) &&
-        (tracker.deletedAt === undefined ||
-          typeof tracker.deletedAt === "string")
-    ) &&
-    (data.tags === undefined ||
-      (Array.isArray(data.tags) &&
-        data.tags.every(
-          (tag: any) =>
-            typeof tag.id === "string" &&
-            typeof tag.entryId === "string" &&
-            typeof tag.trackerId === "string" &&
-            typeof tag.tagName === "string" &&
-            (tag.tagNameWithOriginalCasing === undefined ||
-              typeof tag.tagNameWithOriginalCasing === "string")
-        )))
+export interface ExportDataError {
+  // Where the value is, like trackers[2].entries[0].value
+  path: string;
+  message: string;
+}
+
+interface FieldRule {
+  check: (value: unknown) => boolean;
+  // What the value should be, for the error message
+  expected: string;
+  optional?: boolean;
+}
+
+type FieldRules = Record<string, FieldRule>;
+
+const isString = (value: unknown) => typeof value === "string";
+const isNumber = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value);
+const isBoolean = (value: unknown) => typeof value === "boolean";
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const string: FieldRule = { check: isString, expected: "a string" };
+const optionalString: FieldRule = { ...string, optional: true };
+const number: FieldRule = { check: isNumber, expected: "a number" };
+const optionalNumber: FieldRule = { ...number, optional: true };
+const array: FieldRule = { check: Array.isArray, expected: "a list" };
+const optionalArray: FieldRule = { ...array, optional: true };
+
+function optionalOneOf(values: readonly string[]): FieldRule {
+  return {
+    check: (value) => values.includes(value as string),
+    expected: `one of ${values.join(", ")}`,
+    optional: true,
+  };
+}
+
+const goalFields: FieldRules = {
+  goal: optionalNumber,
+  goalPeriod: optionalOneOf(goalPeriods),
+  goalDirection: optionalOneOf(goalDirections),
+  goalMax: optionalNumber,
+};
+
+const rootFields: FieldRules = {
+  version: string,
+  schemaVersion: {
+    check: (value) => value === EXPORT_SCHEMA_VERSION,
+    expected: `schema version ${EXPORT_SCHEMA_VERSION}`,
+  },
+  exportDate: string,
+  lastChangeDate: optionalString,
+  trackers: array,
+  tags: array,
+  customUnits: optionalArray,
+};
+
+const trackerFields: FieldRules = {
+  id: string,
+  title: string,
+  type: string,
+  isNumber: { check: isBoolean, expected: "true or false" },
+  ...goalFields,
+  goalHistory: optionalArray,
+  reminders: optionalArray,
+  parentId: optionalString,
+  isHidden: { check: isBoolean, expected: "true or false", optional: true },
+  displayUnit: {
+    check: isDisplayUnit,
+    expected: "a display unit",
+    optional: true,
+  },
+  deletedAt: optionalString,
+  updatedAt: optionalString,
+  fieldUpdatedAt: {
+    check: (value) => isObject(value) && Object.values(value).every(isString),
+    expected: "dates by field group",
+    optional: true,
+  },
+  entries: array,
+};
+
+const goalVersionFields: FieldRules = {
+  effectiveFrom: string,
+  ...goalFields,
+};
+
+const entryFields: FieldRules = {
+  id: string,
+  date: string,
+  value: number,
+  comment: optionalString,
+  createdAt: string,
+  updatedAt: optionalString,
+  revision: optionalNumber,
+  deletedAt: optionalString,
+};
+
+const tagFields: FieldRules = {
+  id: string,
+  entryId: string,
+  trackerId: string,
+  tagName: string,
+  tagNameWithOriginalCasing: string,
+};
+
+const customUnitFields: FieldRules = {
+  id: string,
+  label: string,
+  short: string,
+  shortest: string,
+  factor: {
+    check: (value) => isNumber(value) && (value as number) > 0,
+    expected: "a number above 0",
+  },
+  decimals: number,
+  deletedAt: optionalString,
+  updatedAt: optionalString,
+};
+
+/**
+ * Check the fields of an object
+ * @returns Whether the value is an object, so its nested values can be checked
+ */
+function validateFields(
+  value: unknown,
+  path: string,
+  rules: FieldRules,
+  errors: ExportDataError[]
+): value is Record<string, any> {
+  if (!isObject(value)) {
+    errors.push({ path, message: "Expected an object" });
+    return false;
+  }
+  for (const [field, rule] of Object.entries(rules)) {
+    const fieldValue = value[field];
+    const fieldPath = path ? `${path}.${field}` : field;
+    if (fieldValue === undefined) {
+      if (!rule.optional) {
+        errors.push({ path: fieldPath, message: "Missing" });
+      }
+    } else if (!rule.check(fieldValue)) {
+      errors.push({ path: fieldPath, message: `Expected ${rule.expected}` });
+    }
+  }
+  return true;
+}
+
+function validateList(
+  list: unknown,
+  path: string,
+  validateItem: (item: unknown, path: string) => void
+): void {
+  if (Array.isArray(list)) {
+    list.forEach((item, index) => validateItem(item, `${path}[${index}]`));
+  }
+}
+
+/**
+ * Validate export data of the current schema version. Data of older
+ * versions has to be migrated first (see migrateExportData).
+ * @returns The invalid values, none if the data is valid
+ */
+export function validateExportData(data: unknown): ExportDataError[] {
+  const errors: ExportDataError[] = [];
+  if (!validateFields(data, "", rootFields, errors)) {
+    return errors;
+  }
+
+  validateList(data.trackers, "trackers", (tracker, path) => {
+    if (!validateFields(tracker, path, trackerFields, errors)) {
+      return;
+    }
+    validateList(tracker.entries, `${path}.entries`, (entry, entryPath) =>
+      validateFields(entry, entryPath, entryFields, errors)
+    );
+    validateList(
+      tracker.goalHistory,
+      `${path}.goalHistory`,
+      (version, versionPath) =>
+        validateFields(version, versionPath, goalVersionFields, errors)
+    );
+    validateList(
+      tracker.reminders,
+      `${path}.reminders`,
+      (reminder, reminderPath) => {
+        if (!isTrackerReminder(reminder)) {
+          errors.push({ path: reminderPath, message: "Expected a reminder" });
+        }
+      }
+    );
+  });
+  validateList(data.tags, "tags", (tag, path) =>
+    validateFields(tag, path, tagFields, errors)
+  );
+  validateList(data.customUnits, "customUnits", (unit, path) =>
+    validateFields(unit, path, customUnitFields, errors)
   );
+
+  return errors;
+}
+
+/**
+ * Describe validation errors in a message, one line per error
+ * @param max - Errors listed before the rest are summarized
+ */
+export function formatExportDataErrors(
+  errors: ExportDataError[],
+  max = 5
+): string {
+  const lines = errors
+    .slice(0, max)
+    .map(({ path, message }) => (path ? `${path}: ${message}` : message));
+  if (errors.length > max) {
+    lines.push(`and ${errors.length - max} more`);
+  }
+  return lines.join("\n");
 }
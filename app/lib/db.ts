@@ -1,6 +1,17 @@
 import { type DBSchema, type IDBPDatabase, openDB } from "idb";
-import type { Tracker } from "./trackers";
-import { extractHashtagsWithOriginalCasing } from "./tags";
+import {
+  type Tracker,
+  type TrackerFieldGroup,
+  getChangedTrackerFields,
+  getTrackerFieldUpdatedAt,
+  trackerFieldGroupNames,
+} from "./trackers";
+import { extractHashtagsWithOriginalCasing, replaceHashtag } from "./tags";
+import { type CustomUnit, setRegisteredCustomUnits } from "./custom-units";
+import { type RunningTimer, getElapsedSeconds } from "./timers";
+import { formatDateString } from "./dates";
+import type { SearchableEntry } from "./search";
+import type { ExportData, ImportCounts, MergeConflict } from "./data/types";
 
 // Database schema definition
 interface AnythingTrackerDB extends DBSchema {
@@ -18,6 +29,8 @@ interface AnythingTrackerDB extends DBSchema {
       value: number;
       comment?: string;
       createdAt: Date;
+      updatedAt?: Date; // Set by each edit or deletion
+      revision?: number; // Incremented by each edit or deletion, for sync
       deletedAt?: Date;
     };
     indexes: {
@@ -48,10 +61,87 @@ interface AnythingTrackerDB extends DBSchema {
       value: any;
     };
   };
+  custom_units: {
+    key: string;
+    value: CustomUnit;
+  };
+  sync_changes: {
+    key: string;
+    value: SyncChange;
+    indexes: { "by-seq": number };
+  };
+  sync_runs: {
+    key: string;
+    value: SyncRun;
+    indexes: { "by-startedAt": Date };
+  };
+  backups: {
+    key: string;
+    value: Backup;
+    indexes: { "by-createdAt": Date };
+  };
+  // Kept apart from the backups, so listing them doesn't load all data
+  backup_data: {
+    key: string;
+    value: { id: string; data: ExportData };
+  };
+}
+
+export type StoredEntry = AnythingTrackerDB["entries"]["value"];
+export type StoredEntryTag = AnythingTrackerDB["entry_tags"]["value"];
+
+export type SyncChangeStore = "trackers" | "entries" | "custom_units";
+
+// Latest local change of an entity, uploaded by the next delta sync
+export interface SyncChange {
+  id: string; // `${store}:${key}`, so each entity is logged once
+  store: SyncChangeStore;
+  key: string;
+  seq: number;
+}
+
+// What this device knows about the remote sync files
+export interface SyncCursor {
+  snapshotId?: string; // Remote snapshot the local data was merged with
+  seq: number; // Last change sequence number that was uploaded
+  appliedSegments: string[]; // Remote delta files merged since the snapshot
+}
+
+// Record of one sync run, for diagnosing what a sync changed
+export interface SyncRun {
+  id: string;
+  backend: string; // Sync backend type
+  mode?: "delta" | "full"; // Unset if the run failed before choosing
+  startedAt: Date;
+  finishedAt: Date;
+  status: "success" | "error";
+  error?: string;
+  bytesDownloaded: number; // Size of the JSON data, before decryption
+  bytesUploaded: number; // Size of the JSON data, before encryption
+  received: ImportCounts; // Remote changes merged into local data
+  sent: ImportCounts; // Local changes uploaded
+  conflicts: MergeConflict[]; // Both sides changed since the previous sync
+  tombstonesPurged?: number; // Deleted records removed for good
+  backupId?: string; // Backup taken before remote changes were merged
 }
 
+export type BackupReason = "import" | "sync" | "daily" | "manual";
+
+// Automatic snapshot of all local data, see data/backups.ts
+export interface Backup {
+  id: string;
+  createdAt: Date;
+  reason: BackupReason;
+  trackerCount: number; // Trackers and entries that are not deleted
+  entryCount: number;
+  size: number; // Size of the data as JSON
+}
+
+// Number of sync runs kept in the history
+export const MAX_SYNC_RUNS = 100;
+
 const DB_NAME = "AnythingTrackerDB";
-const DB_VERSION = 7;
+const DB_VERSION = 11;
 
 let dbInstance: IDBPDatabase<AnythingTrackerDB> | null = null;
 
@@ -98,6 +188,42 @@ export async function initDB(): Promise<IDBPDatabase<AnythingTrackerDB>> {
         entryTagsStore.createIndex("by-tracker-tag", ["trackerId", "tagName"]);
       }
 
+      // Create custom_units store
+      if (!db.objectStoreNames.contains("custom_units")) {
+        db.createObjectStore("custom_units", {
+          keyPath: "id",
+        });
+      }
+
+      // Create sync_changes store (change log for delta sync)
+      if (!db.objectStoreNames.contains("sync_changes")) {
+        const syncChangesStore = db.createObjectStore("sync_changes", {
+          keyPath: "id",
+        });
+        syncChangesStore.createIndex("by-seq", "seq");
+      }
+
+      // Create sync_runs store (sync history)
+      if (!db.objectStoreNames.contains("sync_runs")) {
+        const syncRunsStore = db.createObjectStore("sync_runs", {
+          keyPath: "id",
+        });
+        syncRunsStore.createIndex("by-startedAt", "startedAt");
+      }
+
+      // Create backups stores (automatic local backups)
+      if (!db.objectStoreNames.contains("backups")) {
+        const backupsStore = db.createObjectStore("backups", {
+          keyPath: "id",
+        });
+        backupsStore.createIndex("by-createdAt", "createdAt");
+      }
+      if (!db.objectStoreNames.contains("backup_data")) {
+        db.createObjectStore("backup_data", {
+          keyPath: "id",
+        });
+      }
+
       // Migration: Update "none" type tracker values to use new conversion factor (v6)
       if (oldVersion < 6) {
         console.log('Starting migration for "none" type trackers to v6...');
@@ -171,6 +297,8 @@ export async function initDB(): Promise<IDBPDatabase<AnythingTrackerDB>> {
     },
   });
 
+  await loadCustomUnits();
+
   return dbInstance;
 }
 
@@ -219,6 +347,334 @@ export async function setOnboardingCompleted(
   });
 }
 
+// When reminders were last checked, so each one is shown once
+export async function getRemindersCheckedAt(): Promise<Date | null> {
+  const db = await getDB();
+  const metadata = await db.get("metadata", "remindersCheckedAt");
+  return metadata ? new Date(metadata.value) : null;
+}
+
+export async function setRemindersCheckedAt(date: Date): Promise<void> {
+  const db = await getDB();
+  await db.put("metadata", {
+    key: "remindersCheckedAt",
+    value: date.toISOString(),
+  });
+}
+
+// Sync change log operations
+
+// Record that entities changed locally, so the next sync uploads them
+async function recordChanges(
+  store: SyncChangeStore,
+  keys: string[]
+): Promise<void> {
+  if (keys.length === 0) return;
+
+  const db = await getDB();
+  const tx = db.transaction(["metadata", "sync_changes"], "readwrite");
+  const counter = await tx.objectStore("metadata").get("syncChangeSeq");
+  let seq: number = counter ? counter.value : 0;
+
+  for (const key of keys) {
+    seq++;
+    await tx
+      .objectStore("sync_changes")
+      .put({ id: `${store}:${key}`, store, key, seq });
+  }
+  await tx.objectStore("metadata").put({ key: "syncChangeSeq", value: seq });
+  await tx.done;
+}
+
+// Sequence number of the latest recorded change
+export async function getLatestChangeSeq(): Promise<number> {
+  const db = await getDB();
+  const counter = await db.get("metadata", "syncChangeSeq");
+  return counter ? counter.value : 0;
+}
+
+// Changes recorded after the given sequence number, oldest first
+export async function getChangesSince(seq: number): Promise<SyncChange[]> {
+  const db = await getDB();
+  return db.getAllFromIndex(
+    "sync_changes",
+    "by-seq",
+    IDBKeyRange.lowerBound(seq, true)
+  );
+}
+
+// Forget changes that were uploaded
+export async function pruneChanges(upToSeq: number): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction("sync_changes", "readwrite");
+  const keys = await tx.store
+    .index("by-seq")
+    .getAllKeys(IDBKeyRange.upperBound(upToSeq));
+  for (const key of keys) {
+    await tx.store.delete(key);
+  }
+  await tx.done;
+}
+
+export async function getSyncCursor(): Promise<SyncCursor> {
+  const db = await getDB();
+  const metadata = await db.get("metadata", "syncCursor");
+  return metadata ? metadata.value : { seq: 0, appliedSegments: [] };
+}
+
+export async function setSyncCursor(cursor: SyncCursor): Promise<void> {
+  const db = await getDB();
+  await db.put("metadata", { key: "syncCursor", value: cursor });
+}
+
+// Make the next sync merge the full remote snapshot and upload all local data
+export async function resetSyncCursor(): Promise<void> {
+  const db = await getDB();
+  await db.delete("metadata", "syncCursor");
+}
+
+// Random ID of this device in the device registry of the sync files
+export async function getDeviceId(): Promise<string> {
+  const db = await getDB();
+  const metadata = await db.get("metadata", "deviceId");
+  if (metadata) {
+    return metadata.value;
+  }
+
+  const deviceId = generateId();
+  await db.put("metadata", { key: "deviceId", value: deviceId });
+  return deviceId;
+}
+
+// Hard delete trackers, entries and custom units deleted before the given
+// date, along with entries and tags of purged trackers. Only safe once all
+// devices merged the deletions, or they would bring the records back.
+// Returns the number of purged records
+export async function purgeTombstones(deletedBefore: Date): Promise<number> {
+  const db = await getDB();
+  const tx = db.transaction(
+    ["trackers", "entries", "entry_tags", "custom_units"],
+    "readwrite"
+  );
+  const isPurgeable = (item: { deletedAt?: Date }) =>
+    !!item.deletedAt && item.deletedAt < deletedBefore;
+  let purged = 0;
+
+  const purgedTrackerIds = new Set<string>();
+  for (const tracker of await tx.objectStore("trackers").getAll()) {
+    if (isPurgeable(tracker)) {
+      await tx.objectStore("trackers").delete(tracker.id);
+      purgedTrackerIds.add(tracker.id);
+      purged++;
+    }
+  }
+
+  for (const entry of await tx.objectStore("entries").getAll()) {
+    if (isPurgeable(entry) || purgedTrackerIds.has(entry.trackerId)) {
+      await tx.objectStore("entries").delete(entry.id);
+      const tagKeys = await tx
+        .objectStore("entry_tags")
+        .index("by-entry")
+        .getAllKeys(entry.id);
+      for (const tagKey of tagKeys) {
+        await tx.objectStore("entry_tags").delete(tagKey);
+      }
+      purged++;
+    }
+  }
+
+  for (const unit of await tx.objectStore("custom_units").getAll()) {
+    if (isPurgeable(unit)) {
+      await tx.objectStore("custom_units").delete(unit.id);
+      purged++;
+    }
+  }
+
+  await tx.done;
+  return purged;
+}
+
+// Sync history operations
+
+// Add a sync run to the history, dropping the oldest runs beyond MAX_SYNC_RUNS
+export async function addSyncRun(run: Omit<SyncRun, "id">): Promise<SyncRun> {
+  const db = await getDB();
+  const syncRun: SyncRun = { ...run, id: generateId() };
+  const tx = db.transaction("sync_runs", "readwrite");
+  await tx.store.put(syncRun);
+
+  const keys = await tx.store.index("by-startedAt").getAllKeys();
+  for (const key of keys.slice(0, Math.max(0, keys.length - MAX_SYNC_RUNS))) {
+    await tx.store.delete(key);
+  }
+  await tx.done;
+  return syncRun;
+}
+
+// Sync runs, newest first
+export async function getSyncRuns(): Promise<SyncRun[]> {
+  const db = await getDB();
+  const runs = await db.getAllFromIndex("sync_runs", "by-startedAt");
+  return runs.reverse();
+}
+
+export async function clearSyncRuns(): Promise<void> {
+  const db = await getDB();
+  await db.clear("sync_runs");
+}
+
+// Backup operations
+
+export async function addBackup(
+  backup: Omit<Backup, "id">,
+  data: ExportData
+): Promise<Backup> {
+  const db = await getDB();
+  const stored: Backup = { ...backup, id: generateId() };
+  const tx = db.transaction(["backups", "backup_data"], "readwrite");
+  await tx.objectStore("backups").put(stored);
+  await tx.objectStore("backup_data").put({ id: stored.id, data });
+  await tx.done;
+  return stored;
+}
+
+// Backups, newest first
+export async function getBackups(): Promise<Backup[]> {
+  const db = await getDB();
+  const backups = await db.getAllFromIndex("backups", "by-createdAt");
+  return backups.reverse();
+}
+
+export async function getBackupData(id: string): Promise<ExportData | null> {
+  const db = await getDB();
+  return (await db.get("backup_data", id))?.data ?? null;
+}
+
+export async function deleteBackups(ids: string[]): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction(["backups", "backup_data"], "readwrite");
+  for (const id of ids) {
+    await tx.objectStore("backups").delete(id);
+    await tx.objectStore("backup_data").delete(id);
+  }
+  await tx.done;
+}
+
+// Timer operations
+
+export async function getRunningTimers(): Promise<RunningTimer[]> {
+  const db = await getDB();
+  const metadata = await db.get("metadata", "runningTimers");
+  return metadata ? metadata.value : [];
+}
+
+async function setRunningTimers(timers: RunningTimer[]): Promise<void> {
+  const db = await getDB();
+  await db.put("metadata", {
+    key: "runningTimers",
+    value: timers,
+  });
+}
+
+export async function getRunningTimer(
+  trackerId: string
+): Promise<RunningTimer | null> {
+  const timers = await getRunningTimers();
+  return timers.find((t) => t.trackerId === trackerId) ?? null;
+}
+
+// Start a timer for a tracker (keeps the existing one if already running)
+export async function startTimer(trackerId: string): Promise<RunningTimer> {
+  const timers = await getRunningTimers();
+  const existing = timers.find((t) => t.trackerId === trackerId);
+  if (existing) {
+    return existing;
+  }
+
+  const timer = { trackerId, startedAt: new Date().toISOString() };
+  await setRunningTimers([...timers, timer]);
+  return timer;
+}
+
+// Stop a timer and log the elapsed seconds as an entry on the start date
+// Returns the logged value with the IDs of the created entries (including the
+// copies for parent trackers), or null if no timer was running
+export async function stopTimer(
+  trackerId: string,
+  comment?: string
+): Promise<{ date: string; value: number; created: string[] } | null> {
+  const timers = await getRunningTimers();
+  const timer = timers.find((t) => t.trackerId === trackerId);
+  if (!timer) {
+    return null;
+  }
+
+  const value = getElapsedSeconds(timer);
+  const date = formatDateString(new Date(timer.startedAt));
+  const created =
+    value > 0
+      ? await createEntry(trackerId, date, value, false, false, comment)
+      : [];
+
+  await setRunningTimers(timers.filter((t) => t.trackerId !== trackerId));
+  return { date, value, created };
+}
+
+// Discard a running timer without logging an entry
+export async function cancelTimer(trackerId: string): Promise<void> {
+  const timers = await getRunningTimers();
+  await setRunningTimers(timers.filter((t) => t.trackerId !== trackerId));
+}
+
+// Custom unit operations
+
+// Refresh the in-memory custom unit registry used by number conversions
+export async function loadCustomUnits(): Promise<void> {
+  const db = await getDB();
+  const units = await db.getAll("custom_units");
+  setRegisteredCustomUnits(units);
+}
+
+export async function getAllCustomUnits(): Promise<CustomUnit[]> {
+  const db = await getDB();
+  const units = await db.getAll("custom_units");
+  return units
+    .filter((unit) => !unit.deletedAt)
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
+
+export async function saveCustomUnit(
+  unit: Omit<CustomUnit, "id" | "updatedAt" | "deletedAt"> & { id?: string }
+): Promise<CustomUnit> {
+  const db = await getDB();
+
+  const newUnit: CustomUnit = {
+    ...unit,
+    id: unit.id || generateId(),
+    updatedAt: new Date(),
+  };
+
+  await db.put("custom_units", newUnit);
+  await recordChanges("custom_units", [newUnit.id]);
+  await loadCustomUnits();
+  await setLastChangeDate();
+  return newUnit;
+}
+
+export async function deleteCustomUnit(id: string): Promise<void> {
+  const db = await getDB();
+  const unit = await db.get("custom_units", id);
+  if (unit) {
+    // Soft delete so the deletion syncs and existing values still format
+    unit.deletedAt = new Date();
+    unit.updatedAt = unit.deletedAt;
+    await db.put("custom_units", unit);
+    await recordChanges("custom_units", [id]);
+  }
+  await loadCustomUnits();
+  await setLastChangeDate();
+}
+
 // Tracker operations
 export async function saveTracker(
   tracker: Omit<Tracker, "id" | "values">
@@ -234,6 +690,7 @@ export async function saveTracker(
   };
 
   await db.put("trackers", newTracker);
+  await recordChanges("trackers", [id]);
   await setLastChangeDate();
   return newTracker;
 }
@@ -254,6 +711,7 @@ export async function saveTrackerWithId(
 
   await db.put("trackers", newTracker);
   if (!skipDateUpdate) {
+    await recordChanges("trackers", [newTracker.id]);
     await setLastChangeDate();
   }
   return newTracker;
@@ -264,10 +722,28 @@ export async function updateTracker(
   skipDateUpdate = false
 ): Promise<Tracker> {
   const db = await getDB();
+  const previous = await db.get("trackers", tracker.id);
   // Set updatedAt when updating tracker metadata
   tracker.updatedAt = new Date();
+
+  // Timestamp each changed field group, so sync merges them separately
+  if (previous) {
+    const changed = getChangedTrackerFields(previous, tracker);
+    const fieldUpdatedAt: Partial<Record<TrackerFieldGroup, Date>> = {};
+    for (const group of trackerFieldGroupNames) {
+      const updatedAt = changed.includes(group)
+        ? tracker.updatedAt
+        : getTrackerFieldUpdatedAt(previous, group);
+      if (updatedAt) {
+        fieldUpdatedAt[group] = updatedAt;
+      }
+    }
+    tracker.fieldUpdatedAt = fieldUpdatedAt;
+  }
+
   await db.put("trackers", tracker);
   if (!skipDateUpdate) {
+    await recordChanges("trackers", [tracker.id]);
     await setLastChangeDate();
   }
   return tracker;
@@ -329,19 +805,22 @@ export async function deleteTracker(id: string): Promise<void> {
   const tx = db.transaction(["trackers", "entries", "entry_tags"], "readwrite");
 
   // Soft delete tracker by setting deletedAt
+  const deletedAt = new Date();
   const tracker = await tx.objectStore("trackers").get(id);
   if (tracker) {
-    tracker.deletedAt = new Date();
+    tracker.deletedAt = deletedAt;
+    tracker.fieldUpdatedAt = { ...tracker.fieldUpdatedAt, deletedAt };
     await tx.objectStore("trackers").put(tracker);
   }
 
-  // Soft delete all entries for this tracker
-  const entries = await tx
-    .objectStore("entries")
-    .index("by-tracker")
-    .getAll(id);
+  // Soft delete all entries for this tracker. Entries deleted before keep
+  // their deletion time, so restoring the tracker leaves them deleted.
+  const entries = (
+    await tx.objectStore("entries").index("by-tracker").getAll(id)
+  ).filter((entry) => !entry.deletedAt);
   for (const entry of entries) {
-    entry.deletedAt = new Date();
+    entry.deletedAt = deletedAt;
+    bumpEntryRevision(entry, deletedAt);
     await tx.objectStore("entries").put(entry);
   }
 
@@ -355,6 +834,14 @@ export async function deleteTracker(id: string): Promise<void> {
   }
 
   await tx.done;
+  if (tracker) {
+    await recordChanges("trackers", [id]);
+  }
+  await recordChanges(
+    "entries",
+    entries.map((entry) => entry.id)
+  );
+  await cancelTimer(id);
   await setLastChangeDate();
 }
 
@@ -372,6 +859,13 @@ export async function getTotalValueForDate(
 }
 
 // Entry operations
+
+// Mark an entry as changed, so sync prefers this version over older ones
+function bumpEntryRevision(entry: StoredEntry, date = new Date()): void {
+  entry.revision = (entry.revision ?? 0) + 1;
+  entry.updatedAt = date;
+}
+
 export async function saveEntry(
   trackerId: string,
   date: string,
@@ -393,10 +887,13 @@ export async function saveEntry(
   );
 
   for (const entry of existingEntries) {
-    // Only hard delete non-deleted entries (skip already deleted ones)
+    // Soft delete so the replacement syncs (skip already deleted ones)
     if (!entry.deletedAt) {
-      await db.delete("entries", entry.id);
+      entry.deletedAt = new Date();
+      bumpEntryRevision(entry, entry.deletedAt);
+      await db.put("entries", entry);
       await deleteEntryTags(entry.id);
+      await recordChanges("entries", [entry.id]);
       if (!skipDateUpdate) {
         await setLastChangeDate();
       }
@@ -416,6 +913,7 @@ export async function saveEntry(
     };
     await db.put("entries", entry);
     await saveEntryTags(entryId, trackerId, comment);
+    await recordChanges("entries", [entryId]);
     if (!skipDateUpdate) {
       await setLastChangeDate();
     }
@@ -505,9 +1003,11 @@ export async function deleteEntry(
     // Only soft delete non-deleted entries
     if (!entry.deletedAt) {
       entry.deletedAt = new Date();
+      bumpEntryRevision(entry, entry.deletedAt);
       await db.put("entries", entry);
       // Hard delete tags
       await deleteEntryTags(entry.id);
+      await recordChanges("entries", [entry.id]);
     }
   }
   await setLastChangeDate();
@@ -541,7 +1041,34 @@ export async function getEntryHistory(
   return limit ? activeEntries.slice(0, limit) : activeEntries;
 }
 
-// Create individual entry (for tracking separate additions)
+// Get all active entries with their lowercase tag names (used by search)
+export async function getAllEntriesWithTags(): Promise<SearchableEntry[]> {
+  const db = await getDB();
+  const entries = await db.getAll("entries");
+  const entryTags = await db.getAll("entry_tags");
+
+  const tagsByEntry = new Map<string, string[]>();
+  for (const tag of entryTags) {
+    const tags = tagsByEntry.get(tag.entryId) ?? [];
+    tags.push(tag.tagName);
+    tagsByEntry.set(tag.entryId, tags);
+  }
+
+  return entries
+    .filter((entry) => !entry.deletedAt)
+    .map((entry) => ({
+      id: entry.id,
+      trackerId: entry.trackerId,
+      date: entry.date,
+      value: entry.value,
+      comment: entry.comment,
+      createdAt: entry.createdAt,
+      tags: tagsByEntry.get(entry.id) ?? [],
+    }));
+}
+
+// Create individual entry (for tracking separate additions). Returns the IDs
+// of the created entries, including the copies for parent trackers.
 export async function createEntry(
   trackerId: string,
   date: string,
@@ -549,7 +1076,7 @@ export async function createEntry(
   ignoreParent: boolean = false,
   skipDateUpdate: boolean = false,
   comment?: string
-): Promise<void> {
+): Promise<string[]> {
   const db = await getDB();
 
   const entryId = generateId();
@@ -564,6 +1091,7 @@ export async function createEntry(
 
   await db.put("entries", entry);
   await saveEntryTags(entryId, trackerId, comment);
+  await recordChanges("entries", [entryId]);
   if (!skipDateUpdate) {
     await setLastChangeDate();
   }
@@ -572,9 +1100,20 @@ export async function createEntry(
   if (!ignoreParent) {
     const tracker = await getTrackerById(trackerId);
     if (tracker?.parentId) {
-      await createEntry(tracker.parentId, date, value, false, true, comment);
+      return [
+        entryId,
+        ...(await createEntry(
+          tracker.parentId,
+          date,
+          value,
+          false,
+          true,
+          comment
+        )),
+      ];
     }
   }
+  return [entryId];
 }
 
 // Create entry with specific ID (used for data import)
@@ -600,10 +1139,34 @@ export async function createEntryWithId(
 
   await db.put("entries", entry);
   if (!skipDateUpdate) {
+    await recordChanges("entries", [entryId]);
     await setLastChangeDate();
   }
 }
 
+// Edit an entry in place (for history management). Like deleteEntryById,
+// this doesn't adjust parent trackers.
+export async function updateEntry(
+  entryId: string,
+  changes: Pick<StoredEntry, "date" | "value" | "comment">
+): Promise<void> {
+  const db = await getDB();
+  const entry = await db.get("entries", entryId);
+  if (!entry || entry.deletedAt) {
+    throw new Error("Entry not found");
+  }
+
+  entry.date = changes.date;
+  entry.value = changes.value;
+  entry.comment = changes.comment;
+  bumpEntryRevision(entry);
+  await db.put("entries", entry);
+  await deleteEntryTags(entry.id);
+  await saveEntryTags(entry.id, entry.trackerId, entry.comment);
+  await recordChanges("entries", [entry.id]);
+  await setLastChangeDate();
+}
+
 // Delete entry by ID (for history management)
 export async function deleteEntryById(entryId: string): Promise<void> {
   const db = await getDB();
@@ -611,23 +1174,122 @@ export async function deleteEntryById(entryId: string): Promise<void> {
   if (entry) {
     // Soft delete entry by setting deletedAt
     entry.deletedAt = new Date();
+    bumpEntryRevision(entry, entry.deletedAt);
     await db.put("entries", entry);
+    await recordChanges("entries", [entryId]);
   }
   // Hard delete tags
   await deleteEntryTags(entryId);
   await setLastChangeDate();
 }
 
+// Deleted trackers, and deleted entries of trackers that are not deleted,
+// most recently deleted first
+export async function getDeletedItems(): Promise<{
+  trackers: Tracker[];
+  entries: StoredEntry[];
+}> {
+  const db = await getDB();
+  const byDeletedAt = (a: { deletedAt?: Date }, b: { deletedAt?: Date }) =>
+    b.deletedAt!.getTime() - a.deletedAt!.getTime();
+
+  const allTrackers = await db.getAll("trackers");
+  const trackers = allTrackers.filter((tracker) => tracker.deletedAt);
+  const activeTrackerIds = new Set(
+    allTrackers
+      .filter((tracker) => !tracker.deletedAt)
+      .map((tracker) => tracker.id)
+  );
+  const entries = (await db.getAll("entries")).filter(
+    (entry) => entry.deletedAt && activeTrackerIds.has(entry.trackerId)
+  );
+
+  return {
+    trackers: trackers.sort(byDeletedAt),
+    entries: entries.sort(byDeletedAt),
+  };
+}
+
+// Restore a deleted tracker with the entries deleted along with it. Child
+// trackers still point to it and show up under it again. If its own parent
+// is deleted, it is moved to the top level.
+export async function restoreTracker(id: string): Promise<void> {
+  const db = await getDB();
+  const tracker = await db.get("trackers", id);
+  if (!tracker?.deletedAt) {
+    throw new Error("Tracker not found");
+  }
+
+  // Restoring is a change like deleting, so sync undeletes it on other devices
+  const now = new Date();
+  const deletedAt = tracker.deletedAt;
+  tracker.deletedAt = undefined;
+  tracker.fieldUpdatedAt = { ...tracker.fieldUpdatedAt, deletedAt: now };
+  if (tracker.parentId) {
+    const parent = await db.get("trackers", tracker.parentId);
+    if (!parent || parent.deletedAt) {
+      tracker.parentId = undefined;
+      tracker.fieldUpdatedAt.parentId = now;
+    }
+  }
+  await db.put("trackers", tracker);
+
+  const entries = (
+    await db.getAllFromIndex("entries", "by-tracker", id)
+  ).filter((entry) => entry.deletedAt && entry.deletedAt >= deletedAt);
+  for (const entry of entries) {
+    entry.deletedAt = undefined;
+    bumpEntryRevision(entry, now);
+    await db.put("entries", entry);
+    // Tags were removed on deletion, the comment still has them
+    await saveEntryTags(entry.id, id, entry.comment);
+  }
+
+  await recordChanges("trackers", [id]);
+  await recordChanges(
+    "entries",
+    entries.map((entry) => entry.id)
+  );
+  await setLastChangeDate();
+}
+
+// Restore a deleted entry of a tracker that is not deleted
+export async function restoreEntry(entryId: string): Promise<void> {
+  const db = await getDB();
+  const entry = await db.get("entries", entryId);
+  if (!entry?.deletedAt) {
+    throw new Error("Entry not found");
+  }
+  const tracker = await db.get("trackers", entry.trackerId);
+  if (!tracker || tracker.deletedAt) {
+    throw new Error("The tracker of this entry is deleted");
+  }
+
+  entry.deletedAt = undefined;
+  bumpEntryRevision(entry);
+  await db.put("entries", entry);
+  await saveEntryTags(entry.id, entry.trackerId, entry.comment);
+  await recordChanges("entries", [entry.id]);
+  await setLastChangeDate();
+}
+
 // Utility to clear all data (useful for development/testing)
 export async function clearAllData(): Promise<void> {
   const db = await getDB();
-  const tx = db.transaction(["trackers", "entries", "entry_tags"], "readwrite");
+  const tx = db.transaction(
+    ["trackers", "entries", "entry_tags", "custom_units", "sync_changes"],
+    "readwrite"
+  );
 
   await tx.objectStore("trackers").clear();
   await tx.objectStore("entries").clear();
   await tx.objectStore("entry_tags").clear();
+  await tx.objectStore("custom_units").clear();
+  await tx.objectStore("sync_changes").clear();
 
   await tx.done;
+  await resetSyncCursor();
+  await loadCustomUnits();
   await setLastChangeDate();
 }
 
@@ -648,6 +1310,8 @@ export async function seedInitialData(): Promise<void> {
       title: "Alcohol",
       type: "liters",
       isNumber: true,
+      goal: 500,
+      goalDirection: "atMost",
     });
 
     const energyDrinksTracker = await saveTracker({
@@ -759,13 +1423,17 @@ export async function saveEntryTags(
   }
 }
 
-export async function deleteEntryTags(entryId: string): Promise<void> {
+// Returns the deleted tags
+export async function deleteEntryTags(
+  entryId: string
+): Promise<StoredEntryTag[]> {
   const db = await getDB();
   const tags = await db.getAllFromIndex("entry_tags", "by-entry", entryId);
 
   for (const tag of tags) {
     await db.delete("entry_tags", tag.id);
   }
+  return tags;
 }
 
 export async function getMostUsedTags(
@@ -798,6 +1466,105 @@ export async function getMostUsedTags(
     .map((item) => item.displayName);
 }
 
+// Count tag uses of one tracker, or of all trackers
+export async function getTagUsage(
+  trackerId?: string
+): Promise<Array<{ tagName: string; displayName: string; count: number }>> {
+  const db = await getDB();
+  const allTags = trackerId
+    ? await db.getAllFromIndex("entry_tags", "by-tracker", trackerId)
+    : await db.getAll("entry_tags");
+
+  const tagCounts = new Map<
+    string,
+    { tagName: string; displayName: string; count: number }
+  >();
+  for (const tag of allTags) {
+    const existing = tagCounts.get(tag.tagName);
+    if (existing) {
+      existing.count++;
+    } else {
+      tagCounts.set(tag.tagName, {
+        tagName: tag.tagName,
+        displayName: tag.tagNameWithOriginalCasing || tag.tagName,
+        count: 1,
+      });
+    }
+  }
+
+  return Array.from(tagCounts.values()).sort(
+    (a, b) => b.count - a.count || a.tagName.localeCompare(b.tagName)
+  );
+}
+
+// Rewrite a hashtag in the comments of all active entries using it, so the
+// change reaches other devices like any edited entry
+async function rewriteTag(
+  tagName: string,
+  newTagName: string | undefined,
+  trackerId?: string
+): Promise<number> {
+  const db = await getDB();
+  const allTags = trackerId
+    ? await db.getAllFromIndex("entry_tags", "by-tracker-tag", [
+        trackerId,
+        tagName,
+      ])
+    : (await db.getAll("entry_tags")).filter((t) => t.tagName === tagName);
+
+  const entryIds = new Set(allTags.map((tag) => tag.entryId));
+  const updatedAt = new Date();
+  let updatedCount = 0;
+
+  for (const entryId of entryIds) {
+    const entry = await db.get("entries", entryId);
+    if (!entry || entry.deletedAt || !entry.comment) continue;
+
+    entry.comment = replaceHashtag(entry.comment, tagName, newTagName);
+    bumpEntryRevision(entry, updatedAt);
+    await db.put("entries", entry);
+    await deleteEntryTags(entry.id);
+    await saveEntryTags(entry.id, entry.trackerId, entry.comment);
+    await recordChanges("entries", [entry.id]);
+    updatedCount++;
+  }
+
+  if (newTagName) {
+    // Other entries may still carry the previous casing of the new tag
+    const newTags = (await db.getAll("entry_tags")).filter(
+      (t) =>
+        t.tagName === newTagName.toLowerCase() &&
+        (!trackerId || t.trackerId === trackerId)
+    );
+    for (const tag of newTags) {
+      if (tag.tagNameWithOriginalCasing !== newTagName) {
+        tag.tagNameWithOriginalCasing = newTagName;
+        await db.put("entry_tags", tag);
+      }
+    }
+  }
+
+  await setLastChangeDate();
+  return updatedCount;
+}
+
+// Rename a tag, or merge it into an existing tag
+export async function renameTag(
+  tagName: string,
+  newTagName: string,
+  trackerId?: string
+): Promise<number> {
+  return rewriteTag(tagName, newTagName, trackerId);
+}
+
+// Remove a tag from the comments of its entries
+export async function deleteTag(
+  tagName: string,
+  trackerId?: string
+): Promise<number> {
+  return rewriteTag(tagName, undefined, trackerId);
+}
+
 export async function getEntryTags(entryId: string): Promise<string[]> {
   const db = await getDB();
   const tags = await db.getAllFromIndex("entry_tags", "by-entry", entryId);
@@ -0,0 +1,73 @@
+// Duration trackers store values as whole seconds
+
+const SECONDS_PER_MINUTE = 60;
+const SECONDS_PER_HOUR = 60 * SECONDS_PER_MINUTE;
+
+/**
+ * Parses a duration typed by the user
+ *
+ * Accepted formats:
+ * - "1h20m", "1h 20m", "90m", "2h", "30s" (unit suffixes, combinable)
+ * - "1:20" (h:mm) and "1:20:30" (h:mm:ss)
+ * - "45" (a bare number is read as minutes, decimals allowed)
+ *
+ * @param input - The user input
+ * @returns The duration in seconds, or null if the input is not a duration
+ */
+export function parseDuration(input: string): number | null {
+  const trimmed = input.trim().toLowerCase().replace(/,/g, ".");
+  if (!trimmed) return null;
+
+  // Bare number: minutes
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(parseFloat(trimmed) * SECONDS_PER_MINUTE);
+  }
+
+  // h:mm or h:mm:ss
+  const colonMatch = trimmed.match(/^(\d+):([0-5]?\d)(?::([0-5]?\d))?$/);
+  if (colonMatch) {
+    const [, hours, minutes, seconds] = colonMatch;
+    return (
+      parseInt(hours) * SECONDS_PER_HOUR +
+      parseInt(minutes) * SECONDS_PER_MINUTE +
+      (seconds ? parseInt(seconds) : 0)
+    );
+  }
+
+  // Unit suffixes, e.g. "1h 20m"
+  const unitMatch = trimmed.match(
+    /^(?:(\d+(?:\.\d+)?)\s*h)?\s*(?:(\d+(?:\.\d+)?)\s*m)?\s*(?:(\d+)\s*s)?$/
+  );
+  if (unitMatch && (unitMatch[1] || unitMatch[2] || unitMatch[3])) {
+    const [, hours, minutes, seconds] = unitMatch;
+    return Math.round(
+      (hours ? parseFloat(hours) * SECONDS_PER_HOUR : 0) +
+        (minutes ? parseFloat(minutes) * SECONDS_PER_MINUTE : 0) +
+        (seconds ? parseInt(seconds) : 0)
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Formats a duration for display
+ * @param seconds - The duration in seconds
+ * @returns A string like "1h 20m", "45m" or "30s"
+ */
+export function formatDuration(seconds: number): string {
+  const sign = seconds < 0 ? "-" : "";
+  const total = Math.round(Math.abs(seconds));
+
+  const hours = Math.floor(total / SECONDS_PER_HOUR);
+  const minutes = Math.floor((total % SECONDS_PER_HOUR) / SECONDS_PER_MINUTE);
+  const remainingSeconds = total % SECONDS_PER_MINUTE;
+
+  const parts: string[] = [];
+  if (hours > 0) parts.push(`${hours}h`);
+  if (minutes > 0) parts.push(`${minutes}m`);
+  // Seconds are only relevant for short durations
+  if (remainingSeconds > 0 && hours === 0) parts.push(`${remainingSeconds}s`);
+
+  return parts.length > 0 ? `${sign}${parts.join(" ")}` : "0m";
+}
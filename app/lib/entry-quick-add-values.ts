@@ -1,25 +1,42 @@
-import { conversionFactors, formatStoredValue } from "./number-conversions";
-import type { TrackerType } from "./trackers";
+import {
+  type DisplayUnit,
+  conversionFactors,
+  formatStoredValue,
+  getConversionFactor,
+  resolveDisplayUnit,
+  toStoredValue,
+} from "./number-conversions";
+import {
+  type BuiltInTrackerType,
+  type TrackerType,
+  isCustomTrackerType,
+} from "./trackers";
+
+type QuickAddValue = {
+  label: string;
+  value: number;
+};
 
 export const quickAddValuesMap: Record<
-  TrackerType,
-  Array<{
-    label: string;
-    value: number;
-  }> | null
+  BuiltInTrackerType,
+  Array<QuickAddValue> | null
 > = {
   liters: [250, 330, 500, 1000].map((value) => ({
-    label: formatStoredValue(value, "liters", true),
+    label: formatStoredValue(value, "liters", true, "L"),
     value,
   })),
   kilometers: [500, 1000, 5000, 10000].map((value) => ({
-    label: formatStoredValue(value, "kilometers", true),
+    label: formatStoredValue(value, "kilometers", true, "km"),
     value,
   })),
   kilograms: [100, 500, 1000, 5000].map((value) => ({
-    label: formatStoredValue(value, "kilograms", true),
+    label: formatStoredValue(value, "kilograms", true, "kg"),
     value,
   })),
+  duration: [5, 15, 30, 60].map((minutes) => ({
+    label: formatStoredValue(minutes * 60, "duration"),
+    value: minutes * 60,
+  })),
   checkbox: null,
   steps: [100, 500, 1000, 5000].map((value) => ({
     label: value.toString(),
@@ -30,3 +47,49 @@ export const quickAddValuesMap: Record<
     value: value * conversionFactors.none,
   })),
 };
+
+// Quick-add amounts for non-metric display units, in display units
+// (metric units use the stored values in quickAddValuesMap)
+export const displayUnitQuickAddAmounts: Partial<
+  Record<DisplayUnit, number[]>
+> = {
+  oz: [8, 12, 16, 32],
+  cups: [0.5, 1, 2, 4],
+  mi: [0.5, 1, 3, 5],
+  lb: [0.5, 1, 5, 10],
+};
+
+/**
+ * Gets quick-add values for built-in and custom tracker types
+ * @param type - The tracker type
+ * @param displayUnit - Per-tracker display unit override
+ * @returns Quick-add values (stored format), or null if not applicable
+ */
+export function getQuickAddValues(
+  type: TrackerType,
+  displayUnit?: DisplayUnit
+): Array<QuickAddValue> | null {
+  if (!isCustomTrackerType(type)) {
+    const resolved = resolveDisplayUnit(type, displayUnit);
+    const amounts = resolved && displayUnitQuickAddAmounts[resolved];
+    if (!amounts) {
+      return quickAddValuesMap[type];
+    }
+
+    // Round amounts of the display unit, stored in the canonical unit
+    return amounts.map((amount) => {
+      const value = toStoredValue(amount, type, resolved);
+      return {
+        label: formatStoredValue(value, type, true, resolved),
+        value,
+      };
+    });
+  }
+
+  // Custom units are resolved at call time since they can change at runtime
+  const factor = getConversionFactor(type);
+  return [1, 5, 10, 50].map((value) => ({
+    label: formatStoredValue(value * factor, type, true),
+    value: value * factor,
+  }));
+}
@@ -0,0 +1,14 @@
+/**
+ * Formats a size of stored or transferred data
+ * @param bytes - The size in bytes
+ * @returns The size in B, KB or MB
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
@@ -352,3 +352,59 @@ export async function listGistFiles(
     return null;
   }
 }
+
+/**
+ * Gets the size and last update of a file in the Gist
+ * @param filename - The name of the file
+ * @param options - Optional credentials
+ * @returns Promise that resolves to the metadata, or null if the file or Gist
+ *   is missing
+ */
+export async function getGistFileMetadata(
+  filename: string,
+  options: { token?: string; gistId?: string } = {}
+): Promise<{ updatedAt: Date; size: number } | null> {
+  const { token: storedToken, gistId: storedGistId } = getGitHubCredentials();
+
+  // Use provided credentials or fall back to stored ones
+  const token = options.token || storedToken;
+  const gistId = options.gistId || storedGistId;
+
+  if (!token || !gistId) {
+    console.error(
+      "GitHub Gist sync: Missing GitHub token or Gist ID. Please configure sync in settings."
+    );
+    return null;
+  }
+
+  try {
+    const response = await fetch(`https://api.github.com/gists/${gistId}`, {
+      method: "GET",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        Accept: "application/vnd.github+json",
+        "X-GitHub-Api-Version": "2022-11-28",
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      console.error(
+        `Failed to get Gist metadata: ${response.status} ${response.statusText}`,
+        errorData
+      );
+      return null;
+    }
+
+    const gistData: GistResponse = await response.json();
+    const file = gistData.files[filename];
+    if (!file) {
+      return null;
+    }
+
+    return { updatedAt: new Date(gistData.updated_at), size: file.size };
+  } catch (error) {
+    console.error("Error getting Gist metadata:", error);
+    return null;
+  }
+}
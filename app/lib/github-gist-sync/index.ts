@@ -30,4 +30,5 @@ export {
   createJsonGist,
   deleteFileFromGist,
   listGistFiles,
+  getGistFileMetadata,
 } from "./api";
@@ -0,0 +1,167 @@
+import { describe, test, expect } from "bun:test";
+import {
+  formatGoalPeriodCount,
+  getGoalForDate,
+  getGoalPeriodKey,
+  getGoalPeriodTotal,
+  hasGoal,
+  isGoalExceeded,
+  isGoalMet,
+  mergeGoalHistories,
+  parseGoalFormData,
+  recordGoalChange,
+} from "./goals";
+
+describe("Goal periods", () => {
+  test("keys dates by the first day of their period", () => {
+    // 2024-01-10 is a Wednesday
+    expect(getGoalPeriodKey("2024-01-10", "day")).toBe("2024-01-10");
+    expect(getGoalPeriodKey("2024-01-10", "week")).toBe("2024-01-08");
+    expect(getGoalPeriodKey("2024-01-14", "week")).toBe("2024-01-08");
+    expect(getGoalPeriodKey("2024-01-10", "month")).toBe("2024-01-01");
+  });
+
+  test("sums the period up to and including a date", () => {
+    const values = {
+      "2024-01-07": 5, // Previous week
+      "2024-01-08": 1,
+      "2024-01-10": 2,
+      "2024-01-12": 4, // After the date
+    };
+    const date = new Date(2024, 0, 10);
+
+    expect(getGoalPeriodTotal(values, "day", date)).toBe(2);
+    expect(getGoalPeriodTotal(values, "week", date)).toBe(3);
+    expect(getGoalPeriodTotal(values, "month", date)).toBe(8);
+  });
+
+  test("formats period counts", () => {
+    expect(formatGoalPeriodCount(1, "week")).toBe("1 week");
+    expect(formatGoalPeriodCount(3, "month")).toBe("3 months");
+  });
+});
+
+describe("Goal directions", () => {
+  test("only accepts positive targets but allows zero limits", () => {
+    expect(hasGoal({ goal: 0 })).toBe(false);
+    expect(hasGoal({ goal: 0, goalDirection: "atMost" })).toBe(true);
+    expect(hasGoal({ goal: 100, goalDirection: "range" })).toBe(false);
+    expect(hasGoal({ goal: 100, goalDirection: "range", goalMax: 50 })).toBe(
+      false
+    );
+    expect(hasGoal({ goal: 0, goalDirection: "range", goalMax: 50 })).toBe(
+      true
+    );
+  });
+
+  test("checks totals against the goal direction", () => {
+    const atLeast = { goal: 100 };
+    const atMost = { goal: 100, goalDirection: "atMost" as const };
+    const range = { goal: 100, goalDirection: "range" as const, goalMax: 200 };
+
+    expect(isGoalMet(150, atLeast)).toBe(true);
+    expect(isGoalMet(50, atLeast)).toBe(false);
+    expect(isGoalExceeded(500, atLeast)).toBe(false);
+
+    expect(isGoalMet(0, atMost)).toBe(true);
+    expect(isGoalMet(150, atMost)).toBe(false);
+    expect(isGoalExceeded(150, atMost)).toBe(true);
+
+    expect(isGoalMet(50, range)).toBe(false);
+    expect(isGoalExceeded(50, range)).toBe(false);
+    expect(isGoalMet(200, range)).toBe(true);
+    expect(isGoalExceeded(250, range)).toBe(true);
+  });
+
+  test("reads goal fields from the tracker forms", () => {
+    const formData = new FormData();
+    formData.set("goal", "500");
+    formData.set("goalMax", "800");
+    formData.set("goalPeriod", "week");
+    formData.set("goalDirection", "atMost");
+
+    expect(parseGoalFormData(formData, "liters")).toEqual({
+      goal: 500,
+      goalDirection: "atMost",
+      goalMax: undefined,
+      goalPeriod: "week",
+    });
+  });
+
+  test("drops daily goals of checkbox trackers", () => {
+    const formData = new FormData();
+    formData.set("goal", "1");
+    formData.set("goalPeriod", "day");
+    formData.set("goalDirection", "atLeast");
+
+    expect(parseGoalFormData(formData, "checkbox").goal).toBeUndefined();
+  });
+});
+
+describe("Goal history", () => {
+  const tracker = {
+    goal: 8,
+    goalHistory: [
+      { effectiveFrom: "2024-01-05", goal: 5 },
+      { effectiveFrom: "2024-02-01", goal: 6, goalPeriod: "week" as const },
+      { effectiveFrom: "2024-03-01", goal: 8 },
+    ],
+  };
+
+  test("resolves the goal in force on a date", () => {
+    expect(getGoalForDate(tracker, "2024-01-01").goal).toBe(5);
+    expect(getGoalForDate(tracker, "2024-01-31").goal).toBe(5);
+    expect(getGoalForDate(tracker, "2024-02-01")).toMatchObject({
+      goal: 6,
+      goalPeriod: "week",
+    });
+    expect(getGoalForDate(tracker, "2024-03-10").goal).toBe(8);
+    expect(getGoalForDate({ goal: 3 }, "2024-01-01").goal).toBe(3);
+  });
+
+  test("keeps the previous goal for dates before an edit", () => {
+    const history = recordGoalChange(
+      { goal: 5, values: { "2024-01-03": 1, "2024-01-02": 4 } },
+      { goal: 8 },
+      "2024-01-10"
+    );
+
+    expect(history).toEqual([
+      expect.objectContaining({ effectiveFrom: "2024-01-02", goal: 5 }),
+      expect.objectContaining({ effectiveFrom: "2024-01-10", goal: 8 }),
+    ]);
+  });
+
+  test("replaces a goal set earlier the same day", () => {
+    const history = recordGoalChange(
+      { ...tracker, values: {} },
+      { goal: 10 },
+      "2024-03-01"
+    );
+
+    expect(history?.map((version) => version.goal)).toEqual([5, 6, 10]);
+    expect(
+      recordGoalChange({ ...tracker, values: {} }, { goal: 8 }, "2024-03-05")
+    ).toBe(tracker.goalHistory);
+  });
+
+  test("merges versions from both sides", () => {
+    const local = [
+      { effectiveFrom: "2024-01-01", goal: 5 },
+      { effectiveFrom: "2024-02-01", goal: 6 },
+    ];
+    const incoming = [
+      { effectiveFrom: "2024-01-01", goal: 5 },
+      { effectiveFrom: "2024-02-01", goal: 7 },
+      { effectiveFrom: "2024-03-01", goal: 8 },
+    ];
+
+    expect(
+      mergeGoalHistories(local, incoming, true)?.map((version) => version.goal)
+    ).toEqual([5, 7, 8]);
+    expect(
+      mergeGoalHistories(local, incoming, false)?.map((version) => version.goal)
+    ).toEqual([5, 6, 8]);
+    expect(mergeGoalHistories(undefined, [], true)).toBeUndefined();
+  });
+});
@@ -0,0 +1,350 @@
+import {
+  addDays,
+  endOfMonth,
+  endOfWeek,
+  isAfter,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { formatDateString, parseLocalDate } from "./dates";
+import { formatStoredValue } from "./number-conversions";
+import {
+  type GoalPeriod,
+  type GoalVersion,
+  type Tracker,
+  type TrackerType,
+  goalPeriodsLabels,
+  isGoalDirection,
+  isGoalPeriod,
+} from "./trackers";
+
+export type GoalSettings = Pick<Tracker, "goal" | "goalDirection" | "goalMax">;
+
+export type TrackerGoal = Pick<
+  Tracker,
+  "goal" | "goalPeriod" | "goalDirection" | "goalMax"
+>;
+
+// Weeks start on Monday, like the contribution graph
+export const WEEK_STARTS_ON = 1;
+
+/**
+ * Checks whether a tracker has a usable goal. Limits may be zero ("none at
+ * all"), while targets must be positive.
+ * @param settings - The goal settings of a tracker
+ * @returns Whether goal checks apply
+ */
+export function hasGoal<T extends GoalSettings>(
+  settings: T
+): settings is T & { goal: number } {
+  const { goal, goalDirection = "atLeast", goalMax } = settings;
+  if (goal === undefined || goal < 0) {
+    return false;
+  }
+
+  switch (goalDirection) {
+    case "atMost":
+      return true;
+    case "range":
+      return goalMax !== undefined && goalMax > 0 && goalMax >= goal;
+    default:
+      return goal > 0;
+  }
+}
+
+/**
+ * Gets the upper bound of "at most" and "range" goals
+ * @param settings - The goal settings of a tracker
+ * @returns The limit, or undefined for "at least" goals
+ */
+export function getGoalLimit(settings: GoalSettings): number | undefined {
+  if (!hasGoal(settings)) {
+    return undefined;
+  }
+
+  switch (settings.goalDirection) {
+    case "atMost":
+      return settings.goal;
+    case "range":
+      return settings.goalMax;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Checks whether a total meets a goal
+ * @param total - The total for a day or goal period
+ * @param settings - The goal settings of a tracker
+ * @returns Whether the goal is met (always false without a goal)
+ */
+export function isGoalMet(total: number, settings: GoalSettings): boolean {
+  if (!hasGoal(settings)) {
+    return false;
+  }
+
+  const limit = getGoalLimit(settings);
+  if (limit !== undefined && total > limit) {
+    return false;
+  }
+  return settings.goalDirection === "atMost" || total >= settings.goal;
+}
+
+/**
+ * Checks whether a total is over the limit of an "at most" or "range" goal
+ * @param total - The total for a day or goal period
+ * @param settings - The goal settings of a tracker
+ * @returns Whether the limit is exceeded
+ */
+export function isGoalExceeded(total: number, settings: GoalSettings): boolean {
+  const limit = getGoalLimit(settings);
+  return limit !== undefined && total > limit;
+}
+
+/**
+ * Formats a goal for display next to a total
+ * @param tracker - The tracker whose goal is formatted
+ * @returns A string like "500", "≤ 500" or "1–2" (empty without a goal)
+ */
+export function formatGoal(
+  tracker: GoalSettings & Pick<Tracker, "type" | "displayUnit">
+): string {
+  if (!hasGoal(tracker)) {
+    return "";
+  }
+
+  const format = (value: number) =>
+    formatStoredValue(value, tracker.type, false, tracker.displayUnit);
+
+  switch (tracker.goalDirection) {
+    case "atMost":
+      return `≤ ${format(tracker.goal)}`;
+    case "range":
+      return `${format(tracker.goal)}–${format(tracker.goalMax ?? 0)}`;
+    default:
+      return format(tracker.goal);
+  }
+}
+
+/**
+ * Reads the goal fields of the tracker forms
+ * @param formData - Form data with goal, goalMax, goalPeriod and goalDirection
+ * @param type - The tracker type
+ * @returns Goal fields to store on the tracker (undefined for defaults)
+ */
+export function parseGoalFormData(
+  formData: FormData,
+  type: TrackerType
+): Pick<Tracker, "goal" | "goalPeriod" | "goalDirection" | "goalMax"> {
+  const goalStr = formData.get("goal") as string;
+  const goalMaxStr = formData.get("goalMax") as string;
+  const goalPeriod = formData.get("goalPeriod");
+  const goalDirection = formData.get("goalDirection");
+
+  const settings: GoalSettings = {
+    goal: goalStr ? parseFloat(goalStr) : undefined,
+    goalDirection:
+      isGoalDirection(goalDirection) && goalDirection !== "atLeast"
+        ? goalDirection
+        : undefined,
+    goalMax:
+      goalDirection === "range" && goalMaxStr
+        ? parseFloat(goalMaxStr)
+        : undefined,
+  };
+
+  // Checkbox trackers can only have goals counting days per week or month
+  const isDailyCheckbox =
+    type === "checkbox" && (!isGoalPeriod(goalPeriod) || goalPeriod === "day");
+  if (isDailyCheckbox || !hasGoal(settings)) {
+    return {
+      goal: undefined,
+      goalPeriod: undefined,
+      goalDirection: undefined,
+      goalMax: undefined,
+    };
+  }
+
+  return {
+    ...settings,
+    goalPeriod:
+      isGoalPeriod(goalPeriod) && goalPeriod !== "day" ? goalPeriod : undefined,
+  };
+}
+
+/**
+ * Gets the calendar period containing a date
+ * @param date - Any date within the period
+ * @param period - The goal period
+ * @returns The first and last day of the period
+ */
+export function getGoalPeriodInterval(
+  date: Date,
+  period: GoalPeriod
+): { start: Date; end: Date } {
+  switch (period) {
+    case "week":
+      return {
+        start: startOfWeek(date, { weekStartsOn: WEEK_STARTS_ON }),
+        end: endOfWeek(date, { weekStartsOn: WEEK_STARTS_ON }),
+      };
+    case "month":
+      return { start: startOfMonth(date), end: endOfMonth(date) };
+    default:
+      return { start: date, end: date };
+  }
+}
+
+/**
+ * Gets a key identifying the period a date belongs to
+ * @param dateString - Date in "yyyy-MM-dd" format
+ * @param period - The goal period
+ * @returns The first day of the period in "yyyy-MM-dd" format
+ */
+export function getGoalPeriodKey(
+  dateString: string,
+  period: GoalPeriod
+): string {
+  if (period === "day") {
+    return dateString;
+  }
+  return formatDateString(
+    getGoalPeriodInterval(parseLocalDate(dateString), period).start
+  );
+}
+
+/**
+ * Sums the values of a period up to and including a date
+ * @param values - Daily totals keyed by "yyyy-MM-dd"
+ * @param period - The goal period
+ * @param date - The last day to include (defaults to today)
+ * @returns The period-to-date total
+ */
+export function getGoalPeriodTotal(
+  values: Record<string, number>,
+  period: GoalPeriod,
+  date: Date = new Date()
+): number {
+  const { start } = getGoalPeriodInterval(date, period);
+
+  let total = 0;
+  for (let day = start; !isAfter(day, date); day = addDays(day, 1)) {
+    total += values[formatDateString(day)] || 0;
+  }
+  return total;
+}
+
+/**
+ * Formats a number of periods
+ * @param count - The number of periods
+ * @param period - The goal period
+ * @returns A string like "1 week" or "3 months"
+ */
+export function formatGoalPeriodCount(
+  count: number,
+  period: GoalPeriod
+): string {
+  const labels = goalPeriodsLabels[period];
+  return `${count} ${count === 1 ? labels.singular : labels.plural}`;
+}
+
+const toTrackerGoal = ({
+  goal,
+  goalPeriod,
+  goalDirection,
+  goalMax,
+}: TrackerGoal): TrackerGoal => ({ goal, goalPeriod, goalDirection, goalMax });
+
+const isSameGoal = (a: TrackerGoal, b: TrackerGoal): boolean =>
+  a.goal === b.goal &&
+  (a.goalPeriod ?? "day") === (b.goalPeriod ?? "day") &&
+  (a.goalDirection ?? "atLeast") === (b.goalDirection ?? "atLeast") &&
+  a.goalMax === b.goalMax;
+
+/**
+ * Gets the goal that was in force on a date
+ * @param tracker - The tracker with its current goal and goal history
+ * @param dateString - Date in "yyyy-MM-dd" format
+ * @returns The goal settings of that date (dates before the first version
+ *   use the first version, the latest version is the current goal)
+ */
+export function getGoalForDate(
+  tracker: TrackerGoal & Pick<Tracker, "goalHistory">,
+  dateString: string
+): TrackerGoal {
+  const history = tracker.goalHistory ?? [];
+
+  let index = history.length - 1;
+  while (index > 0 && history[index].effectiveFrom > dateString) {
+    index--;
+  }
+
+  if (index === history.length - 1) {
+    return toTrackerGoal(tracker);
+  }
+  return toTrackerGoal(history[index]);
+}
+
+/**
+ * Records a goal edit as a new version effective today, so earlier dates keep
+ * being evaluated against the goal they had
+ * @param tracker - The tracker before the edit, with its values populated
+ * @param goal - The new goal settings
+ * @param today - The date the new goal takes effect in "yyyy-MM-dd" format
+ * @returns The goal history to store on the tracker
+ */
+export function recordGoalChange(
+  tracker: TrackerGoal & Pick<Tracker, "goalHistory" | "values">,
+  goal: TrackerGoal,
+  today: string = formatDateString(new Date())
+): GoalVersion[] | undefined {
+  if (isSameGoal(tracker, goal)) {
+    return tracker.goalHistory;
+  }
+
+  let history = tracker.goalHistory ?? [];
+  if (history.length === 0) {
+    // Without a history the previous goal applied since the first entry
+    const firstDate = Object.keys(tracker.values).sort()[0];
+    if (firstDate && firstDate < today) {
+      history = [{ effectiveFrom: firstDate, ...toTrackerGoal(tracker) }];
+    }
+  }
+
+  // A goal replaced on the day it was set never applied to a finished day
+  history = history.filter((version) => version.effectiveFrom < today);
+
+  const previous = history[history.length - 1];
+  if (previous && isSameGoal(previous, goal)) {
+    return history;
+  }
+  return [...history, { effectiveFrom: today, ...toTrackerGoal(goal) }];
+}
+
+/**
+ * Merges the goal histories of two copies of a tracker
+ * @param local - The locally stored history
+ * @param incoming - The imported history
+ * @param preferIncoming - Whether imported versions win on the same date
+ * @returns The combined history, oldest first (undefined when both are empty)
+ */
+export function mergeGoalHistories(
+  local: GoalVersion[] | undefined,
+  incoming: GoalVersion[] | undefined,
+  preferIncoming: boolean
+): GoalVersion[] | undefined {
+  const versions = new Map<string, GoalVersion>();
+  const [base, preferred] = preferIncoming
+    ? [local ?? [], incoming ?? []]
+    : [incoming ?? [], local ?? []];
+  for (const version of [...base, ...preferred]) {
+    versions.set(version.effectiveFrom, version);
+  }
+
+  if (versions.size === 0) {
+    return undefined;
+  }
+  return [...versions.values()].sort((a, b) =>
+    a.effectiveFrom.localeCompare(b.effectiveFrom)
+  );
+}
@@ -3,3 +3,6 @@ export { useTrackerMutations } from "./useTrackerMutations";
 export { useTrackerEntries } from "./useTrackerEntries";
 export { useFormState } from "./useFormState";
 export { useStateWithDelayedReset } from "./useStateWithDelayedReset";
+export { useElapsedSeconds } from "./useElapsedSeconds";
+export { useReminders } from "./useReminders";
+export { useDailyBackup } from "./useDailyBackup";
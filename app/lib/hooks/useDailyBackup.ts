@@ -0,0 +1,19 @@
+import { useEffect } from "react";
+import { createDailyBackupIfDue } from "../data";
+
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// Takes the daily backup of local data while the app is open
+export const useDailyBackup = () => {
+  useEffect(() => {
+    const check = () => {
+      createDailyBackupIfDue().catch((error) => {
+        console.error("Failed to create daily backup:", error);
+      });
+    };
+
+    check();
+    const interval = setInterval(check, CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+};
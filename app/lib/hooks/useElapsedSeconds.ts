@@ -0,0 +1,26 @@
+import { useEffect, useState } from "react";
+import { type RunningTimer, getElapsedSeconds } from "../timers";
+
+export const useElapsedSeconds = (timer: RunningTimer | null) => {
+  // The timer object changes on every reload, its start time doesn't
+  const startedAt = timer?.startedAt;
+  const [elapsed, setElapsed] = useState(() =>
+    startedAt ? getElapsedSeconds({ startedAt }) : 0
+  );
+
+  useEffect(() => {
+    if (!startedAt) {
+      setElapsed(0);
+      return;
+    }
+
+    setElapsed(getElapsedSeconds({ startedAt }));
+    const interval = setInterval(
+      () => setElapsed(getElapsedSeconds({ startedAt })),
+      1000
+    );
+    return () => clearInterval(interval);
+  }, [startedAt]);
+
+  return elapsed;
+};
@@ -0,0 +1,82 @@
+import { useEffect } from "react";
+import { isSameDay, startOfDay } from "date-fns";
+import {
+  getAllTrackers,
+  getRemindersCheckedAt,
+  setRemindersCheckedAt,
+} from "../db";
+import {
+  type ReminderNotification,
+  getDueReminders,
+  getReminderNotification,
+} from "../reminders";
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+async function showReminderNotification({
+  title,
+  ...options
+}: ReminderNotification) {
+  const registration = await navigator.serviceWorker?.getRegistration();
+  if (registration) {
+    // Actions aren't part of the DOM typings yet
+    await registration.showNotification(title, options as NotificationOptions);
+    return;
+  }
+
+  // Without a service worker (e.g. in development) actions aren't supported
+  const notification = new Notification(title, {
+    body: options.body,
+    tag: options.tag,
+  });
+  notification.onclick = () => {
+    window.focus();
+    window.location.assign(options.data.url);
+  };
+}
+
+// Shows tracker reminders as notifications while the app is open
+export const useReminders = () => {
+  useEffect(() => {
+    if (typeof Notification === "undefined") {
+      return;
+    }
+
+    const checkReminders = async () => {
+      if (Notification.permission !== "granted") {
+        return;
+      }
+
+      const now = new Date();
+      const checkedAt = await getRemindersCheckedAt();
+      await setRemindersCheckedAt(now);
+      // Catch up on reminders missed while the app was closed earlier today
+      const from = !checkedAt
+        ? now
+        : isSameDay(checkedAt, now)
+        ? checkedAt
+        : startOfDay(now);
+
+      const trackers = await getAllTrackers();
+      for (const { tracker, reminder } of getDueReminders(
+        trackers,
+        from,
+        now
+      )) {
+        await showReminderNotification(
+          getReminderNotification(tracker, reminder)
+        );
+      }
+    };
+
+    const check = () => {
+      checkReminders().catch((error) => {
+        console.error("Failed to show reminders:", error);
+      });
+    };
+
+    check();
+    const interval = setInterval(check, CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+};
@@ -10,6 +10,7 @@ import {
 } from "../db";
 import { formatDateString } from "../dates";
 import { debouncedDataChange } from "../data-change-events";
+import { createEntryChangesUndo, pushUndo } from "../undo";
 
 // Hook to manage entries for a tracker
 export function useTrackerEntries(trackerId: string) {
@@ -38,7 +39,7 @@ export function useTrackerEntries(trackerId: string) {
       try {
         setLoading(true);
         setError(null);
-        await createEntry(
+        const created = await createEntry(
           trackerId,
           entryDate,
           valueToAdd,
@@ -52,6 +53,7 @@ export function useTrackerEntries(trackerId: string) {
           date: entryDate,
           value: valueToAdd,
         });
+        pushUndo(createEntryChangesUndo("Entry added", trackerId, { created }));
         return newValue;
       } catch (err) {
         setError(err instanceof Error ? err.message : "Failed to add to entry");
@@ -90,19 +92,35 @@ export function useTrackerEntries(trackerId: string) {
           "by-tracker",
           trackerId
         );
-        const dateEntries = entries.filter((entry) => entry.date === entryDate);
+        const dateEntries = entries.filter(
+          (entry) => entry.date === entryDate && !entry.deletedAt
+        );
         for (const entry of dateEntries) {
           await deleteEntryById(entry.id);
         }
         // Then create new entry if value > 0
-        if (value > 0) {
-          await createEntry(trackerId, entryDate, value, false, false, comment);
-        }
+        const created =
+          value > 0
+            ? await createEntry(
+                trackerId,
+                entryDate,
+                value,
+                false,
+                false,
+                comment
+              )
+            : [];
         debouncedDataChange.dispatch("entry_updated", {
           trackerId,
           date: entryDate,
           value,
         });
+        pushUndo(
+          createEntryChangesUndo("Entry updated", trackerId, {
+            created,
+            deleted: dateEntries.map((entry) => entry.id),
+          })
+        );
       } catch (err) {
         setError(err instanceof Error ? err.message : "Failed to set entry");
         throw err;
@@ -149,21 +167,29 @@ export function useTrackerEntries(trackerId: string) {
     [trackerId]
   );
 
-  const removeEntryById = useCallback(async (entryId: string) => {
-    try {
-      setLoading(true);
-      setError(null);
-      await deleteEntryById(entryId);
-      debouncedDataChange.dispatch("entry_deleted", {
-        trackerId,
-      });
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to delete entry");
-      throw err;
-    } finally {
-      setLoading(false);
-    }
-  }, []);
+  const removeEntryById = useCallback(
+    async (entryId: string) => {
+      try {
+        setLoading(true);
+        setError(null);
+        await deleteEntryById(entryId);
+        debouncedDataChange.dispatch("entry_deleted", {
+          trackerId,
+        });
+        pushUndo(
+          createEntryChangesUndo("Entry deleted", trackerId, {
+            deleted: [entryId],
+          })
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to delete entry");
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [trackerId]
+  );
 
   return {
     loading,
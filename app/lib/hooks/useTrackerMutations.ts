@@ -1,7 +1,17 @@
 import { useState, useCallback } from "react";
 import type { Tracker } from "../trackers";
-import { saveTracker, updateTracker, deleteTracker } from "../db";
+import {
+  saveTracker,
+  updateTracker,
+  deleteTracker,
+  getTrackerById,
+} from "../db";
 import { debouncedDataChange } from "../data-change-events";
+import {
+  createTrackerDeletionUndo,
+  createTrackerUpdateUndo,
+  pushUndo,
+} from "../undo";
 
 // Hook for tracker mutations
 export function useTrackerMutations() {
@@ -34,10 +44,14 @@ export function useTrackerMutations() {
     try {
       setLoading(true);
       setError(null);
+      const previous = await getTrackerById(tracker.id);
       await updateTracker(tracker);
       debouncedDataChange.dispatch("tracker_updated", {
         trackerId: tracker.id,
       });
+      if (previous) {
+        pushUndo(createTrackerUpdateUndo(previous, tracker));
+      }
       return tracker;
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to update tracker");
@@ -51,10 +65,14 @@ export function useTrackerMutations() {
     try {
       setLoading(true);
       setError(null);
+      const tracker = await getTrackerById(id);
       await deleteTracker(id);
       debouncedDataChange.dispatch("tracker_deleted", {
         trackerId: id,
       });
+      if (tracker) {
+        pushUndo(createTrackerDeletionUndo(tracker));
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to delete tracker");
       throw err;
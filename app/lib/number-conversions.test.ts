@@ -0,0 +1,156 @@
+import { describe, test, expect, beforeEach, afterAll } from "bun:test";
+import {
+  formatForInput,
+  formatStoredValue,
+  getDisplayUnit,
+  getDisplayUnitOptions,
+  getInputStep,
+  parseInputToStored,
+  resolveDisplayUnit,
+  toDisplayValue,
+  toStoredValue,
+} from "./number-conversions";
+import { getQuickAddValues, quickAddValuesMap } from "./entry-quick-add-values";
+import { setUnitSystem } from "./user-settings";
+import { formatDuration, parseDuration } from "./duration";
+
+// Minimal localStorage so the unit system preference can be changed
+const storage = new Map<string, string>();
+const testGlobal = globalThis as any;
+testGlobal.window = testGlobal;
+testGlobal.localStorage = {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, value),
+  removeItem: (key: string) => storage.delete(key),
+};
+
+describe("Unit conversions", () => {
+  beforeEach(() => {
+    storage.clear();
+  });
+
+  afterAll(() => {
+    delete testGlobal.window;
+    delete testGlobal.localStorage;
+  });
+
+  describe("Metric (default)", () => {
+    test("keeps the canonical display units", () => {
+      expect(resolveDisplayUnit("liters")).toBe("L");
+      expect(resolveDisplayUnit("kilometers")).toBe("km");
+      expect(resolveDisplayUnit("kilograms")).toBe("kg");
+      expect(formatStoredValue(1500, "liters", true)).toBe("1.5L");
+      expect(parseInputToStored("2.5", "kilometers")).toBe(2500);
+      expect(getInputStep("kilograms")).toBe("0.001");
+    });
+
+    test("does not convert types without compatible units", () => {
+      expect(getDisplayUnitOptions("steps")).toEqual([]);
+      expect(resolveDisplayUnit("none")).toBeNull();
+      expect(formatStoredValue(5000, "steps", true)).toBe("5000steps");
+    });
+  });
+
+  describe("Imperial", () => {
+    beforeEach(() => {
+      setUnitSystem("imperial");
+    });
+
+    test("displays stored values in imperial units", () => {
+      expect(getDisplayUnit("kilometers")).toBe(" mi");
+      expect(formatStoredValue(1609, "kilometers", true)).toBe("1 mi");
+      expect(formatStoredValue(1000, "kilograms", true)).toBe("2.2 lb");
+      expect(formatStoredValue(500, "liters", true)).toBe("16.9 fl oz");
+    });
+
+    test("parses input to canonical stored values", () => {
+      expect(parseInputToStored("1", "kilometers")).toBe(1609);
+      expect(parseInputToStored("10", "kilograms")).toBe(4536);
+      expect(toStoredValue(8, "liters")).toBe(237);
+      expect(toDisplayValue(1609, "kilometers")).toBeCloseTo(1, 3);
+    });
+
+    test("rounds conversion noise in input fields", () => {
+      expect(formatForInput(500, "liters")).toBe("16.9");
+      expect(formatForInput(4536, "kilograms")).toBe("10");
+      expect(getInputStep("kilometers")).toBe("0.01");
+    });
+
+    test("uses round amounts of the display unit for quick-add values", () => {
+      const quickAddValues = getQuickAddValues("kilometers");
+      expect(quickAddValues?.map(({ label }) => label)).toEqual([
+        "0.5 mi",
+        "1 mi",
+        "3 mi",
+        "5 mi",
+      ]);
+      expect(quickAddValues?.[1].value).toBe(1609);
+    });
+  });
+
+  describe("Per-tracker overrides", () => {
+    test("override takes precedence over the unit system", () => {
+      setUnitSystem("imperial");
+
+      expect(formatStoredValue(1500, "liters", true, "L")).toBe("1.5L");
+      expect(formatStoredValue(473, "liters", true, "cups")).toBe("2 cups");
+      expect(parseInputToStored("2", "liters", "cups")).toBe(473);
+      expect(getQuickAddValues("liters", "L")).toEqual(
+        quickAddValuesMap.liters
+      );
+    });
+
+    test("incompatible overrides are ignored", () => {
+      expect(resolveDisplayUnit("kilometers", "lb")).toBe("km");
+      expect(formatStoredValue(1500, "liters", true, "mi")).toBe("1.5L");
+    });
+  });
+
+  describe("Duration", () => {
+    test("parses unit suffixes, h:mm and bare minutes", () => {
+      expect(parseDuration("1h20m")).toBe(4800);
+      expect(parseDuration("1h 20m")).toBe(4800);
+      expect(parseDuration("90m")).toBe(5400);
+      expect(parseDuration("2h")).toBe(7200);
+      expect(parseDuration("1.5h")).toBe(5400);
+      expect(parseDuration("30s")).toBe(30);
+      expect(parseDuration("1:20")).toBe(4800);
+      expect(parseDuration("45:00")).toBe(162000);
+      expect(parseDuration("0:45:30")).toBe(2730);
+      expect(parseDuration("45")).toBe(2700);
+    });
+
+    test("rejects malformed durations", () => {
+      expect(parseDuration("")).toBeNull();
+      expect(parseDuration("abc")).toBeNull();
+      expect(parseDuration("1:75")).toBeNull();
+      expect(parseDuration("m")).toBeNull();
+    });
+
+    test("formats durations with hours and minutes", () => {
+      expect(formatDuration(4800)).toBe("1h 20m");
+      expect(formatDuration(7200)).toBe("2h");
+      expect(formatDuration(2700)).toBe("45m");
+      expect(formatDuration(90)).toBe("1m 30s");
+      expect(formatDuration(0)).toBe("0m");
+    });
+
+    test("stores seconds and formats through the conversion helpers", () => {
+      expect(parseInputToStored("1h20m", "duration")).toBe(4800);
+      expect(toStoredValue(80, "duration")).toBe(4800);
+      expect(toDisplayValue(4800, "duration")).toBe(80);
+      expect(formatStoredValue(4800, "duration", true)).toBe("1h 20m");
+      expect(formatForInput(5400, "duration")).toBe("1h 30m");
+      expect(getDisplayUnit("duration")).toBe("");
+    });
+
+    test("offers minute-based quick-add values", () => {
+      expect(getQuickAddValues("duration")).toEqual([
+        { label: "5m", value: 300 },
+        { label: "15m", value: 900 },
+        { label: "30m", value: 1800 },
+        { label: "1h", value: 3600 },
+      ]);
+    });
+  });
+});
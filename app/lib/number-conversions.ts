@@ -1,56 +1,287 @@
-import type { TrackerType } from "./trackers";
+import { getRegisteredCustomUnit } from "./custom-units";
+import { formatDuration, parseDuration } from "./duration";
+import { type UnitSystem, getUnitSystem } from "./user-settings";
+import {
+  type BuiltInTrackerType,
+  type TrackerType,
+  getCustomUnitId,
+  getTrackerTypeLabels,
+  isCustomTrackerType,
+} from "./trackers";
 
 // Define conversion factors for each tracker type
 // Values are stored as the smallest unit to avoid floating point issues
-export const conversionFactors: Record<TrackerType, number> = {
+export const conversionFactors: Record<BuiltInTrackerType, number> = {
   liters: 1000,     // Store as milliliters (1L = 1000ml)
   kilometers: 1000, // Store as meters (1km = 1000m)
   kilograms: 1000,  // Store as grams (1kg = 1000g)
+  duration: 60,     // Store as seconds, displayed as minutes (1min = 60s)
   steps: 1,         // Already in smallest unit
   checkbox: 1,      // Binary value (0 or 1)
   none: 1000,       // Store with precision (1.0 = 1000)
 };
 
 // Define decimal places for display formatting
-export const displayDecimals: Record<TrackerType, number> = {
+export const displayDecimals: Record<BuiltInTrackerType, number> = {
   liters: 3,     // Show up to 3 decimal places for liters (e.g., 0.001L)
   kilometers: 3, // Show up to 3 decimal places for kilometers (e.g., 0.001km)
   kilograms: 3,  // Show up to 3 decimal places for kilograms (e.g., 0.001kg)
+  duration: 2,   // Fractional minutes for durations with seconds
   steps: 0,      // No decimals for steps
   checkbox: 0,   // No decimals for checkbox
   none: 3,       // Show up to 3 decimal places for generic values
 };
 
 // Define display units
-export const displayUnits: Record<TrackerType, string> = {
+export const displayUnits: Record<BuiltInTrackerType, string> = {
   liters: "L",
   kilometers: "km",
   kilograms: "kg",
+  duration: "", // Durations are formatted with their own units (e.g., "1h 20m")
   steps: "steps",
   checkbox: "",
   none: "",
 };
 
+// Units that values of convertible tracker types can be displayed in.
+// Storage always stays in the canonical unit (ml, m, g); ratio is the amount
+// of the canonical display unit (L, km, kg) in one display unit.
+export const displayUnitDefinitions = {
+  L: {
+    type: "liters",
+    system: "metric",
+    ratio: 1,
+    decimals: 3,
+    label: "Liters",
+    short: "liters",
+    suffix: "L",
+  },
+  oz: {
+    type: "liters",
+    system: "imperial",
+    ratio: 0.0295735295625, // US fluid ounce
+    decimals: 1,
+    label: "Fluid ounces",
+    short: "fl oz",
+    suffix: " fl oz",
+  },
+  cups: {
+    type: "liters",
+    system: "imperial",
+    ratio: 0.2365882365, // US customary cup
+    decimals: 2,
+    label: "Cups",
+    short: "cups",
+    suffix: " cups",
+  },
+  km: {
+    type: "kilometers",
+    system: "metric",
+    ratio: 1,
+    decimals: 3,
+    label: "Kilometers",
+    short: "km",
+    suffix: "km",
+  },
+  mi: {
+    type: "kilometers",
+    system: "imperial",
+    ratio: 1.609344,
+    decimals: 2,
+    label: "Miles",
+    short: "mi",
+    suffix: " mi",
+  },
+  kg: {
+    type: "kilograms",
+    system: "metric",
+    ratio: 1,
+    decimals: 3,
+    label: "Kilograms",
+    short: "kg",
+    suffix: "kg",
+  },
+  lb: {
+    type: "kilograms",
+    system: "imperial",
+    ratio: 0.45359237,
+    decimals: 2,
+    label: "Pounds",
+    short: "lb",
+    suffix: " lb",
+  },
+} as const satisfies Record<
+  string,
+  {
+    type: BuiltInTrackerType;
+    system: UnitSystem;
+    ratio: number;
+    decimals: number;
+    label: string;
+    short: string; // Label shown next to values, like trackerTypesLabels
+    suffix: string; // Appended to formatted values, like displayUnits
+  }
+>;
+
+export type DisplayUnit = keyof typeof displayUnitDefinitions;
+
+/**
+ * Checks whether a string is a known display unit
+ * @param value - The value to check
+ */
+export function isDisplayUnit(value: unknown): value is DisplayUnit {
+  return typeof value === "string" && value in displayUnitDefinitions;
+}
+
+/**
+ * Gets the display units a tracker type can be shown in
+ * @param type - The tracker type
+ * @returns The compatible display units, or an empty array if the type is not convertible
+ */
+export function getDisplayUnitOptions(type: TrackerType): DisplayUnit[] {
+  return (Object.keys(displayUnitDefinitions) as DisplayUnit[]).filter(
+    (unit) => displayUnitDefinitions[unit].type === type
+  );
+}
+
+/**
+ * Resolves the display unit used for a tracker type
+ * @param type - The tracker type
+ * @param override - Per-tracker display unit override (ignored if incompatible)
+ * @returns The display unit, or null if the type is not convertible
+ */
+export function resolveDisplayUnit(
+  type: TrackerType,
+  override?: DisplayUnit
+): DisplayUnit | null {
+  const options = getDisplayUnitOptions(type);
+  if (options.length === 0) return null;
+  if (override && options.includes(override)) return override;
+
+  const unitSystem = getUnitSystem();
+  const preferred = options.find(
+    (unit) => displayUnitDefinitions[unit].system === unitSystem
+  );
+  return preferred ?? options[0];
+}
+
+/**
+ * Gets the short unit label for a tracker type, respecting display units
+ * @param type - The tracker type
+ * @param displayUnit - Per-tracker display unit override
+ * @returns The short label (e.g., "liters" or "fl oz")
+ */
+export function getShortUnitLabel(
+  type: TrackerType,
+  displayUnit?: DisplayUnit
+): string {
+  const resolved = resolveDisplayUnit(type, displayUnit);
+  if (resolved) return displayUnitDefinitions[resolved].short;
+  return getTrackerTypeLabels(type).short;
+}
+
+/**
+ * Gets how many canonical display units (L, km, kg) one resolved display
+ * unit is worth, or 1 if the type is not convertible
+ */
+function getDisplayRatio(type: TrackerType, displayUnit?: DisplayUnit): number {
+  const resolved = resolveDisplayUnit(type, displayUnit);
+  return resolved ? displayUnitDefinitions[resolved].ratio : 1;
+}
+
+/**
+ * Resolves the built-in type whose settings apply to a tracker type
+ * @param type - The tracker type
+ * @returns The type itself for built-in types, "none" for custom units
+ */
+function toBuiltInType(type: TrackerType): BuiltInTrackerType {
+  return isCustomTrackerType(type) ? "none" : type;
+}
+
+/**
+ * Gets the conversion factor for built-in and custom tracker types
+ * @param type - The tracker type
+ * @returns The factor between display and stored values
+ */
+export function getConversionFactor(type: TrackerType): number {
+  if (isCustomTrackerType(type)) {
+    const unit = getRegisteredCustomUnit(getCustomUnitId(type));
+    if (unit) return unit.factor;
+  }
+  return conversionFactors[toBuiltInType(type)];
+}
+
+/**
+ * Gets the number of display decimals for built-in and custom tracker types
+ * @param type - The tracker type
+ * @param displayUnit - Per-tracker display unit override
+ * @returns The maximum number of decimal places to display
+ */
+export function getDisplayDecimals(
+  type: TrackerType,
+  displayUnit?: DisplayUnit
+): number {
+  const resolved = resolveDisplayUnit(type, displayUnit);
+  if (resolved) return displayUnitDefinitions[resolved].decimals;
+
+  if (isCustomTrackerType(type)) {
+    const unit = getRegisteredCustomUnit(getCustomUnitId(type));
+    if (unit) return unit.decimals;
+  }
+  return displayDecimals[toBuiltInType(type)];
+}
+
+/**
+ * Gets the display unit suffix for built-in and custom tracker types
+ * @param type - The tracker type
+ * @param displayUnit - Per-tracker display unit override
+ * @returns The unit suffix (e.g., "L" or " fl oz"), or an empty string if
+ *   there is none. Word units start with a space.
+ */
+export function getDisplayUnit(
+  type: TrackerType,
+  displayUnit?: DisplayUnit
+): string {
+  const resolved = resolveDisplayUnit(type, displayUnit);
+  if (resolved) return displayUnitDefinitions[resolved].suffix;
+
+  if (isCustomTrackerType(type)) {
+    const unit = getRegisteredCustomUnit(getCustomUnitId(type));
+    if (unit) return unit.shortest;
+  }
+  return displayUnits[toBuiltInType(type)];
+}
+
 /**
  * Converts a user input value to the stored integer format
  * @param value - The user input value (e.g., 0.5 for 0.5L)
  * @param type - The tracker type
+ * @param displayUnit - Per-tracker display unit override
  * @returns The integer value to store (e.g., 500 for 0.5L)
  */
-export function toStoredValue(value: number, type: TrackerType): number {
-  const factor = conversionFactors[type];
-  return Math.round(value * factor);
+export function toStoredValue(
+  value: number,
+  type: TrackerType,
+  displayUnit?: DisplayUnit
+): number {
+  const factor = getConversionFactor(type);
+  return Math.round(value * getDisplayRatio(type, displayUnit) * factor);
 }
 
 /**
  * Converts a stored integer value to display format
  * @param storedValue - The stored integer value (e.g., 500 for 0.5L)
  * @param type - The tracker type
+ * @param displayUnit - Per-tracker display unit override
  * @returns The display value (e.g., 0.5 for 500ml)
  */
-export function toDisplayValue(storedValue: number, type: TrackerType): number {
-  const factor = conversionFactors[type];
-  return storedValue / factor;
+export function toDisplayValue(
+  storedValue: number,
+  type: TrackerType,
+  displayUnit?: DisplayUnit
+): number {
+  const factor = getConversionFactor(type);
+  return storedValue / factor / getDisplayRatio(type, displayUnit);
 }
 
 /**
@@ -58,15 +289,21 @@ export function toDisplayValue(storedValue: number, type: TrackerType): number {
  * @param storedValue - The stored integer value
  * @param type - The tracker type
  * @param includeUnit - Whether to include the unit in the formatted string
+ * @param displayUnit - Per-tracker display unit override
  * @returns The formatted display string
  */
 export function formatStoredValue(
   storedValue: number,
   type: TrackerType,
-  includeUnit: boolean = false
+  includeUnit: boolean = false,
+  displayUnit?: DisplayUnit
 ): string {
-  const displayValue = toDisplayValue(storedValue, type);
-  const decimals = displayDecimals[type];
+  if (type === "duration") {
+    return formatDuration(storedValue);
+  }
+
+  const displayValue = toDisplayValue(storedValue, type, displayUnit);
+  const decimals = getDisplayDecimals(type, displayUnit);
 
   // Format the number with appropriate decimal places
   let formatted: string;
@@ -79,27 +316,59 @@ export function formatStoredValue(
   }
 
   // Add unit if requested
-  if (includeUnit && displayUnits[type]) {
-    formatted = `${formatted}${displayUnits[type]}`;
+  const unit = getDisplayUnit(type, displayUnit);
+  if (includeUnit && unit) {
+    formatted = `${formatted}${unit}`;
   }
 
   return formatted;
 }
 
+/**
+ * Formats a display value (e.g., a chart data point) for display
+ * @param displayValue - The display value (e.g., 1.5 for 1.5L)
+ * @param type - The tracker type
+ * @param includeUnit - Whether to include the unit in the formatted string
+ * @param displayUnit - Per-tracker display unit override
+ * @returns The formatted display string
+ */
+export function formatDisplayValue(
+  displayValue: number,
+  type: TrackerType,
+  includeUnit: boolean = false,
+  displayUnit?: DisplayUnit
+): string {
+  return formatStoredValue(
+    toStoredValue(displayValue, type, displayUnit),
+    type,
+    includeUnit,
+    displayUnit
+  );
+}
+
 /**
  * Parses user input string to a stored integer value
  * @param input - The user input string (e.g., "0.5" for 0.5L)
  * @param type - The tracker type
+ * @param displayUnit - Per-tracker display unit override
  * @returns The integer value to store, or null if invalid
  */
-export function parseInputToStored(input: string, type: TrackerType): number | null {
+export function parseInputToStored(
+  input: string,
+  type: TrackerType,
+  displayUnit?: DisplayUnit
+): number | null {
   const trimmed = input.trim();
   if (!trimmed) return null;
 
+  if (type === "duration") {
+    return parseDuration(trimmed);
+  }
+
   const parsed = parseFloat(trimmed);
   if (isNaN(parsed)) return null;
 
-  return toStoredValue(parsed, type);
+  return toStoredValue(parsed, type, displayUnit);
 }
 
 /**
@@ -127,13 +396,27 @@ export function isValidStoredValue(storedValue: number, type: TrackerType): bool
  * Formats a value for input field display
  * @param storedValue - The stored integer value
  * @param type - The tracker type
+ * @param displayUnit - Per-tracker display unit override
  * @returns The formatted string for input field
  */
-export function formatForInput(storedValue: number | null, type: TrackerType): string {
+export function formatForInput(
+  storedValue: number | null,
+  type: TrackerType,
+  displayUnit?: DisplayUnit
+): string {
   if (storedValue === null) return "";
 
-  const displayValue = toDisplayValue(storedValue, type);
-  const decimals = displayDecimals[type];
+  if (type === "duration") {
+    return formatDuration(storedValue);
+  }
+
+  // Round away conversion noise (e.g., 500ml shown as 16.907011... oz)
+  const displayValue = roundDisplayValue(
+    toDisplayValue(storedValue, type, displayUnit),
+    type,
+    displayUnit
+  );
+  const decimals = getDisplayDecimals(type, displayUnit);
 
   if (decimals === 0) {
     return Math.round(displayValue).toString();
@@ -153,10 +436,14 @@ export function formatForInput(storedValue: number | null, type: TrackerType): s
 /**
  * Gets the appropriate step value for number inputs
  * @param type - The tracker type
+ * @param displayUnit - Per-tracker display unit override
  * @returns The step value for HTML number input
  */
-export function getInputStep(type: TrackerType): string {
-  const decimals = displayDecimals[type];
+export function getInputStep(
+  type: TrackerType,
+  displayUnit?: DisplayUnit
+): string {
+  const decimals = getDisplayDecimals(type, displayUnit);
   if (decimals === 0) return "1";
 
   // Create a step value based on decimal places (e.g., 0.001 for 3 decimals)
@@ -167,10 +454,15 @@ export function getInputStep(type: TrackerType): string {
  * Rounds a display value to appropriate precision for the tracker type
  * @param displayValue - The display value to round
  * @param type - The tracker type
+ * @param displayUnit - Per-tracker display unit override
  * @returns The rounded display value
  */
-export function roundDisplayValue(displayValue: number, type: TrackerType): number {
-  const decimals = displayDecimals[type];
+export function roundDisplayValue(
+  displayValue: number,
+  type: TrackerType,
+  displayUnit?: DisplayUnit
+): number {
+  const decimals = getDisplayDecimals(type, displayUnit);
   if (decimals === 0) return Math.round(displayValue);
 
   const factor = Math.pow(10, decimals);
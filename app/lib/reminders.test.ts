@@ -0,0 +1,110 @@
+import { describe, test, expect } from "bun:test";
+import {
+  getDueReminders,
+  getReminderNotification,
+  getReminderOccurrences,
+  isTodayGoalMet,
+  parseRemindersFormData,
+} from "./reminders";
+import type { Tracker, TrackerReminder } from "./trackers";
+
+// 2024-01-10 is a Wednesday
+const reminder: TrackerReminder = {
+  id: "reminder-1",
+  time: "20:00",
+  weekdays: [1, 3, 5],
+};
+
+const tracker: Tracker = {
+  id: "tracker-1",
+  title: "Water",
+  type: "liters",
+  isNumber: true,
+  values: {},
+  goal: 2000,
+  reminders: [reminder],
+};
+
+describe("Reminders", () => {
+  test("finds the times a reminder came due within a window", () => {
+    const occurrences = getReminderOccurrences(
+      reminder,
+      new Date(2024, 0, 8, 20, 0), // Monday, exclusive
+      new Date(2024, 0, 12, 20, 0) // Friday, inclusive
+    );
+
+    expect(occurrences).toEqual([
+      new Date(2024, 0, 10, 20, 0),
+      new Date(2024, 0, 12, 20, 0),
+    ]);
+  });
+
+  test("skips reminders on other weekdays", () => {
+    expect(
+      getReminderOccurrences(
+        reminder,
+        new Date(2024, 0, 11, 0, 0),
+        new Date(2024, 0, 11, 23, 59)
+      )
+    ).toEqual([]);
+  });
+
+  test("checks today's goal, or any entry without a goal", () => {
+    const date = new Date(2024, 0, 10, 20, 0);
+    const values = { "2024-01-10": 1500 };
+
+    expect(isTodayGoalMet({ ...tracker, values }, date)).toBe(false);
+    expect(isTodayGoalMet({ ...tracker, values, goal: 1000 }, date)).toBe(true);
+    expect(isTodayGoalMet({ ...tracker, values, goal: undefined }, date)).toBe(
+      true
+    );
+  });
+
+  test("only shows goal reminders while the goal isn't met", () => {
+    const from = new Date(2024, 0, 10, 19, 59);
+    const to = new Date(2024, 0, 10, 20, 0);
+    const goalTracker: Tracker = {
+      ...tracker,
+      reminders: [{ ...reminder, onlyIfGoalNotMet: true }],
+    };
+
+    expect(getDueReminders([goalTracker], from, to)).toHaveLength(1);
+    expect(
+      getDueReminders(
+        [{ ...goalTracker, values: { "2024-01-10": 2000 } }],
+        from,
+        to
+      )
+    ).toHaveLength(0);
+    expect(
+      getDueReminders([goalTracker], to, new Date(2024, 0, 10, 21, 0))
+    ).toHaveLength(0);
+  });
+
+  test("offers logging the quick-add value from the notification", () => {
+    const notification = getReminderNotification(tracker, {
+      ...reminder,
+      quickAddValue: 250,
+    });
+
+    expect(notification.title).toBe("Water");
+    expect(notification.data.logUrl).toBe("/t/tracker-1/log-entry?log=250");
+    expect(notification.actions).toHaveLength(1);
+    expect(getReminderNotification(tracker, reminder).actions).toEqual([]);
+  });
+
+  test("reads valid reminders from form data", () => {
+    const formData = new FormData();
+    formData.set(
+      "reminders",
+      JSON.stringify([
+        reminder,
+        { ...reminder, id: "no-days", weekdays: [] },
+        { ...reminder, id: "bad-time", time: "25:00" },
+      ])
+    );
+
+    expect(parseRemindersFormData(formData)).toEqual([reminder]);
+    expect(parseRemindersFormData(new FormData())).toBeUndefined();
+  });
+});
@@ -0,0 +1,225 @@
+// Reminders are checked while the app is open (see useReminders) and shown
+// through the service worker. Browsers can't wake a PWA up on a schedule, so
+// reminders that came due while the app was closed are shown when it's opened
+// again the same day. The "log" notification action opens the log entry page
+// with the value to log.
+
+import { addDays, isAfter, set, startOfDay } from "date-fns";
+import { formatDateString } from "./dates";
+import {
+  getGoalForDate,
+  getGoalPeriodTotal,
+  hasGoal,
+  isGoalMet,
+} from "./goals";
+import { formatStoredValue } from "./number-conversions";
+import type { Tracker, TrackerReminder } from "./trackers";
+
+export const reminderWeekdays = [1, 2, 3, 4, 5, 6, 0] as const;
+
+export const reminderWeekdaysLabels: Record<number, string> = {
+  0: "Sun",
+  1: "Mon",
+  2: "Tue",
+  3: "Wed",
+  4: "Thu",
+  5: "Fri",
+  6: "Sat",
+};
+
+export type DueReminder = {
+  tracker: Tracker;
+  reminder: TrackerReminder;
+};
+
+export type ReminderNotification = {
+  title: string;
+  body: string;
+  tag: string;
+  data: { url: string; logUrl?: string };
+  actions: Array<{ action: string; title: string }>;
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export function isTrackerReminder(value: any): value is TrackerReminder {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof value.id === "string" &&
+    typeof value.time === "string" &&
+    TIME_PATTERN.test(value.time) &&
+    Array.isArray(value.weekdays) &&
+    value.weekdays.every(
+      (day: any) => Number.isInteger(day) && day >= 0 && day <= 6
+    ) &&
+    (value.onlyIfGoalNotMet === undefined ||
+      typeof value.onlyIfGoalNotMet === "boolean") &&
+    (value.quickAddValue === undefined ||
+      typeof value.quickAddValue === "number")
+  );
+}
+
+/**
+ * Gets the times a reminder came due within a time window
+ * @param reminder - The reminder
+ * @param from - Start of the window (exclusive)
+ * @param to - End of the window (inclusive)
+ * @returns Due times in chronological order
+ */
+export function getReminderOccurrences(
+  reminder: TrackerReminder,
+  from: Date,
+  to: Date
+): Date[] {
+  const [hours, minutes] = reminder.time.split(":").map(Number);
+  const occurrences: Date[] = [];
+
+  for (let day = startOfDay(from); !isAfter(day, to); day = addDays(day, 1)) {
+    if (!reminder.weekdays.includes(day.getDay())) continue;
+
+    const dueAt = set(day, { hours, minutes });
+    if (isAfter(dueAt, from) && !isAfter(dueAt, to)) {
+      occurrences.push(dueAt);
+    }
+  }
+  return occurrences;
+}
+
+/**
+ * Checks whether the goal of a tracker is met on a date (for weekly and
+ * monthly goals, the period up to that date)
+ * @param tracker - The tracker, with its values populated
+ * @param date - The date to check (defaults to today)
+ * @returns Whether the goal is met, or whether anything was logged without one
+ */
+export function isTodayGoalMet(
+  tracker: Tracker,
+  date: Date = new Date()
+): boolean {
+  const dateString = formatDateString(date);
+  const goal = getGoalForDate(tracker, dateString);
+  if (!hasGoal(goal)) {
+    return (tracker.values[dateString] || 0) > 0;
+  }
+
+  const total = getGoalPeriodTotal(
+    tracker.values,
+    goal.goalPeriod ?? "day",
+    date
+  );
+  return isGoalMet(total, goal);
+}
+
+/**
+ * Finds the reminders to show for a time window
+ * @param trackers - All trackers, with their values populated
+ * @param from - When reminders were last checked (exclusive)
+ * @param to - The current time
+ * @returns One entry per reminder that came due, skipping met goals if asked
+ */
+export function getDueReminders(
+  trackers: Tracker[],
+  from: Date,
+  to: Date
+): DueReminder[] {
+  const dueReminders: DueReminder[] = [];
+
+  for (const tracker of trackers) {
+    for (const reminder of tracker.reminders ?? []) {
+      if (getReminderOccurrences(reminder, from, to).length === 0) continue;
+      if (reminder.onlyIfGoalNotMet && isTodayGoalMet(tracker, to)) continue;
+
+      dueReminders.push({ tracker, reminder });
+    }
+  }
+  return dueReminders;
+}
+
+/**
+ * Gets the value logged by the notification action of a reminder
+ * @param tracker - The tracker of the reminder
+ * @param reminder - The reminder
+ * @returns The stored value (1 for checkbox trackers), or undefined without one
+ */
+export function getReminderLogValue(
+  tracker: Pick<Tracker, "type">,
+  reminder: TrackerReminder
+): number | undefined {
+  if (tracker.type === "checkbox") {
+    return 1;
+  }
+  return reminder.quickAddValue !== undefined && reminder.quickAddValue > 0
+    ? reminder.quickAddValue
+    : undefined;
+}
+
+/**
+ * Builds the notification shown for a reminder
+ * @param tracker - The tracker of the reminder
+ * @param reminder - The reminder
+ * @returns Notification title, options and the URLs opened on click
+ */
+export function getReminderNotification(
+  tracker: Tracker,
+  reminder: TrackerReminder
+): ReminderNotification {
+  const url = `/t/${tracker.id}/log-entry`;
+  const logValue = getReminderLogValue(tracker, reminder);
+
+  return {
+    title: tracker.title,
+    body: reminder.onlyIfGoalNotMet
+      ? "Your goal isn't met yet today"
+      : "Time to log an entry",
+    // Replaces the notification of an earlier check (or another tab)
+    tag: `reminder-${reminder.id}`,
+    data: {
+      url,
+      logUrl: logValue !== undefined ? `${url}?log=${logValue}` : undefined,
+    },
+    actions:
+      logValue !== undefined
+        ? [
+            {
+              action: "log",
+              title:
+                tracker.type === "checkbox"
+                  ? "Mark as tracked"
+                  : `Log ${formatStoredValue(
+                      logValue,
+                      tracker.type,
+                      true,
+                      tracker.displayUnit
+                    )}`,
+            },
+          ]
+        : [],
+  };
+}
+
+/**
+ * Reads the reminders of the tracker forms
+ * @param formData - Form data with the reminders serialized as JSON
+ * @returns Valid reminders, or undefined without any
+ */
+export function parseRemindersFormData(
+  formData: FormData
+): TrackerReminder[] | undefined {
+  const remindersStr = formData.get("reminders");
+  if (typeof remindersStr !== "string" || !remindersStr) {
+    return undefined;
+  }
+
+  try {
+    const parsed = JSON.parse(remindersStr);
+    const reminders = Array.isArray(parsed)
+      ? parsed.filter(
+          (reminder) => isTrackerReminder(reminder) && reminder.weekdays.length
+        )
+      : [];
+    return reminders.length > 0 ? reminders : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,147 @@
+import { describe, test, expect } from "bun:test";
+import {
+  type SearchableEntry,
+  groupSearchResultsByDate,
+  hasSearchCriteria,
+  parseSearchParams,
+  parseSearchQuery,
+  searchEntries,
+} from "./search";
+import type { Tracker } from "./trackers";
+
+const water: Tracker = {
+  id: "water",
+  title: "Water",
+  type: "liters",
+  isNumber: true,
+  values: {},
+};
+
+const running: Tracker = {
+  id: "running",
+  title: "Running",
+  type: "steps",
+  isNumber: true,
+  values: {},
+};
+
+const createEntry = (
+  id: string,
+  trackerId: string,
+  date: string,
+  value: number,
+  comment?: string,
+  tags: string[] = [],
+  time = "12:00"
+): SearchableEntry => ({
+  id,
+  trackerId,
+  date,
+  value,
+  comment,
+  tags,
+  createdAt: new Date(`${date}T${time}:00`),
+});
+
+const entries = [
+  createEntry("1", "water", "2024-01-01", 500, "After the long run #morning", [
+    "morning",
+  ]),
+  createEntry(
+    "2",
+    "running",
+    "2024-01-01",
+    5,
+    "Long run in the park #park",
+    ["park"],
+    "18:00"
+  ),
+  createEntry("3", "water", "2024-01-03", 1500, "Evening #morningafter", [
+    "morningafter",
+  ]),
+  createEntry("4", "running", "2024-01-05", 10),
+  createEntry("5", "deleted", "2024-01-05", 10, "Long run"),
+];
+
+describe("Search", () => {
+  test("splits a query into words and tags", () => {
+    expect(parseSearchQuery("  Long run #Morning ")).toEqual({
+      words: ["long", "run"],
+      tags: ["morning"],
+    });
+    expect(parseSearchQuery("#")).toEqual({ words: ["#"], tags: [] });
+  });
+
+  test("reads filters from the URL and ignores invalid values", () => {
+    const filters = parseSearchParams(
+      new URLSearchParams("q=run&tracker=all&from=2024-01-01&to=jan&min=1.5")
+    );
+
+    expect(filters).toEqual({
+      query: "run",
+      trackerId: undefined,
+      fromDate: "2024-01-01",
+      toDate: undefined,
+      minValue: 1.5,
+      maxValue: undefined,
+    });
+    expect(hasSearchCriteria(filters)).toBe(true);
+    expect(hasSearchCriteria(parseSearchParams(new URLSearchParams()))).toBe(
+      false
+    );
+  });
+
+  test("matches all words across trackers, most recent first", () => {
+    const results = searchEntries(entries, [water, running], {
+      query: "run LONG",
+    });
+
+    expect(results.map(({ entry }) => entry.id)).toEqual(["2", "1"]);
+    expect(results[0].tracker).toBe(running);
+  });
+
+  test("matches tags by prefix", () => {
+    const results = searchEntries(entries, [water, running], {
+      query: "#morning",
+    });
+
+    expect(results.map(({ entry }) => entry.id)).toEqual(["3", "1"]);
+  });
+
+  test("filters by tracker, date range and display value", () => {
+    const trackers = [water, running];
+
+    expect(
+      searchEntries(entries, trackers, { query: "", trackerId: "running" }).map(
+        ({ entry }) => entry.id
+      )
+    ).toEqual(["4", "2"]);
+    expect(
+      searchEntries(entries, trackers, {
+        query: "",
+        fromDate: "2024-01-02",
+        toDate: "2024-01-04",
+      }).map(({ entry }) => entry.id)
+    ).toEqual(["3"]);
+    // Liters are compared in liters, not stored milliliters
+    expect(
+      searchEntries(entries, trackers, {
+        query: "",
+        minValue: 1,
+        maxValue: 5,
+      }).map(({ entry }) => entry.id)
+    ).toEqual(["3", "2"]);
+  });
+
+  test("groups results by date", () => {
+    const results = searchEntries(entries, [water, running], { query: "" });
+    const groups = groupSearchResultsByDate(results);
+
+    expect(groups.map(({ date }) => date)).toEqual([
+      "2024-01-05",
+      "2024-01-03",
+      "2024-01-01",
+    ]);
+    expect(groups[2].results).toHaveLength(2);
+  });
+});
@@ -0,0 +1,168 @@
+import type { HistoryEntry } from "./history";
+import { toDisplayValue } from "./number-conversions";
+import { extractHashtagsWithOriginalCasing } from "./tags";
+import type { Tracker } from "./trackers";
+
+export type SearchFilters = {
+  query: string; // Words to find in comments, "#tag" for tags
+  trackerId?: string;
+  fromDate?: string; // "yyyy-MM-dd"
+  toDate?: string; // "yyyy-MM-dd"
+  minValue?: number; // In each tracker's display unit
+  maxValue?: number; // In each tracker's display unit
+};
+
+export type SearchableEntry = HistoryEntry & {
+  tags: string[]; // Lowercase tag names
+};
+
+export type SearchResult = {
+  entry: SearchableEntry;
+  tracker: Tracker;
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const parseNumberParam = (value: string | null): number | undefined => {
+  const number = value ? parseFloat(value) : NaN;
+  return isNaN(number) ? undefined : number;
+};
+
+const parseDateParam = (value: string | null): string | undefined =>
+  value && DATE_PATTERN.test(value) ? value : undefined;
+
+/**
+ * Reads search filters from the search page URL
+ * @param searchParams - Parameters q, tracker, from, to, min and max
+ * @returns The search filters (invalid values are ignored)
+ */
+export function parseSearchParams(
+  searchParams: URLSearchParams
+): SearchFilters {
+  const trackerId = searchParams.get("tracker");
+
+  return {
+    query: searchParams.get("q")?.trim() ?? "",
+    trackerId: trackerId && trackerId !== "all" ? trackerId : undefined,
+    fromDate: parseDateParam(searchParams.get("from")),
+    toDate: parseDateParam(searchParams.get("to")),
+    minValue: parseNumberParam(searchParams.get("min")),
+    maxValue: parseNumberParam(searchParams.get("max")),
+  };
+}
+
+/**
+ * Checks whether any search criteria are set
+ * @param filters - The search filters
+ * @returns False for an empty search, which shows no results
+ */
+export function hasSearchCriteria(filters: SearchFilters): boolean {
+  return (
+    filters.query !== "" ||
+    filters.trackerId !== undefined ||
+    filters.fromDate !== undefined ||
+    filters.toDate !== undefined ||
+    filters.minValue !== undefined ||
+    filters.maxValue !== undefined
+  );
+}
+
+/**
+ * Splits a search query into comment words and tags
+ * @param query - A query like "long run #Morning"
+ * @returns Lowercase words and tag names
+ */
+export function parseSearchQuery(query: string): {
+  words: string[];
+  tags: string[];
+} {
+  const words: string[] = [];
+  const tags: string[] = [];
+
+  for (const token of query.split(/\s+/)) {
+    if (!token) continue;
+
+    const hashtags = token.startsWith("#")
+      ? extractHashtagsWithOriginalCasing(token)
+      : [];
+    if (hashtags.length > 0) {
+      tags.push(...hashtags.map(({ lowercase }) => lowercase));
+    } else {
+      words.push(token.toLowerCase());
+    }
+  }
+
+  return { words, tags };
+}
+
+/**
+ * Searches entries of all trackers. Every word must appear in the comment and
+ * every tag must start one of the entry's tags.
+ * @param entries - Active entries with their tags
+ * @param trackers - Active trackers (entries of other trackers are skipped)
+ * @param filters - The search filters
+ * @returns Matching entries, most recent first
+ */
+export function searchEntries(
+  entries: SearchableEntry[],
+  trackers: Tracker[],
+  filters: SearchFilters
+): SearchResult[] {
+  const trackersById = new Map(trackers.map((t) => [t.id, t]));
+  const { words, tags } = parseSearchQuery(filters.query);
+  const results: SearchResult[] = [];
+
+  for (const entry of entries) {
+    const tracker = trackersById.get(entry.trackerId);
+    if (!tracker) continue;
+    if (filters.trackerId && entry.trackerId !== filters.trackerId) continue;
+    if (filters.fromDate && entry.date < filters.fromDate) continue;
+    if (filters.toDate && entry.date > filters.toDate) continue;
+
+    if (filters.minValue !== undefined || filters.maxValue !== undefined) {
+      const value = toDisplayValue(
+        entry.value,
+        tracker.type,
+        tracker.displayUnit
+      );
+      if (filters.minValue !== undefined && value < filters.minValue) continue;
+      if (filters.maxValue !== undefined && value > filters.maxValue) continue;
+    }
+
+    const comment = entry.comment?.toLowerCase() ?? "";
+    if (!words.every((word) => comment.includes(word))) continue;
+    if (!tags.every((tag) => entry.tags.some((t) => t.startsWith(tag)))) {
+      continue;
+    }
+
+    results.push({ entry, tracker });
+  }
+
+  return results.sort(
+    (a, b) =>
+      b.entry.date.localeCompare(a.entry.date) ||
+      new Date(b.entry.createdAt).getTime() -
+        new Date(a.entry.createdAt).getTime()
+  );
+}
+
+/**
+ * Groups search results by entry date
+ * @param results - Results sorted by date
+ * @returns Groups in the order of the results
+ */
+export function groupSearchResultsByDate(
+  results: SearchResult[]
+): Array<{ date: string; results: SearchResult[] }> {
+  const groups: Array<{ date: string; results: SearchResult[] }> = [];
+
+  for (const result of results) {
+    const lastGroup = groups[groups.length - 1];
+    if (lastGroup?.date === result.entry.date) {
+      lastGroup.results.push(result);
+    } else {
+      groups.push({ date: result.entry.date, results: [result] });
+    }
+  }
+  return groups;
+}
@@ -11,6 +11,10 @@ import {
   deleteEntryById,
   getEntry,
   getDB,
+  getDeletedItems,
+  getEntryTags,
+  restoreTracker,
+  restoreEntry,
 } from "./db";
 import { exportData, importData, type ExportData } from "./data";
 
@@ -311,6 +315,7 @@ describe("Soft delete functionality", () => {
     test("importData with clearExisting should respect deletedAt", async () => {
       const importData_: ExportData = {
         version: "1.0.0",
+        schemaVersion: 2,
         exportDate: new Date().toISOString(),
         trackers: [
           {
@@ -352,6 +357,7 @@ describe("Soft delete functionality", () => {
       // Import with deletedAt
       const importData_: ExportData = {
         version: "1.0.0",
+        schemaVersion: 2,
         exportDate: new Date().toISOString(),
         trackers: [
           {
@@ -405,6 +411,7 @@ describe("Soft delete functionality", () => {
       // Import with entry deletedAt
       const importData_: ExportData = {
         version: "1.0.0",
+        schemaVersion: 2,
         exportDate: new Date().toISOString(),
         trackers: [
           {
@@ -460,6 +467,7 @@ describe("Soft delete functionality", () => {
       // Device B: Import old data without the tracker (simulates data from before creation)
       const oldData: ExportData = {
         version: "1.0.0",
+        schemaVersion: 2,
         exportDate: new Date(Date.now() - 10000).toISOString(),
         lastChangeDate: new Date(Date.now() - 10000).toISOString(),
         trackers: [],
@@ -497,6 +505,7 @@ describe("Soft delete functionality", () => {
       // Import data without deletedAt (e.g., from older version)
       const importData_: ExportData = {
         version: "1.0.0",
+        schemaVersion: 2,
         exportDate: new Date(Date.now() - 10000).toISOString(),
         trackers: [
           {
@@ -521,4 +530,123 @@ describe("Soft delete functionality", () => {
       expect(rawTracker?.deletedAt).toBeInstanceOf(Date);
     });
   });
+
+  describe("Restore", () => {
+    const getStoredEntry = async (id: string) =>
+      (await getDB()).get("entries", id);
+
+    beforeEach(async () => {
+      await saveTrackerWithId(
+        {
+          id: "tracker-1",
+          title: "Test Tracker",
+          type: "liters",
+          isNumber: true,
+        },
+        true
+      );
+    });
+
+    test("restoreTracker should restore only the entries deleted with it", async () => {
+      await createEntryWithId(
+        "entry-1",
+        "tracker-1",
+        "2024-01-01",
+        1000,
+        new Date(),
+        false,
+        "Morning #water"
+      );
+      await createEntryWithId(
+        "entry-2",
+        "tracker-1",
+        "2024-01-02",
+        500,
+        new Date()
+      );
+      await deleteEntryById("entry-2");
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await deleteTracker("tracker-1");
+
+      expect(await getEntryTags("entry-1")).toEqual([]);
+
+      await restoreTracker("tracker-1");
+
+      expect(await getTrackerById("tracker-1")).not.toBeNull();
+      expect((await getStoredEntry("entry-1"))?.deletedAt).toBeUndefined();
+      expect((await getStoredEntry("entry-1"))?.revision).toBeGreaterThan(0);
+      expect((await getStoredEntry("entry-2"))?.deletedAt).toBeInstanceOf(Date);
+      expect(await getEntryTags("entry-1")).toEqual(["water"]);
+    });
+
+    test("getDeletedItems should list deleted trackers and entries of live trackers", async () => {
+      await createEntryWithId(
+        "entry-1",
+        "tracker-1",
+        "2024-01-01",
+        1000,
+        new Date()
+      );
+      await deleteEntryById("entry-1");
+
+      let deleted = await getDeletedItems();
+      expect(deleted.trackers).toEqual([]);
+      expect(deleted.entries.map((entry) => entry.id)).toEqual(["entry-1"]);
+
+      await deleteTracker("tracker-1");
+
+      deleted = await getDeletedItems();
+      expect(deleted.trackers.map((tracker) => tracker.id)).toEqual([
+        "tracker-1",
+      ]);
+      expect(deleted.entries).toEqual([]);
+    });
+
+    test("restoreEntry should not restore entries of deleted trackers", async () => {
+      await createEntryWithId(
+        "entry-1",
+        "tracker-1",
+        "2024-01-01",
+        1000,
+        new Date()
+      );
+      await deleteEntryById("entry-1");
+
+      await restoreEntry("entry-1");
+      expect((await getStoredEntry("entry-1"))?.deletedAt).toBeUndefined();
+
+      await deleteTracker("tracker-1");
+      expect(restoreEntry("entry-1")).rejects.toThrow(
+        "The tracker of this entry is deleted"
+      );
+    });
+
+    test("restoring a tracker should win over the older deletion when merging", async () => {
+      await createEntryWithId(
+        "entry-1",
+        "tracker-1",
+        "2024-01-01",
+        1000,
+        new Date()
+      );
+      await deleteTracker("tracker-1");
+      const deletedData = await exportData();
+
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await restoreTracker("tracker-1");
+      const restoredData = await exportData();
+
+      // The other device only knows about the deletion
+      await importData(deletedData, true);
+      expect(await getTrackerById("tracker-1")).toBeNull();
+
+      await importData(restoredData, false);
+      expect(await getTrackerById("tracker-1")).not.toBeNull();
+      expect((await getStoredEntry("entry-1"))?.deletedAt).toBeUndefined();
+
+      // And the restore is not undone by merging the deletion again
+      await importData(deletedData, false);
+      expect(await getTrackerById("tracker-1")).not.toBeNull();
+    });
+  });
 });
@@ -1,7 +1,7 @@
 import { describe, test, expect } from "bun:test";
 import { calculateStats, type StatsConfig } from "./calculations";
 import { formatDateString } from "~/lib/dates";
-import { addDays, subDays, startOfDay } from "date-fns";
+import { addDays, subDays, startOfDay, startOfWeek } from "date-fns";
 
 describe("Stats Calculations", () => {
   const today = startOfDay(new Date());
@@ -776,4 +776,314 @@ describe("Stats Calculations", () => {
       expect(result.currentStreak).toBe(1);
     });
   });
+
+  describe("Goal Periods", () => {
+    test("counts weekly goal streaks in weeks", () => {
+      // 2024-01-01 is a Monday
+      const entries = [
+        { date: "2024-01-01", value: 1 },
+        { date: "2024-01-03", value: 2 }, // Week 1: 3, meets goal
+        { date: "2024-01-10", value: 1 }, // Week 2: 1, misses goal
+        { date: "2024-01-15", value: 3 }, // Week 3: 3, meets goal
+        { date: "2024-01-22", value: 2 },
+        { date: "2024-01-28", value: 2 }, // Week 4: 4, meets goal
+      ];
+
+      const result = calculateStats(
+        entries,
+        {
+          fromDate: new Date("2024-01-01"),
+          toDate: new Date("2024-01-28"),
+        },
+        3,
+        {
+          includeGoalStreaks: true,
+          includeMissedGoalDays: true,
+          includeConsistencyScore: true,
+          goalPeriod: "week",
+        }
+      );
+
+      expect(result.longestGoalStreak).toBe(2); // Weeks 3-4
+      expect(result.currentGoalStreak).toBe(2);
+      expect(result.missedGoalDays).toBe(1); // Week 2
+      expect(result.consistencyScore).toBe(75); // 3 of 4 weeks met goal
+    });
+
+    test("counts entries of the whole week when the range starts mid-week", () => {
+      const entries = [
+        { date: "2024-01-01", value: 2 }, // Before the range
+        { date: "2024-01-05", value: 1 },
+      ];
+
+      const result = calculateStats(
+        entries,
+        {
+          fromDate: new Date("2024-01-03"),
+          toDate: new Date("2024-01-07"),
+        },
+        3,
+        { includeGoalStreaks: true, goalPeriod: "week" }
+      );
+
+      expect(result.longestGoalStreak).toBe(1);
+    });
+
+    test("reports missed months as days missed for monthly goals", () => {
+      const entries = [
+        { date: "2024-01-15", value: 200 }, // Meets goal
+        { date: "2024-02-10", value: 100 }, // Doesn't meet goal
+        { date: "2024-03-05", value: 250 }, // Meets goal
+      ];
+
+      const result = calculateStats(
+        entries,
+        {
+          fromDate: new Date("2024-01-01"),
+          toDate: new Date("2024-03-31"),
+        },
+        200,
+        {
+          includeDaysMissed: true,
+          includeGoalStreaks: true,
+          goalPeriod: "month",
+        }
+      );
+
+      expect(result.daysMissed).toBe(1); // February
+      expect(result.longestGoalStreak).toBe(1);
+      expect(result.currentGoalStreak).toBe(1);
+    });
+
+    test("doesn't break the streak while the current week is in progress", () => {
+      const weekStart = startOfWeek(today, { weekStartsOn: 1 });
+      const entries = [
+        { date: formatDateString(subDays(weekStart, 3)), value: 3 },
+      ];
+
+      const result = calculateStats(
+        entries,
+        { fromDate: subDays(weekStart, 7), toDate: today },
+        3,
+        {
+          includeGoalStreaks: true,
+          includeMissedGoalDays: true,
+          includeTodayGoalMet: true,
+          goalPeriod: "week",
+        }
+      );
+
+      expect(result.currentGoalStreak).toBe(1); // Last week
+      expect(result.missedGoalDays).toBe(0);
+      expect(result.isTodayGoalMet).toBe(false);
+    });
+
+    test("counts the current week once its goal is met", () => {
+      const weekStart = startOfWeek(today, { weekStartsOn: 1 });
+      const entries = [
+        { date: formatDateString(subDays(weekStart, 3)), value: 3 },
+        { date: todayStr, value: 3 },
+      ];
+
+      const result = calculateStats(
+        entries,
+        { fromDate: subDays(weekStart, 7), toDate: today },
+        3,
+        {
+          includeGoalStreaks: true,
+          includeTodayGoalMet: true,
+          goalPeriod: "week",
+        }
+      );
+
+      expect(result.currentGoalStreak).toBe(2);
+      expect(result.isTodayGoalMet).toBe(true);
+    });
+  });
+
+  describe("Limit Goals", () => {
+    test("counts days under the limit as successes, including empty days", () => {
+      const entries = [
+        { date: "2024-01-01", value: 300 }, // Under the limit
+        { date: "2024-01-02", value: 700 }, // Over the limit
+        { date: "2024-01-04", value: 500 }, // At the limit
+      ];
+
+      const result = calculateStats(
+        entries,
+        {
+          fromDate: new Date("2024-01-01"),
+          toDate: new Date("2024-01-06"),
+        },
+        500,
+        {
+          includeDaysMissed: true,
+          includeGoalStreaks: true,
+          includeMissedGoalDays: true,
+          includeConsistencyScore: true,
+          goalDirection: "atMost",
+        }
+      );
+
+      expect(result.longestGoalStreak).toBe(4); // Days 3-6
+      expect(result.missedGoalDays).toBe(1); // Day 2
+      expect(result.daysMissed).toBe(1);
+      expect(result.consistencyScore).toBe(83); // 5 of 6 days
+    });
+
+    test("treats a limit of zero as a goal", () => {
+      const result = calculateStats(
+        [{ date: todayStr, value: 0 }],
+        { fromDate: today, toDate: today },
+        0,
+        { includeTodayGoalMet: true, goalDirection: "atMost" }
+      );
+
+      expect(result.isTodayGoalMet).toBe(true);
+    });
+
+    test("requires range goals to stay between the minimum and maximum", () => {
+      const entries = [
+        { date: "2024-01-01", value: 50 }, // Under the range
+        { date: "2024-01-02", value: 150 }, // Within the range
+        { date: "2024-01-03", value: 200 }, // Within the range
+        { date: "2024-01-04", value: 250 }, // Over the range
+      ];
+
+      const result = calculateStats(
+        entries,
+        {
+          fromDate: new Date("2024-01-01"),
+          toDate: new Date("2024-01-04"),
+        },
+        100,
+        {
+          includeDaysTracked: true,
+          includeGoalStreaks: true,
+          includeMissedGoalDays: true,
+          goalDirection: "range",
+          goalMax: 200,
+        }
+      );
+
+      expect(result.longestGoalStreak).toBe(2); // Days 2-3
+      expect(result.missedGoalDays).toBe(2); // Days 1 and 4
+    });
+
+    test("counts the current week as missed once its limit is exceeded", () => {
+      const weekStart = startOfWeek(today, { weekStartsOn: 1 });
+      const entries = [
+        { date: formatDateString(subDays(weekStart, 3)), value: 2 },
+        { date: todayStr, value: 5 },
+      ];
+
+      const result = calculateStats(
+        entries,
+        { fromDate: subDays(weekStart, 7), toDate: today },
+        3,
+        {
+          includeGoalStreaks: true,
+          includeMissedGoalDays: true,
+          includeTodayGoalMet: true,
+          goalPeriod: "week",
+          goalDirection: "atMost",
+        }
+      );
+
+      expect(result.longestGoalStreak).toBe(1); // Last week
+      expect(result.currentGoalStreak).toBe(0);
+      expect(result.missedGoalDays).toBe(1);
+      expect(result.isTodayGoalMet).toBe(false);
+    });
+  });
+
+  describe("Goal History", () => {
+    test("evaluates past days against the goal in force on them", () => {
+      const entries = [
+        { date: "2024-01-01", value: 5 }, // Meets the old goal of 5
+        { date: "2024-01-02", value: 6 },
+        { date: "2024-01-03", value: 6 }, // Misses the new goal of 8
+        { date: "2024-01-04", value: 8 },
+      ];
+
+      const result = calculateStats(
+        entries,
+        {
+          fromDate: new Date("2024-01-01"),
+          toDate: new Date("2024-01-04"),
+        },
+        8,
+        {
+          includeGoalStreaks: true,
+          includeMissedGoalDays: true,
+          includeConsistencyScore: true,
+          goalHistory: [
+            { effectiveFrom: "2024-01-01", goal: 5 },
+            { effectiveFrom: "2024-01-03", goal: 8 },
+          ],
+        }
+      );
+
+      expect(result.longestGoalStreak).toBe(2); // Days 1-2
+      expect(result.missedGoalDays).toBe(1); // Day 3
+      expect(result.consistencyScore).toBe(75);
+    });
+
+    test("skips days without a goal at the time", () => {
+      const entries = [
+        { date: "2024-01-01", value: 1 },
+        { date: "2024-01-02", value: 1 },
+        { date: "2024-01-03", value: 4 },
+      ];
+
+      const result = calculateStats(
+        entries,
+        {
+          fromDate: new Date("2024-01-01"),
+          toDate: new Date("2024-01-03"),
+        },
+        3,
+        {
+          includeMissedGoalDays: true,
+          includeConsistencyScore: true,
+          goalHistory: [
+            { effectiveFrom: "2024-01-01" },
+            { effectiveFrom: "2024-01-03", goal: 3 },
+          ],
+        }
+      );
+
+      expect(result.missedGoalDays).toBe(0);
+      expect(result.consistencyScore).toBe(100); // Only day 3 had a goal
+    });
+
+    test("evaluates weekly goals against the goal of each week", () => {
+      // 2024-01-01 is a Monday
+      const entries = [
+        { date: "2024-01-02", value: 2 }, // Week 1: meets the old goal of 2
+        { date: "2024-01-09", value: 2 }, // Week 2: misses the new goal of 3
+      ];
+
+      const result = calculateStats(
+        entries,
+        {
+          fromDate: new Date("2024-01-01"),
+          toDate: new Date("2024-01-14"),
+        },
+        3,
+        {
+          includeGoalStreaks: true,
+          includeMissedGoalDays: true,
+          goalPeriod: "week",
+          goalHistory: [
+            { effectiveFrom: "2024-01-01", goal: 2, goalPeriod: "week" },
+            { effectiveFrom: "2024-01-10", goal: 3, goalPeriod: "week" },
+          ],
+        }
+      );
+
+      expect(result.longestGoalStreak).toBe(1);
+      expect(result.missedGoalDays).toBe(1);
+    });
+  });
 });
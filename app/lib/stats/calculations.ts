@@ -1,4 +1,19 @@
-import { formatDateString } from "~/lib/dates";
+import { formatDateString, parseLocalDate } from "~/lib/dates";
+import {
+  type GoalSettings,
+  getGoalForDate,
+  getGoalPeriodInterval,
+  getGoalPeriodKey,
+  hasGoal,
+  isGoalExceeded,
+  isGoalMet,
+} from "~/lib/goals";
+import type {
+  GoalDirection,
+  GoalPeriod,
+  GoalVersion,
+  Tracker,
+} from "~/lib/trackers";
 import { isAfter, isSameDay, startOfDay } from "date-fns";
 
 export interface StatsConfig {
@@ -19,6 +34,10 @@ export interface StatsConfig {
   includeGoalStreaks?: boolean;
   includeConsistencyScore?: boolean;
   includeMissedGoalDays?: boolean;
+  goalPeriod?: GoalPeriod; // Period the goal applies to (defaults to "day")
+  goalDirection?: GoalDirection; // Defaults to "atLeast"
+  goalMax?: number; // Upper bound of "range" goals
+  goalHistory?: GoalVersion[]; // Earlier goals to evaluate past dates against
 
   // Today stats
   includeTodayGoalMet?: boolean;
@@ -39,22 +58,126 @@ export interface StatsResult {
   longestStreak?: number;
   currentStreak?: number;
 
-  // Goal-specific stats
+  // Goal-specific stats (counted in goal periods for weekly/monthly goals)
   currentGoalStreak?: number;
   longestGoalStreak?: number;
   missedGoalDays?: number;
   consistencyScore?: number;
 
-  // Today stats
+  // Today stats (the current week/month for weekly/monthly goals)
   isTodayGoalMet?: boolean;
 }
 
+interface PeriodGoalStats {
+  currentGoalStreak: number;
+  longestGoalStreak: number;
+  missedGoalPeriods: number;
+  goalMetPeriods: number;
+  isCurrentPeriodGoalMet: boolean;
+}
+
+/**
+ * Calculates goal stats for weekly and monthly goals.
+ *
+ * Periods are calendar weeks/months and are attributed to the range they end
+ * in. Totals include all entries of a period, even from before the range. The
+ * period in progress counts once its goal is met and only breaks a streak once
+ * its limit is exceeded. Each period uses the goal in force on its last day
+ * (today for the period in progress); periods without one break streaks.
+ */
+function calculatePeriodGoalStats(
+  dailyTotals: Map<string, number>,
+  dateRange: string[],
+  firstTrackedDate: string | null,
+  today: string,
+  getGoalAt: (dateStr: string) => GoalSettings | null,
+  goalPeriod: GoalPeriod
+): PeriodGoalStats {
+  const periodTotals = new Map<string, number>();
+  for (const [date, value] of dailyTotals) {
+    const key = getGoalPeriodKey(date, goalPeriod);
+    periodTotals.set(key, (periodTotals.get(key) || 0) + value);
+  }
+
+  const result: PeriodGoalStats = {
+    currentGoalStreak: 0,
+    longestGoalStreak: 0,
+    missedGoalPeriods: 0,
+    goalMetPeriods: 0,
+    isCurrentPeriodGoalMet: isGoalMet(
+      periodTotals.get(getGoalPeriodKey(today, goalPeriod)) || 0,
+      getGoalAt(today) ?? {}
+    ),
+  };
+
+  if (dateRange.length === 0 || firstTrackedDate === null) {
+    return result;
+  }
+
+  const lastDate = dateRange[dateRange.length - 1];
+  const firstTrackedPeriod = getGoalPeriodKey(firstTrackedDate, goalPeriod);
+
+  // Periods ending within the range (plus the one in progress), in order
+  const periods: Array<{
+    hasGoalValue: boolean;
+    isMet: boolean;
+    isExceeded: boolean;
+    isInProgress: boolean;
+  }> = [];
+  const seen = new Set<string>();
+  for (const dateStr of dateRange) {
+    if (dateStr > today) break;
+
+    const key = getGoalPeriodKey(dateStr, goalPeriod);
+    if (seen.has(key) || key < firstTrackedPeriod) continue;
+    seen.add(key);
+
+    const periodEnd = formatDateString(
+      getGoalPeriodInterval(parseLocalDate(dateStr), goalPeriod).end
+    );
+    const isInProgress = periodEnd >= today;
+    if (periodEnd > lastDate && !isInProgress) continue;
+
+    const periodTotal = periodTotals.get(key) || 0;
+    const goal = getGoalAt(isInProgress ? today : periodEnd);
+    periods.push({
+      hasGoalValue: goal !== null && hasGoal(goal),
+      isMet: goal !== null && isGoalMet(periodTotal, goal),
+      isExceeded: goal !== null && isGoalExceeded(periodTotal, goal),
+      isInProgress,
+    });
+  }
+
+  let tempGoalStreak = 0;
+  for (const { hasGoalValue, isMet, isExceeded, isInProgress } of periods) {
+    if (!hasGoalValue) {
+      tempGoalStreak = 0;
+    } else if (isMet) {
+      tempGoalStreak++;
+      result.longestGoalStreak = Math.max(
+        result.longestGoalStreak,
+        tempGoalStreak
+      );
+      result.goalMetPeriods++;
+    } else if (!isInProgress || isExceeded) {
+      tempGoalStreak = 0;
+      result.missedGoalPeriods++;
+    }
+  }
+  result.currentGoalStreak = tempGoalStreak;
+
+  return result;
+}
+
 /**
  * Unified stats calculation function optimized for single-pass processing.
  *
  * @param entries - Array of entries with date and value
  * @param dates - Object containing fromDate and toDate
  * @param goalValue - Optional goal value for goal-based calculations
+ *   (a total per config.goalPeriod, defaulting to per day; a limit or the
+ *   minimum of a range depending on config.goalDirection). Dates before the
+ *   latest config.goalHistory version use the goal in force on them.
  * @param config - Configuration object specifying which stats to calculate
  * @returns Stats object with only the requested calculations
  */
@@ -66,6 +189,22 @@ export function calculateStats(
 ): StatsResult {
   const result: StatsResult = {};
   const { fromDate, toDate } = dates;
+  const goalPeriod = config.goalPeriod ?? "day";
+  const currentGoal = {
+    goal: goalValue,
+    goalPeriod: config.goalPeriod,
+    goalDirection: config.goalDirection,
+    goalMax: config.goalMax,
+    goalHistory: config.goalHistory,
+  };
+  // Goals set for another period can't be evaluated in this one's periods
+  const getGoalAt = (dateStr: string): GoalSettings | null => {
+    const goal = getGoalForDate(currentGoal, dateStr);
+    return (goal.goalPeriod ?? "day") === goalPeriod ? goal : null;
+  };
+  const hasGoalValue = [currentGoal, ...(config.goalHistory ?? [])].some(
+    (goal) => (goal.goalPeriod ?? "day") === goalPeriod && hasGoal(goal)
+  );
 
   // Determine if this is the current period
   const now = startOfDay(new Date());
@@ -159,17 +298,21 @@ export function calculateStats(
       }
     }
 
-    // Goal-based calculations
+    // Goal-based calculations (weekly/monthly goals are handled below)
     if (
-      goalValue &&
-      goalValue > 0 &&
+      goalPeriod === "day" &&
+      hasGoalValue &&
       (config.includeGoalStreaks ||
         config.includeConsistencyScore ||
         config.includeMissedGoalDays)
     ) {
       // Only count days from first tracked entry onwards
+      const goal = getGoalAt(dateStr);
       if (firstTrackedIndex !== -1 && i >= firstTrackedIndex) {
-        if (dailyValue >= goalValue) {
+        if (!goal || !hasGoal(goal)) {
+          // Days without a goal break streaks without counting as missed
+          tempGoalStreak = 0;
+        } else if (isGoalMet(dailyValue, goal)) {
           tempGoalStreak++;
           longestGoalStreak = Math.max(longestGoalStreak, tempGoalStreak);
           goalMetDays++;
@@ -203,17 +346,38 @@ export function calculateStats(
     result.currentStreak = currentStreakValue;
   }
 
+  const periodGoalStats =
+    goalPeriod !== "day" && hasGoalValue
+      ? calculatePeriodGoalStats(
+          dailyTotals,
+          dateRange,
+          firstTrackedIndex !== -1 ? dateRange[firstTrackedIndex] : null,
+          today,
+          getGoalAt,
+          goalPeriod
+        )
+      : null;
+
+  if (periodGoalStats) {
+    longestGoalStreak = periodGoalStats.longestGoalStreak;
+    missedGoalDays = periodGoalStats.missedGoalPeriods;
+    goalMetDays = periodGoalStats.goalMetPeriods;
+  }
+
   // Calculate current goal streak (consecutive days meeting goal ending at today)
   let currentGoalStreak = 0;
-  if (config.includeGoalStreaks && goalValue && goalValue > 0) {
+  if (config.includeGoalStreaks && periodGoalStats) {
+    result.currentGoalStreak = periodGoalStats.currentGoalStreak;
+    result.longestGoalStreak = longestGoalStreak;
+  } else if (config.includeGoalStreaks && hasGoalValue) {
     // Current goal streak only counts if today's goal is met
     const todayTotal = dailyTotals.get(today) || 0;
-    if (todayInRange && todayTotal >= goalValue) {
+    if (todayInRange && isGoalMet(todayTotal, getGoalAt(today) ?? {})) {
       const todayIndex = dateRange.indexOf(today);
       for (let i = todayIndex; i >= 0; i--) {
         const dateStr = dateRange[i];
         const dayTotal = dailyTotals.get(dateStr) || 0;
-        if (dayTotal >= goalValue) {
+        if (isGoalMet(dayTotal, getGoalAt(dateStr) ?? {})) {
           currentGoalStreak++;
         } else {
           break;
@@ -239,7 +403,7 @@ export function calculateStats(
   }
 
   if (config.includeDaysMissed) {
-    if (goalValue && goalValue > 0) {
+    if (hasGoalValue) {
       // For trackers with goals: days where goal wasn't met
       result.daysMissed = missedGoalDays;
     } else {
@@ -259,27 +423,47 @@ export function calculateStats(
       : null;
   }
 
-  if (config.includeMissedGoalDays && goalValue && goalValue > 0) {
+  if (config.includeMissedGoalDays && hasGoalValue) {
     result.missedGoalDays = missedGoalDays;
   }
 
-  if (config.includeConsistencyScore && goalValue && goalValue > 0) {
-    const totalDaysWithGoal =
-      firstTrackedIndex !== -1
-        ? Math.max(0, daysPassed - firstTrackedIndex)
-        : 0;
+  if (config.includeConsistencyScore && hasGoalValue) {
+    // Days or periods checked against a goal since the first tracked entry
+    const totalWithGoal = goalMetDays + missedGoalDays;
     result.consistencyScore =
-      totalDaysWithGoal > 0
-        ? Math.round((goalMetDays / totalDaysWithGoal) * 100)
-        : 0;
+      totalWithGoal > 0 ? Math.round((goalMetDays / totalWithGoal) * 100) : 0;
   }
 
-  if (config.includeTodayGoalMet) {
+  if (config.includeTodayGoalMet && periodGoalStats) {
+    result.isTodayGoalMet = periodGoalStats.isCurrentPeriodGoalMet;
+  } else if (config.includeTodayGoalMet) {
     const todayTotal = dailyTotals.get(today) || 0;
-    result.isTodayGoalMet = goalValue
-      ? todayTotal >= goalValue
+    result.isTodayGoalMet = hasGoalValue
+      ? isGoalMet(todayTotal, getGoalAt(today) ?? {})
       : todayTotal > 0;
   }
 
   return result;
 }
+
+/**
+ * Gets the goal options of a tracker for calculateStats
+ * @param tracker - The tracker whose goal is evaluated
+ * @returns Config entries to spread into a StatsConfig
+ */
+export function getGoalStatsConfig(
+  tracker: Pick<
+    Tracker,
+    "goalPeriod" | "goalDirection" | "goalMax" | "goalHistory"
+  >
+): Pick<
+  StatsConfig,
+  "goalPeriod" | "goalDirection" | "goalMax" | "goalHistory"
+> {
+  return {
+    goalPeriod: tracker.goalPeriod,
+    goalDirection: tracker.goalDirection,
+    goalMax: tracker.goalMax,
+    goalHistory: tracker.goalHistory,
+  };
+}
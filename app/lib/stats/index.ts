@@ -6,7 +6,10 @@ export type { StatsPeriod as StatsPeriodOption, Stats } from "./types";
 export { calculateDateFromPeriod, calculateEndDateFromPeriod, getPeriodLabel, getSelectedPeriod } from "./date-range";
 
 // Stats calculations
-export { calculateStats as calculateUnifiedStats } from "./calculations";
+export {
+  calculateStats as calculateUnifiedStats,
+  getGoalStatsConfig,
+} from "./calculations";
 export type {
   StatsConfig as UnifiedStatsConfig,
   StatsResult as UnifiedStatsResult,
@@ -0,0 +1,664 @@
+import {
+  describe,
+  test,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from "bun:test";
+import {
+  clearAllData,
+  clearSyncRuns,
+  createEntryWithId,
+  getDB,
+  getBackupData,
+  getBackups,
+  getEntryHistory,
+  getSyncRuns,
+  resetSyncCursor,
+  saveTrackerWithId,
+  updateEntry,
+} from "../db";
+import { createBackup, exportData, importData } from "../data";
+import { setEncryptionEnabled } from "../github-gist-sync";
+import {
+  MAX_SYNC_SEGMENTS,
+  SYNC_MANIFEST_FILENAME,
+  createHttpBackend,
+  createWebDavBackend,
+  performSync,
+  type SyncManifest,
+} from ".";
+
+// Mock IndexedDB for testing
+import "fake-indexeddb/auto";
+
+// performSync remembers the last sync time in localStorage
+if (typeof localStorage === "undefined") {
+  const items = new Map<string, string>();
+  (globalThis as any).localStorage = {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key),
+  };
+}
+
+/**
+ * Minimal in-memory file server standing in for a WebDAV folder or a
+ * self-hosted endpoint: GET, PUT, HEAD and DELETE on any path, with an expected
+ * Authorization. Requests to its URL are routed here by a stubbed fetch.
+ */
+function createMockServer(url: string, authorization: string) {
+  const files = new Map<string, { body: string; modified: Date }>();
+  let failDownloads = false;
+  const requests: string[] = [];
+
+  const server = {
+    url,
+    async fetch(request: Request) {
+      const { pathname, search } = new URL(request.url);
+      requests.push(`${request.method} ${pathname}${search}`);
+
+      if (request.headers.get("Authorization") !== authorization) {
+        return new Response("Unauthorized", { status: 401 });
+      }
+
+      const file = files.get(pathname);
+      switch (request.method) {
+        case "PUT":
+          files.set(pathname, {
+            body: await request.text(),
+            modified: new Date("2024-01-01T10:00:00Z"),
+          });
+          return new Response(null, { status: file ? 204 : 201 });
+        case "DELETE":
+          files.delete(pathname);
+          return new Response(null, { status: file ? 204 : 404 });
+        case "GET":
+        case "HEAD":
+          if (failDownloads) {
+            return new Response("Server error", { status: 500 });
+          }
+          if (!file) {
+            return new Response("Not found", { status: 404 });
+          }
+          return new Response(request.method === "GET" ? file.body : null, {
+            headers: {
+              "Content-Type": "application/json",
+              "Content-Length": String(file.body.length),
+              "Last-Modified": file.modified.toUTCString(),
+              ETag: '"v1"',
+            },
+          });
+        default:
+          return new Response("Method not allowed", { status: 405 });
+      }
+    },
+  };
+
+  return {
+    server,
+    files,
+    requests,
+    setFailDownloads: (fail: boolean) => {
+      failDownloads = fail;
+    },
+  };
+}
+
+describe("Sync backends", () => {
+  let webDav: ReturnType<typeof createMockServer>;
+  let http: ReturnType<typeof createMockServer>;
+  const originalFetch = globalThis.fetch;
+
+  beforeAll(() => {
+    // Basic credentials are UTF-8 encoded before base64
+    const credentials = new TextEncoder().encode("me:sécret");
+    webDav = createMockServer(
+      "https://dav.example.com/",
+      `Basic ${btoa(String.fromCharCode(...credentials))}`
+    );
+    http = createMockServer("https://sync.example.com/", "Bearer token-1");
+
+    globalThis.fetch = (async (
+      input: RequestInfo | URL,
+      init?: RequestInit
+    ) => {
+      const request = new Request(input, init);
+      const server = [webDav.server, http.server].find((s) =>
+        request.url.startsWith(s.url)
+      );
+      return server
+        ? server.fetch(request)
+        : new Response("Not found", { status: 404 });
+    }) as typeof fetch;
+  });
+
+  afterAll(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  beforeEach(async () => {
+    await clearAllData();
+    webDav.files.clear();
+    http.files.clear();
+    webDav.setFailDownloads(false);
+    http.setFailDownloads(false);
+  });
+
+  test("WebDAV backend stores the file in the folder", async () => {
+    const backend = createWebDavBackend(
+      {
+        url: `${webDav.server.url}dav/tracker/`,
+        username: "me",
+        password: "sécret",
+      },
+      "data.json"
+    );
+
+    expect(await backend.exists()).toBe(false);
+    expect(await backend.download()).toBeNull();
+    expect(await backend.getMetadata()).toBeNull();
+
+    expect(await backend.upload({ hello: "world" })).toBe(true);
+    expect(webDav.files.has("/dav/tracker/data.json")).toBe(true);
+    expect(await backend.exists()).toBe(true);
+    expect(await backend.download()).toEqual({ hello: "world" });
+
+    const metadata = await backend.getMetadata();
+    expect(metadata?.etag).toBe('"v1"');
+    expect(metadata?.lastModified).toEqual(new Date("2024-01-01T10:00:00Z"));
+  });
+
+  test("Rejected credentials fail instead of reporting missing data", async () => {
+    const backend = createHttpBackend({
+      url: `${http.server.url}data.json`,
+      token: "wrong-token",
+    });
+
+    await expect(backend.download()).rejects.toThrow("401");
+    expect(await backend.upload({})).toBe(false);
+  });
+
+  test("Sync files keep the query parameters of the endpoint", async () => {
+    const backend = createHttpBackend({
+      url: `${http.server.url}data.json?signature=abc`,
+      token: "token-1",
+    });
+    http.requests.length = 0;
+
+    await backend.upload({}, SYNC_MANIFEST_FILENAME);
+    expect(http.requests).toEqual([
+      `PUT /${SYNC_MANIFEST_FILENAME}?signature=abc`,
+    ]);
+  });
+
+  test("Encrypted uploads need a passphrase and read files of the old key", async () => {
+    const testGlobal = globalThis as any;
+    testGlobal.window = testGlobal;
+    setEncryptionEnabled(true);
+    try {
+      const url = `${http.server.url}data.json`;
+      await expect(createHttpBackend({ url }).upload({})).rejects.toThrow(
+        "passphrase"
+      );
+
+      // Encrypted with the token before passphrases existed
+      await createHttpBackend({ url, token: "token-1" }).upload({ old: true });
+      const backend = createHttpBackend({
+        url,
+        token: "token-1",
+        passphrase: "correct horse",
+      });
+      expect(await backend.download()).toEqual({ old: true });
+
+      await backend.upload({ new: true });
+      expect(http.files.get("/data.json")!.body).not.toContain("new");
+      expect(await backend.download()).toEqual({ new: true });
+      await expect(
+        createHttpBackend({ url, token: "token-1" }).download()
+      ).rejects.toThrow("decrypt");
+    } finally {
+      setEncryptionEnabled(false);
+      delete testGlobal.window;
+    }
+  });
+
+  test("performSync uploads local data on first sync and merges remote data", async () => {
+    const backend = createHttpBackend({
+      url: `${http.server.url}data.json`,
+      token: "token-1",
+    });
+    await saveTrackerWithId(
+      { id: "tracker-1", title: "Water", type: "liters", isNumber: true },
+      true
+    );
+    await createEntryWithId(
+      "entry-1",
+      "tracker-1",
+      "2024-01-01",
+      500,
+      new Date("2024-01-01T10:00:00Z"),
+      true
+    );
+
+    // First sync: the endpoint has no data yet
+    const firstResult = await performSync(backend);
+    expect(firstResult.status).toBe("success");
+    expect(http.files.has("/data.json")).toBe(true);
+
+    // Another device added an entry and rewrote the snapshot
+    const remoteData = await exportData();
+    remoteData.trackers[0].entries.push({
+      id: "entry-2",
+      date: "2024-01-02",
+      value: 250,
+      createdAt: "2024-01-02T10:00:00.000Z",
+    });
+    await backend.upload(remoteData);
+    await backend.upload(
+      { version: 1, snapshotId: "snapshot-2", segments: [] },
+      SYNC_MANIFEST_FILENAME
+    );
+
+    const secondResult = await performSync(backend);
+    expect(secondResult.status).toBe("success");
+    const entries = await getEntryHistory("tracker-1");
+    expect(entries.map((e) => e.id).sort()).toEqual(["entry-1", "entry-2"]);
+  });
+
+  test("performSync does not overwrite remote data it could not download", async () => {
+    const backend = createHttpBackend({
+      url: `${http.server.url}data.json`,
+      token: "token-1",
+    });
+    await backend.upload({ remote: true });
+    http.setFailDownloads(true);
+    http.requests.length = 0;
+
+    const result = await performSync(backend);
+
+    expect(result.status).toBe("error");
+    expect(http.requests).not.toContain("PUT /data.json");
+    expect(JSON.parse(http.files.get("/data.json")!.body)).toEqual({
+      remote: true,
+    });
+  });
+
+  test("performSync reports a missing configuration", async () => {
+    const result = await performSync(null);
+    expect(result.status).toBe("error");
+    expect(result.error).toBe("Sync is not configured");
+  });
+
+  describe("Delta sync", () => {
+    const createBackend = () =>
+      createHttpBackend({
+        url: `${http.server.url}anythingtracker-data.json`,
+        token: "token-1",
+      });
+
+    const readRemote = (filename: string) =>
+      JSON.parse(http.files.get(`/${filename}`)!.body);
+
+    const deltaFiles = () =>
+      [...http.files.keys()].filter((path) => path.includes("-delta-"));
+
+    beforeEach(async () => {
+      await saveTrackerWithId(
+        { id: "tracker-1", title: "Water", type: "liters", isNumber: true },
+        true
+      );
+      await createEntryWithId(
+        "entry-1",
+        "tracker-1",
+        "2024-01-01",
+        500,
+        new Date("2024-01-01T10:00:00Z")
+      );
+    });
+
+    test("Uploads only local changes after the first sync", async () => {
+      const backend = createBackend();
+      await performSync(backend);
+      const manifest: SyncManifest = readRemote(SYNC_MANIFEST_FILENAME);
+      expect(manifest.segments).toEqual([]);
+
+      await createEntryWithId(
+        "entry-2",
+        "tracker-1",
+        "2024-01-02",
+        250,
+        new Date("2024-01-02T10:00:00Z")
+      );
+      http.requests.length = 0;
+      const result = await performSync(backend);
+
+      expect(result.status).toBe("success");
+      expect(http.requests).not.toContain("PUT /anythingtracker-data.json");
+      expect(deltaFiles()).toHaveLength(1);
+
+      const delta = JSON.parse(http.files.get(deltaFiles()[0])!.body);
+      expect(delta.trackers).toHaveLength(1);
+      expect(delta.trackers[0].entries.map((e: any) => e.id)).toEqual([
+        "entry-2",
+      ]);
+      expect(readRemote(SYNC_MANIFEST_FILENAME).segments).toHaveLength(1);
+    });
+
+    test("Only reads the manifest when nothing changed", async () => {
+      const backend = createBackend();
+      await performSync(backend);
+
+      http.requests.length = 0;
+      const result = await performSync(backend);
+
+      expect(result.status).toBe("success");
+      expect(result.dataChanged).toBe(false);
+      expect(http.requests).toEqual([`GET /${SYNC_MANIFEST_FILENAME}`]);
+    });
+
+    test("Doesn't download its own deltas again", async () => {
+      const backend = createBackend();
+      await performSync(backend);
+      await createEntryWithId(
+        "entry-2",
+        "tracker-1",
+        "2024-01-02",
+        250,
+        new Date("2024-01-02T10:00:00Z")
+      );
+      await performSync(backend);
+      expect(deltaFiles()).toHaveLength(1);
+
+      http.requests.length = 0;
+      const result = await performSync(backend);
+
+      expect(result.status).toBe("success");
+      expect(result.dataChanged).toBe(false);
+      expect(
+        http.requests.filter((request) => request.startsWith("GET "))
+      ).toEqual([`GET /${SYNC_MANIFEST_FILENAME}`]);
+    });
+
+    test("Merges deltas uploaded by other devices", async () => {
+      const backend = createBackend();
+      await performSync(backend);
+
+      const delta = await exportData();
+      delta.trackers[0].entries = [
+        {
+          id: "entry-remote",
+          date: "2024-01-03",
+          value: 100,
+          createdAt: "2024-01-03T10:00:00.000Z",
+        },
+      ];
+      delta.tags = [];
+      await backend.upload(delta, "anythingtracker-delta-remote.json");
+      const manifest: SyncManifest = readRemote(SYNC_MANIFEST_FILENAME);
+      await backend.upload(
+        {
+          ...manifest,
+          segments: [
+            {
+              file: "anythingtracker-delta-remote.json",
+              createdAt: "2024-01-03T10:00:00.000Z",
+              changes: 1,
+            },
+          ],
+        },
+        SYNC_MANIFEST_FILENAME
+      );
+
+      const result = await performSync(backend);
+      expect(result.status).toBe("success");
+      expect(result.dataChanged).toBe(true);
+      const entries = await getEntryHistory("tracker-1");
+      expect(entries.map((e) => e.id).sort()).toEqual([
+        "entry-1",
+        "entry-remote",
+      ]);
+
+      // The merged delta is not downloaded again
+      http.requests.length = 0;
+      await performSync(backend);
+      expect(http.requests).not.toContain(
+        "GET /anythingtracker-delta-remote.json"
+      );
+    });
+
+    test("Merges the deltas into a new snapshot once there are too many", async () => {
+      const backend = createBackend();
+      await performSync(backend);
+
+      for (let i = 0; i < MAX_SYNC_SEGMENTS; i++) {
+        await createEntryWithId(
+          `entry-${i + 2}`,
+          "tracker-1",
+          "2024-01-02",
+          10,
+          new Date("2024-01-02T10:00:00Z")
+        );
+        await performSync(backend);
+      }
+      expect(deltaFiles()).toHaveLength(MAX_SYNC_SEGMENTS);
+
+      const result = await performSync(backend);
+
+      expect(result.status).toBe("success");
+      expect(deltaFiles()).toHaveLength(0);
+      const manifest: SyncManifest = readRemote(SYNC_MANIFEST_FILENAME);
+      expect(manifest.segments).toEqual([]);
+      const snapshot = readRemote("anythingtracker-data.json");
+      expect(snapshot.trackers[0].entries).toHaveLength(MAX_SYNC_SEGMENTS + 1);
+    });
+
+    test("Uploads a full snapshot after importing a file", async () => {
+      const backend = createBackend();
+      await performSync(backend);
+
+      const imported = await exportData();
+      imported.trackers[0].entries.push({
+        id: "entry-imported",
+        date: "2024-01-04",
+        value: 300,
+        createdAt: "2024-01-04T10:00:00.000Z",
+      });
+      await importData(imported);
+
+      http.requests.length = 0;
+      await performSync(backend);
+
+      expect(http.requests).toContain("PUT /anythingtracker-data.json");
+      const snapshot = readRemote("anythingtracker-data.json");
+      expect(snapshot.trackers[0].entries.map((e: any) => e.id)).toContain(
+        "entry-imported"
+      );
+    });
+
+    test("Purges deletions once all registered devices merged them", async () => {
+      const backend = createBackend();
+      const db = await getDB();
+      await db.put("entries", {
+        id: "entry-deleted",
+        trackerId: "tracker-1",
+        date: "2024-01-02",
+        value: 100,
+        createdAt: new Date("2024-01-02T10:00:00Z"),
+        updatedAt: new Date("2024-02-01T10:00:00Z"),
+        revision: 1,
+        deletedAt: new Date("2024-02-01T10:00:00Z"),
+      });
+      await performSync(backend);
+
+      // Another device last synced before the deletion
+      const manifest: SyncManifest = readRemote(SYNC_MANIFEST_FILENAME);
+      expect(Object.keys(manifest.devices!)).toHaveLength(1);
+      const setOtherDevice = (date: string) =>
+        backend.upload(
+          {
+            ...manifest,
+            devices: {
+              ...manifest.devices,
+              "device-other": { lastSyncAt: date, seenBefore: date },
+            },
+          },
+          SYNC_MANIFEST_FILENAME
+        );
+      await setOtherDevice("2024-01-15T10:00:00.000Z");
+      await performSync(backend);
+      expect(await db.get("entries", "entry-deleted")).toBeDefined();
+
+      // It merged the deletion since
+      await setOtherDevice(new Date().toISOString());
+      await performSync(backend);
+      expect(await db.get("entries", "entry-deleted")).toBeUndefined();
+      expect((await getSyncRuns())[0].tombstonesPurged).toBe(1);
+
+      // The next snapshot leaves it out
+      await resetSyncCursor();
+      await performSync(backend);
+      const snapshot = readRemote("anythingtracker-data.json");
+      expect(snapshot.trackers[0].entries.map((e: any) => e.id)).toEqual([
+        "entry-1",
+      ]);
+      expect(await db.get("entries", "entry-deleted")).toBeUndefined();
+    });
+  });
+
+  describe("Sync history", () => {
+    const createBackend = () =>
+      createHttpBackend({
+        url: `${http.server.url}anythingtracker-data.json`,
+        token: "token-1",
+      });
+
+    beforeEach(async () => {
+      await clearSyncRuns();
+      await saveTrackerWithId(
+        { id: "tracker-1", title: "Water", type: "liters", isNumber: true },
+        true
+      );
+      await createEntryWithId(
+        "entry-1",
+        "tracker-1",
+        "2024-01-01",
+        500,
+        new Date("2024-01-01T10:00:00Z")
+      );
+    });
+
+    test("Records each sync with the transferred data", async () => {
+      const backend = createBackend();
+      await performSync(backend);
+      await createEntryWithId(
+        "entry-2",
+        "tracker-1",
+        "2024-01-02",
+        250,
+        new Date("2024-01-02T10:00:00Z")
+      );
+      await performSync(backend);
+
+      const [deltaRun, fullRun] = await getSyncRuns();
+      expect(fullRun.mode).toBe("full");
+      expect(fullRun.status).toBe("success");
+      expect(fullRun.sent.trackers.added).toBe(1);
+      expect(fullRun.sent.entries.added).toBe(1);
+      expect(fullRun.bytesUploaded).toBeGreaterThan(0);
+
+      expect(deltaRun.mode).toBe("delta");
+      expect(deltaRun.sent.entries).toEqual({
+        added: 1,
+        updated: 0,
+        deleted: 0,
+      });
+      expect(deltaRun.received.entries.added).toBe(0);
+      expect(deltaRun.finishedAt >= deltaRun.startedAt).toBe(true);
+      // Nothing was merged, so no backup was kept
+      expect(deltaRun.backupId).toBeUndefined();
+    });
+
+    test("Records entries both devices edited with both versions", async () => {
+      const backend = createBackend();
+      await performSync(backend);
+
+      // This device edits the entry after the sync...
+      await updateEntry("entry-1", { date: "2024-01-01", value: 600 });
+
+      // ...and so did another device, a moment later
+      const delta = await exportData();
+      delta.trackers[0].entries = [
+        {
+          id: "entry-1",
+          date: "2024-01-01",
+          value: 700,
+          createdAt: "2024-01-01T10:00:00.000Z",
+          updatedAt: new Date(Date.now() + 60_000).toISOString(),
+          revision: 1,
+        },
+      ];
+      delta.tags = [];
+      await backend.upload(delta, "anythingtracker-delta-remote.json");
+      const manifest: SyncManifest = JSON.parse(
+        http.files.get(`/${SYNC_MANIFEST_FILENAME}`)!.body
+      );
+      manifest.segments.push({
+        file: "anythingtracker-delta-remote.json",
+        createdAt: new Date().toISOString(),
+        changes: 1,
+      });
+      await backend.upload(manifest, SYNC_MANIFEST_FILENAME);
+
+      await performSync(backend);
+
+      const [run] = await getSyncRuns();
+      expect(run.received.entries.updated).toBe(1);
+      expect(run.conflicts).toHaveLength(1);
+      expect(run.conflicts[0]).toMatchObject({
+        type: "entry",
+        id: "entry-1",
+        trackerId: "tracker-1",
+        kept: "imported",
+        local: { value: 600 },
+        imported: { value: 700 },
+      });
+
+      // Local data was backed up before the merge
+      const backup = await getBackupData(run.backupId!);
+      expect(backup?.trackers[0].entries[0].value).toBe(600);
+    });
+
+    test("Leaves the backups alone when nothing was merged", async () => {
+      const backend = createBackend();
+      await performSync(backend);
+      // Enough backups for the rotation to delete the oldest
+      for (let i = 0; i < 5; i++) {
+        await createBackup(i === 0 ? "import" : "manual");
+      }
+      const backups = await getBackups();
+
+      // Merges the snapshot it uploaded, which changes nothing
+      await resetSyncCursor();
+      await performSync(backend);
+
+      const [run] = await getSyncRuns();
+      expect(run.mode).toBe("full");
+      expect(run.backupId).toBeUndefined();
+      expect(await getBackups()).toEqual(backups);
+    });
+
+    test("Records failed syncs", async () => {
+      const backend = createBackend();
+      await backend.upload({ remote: true });
+      http.setFailDownloads(true);
+
+      await performSync(backend);
+
+      const [run] = await getSyncRuns();
+      expect(run.status).toBe("error");
+      expect(run.error).toContain("500");
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import {
+  createEncryptedEnvelope,
+  extractFromEncryptedEnvelope,
+  isEncryptedEnvelope,
+} from "../../crypto";
+import { isEncryptionEnabled } from "../../github-gist-sync";
+import type {
+  HttpSyncConfig,
+  SyncBackendType,
+  WebDavSyncConfig,
+} from "../../user-settings";
+import type { SyncBackend } from "../types";
+
+/**
+ * Joins a folder URL and a file name
+ * @param folderUrl - URL with or without a trailing slash
+ * @param filename - The file name
+ * @returns The file URL
+ */
+function getFileUrl(folderUrl: string, filename: string): string {
+  return `${folderUrl.replace(/\/+$/, "")}/${encodeURIComponent(filename)}`;
+}
+
+/**
+ * Encodes credentials for HTTP Basic authentication (UTF-8 safe)
+ */
+function toBasicAuth(username: string, password: string): string {
+  const bytes = new TextEncoder().encode(`${username}:${password}`);
+  return `Basic ${btoa(String.fromCharCode(...bytes))}`;
+}
+
+/**
+ * Creates a backend storing the data file at a URL answering GET, PUT, HEAD
+ * and DELETE. Other sync files are stored next to it. Data is encrypted with
+ * the first secret when encryption is enabled.
+ * @param type - The backend type
+ * @param fileUrl - URL of the main data file
+ * @param headers - Headers sent with every request (authentication)
+ * @param secrets - Passwords the encryption key is derived from. Files are
+ *   encrypted with the first one; the others decrypt files encrypted before
+ *   it was set.
+ * @returns The backend
+ */
+export function createHttpFileBackend(
+  type: SyncBackendType,
+  fileUrl: string,
+  headers: Record<string, string>,
+  secrets: string[] = []
+): SyncBackend {
+  // Sync files are stored next to the data file, keeping query parameters
+  // like signatures or tokens
+  const urlFor = (filename?: string) => {
+    if (!filename) {
+      return fileUrl;
+    }
+    const url = new URL(encodeURIComponent(filename), fileUrl);
+    url.search = new URL(fileUrl).search;
+    return url.href;
+  };
+
+  const head = async (filename?: string) => {
+    const response = await fetch(urlFor(filename), {
+      method: "HEAD",
+      headers,
+    });
+    if (!response.ok && response.status !== 404) {
+      throw new Error(
+        `Failed to reach sync server: ${response.status} ${response.statusText}`
+      );
+    }
+    return response;
+  };
+
+  return {
+    type,
+    async exists(filename) {
+      return (await head(filename)).ok;
+    },
+    async getMetadata() {
+      const response = await head();
+      if (!response.ok) {
+        return null;
+      }
+
+      const lastModified = response.headers.get("Last-Modified");
+      const size = response.headers.get("Content-Length");
+      return {
+        lastModified: lastModified ? new Date(lastModified) : undefined,
+        etag: response.headers.get("ETag") ?? undefined,
+        size: size ? Number(size) : undefined,
+      };
+    },
+    async download(filename) {
+      const response = await fetch(urlFor(filename), {
+        method: "GET",
+        headers,
+      });
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(
+          `Failed to download from sync server: ${response.status} ${response.statusText}`
+        );
+      }
+
+      const data = await response.json();
+      if (!isEncryptedEnvelope(data)) {
+        return data;
+      }
+      if (secrets.length === 0) {
+        throw new Error("Cannot decrypt synced data without a password");
+      }
+      for (const secret of secrets) {
+        try {
+          return await extractFromEncryptedEnvelope(data, secret);
+        } catch {
+          // Try the next secret
+        }
+      }
+      throw new Error("Failed to decrypt synced data");
+    },
+    async upload(data, filename) {
+      // Never fall back to uploading the data unencrypted
+      if (isEncryptionEnabled() && secrets.length === 0) {
+        throw new Error("Cannot encrypt synced data without a passphrase");
+      }
+      const content = isEncryptionEnabled()
+        ? await createEncryptedEnvelope(data, secrets[0])
+        : data;
+
+      try {
+        const response = await fetch(urlFor(filename), {
+          method: "PUT",
+          headers: { ...headers, "Content-Type": "application/json" },
+          body: JSON.stringify(content, null, 2),
+        });
+
+        if (!response.ok) {
+          console.error(
+            `Failed to upload to sync server: ${response.status} ${response.statusText}`
+          );
+          return false;
+        }
+        return true;
+      } catch (error) {
+        console.error("Error uploading to sync server:", error);
+        return false;
+      }
+    },
+    async remove(filename) {
+      try {
+        const response = await fetch(urlFor(filename), {
+          method: "DELETE",
+          headers,
+        });
+        return response.ok || response.status === 404;
+      } catch (error) {
+        console.error("Error deleting from sync server:", error);
+        return false;
+      }
+    },
+  };
+}
+
+/**
+ * Gets the secrets of a configuration: the passphrase, and the credential
+ * the key was derived from before passphrases existed
+ */
+function getSecrets(passphrase?: string, credential?: string): string[] {
+  return [passphrase, credential].filter((secret): secret is string =>
+    Boolean(secret)
+  );
+}
+
+/**
+ * Creates a backend storing the data file in a WebDAV folder (e.g. Nextcloud)
+ * @param config - Folder URL and credentials
+ * @param filename - Name of the data file
+ * @returns The backend
+ */
+export function createWebDavBackend(
+  config: WebDavSyncConfig,
+  filename: string
+): SyncBackend {
+  return createHttpFileBackend(
+    "webdav",
+    getFileUrl(config.url, filename),
+    { Authorization: toBasicAuth(config.username, config.password) },
+    getSecrets(config.passphrase, config.password)
+  );
+}
+
+/**
+ * Creates a backend for a self-hosted endpoint storing the data file as is
+ * @param config - Endpoint URL and optional bearer token
+ * @returns The backend
+ */
+export function createHttpBackend(config: HttpSyncConfig): SyncBackend {
+  return createHttpFileBackend(
+    "http",
+    config.url,
+    config.token ? { Authorization: `Bearer ${config.token}` } : {},
+    getSecrets(config.passphrase, config.token)
+  );
+}
@@ -0,0 +1,59 @@
+import {
+  deleteFileFromGist,
+  downloadJsonFromGist,
+  getGistFileMetadata,
+  isSyncConfigured,
+  listGistFiles,
+  uploadJsonToGist,
+} from "../../github-gist-sync";
+import type { SyncBackend } from "../types";
+
+/**
+ * Creates a sync backend storing the data file in the configured GitHub Gist
+ * @param filename - Name of the data file in the Gist
+ * @param description - Description set on the Gist when uploading
+ * @returns The backend, or null if GitHub sync is not configured
+ */
+export function createGistBackend(
+  filename: string,
+  description: string
+): SyncBackend | null {
+  if (!isSyncConfigured()) {
+    return null;
+  }
+
+  const exists = async (file = filename) => {
+    const filenames = await listGistFiles();
+    if (!filenames) {
+      throw new Error("Failed to reach GitHub Gist");
+    }
+    return filenames.includes(file);
+  };
+
+  return {
+    type: "gist",
+    exists,
+    async download(file = filename) {
+      const data = await downloadJsonFromGist({ filename: file });
+
+      // The Gist API helpers return null on errors too, which must not be
+      // mistaken for an empty Gist that can be overwritten
+      if (data === null && (await exists(file))) {
+        throw new Error("Failed to download data from GitHub Gist");
+      }
+      return data;
+    },
+    upload(data, file = filename) {
+      return uploadJsonToGist(data, { filename: file, description });
+    },
+    remove(file) {
+      return deleteFileFromGist(file);
+    },
+    async getMetadata() {
+      const metadata = await getGistFileMetadata(filename);
+      return metadata
+        ? { lastModified: metadata.updatedAt, size: metadata.size }
+        : null;
+    },
+  };
+}
@@ -0,0 +1,52 @@
+import {
+  type SyncBackendType,
+  getHttpSyncConfig,
+  getSyncBackendType,
+  getWebDavSyncConfig,
+} from "../../user-settings";
+import type { SyncBackend } from "../types";
+import { createHttpBackend, createWebDavBackend } from "./file";
+import { createGistBackend } from "./gist";
+
+export { createGistBackend } from "./gist";
+export {
+  createHttpBackend,
+  createHttpFileBackend,
+  createWebDavBackend,
+} from "./file";
+
+export const SYNC_FILENAME = "anythingtracker-data.json";
+const GIST_DESCRIPTION = "AnythingTracker backup data";
+
+export const syncBackendsLabels: Record<SyncBackendType, string> = {
+  gist: "GitHub Gist",
+  webdav: "WebDAV",
+  http: "HTTP endpoint",
+};
+
+/**
+ * Creates the sync backend selected in settings
+ * @returns The backend, or null if the selected backend is not configured
+ */
+export function getSyncBackend(): SyncBackend | null {
+  switch (getSyncBackendType()) {
+    case "webdav": {
+      const config = getWebDavSyncConfig();
+      return config?.url ? createWebDavBackend(config, SYNC_FILENAME) : null;
+    }
+    case "http": {
+      const config = getHttpSyncConfig();
+      return config?.url ? createHttpBackend(config) : null;
+    }
+    default:
+      return createGistBackend(SYNC_FILENAME, GIST_DESCRIPTION);
+  }
+}
+
+/**
+ * Checks whether the selected sync backend is configured
+ * @returns true if sync can run
+ */
+export function isSyncConfigured(): boolean {
+  return getSyncBackend() !== null;
+}
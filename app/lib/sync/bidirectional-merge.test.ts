@@ -8,6 +8,12 @@ import {
   deleteTracker,
   deleteEntryById,
   getDB,
+  getEntryTags,
+  renameTag,
+  saveEntry,
+  saveEntryTags,
+  getEntry,
+  updateEntry,
 } from "../db";
 import { exportData, importData } from "../data";
 
@@ -262,7 +268,7 @@ describe("Bidirectional Merge Scenarios", () => {
     expect(entries.find((e) => e.id === "entry-4")).toBeDefined();
   });
 
-  test("Device A updates entry, Device B deletes same entry → Newer timestamp wins", async () => {
+  test("Device B deletes entry, Device A edits it later → Edit wins on both", async () => {
     const trackerId = "tracker-1";
     const entryId = "entry-1";
 
@@ -286,36 +292,193 @@ describe("Bidirectional Merge Scenarios", () => {
     );
     const initialExport = await exportData();
 
-    // Device A: Update entry value (newer timestamp)
-    await clearAllData();
+    // Device B: Delete entry
+    await deleteEntryById(entryId);
+    const deviceBExport = await exportData();
+
+    // Device A: Edit the entry afterwards
+    await new Promise((resolve) => setTimeout(resolve, 5));
     await importData(initialExport, true);
-    const db = await getDB();
-    await db.put("entries", {
-      id: entryId,
-      trackerId,
+    await updateEntry(entryId, {
       date: "2024-01-01",
       value: 200,
-      createdAt: new Date("2024-01-01T12:00:00Z"), // Newer
+      comment: undefined,
     });
     const deviceAExport = await exportData();
 
-    // Device B: Delete entry (older timestamp)
-    await clearAllData();
+    // Sync in both directions: the later edit wins
+    await importData(deviceBExport, false);
+    let entries = await getEntryHistory(trackerId);
+    expect(entries.length).toBe(1);
+    expect(entries[0].value).toBe(200);
+
+    await importData(deviceBExport, true);
+    await importData(deviceAExport, false);
+    entries = await getEntryHistory(trackerId);
+    expect(entries.length).toBe(1);
+    expect(entries[0].value).toBe(200);
+  });
+
+  test("Device A edits entry, Device B deletes it later → Deletion wins on both", async () => {
+    const trackerId = "tracker-1";
+    const entryId = "entry-1";
+
+    await saveTrackerWithId(
+      {
+        id: trackerId,
+        title: "Test Tracker",
+        type: "liters",
+        isNumber: true,
+      },
+      true
+    );
+    await createEntryWithId(
+      entryId,
+      trackerId,
+      "2024-01-01",
+      100,
+      new Date("2024-01-01T10:00:00Z"),
+      true
+    );
+    const initialExport = await exportData();
+
+    // Device A: Edit entry
+    await updateEntry(entryId, {
+      date: "2024-01-02",
+      value: 200,
+      comment: "Moved",
+    });
+    const deviceAExport = await exportData();
+
+    // Device B: Delete the entry afterwards
+    await new Promise((resolve) => setTimeout(resolve, 5));
     await importData(initialExport, true);
-    await deleteEntryById(entryId); // Sets deletedAt to now, but createdAt is older
+    await deleteEntryById(entryId);
     const deviceBExport = await exportData();
 
-    // Sync: Device A (newer update) should win over Device B (older deletion)
-    await clearAllData();
+    await importData(deviceAExport, false);
+    expect(await getEntryHistory(trackerId)).toHaveLength(0);
+
     await importData(deviceAExport, true);
     await importData(deviceBExport, false);
+    expect(await getEntryHistory(trackerId)).toHaveLength(0);
+  });
+
+  test("Entry edited twice on one device → Higher revision wins over a later single edit", async () => {
+    const trackerId = "tracker-1";
+    const entryId = "entry-1";
+
+    await saveTrackerWithId(
+      {
+        id: trackerId,
+        title: "Test Tracker",
+        type: "liters",
+        isNumber: true,
+      },
+      true
+    );
+    await createEntryWithId(
+      entryId,
+      trackerId,
+      "2024-01-01",
+      100,
+      new Date("2024-01-01T10:00:00Z"),
+      true
+    );
+    const initialExport = await exportData();
 
-    // Verify: Entry with value 200 should exist (newer createdAt wins)
+    // Device A: Two edits (its clock may be behind Device B's)
+    const edit = { date: "2024-01-01", comment: undefined };
+    await updateEntry(entryId, { ...edit, value: 150 });
+    await updateEntry(entryId, { ...edit, value: 200 });
+    const deviceAExport = await exportData();
+
+    // Device B: One edit later
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await importData(initialExport, true);
+    await updateEntry(entryId, { ...edit, value: 300 });
+
+    await importData(deviceAExport, false);
     const entries = await getEntryHistory(trackerId);
-    expect(entries.length).toBe(1);
     expect(entries[0].value).toBe(200);
   });
 
+  test("Editing an entry updates its tags, and the edit syncs with them", async () => {
+    const trackerId = "tracker-1";
+    const entryId = "entry-1";
+
+    await saveTrackerWithId(
+      {
+        id: trackerId,
+        title: "Test Tracker",
+        type: "liters",
+        isNumber: true,
+      },
+      true
+    );
+    await createEntryWithId(
+      entryId,
+      trackerId,
+      "2024-01-01",
+      100,
+      new Date("2024-01-01T10:00:00Z"),
+      true,
+      "With #coffee"
+    );
+    await saveEntryTags(entryId, trackerId, "With #coffee");
+    const initialExport = await exportData();
+
+    await updateEntry(entryId, {
+      date: "2024-01-03",
+      value: 250,
+      comment: "With #tea",
+    });
+    expect(await getEntryTags(entryId)).toEqual(["tea"]);
+    const deviceAExport = await exportData();
+
+    // Device B still has the original entry
+    await importData(initialExport, true);
+    await importData(deviceAExport, false);
+
+    const entries = await getEntryHistory(trackerId);
+    expect(entries).toHaveLength(1);
+    expect(entries[0].date).toBe("2024-01-03");
+    expect(entries[0].value).toBe(250);
+    expect(await getEntryTags(entryId)).toEqual(["tea"]);
+  });
+
+  test("Setting a day's value on Device A replaces the old entry on Device B", async () => {
+    const trackerId = "tracker-1";
+
+    await saveTrackerWithId(
+      {
+        id: trackerId,
+        title: "Test Tracker",
+        type: "liters",
+        isNumber: true,
+      },
+      true
+    );
+    await createEntryWithId(
+      "entry-1",
+      trackerId,
+      "2024-01-01",
+      100,
+      new Date("2024-01-01T10:00:00Z"),
+      true
+    );
+    const initialExport = await exportData();
+
+    // Device A: Set the day's total, which replaces the entry
+    await saveEntry(trackerId, "2024-01-01", 500);
+    const deviceAExport = await exportData();
+
+    await importData(initialExport, true);
+    await importData(deviceAExport, false);
+
+    expect(await getEntry(trackerId, "2024-01-01")).toBe(500);
+  });
+
   test("Both devices create different trackers → All trackers preserved", async () => {
     // Device A: Create tracker-1
     await saveTrackerWithId(
@@ -461,4 +624,52 @@ describe("Bidirectional Merge Scenarios", () => {
     expect(trackers.find((t) => t.id === tracker2Id)).toBeUndefined(); // Deleted
     expect(trackers.find((t) => t.id === "tracker-3")).toBeDefined();
   });
+
+  test("Device A renames a tag, Device B has the old tag → Rename wins on both", async () => {
+    const trackerId = "tracker-1";
+    await saveTrackerWithId(
+      {
+        id: trackerId,
+        title: "Alcohol",
+        type: "liters",
+        isNumber: true,
+      },
+      true
+    );
+    for (const [entryId, date] of [
+      ["entry-1", "2024-01-01"],
+      ["entry-2", "2024-01-02"],
+    ]) {
+      await createEntryWithId(
+        entryId,
+        trackerId,
+        date,
+        330,
+        new Date(`${date}T10:00:00Z`),
+        true,
+        "Cold #bear"
+      );
+      await saveEntryTags(entryId, trackerId, "Cold #bear");
+    }
+    const deviceBExport = await exportData();
+
+    // Device A: Fix the typo
+    expect(await renameTag("bear", "beer", trackerId)).toBe(2);
+    const deviceAExport = await exportData();
+
+    // Device A merges the older data of Device B
+    await importData(deviceBExport, false);
+    let entries = await getEntryHistory(trackerId);
+    expect(entries.map((e) => e.comment)).toEqual(["Cold #beer", "Cold #beer"]);
+    expect(await getEntryTags("entry-1")).toEqual(["beer"]);
+
+    // Device B merges the renamed data of Device A
+    await clearAllData();
+    await importData(deviceBExport, true);
+    await importData(deviceAExport, false);
+    entries = await getEntryHistory(trackerId);
+    expect(entries.map((e) => e.comment)).toEqual(["Cold #beer", "Cold #beer"]);
+    expect(await getEntryTags("entry-1")).toEqual(["beer"]);
+    expect(await getEntryTags("entry-2")).toEqual(["beer"]);
+  });
 });
@@ -0,0 +1,146 @@
+import {
+  type ImportReport,
+  type SyncImportOptions,
+  addImportCounts,
+  createImportReport,
+  importData,
+  readExportData,
+} from "../data";
+import { generateId } from "../db";
+import type { SyncBackend, SyncManifest } from "./types";
+
+export const SYNC_MANIFEST_FILENAME = "anythingtracker-sync.json";
+
+// Delta files are merged into a new snapshot once there are this many
+export const MAX_SYNC_SEGMENTS = 20;
+
+/**
+ * Validate the remote manifest format
+ */
+export function isSyncManifest(data: any): data is SyncManifest {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    data.version === 1 &&
+    typeof data.snapshotId === "string" &&
+    Array.isArray(data.segments) &&
+    data.segments.every(
+      (segment: any) =>
+        typeof segment.file === "string" &&
+        typeof segment.createdAt === "string" &&
+        typeof segment.changes === "number"
+    ) &&
+    (data.devices === undefined ||
+      (typeof data.devices === "object" &&
+        data.devices !== null &&
+        Object.values(data.devices).every(
+          (device: any) =>
+            typeof device?.lastSyncAt === "string" &&
+            typeof device?.seenBefore === "string"
+        )))
+  );
+}
+
+/**
+ * Creates a manifest for a freshly uploaded snapshot
+ * @param segments - Deltas that are not in the snapshot
+ */
+export function createSyncManifest(
+  segments: SyncManifest["segments"] = []
+): SyncManifest {
+  return { version: 1, snapshotId: generateId(), segments };
+}
+
+/**
+ * Creates a unique name for a delta file, so devices never overwrite each
+ * other's deltas
+ */
+export function createSegmentFilename(): string {
+  return `anythingtracker-delta-${generateId()}.json`;
+}
+
+/**
+ * Downloads the remote manifest
+ * @returns The manifest, or null if no device wrote one yet
+ */
+export async function downloadManifest(
+  backend: SyncBackend
+): Promise<SyncManifest | null> {
+  const data = await backend.download(SYNC_MANIFEST_FILENAME);
+  if (data === null) {
+    return null;
+  }
+  if (!isSyncManifest(data)) {
+    throw new Error("Invalid remote sync manifest");
+  }
+  return data;
+}
+
+/**
+ * Downloads delta files and merges them into local data, oldest first
+ * @returns What the deltas changed, or null if a file is gone, i.e. another
+ *   device merged it into a new snapshot in the meantime
+ */
+export async function applySegments(
+  backend: SyncBackend,
+  files: string[],
+  sync: SyncImportOptions = {}
+): Promise<ImportReport | null> {
+  const report = createImportReport();
+  for (const file of files) {
+    const segment = await backend.download(file);
+    if (segment === null) {
+      return null;
+    }
+    const segmentReport = await importData(
+      readExportData(segment),
+      false,
+      sync
+    );
+    addImportCounts(report, segmentReport);
+    report.conflicts.push(...segmentReport.conflicts);
+  }
+  return report;
+}
+
+/**
+ * Uploads a delta file and adds it to the manifest. Devices may write the
+ * manifest at the same time, so it is read back to check the delta is listed.
+ * @returns "listed" with the delta file if it is in the remote manifest,
+ *   "conflict" if a concurrent write dropped it, "failed" if an upload failed
+ */
+export async function uploadSegment(
+  backend: SyncBackend,
+  manifest: SyncManifest,
+  data: unknown,
+  changes: number
+): Promise<
+  { status: "listed"; file: string } | { status: "conflict" | "failed" }
+> {
+  const file = createSegmentFilename();
+  if (!(await backend.upload(data, file))) {
+    return { status: "failed" };
+  }
+
+  const updatedManifest: SyncManifest = {
+    ...manifest,
+    segments: [
+      ...manifest.segments,
+      { file, createdAt: new Date().toISOString(), changes },
+    ],
+  };
+  if (!(await backend.upload(updatedManifest, SYNC_MANIFEST_FILENAME))) {
+    await backend.remove(file);
+    return { status: "failed" };
+  }
+
+  const remoteManifest = await downloadManifest(backend);
+  const isListed =
+    remoteManifest?.snapshotId === manifest.snapshotId &&
+    remoteManifest.segments.some((segment) => segment.file === file);
+  if (!isListed) {
+    await backend.remove(file);
+    return { status: "conflict" };
+  }
+  return { status: "listed", file };
+}
@@ -0,0 +1,193 @@
+import {
+  type ExportData,
+  type ImportCounts,
+  type ImportReport,
+  addImportCounts,
+  createBackup,
+  createImportCounts,
+  rotateBackups,
+} from "../data";
+import { type SyncRun, addSyncRun, deleteBackups } from "../db";
+import type { SyncBackend, SyncResult } from "./types";
+
+export type SyncRunDraft = Omit<SyncRun, "id" | "finishedAt" | "status">;
+
+/**
+ * Starts the record of a sync run, filled in while the sync goes on
+ */
+export function createSyncRunDraft(backend: SyncBackend): SyncRunDraft {
+  return {
+    backend: backend.type,
+    startedAt: new Date(),
+    bytesDownloaded: 0,
+    bytesUploaded: 0,
+    received: createImportCounts(),
+    sent: createImportCounts(),
+    conflicts: [],
+    tombstonesPurged: 0,
+  };
+}
+
+/**
+ * Adds what merging remote data changed locally to the run
+ */
+export function recordImport(run: SyncRunDraft, report: ImportReport): void {
+  addImportCounts(run.received, report);
+  run.conflicts.push(...report.conflicts);
+}
+
+/**
+ * Backs up local data before remote changes are merged for the first time
+ * in the run. The backups are rotated once the run keeps it.
+ */
+export async function backupBeforeMerge(run: SyncRunDraft): Promise<void> {
+  if (!run.backupId) {
+    run.backupId = (await createBackup("sync", { rotate: false }))?.id;
+  }
+}
+
+/**
+ * Deletes the backup of a run that merged no remote changes, so it doesn't
+ * rotate out older backups, and rotates the backups if the run keeps it.
+ * A failure to do so does not fail the sync.
+ */
+export async function discardUnusedBackup(run: SyncRunDraft): Promise<void> {
+  if (!run.backupId) {
+    return;
+  }
+  const changes = Object.values(run.received).reduce(
+    (sum, counts) => sum + counts.added + counts.updated + counts.deleted,
+    0
+  );
+  try {
+    if (changes > 0) {
+      await rotateBackups();
+      return;
+    }
+    await deleteBackups([run.backupId]);
+    run.backupId = undefined;
+  } catch (error) {
+    console.error("Failed to update sync backups:", error);
+  }
+}
+
+/**
+ * Adds the finished run to the sync history. A failure to record it does not
+ * fail the sync.
+ */
+export async function saveSyncRun(
+  run: SyncRunDraft,
+  result: SyncResult
+): Promise<void> {
+  try {
+    await addSyncRun({
+      ...run,
+      finishedAt: new Date(),
+      status: result.status === "success" ? "success" : "error",
+      error: result.error,
+    });
+  } catch (error) {
+    console.error("Failed to record sync run:", error);
+  }
+}
+
+/**
+ * Size of data as JSON, before encryption
+ */
+function getJsonSize(data: unknown): number {
+  return data === null || data === undefined
+    ? 0
+    : new TextEncoder().encode(JSON.stringify(data)).length;
+}
+
+/**
+ * Wraps a backend to add the size of all transferred data to the run
+ */
+export function withTransferCounting(
+  backend: SyncBackend,
+  run: SyncRunDraft
+): SyncBackend {
+  return {
+    ...backend,
+    async download(filename) {
+      const data = await backend.download(filename);
+      run.bytesDownloaded += getJsonSize(data);
+      return data;
+    },
+    async upload(data, filename) {
+      const uploaded = await backend.upload(data, filename);
+      if (uploaded) {
+        run.bytesUploaded += getJsonSize(data);
+      }
+      return uploaded;
+    },
+  };
+}
+
+/**
+ * Counts the trackers, entries and tags an upload adds, updates and deletes
+ * @param data - The uploaded data
+ * @param previous - The remote snapshot it replaces. A delta has none, so
+ *   its edited entities count as updated and the others as added.
+ */
+export function countUploadedChanges(
+  data: ExportData,
+  previous?: ExportData | null
+): ImportCounts {
+  const counts = createImportCounts();
+  const previousTrackers = new Map(
+    previous?.trackers.map(({ entries, ...tracker }) => [tracker.id, tracker])
+  );
+  const previousEntries = new Map(
+    previous?.trackers.flatMap((tracker) =>
+      tracker.entries.map((entry) => [entry.id, entry] as const)
+    )
+  );
+
+  const count = <T extends { deletedAt?: string }>(
+    type: "trackers" | "entries",
+    item: T,
+    previousItem: T | undefined,
+    isEdited: boolean
+  ) => {
+    if (!previous) {
+      const change = item.deletedAt
+        ? "deleted"
+        : isEdited
+        ? "updated"
+        : "added";
+      counts[type][change]++;
+    } else if (!previousItem) {
+      if (!item.deletedAt) {
+        counts[type].added++;
+      }
+    } else if (item.deletedAt && !previousItem.deletedAt) {
+      counts[type].deleted++;
+    } else if (JSON.stringify(item) !== JSON.stringify(previousItem)) {
+      counts[type].updated++;
+    }
+  };
+
+  for (const { entries, ...tracker } of data.trackers) {
+    count(
+      "trackers",
+      tracker,
+      previousTrackers.get(tracker.id),
+      !!tracker.fieldUpdatedAt
+    );
+    for (const entry of entries) {
+      count("entries", entry, previousEntries.get(entry.id), !!entry.revision);
+    }
+  }
+
+  const tagIds = new Set(data.tags.map((tag) => tag.id));
+  const previousTagIds = new Set(previous?.tags.map((tag) => tag.id));
+  counts.tags.added = [...tagIds].filter(
+    (id) => !previousTagIds.has(id)
+  ).length;
+  counts.tags.deleted = [...previousTagIds].filter(
+    (id) => !tagIds.has(id)
+  ).length;
+
+  return counts;
+}
@@ -1,6 +1,24 @@
 export { performSync } from "./sync-engine";
+export {
+  SYNC_MANIFEST_FILENAME,
+  MAX_SYNC_SEGMENTS,
+  isSyncManifest,
+} from "./delta";
+export {
+  SYNC_FILENAME,
+  syncBackendsLabels,
+  getSyncBackend,
+  isSyncConfigured,
+  createGistBackend,
+  createHttpBackend,
+  createHttpFileBackend,
+  createWebDavBackend,
+} from "./backends";
 export type {
   SyncStatus,
   SyncResult,
   SyncState,
+  SyncBackend,
+  SyncBackendMetadata,
+  SyncManifest,
 } from "./types";
@@ -1,110 +1,117 @@
-import { exportData, importData, validateExportData } from "../data";
 import {
-  uploadJsonToGist,
-  downloadJsonFromGist,
-} from "../github-gist-sync";
-import type { SyncResult } from "./types";
+  type ExportData,
+  type SyncImportOptions,
+  addImportCounts,
+  exportChanges,
+  exportData,
+  importData,
+  readExportData,
+} from "../data";
+import {
+  type SyncCursor,
+  getChangesSince,
+  getDeviceId,
+  getLatestChangeSeq,
+  getSyncCursor,
+  pruneChanges,
+  setSyncCursor,
+} from "../db";
+import { getSyncBackend } from "./backends";
+import {
+  MAX_SYNC_SEGMENTS,
+  SYNC_MANIFEST_FILENAME,
+  applySegments,
+  createSyncManifest,
+  downloadManifest,
+  uploadSegment,
+} from "./delta";
+import {
+  type SyncRunDraft,
+  backupBeforeMerge,
+  countUploadedChanges,
+  createSyncRunDraft,
+  discardUnusedBackup,
+  recordImport,
+  saveSyncRun,
+  withTransferCounting,
+} from "./history";
+import {
+  createDeviceEntry,
+  purgeMergedTombstones,
+  refreshDeviceEntry,
+  withDeviceEntry,
+} from "./tombstones";
+import type { SyncBackend, SyncManifest, SyncResult } from "./types";
+
+function failedResult(error: string, dataChanged = false): SyncResult {
+  return { status: "error", message: "Sync failed", dataChanged, error };
+}
+
+function successResult(dataChanged: boolean): SyncResult {
+  const now = new Date();
+  localStorage.setItem("last_sync_time", now.toISOString());
+
+  return { status: "success", message: "Synced", dataChanged, timestamp: now };
+}
 
-const GIST_FILENAME = "anythingtracker-data.json";
-const GIST_DESCRIPTION = "AnythingTracker backup data";
+function getLastSyncTime(): Date | undefined {
+  const lastSync = localStorage.getItem("last_sync_time");
+  return lastSync ? new Date(lastSync) : undefined;
+}
 
 /**
- * Performs a complete bidirectional sync operation
+ * Performs a bidirectional sync operation
  *
  * Strategy: ALWAYS merge at entity level, never choose one database over another
- * 
- * Flow:
- * 1. Export local data
- * 2. Download remote data from Gist
- * 3. Merge remote into local (entity-level merge handles conflicts)
- * 4. Upload merged result back to cloud
- * 5. Both devices end up with identical merged data
  *
+ * The remote data is a full snapshot plus delta files listed in a manifest.
+ * A regular sync only merges the deltas of other devices and uploads the
+ * local changes recorded since the last sync as a new delta. The full
+ * snapshot is used when this device has not synced with the current
+ * snapshot yet (first sync, imported data, or another device rewrote it)
+ * and to merge the deltas into a new snapshot once there are too many.
+ *
+ * Deleted records all devices merged are purged (see tombstones.ts).
+ * Local data is backed up before remote changes are merged, and every run
+ * is recorded in the sync history.
+ *
+ * @param backend - The remote storage (defaults to the one selected in settings)
  * @returns Promise<SyncResult> with status, message, and whether data changed
  */
-export async function performSync(): Promise<SyncResult> {
-  try {
-    // Step 1: Export local data
-    const localData = await exportData();
-
-    // Step 2: Download remote data
-    const remoteData = await downloadJsonFromGist({
-      filename: GIST_FILENAME,
-    });
-
-    // Step 3: Handle first-time sync (no remote data)
-    if (!remoteData) {
-      // No remote data exists yet - upload local data
-      const uploadSuccess = await uploadJsonToGist(localData, {
-        filename: GIST_FILENAME,
-        description: GIST_DESCRIPTION,
-      });
-
-      if (!uploadSuccess) {
-        return {
-          status: "error",
-          message: "Sync failed",
-          dataChanged: false,
-          error: "Failed to upload to cloud",
-        };
-      }
-
-      const now = new Date();
-      localStorage.setItem("last_sync_time", now.toISOString());
+export async function performSync(
+  backend: SyncBackend | null = getSyncBackend()
+): Promise<SyncResult> {
+  if (!backend) {
+    return failedResult("Sync is not configured");
+  }
 
-      return {
-        status: "success",
-        message: "Synced",
-        dataChanged: false,
-        timestamp: now,
-      };
-    }
+  const run = createSyncRunDraft(backend);
+  const result = await syncWith(withTransferCounting(backend, run), run);
+  await discardUnusedBackup(run);
+  await saveSyncRun(run, result);
+  return result;
+}
 
-    // Validate remote data
-    if (!validateExportData(remoteData)) {
-      return {
-        status: "error",
-        message: "Sync failed",
-        dataChanged: false,
-        error: "Invalid remote data format",
-      };
-    }
+async function syncWith(
+  backend: SyncBackend,
+  run: SyncRunDraft
+): Promise<SyncResult> {
+  try {
+    const cursor = await getSyncCursor();
+    const manifest = await downloadManifest(backend);
 
-    // Step 4: Check if local is empty (first sync on this device)
-    const isFirstTimeSync = localData.trackers.length === 0;
-
-    // Step 5: ALWAYS merge remote into local (bidirectional merge)
-    // importData with merge mode handles entity-level conflict resolution
-    await importData(remoteData, false);
-
-    // Step 6: Get the merged result
-    const mergedData = await exportData();
-
-    // Step 7: Upload merged result back to cloud
-    // This ensures both devices eventually converge to the same state
-    const uploadSuccess = await uploadJsonToGist(mergedData, {
-      filename: GIST_FILENAME,
-      description: GIST_DESCRIPTION,
-    });
-
-    if (!uploadSuccess) {
-      return {
-        status: "error",
-        message: "Sync failed",
-        dataChanged: isFirstTimeSync, // Data still changed locally even if upload failed
-        error: "Failed to upload merged data to cloud",
-      };
+    if (
+      manifest &&
+      cursor.snapshotId &&
+      manifest.segments.length < MAX_SYNC_SEGMENTS
+    ) {
+      const result = await performDeltaSync(backend, run, manifest, cursor);
+      if (result) {
+        return result;
+      }
     }
 
-    const now = new Date();
-    localStorage.setItem("last_sync_time", now.toISOString());
-
-    return {
-      status: "success",
-      message: "Synced",
-      dataChanged: isFirstTimeSync, // Only UI refresh needed on first sync
-      timestamp: now,
-    };
+    return await performFullSync(backend, run);
   } catch (error) {
     console.error("Sync failed:", error);
 
@@ -114,19 +121,213 @@ export async function performSync(): Promise<SyncResult> {
     // Provide more specific error messages for encryption-related failures
     const lowerMessage = errorMessage.toLowerCase();
     if (lowerMessage.includes("encrypt")) {
-      errorMessage = "Encryption failed. Check your GitHub token.";
+      errorMessage = "Encryption failed. Check your sync credentials.";
     } else if (lowerMessage.includes("decrypt")) {
       errorMessage =
-        "Decryption failed. The data may be encrypted with a different token.";
+        "Decryption failed. The data may be encrypted with different credentials.";
     } else if (lowerMessage.includes("invalid password")) {
-      errorMessage = "Unable to decrypt data. GitHub token may have changed.";
+      errorMessage =
+        "Unable to decrypt data. Sync credentials may have changed.";
     }
 
-    return {
-      status: "error",
-      message: "Sync failed",
-      dataChanged: false,
-      error: errorMessage,
-    };
+    return failedResult(errorMessage);
+  }
+}
+
+/**
+ * Merges the remote deltas of other devices and uploads local changes as a
+ * new delta. If another device rewrote the snapshot, it is merged first.
+ * @returns The result, or null if a full sync is needed instead
+ */
+async function performDeltaSync(
+  backend: SyncBackend,
+  run: SyncRunDraft,
+  manifest: SyncManifest,
+  cursor: SyncCursor
+): Promise<SyncResult | null> {
+  run.mode = "delta";
+  const sync: SyncImportOptions = { lastSyncedAt: getLastSyncTime() };
+  const deviceId = await getDeviceId();
+  const isNewSnapshot = manifest.snapshotId !== cursor.snapshotId;
+  const appliedSegments = isNewSnapshot ? [] : cursor.appliedSegments;
+
+  if (isNewSnapshot) {
+    // Local changes up to the cursor were sent as deltas before, which the
+    // new snapshot contains, so only the snapshot has to be merged here
+    const snapshot = await backend.download();
+    if (!snapshot) {
+      return null;
+    }
+    await backupBeforeMerge(run);
+    // Other devices may run an older version of the app
+    recordImport(run, await importData(readExportData(snapshot), false, sync));
   }
+
+  // Step 1: Merge deltas of other devices
+  const newSegments = manifest.segments
+    .map((segment) => segment.file)
+    .filter((file) => !appliedSegments.includes(file));
+  if (newSegments.length > 0) {
+    await backupBeforeMerge(run);
+  }
+  const segmentsReport = await applySegments(backend, newSegments, sync);
+  if (!segmentsReport) {
+    return null;
+  }
+  recordImport(run, segmentsReport);
+  const dataChanged = isNewSnapshot || newSegments.length > 0;
+  const syncedSegments = [...appliedSegments, ...newSegments];
+  run.tombstonesPurged = await purgeMergedTombstones(
+    manifest.devices,
+    deviceId
+  );
+
+  // Step 2: Upload local changes since the last sync, updating the device
+  // registry along with the manifest
+  const changes = await getChangesSince(cursor.seq);
+  let seq = cursor.seq;
+  if (changes.length === 0) {
+    await refreshDeviceEntry(backend, manifest, deviceId);
+  } else {
+    const delta = await exportChanges(changes);
+    const uploadResult = await uploadSegment(
+      backend,
+      withDeviceEntry(
+        manifest,
+        deviceId,
+        createDeviceEntry(deviceId, [manifest.devices])
+      ),
+      delta,
+      changes.length
+    );
+    if (uploadResult.status === "failed") {
+      await setSyncCursor({
+        ...cursor,
+        snapshotId: manifest.snapshotId,
+        appliedSegments: syncedSegments,
+      });
+      return failedResult("Failed to upload changes to cloud", dataChanged);
+    }
+    // After a conflict the changes stay in the log and are sent again.
+    // The own delta is applied already, so it isn't downloaded again.
+    if (uploadResult.status === "listed") {
+      seq = changes[changes.length - 1].seq;
+      syncedSegments.push(uploadResult.file);
+      addImportCounts(run.sent, countUploadedChanges(delta));
+    }
+  }
+
+  await setSyncCursor({
+    snapshotId: manifest.snapshotId,
+    seq,
+    appliedSegments: syncedSegments,
+  });
+  await pruneChanges(seq);
+
+  return successResult(dataChanged);
+}
+
+/**
+ * Merges the remote snapshot and all deltas into local data, uploads the
+ * merged result as the new snapshot and removes the merged deltas
+ */
+async function performFullSync(
+  backend: SyncBackend,
+  run: SyncRunDraft
+): Promise<SyncResult> {
+  run.mode = "full";
+  const sync: SyncImportOptions = { lastSyncedAt: getLastSyncTime() };
+  const deviceId = await getDeviceId();
+
+  // Changes recorded from here on are not in the uploaded snapshot
+  const seq = await getLatestChangeSeq();
+
+  // Step 1: Export local data
+  const localData = await exportData();
+
+  // Step 2: Download remote data
+  const remoteData = await backend.download();
+  const manifest = await downloadManifest(backend);
+
+  // Step 3: ALWAYS merge remote into local (bidirectional merge)
+  // importData with merge mode handles entity-level conflict resolution
+  if (remoteData) {
+    await backupBeforeMerge(run);
+    recordImport(
+      run,
+      await importData(readExportData(remoteData), false, sync)
+    );
+  }
+
+  // Step 4: Merge deltas that are not in the snapshot yet
+  const segmentFiles = manifest?.segments.map((segment) => segment.file) ?? [];
+  if (segmentFiles.length > 0) {
+    await backupBeforeMerge(run);
+  }
+  const segmentsReport = await applySegments(backend, segmentFiles, sync);
+  if (!segmentsReport) {
+    return failedResult("Remote data changed during sync");
+  }
+  recordImport(run, segmentsReport);
+
+  // Purged tombstones are left out of the new snapshot
+  run.tombstonesPurged = await purgeMergedTombstones(
+    manifest?.devices,
+    deviceId
+  );
+
+  // Only UI refresh needed on first sync, or when deltas were merged
+  const dataChanged =
+    (remoteData !== null && localData.trackers.length === 0) ||
+    segmentFiles.length > 0;
+
+  // Step 5: Upload merged result back to cloud
+  // This ensures both devices eventually converge to the same state
+  const mergedData = await exportData();
+  if (!(await backend.upload(mergedData))) {
+    return failedResult(
+      remoteData
+        ? "Failed to upload merged data to cloud"
+        : "Failed to upload to cloud",
+      dataChanged // Data still changed locally even if upload failed
+    );
+  }
+  addImportCounts(
+    run.sent,
+    countUploadedChanges(
+      mergedData,
+      remoteData as ExportData | null // Validated above
+    )
+  );
+
+  // Step 6: Start a new manifest. Deltas other devices uploaded during this
+  // sync are not in the snapshot, so they are kept, and so is the registry.
+  const latestManifest = await downloadManifest(backend);
+  const newManifest = withDeviceEntry(
+    {
+      ...createSyncManifest(
+        latestManifest?.segments.filter(
+          (segment) => !segmentFiles.includes(segment.file)
+        )
+      ),
+      devices: latestManifest?.devices,
+    },
+    deviceId,
+    createDeviceEntry(deviceId, [manifest?.devices, latestManifest?.devices])
+  );
+  if (!(await backend.upload(newManifest, SYNC_MANIFEST_FILENAME))) {
+    return failedResult("Failed to upload to cloud", dataChanged);
+  }
+  for (const file of segmentFiles) {
+    await backend.remove(file);
+  }
+
+  await setSyncCursor({
+    snapshotId: newManifest.snapshotId,
+    seq,
+    appliedSegments: [],
+  });
+  await pruneChanges(seq);
+
+  return successResult(dataChanged);
 }
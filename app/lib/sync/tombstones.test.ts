@@ -0,0 +1,136 @@
+import { describe, test, expect, beforeEach } from "bun:test";
+import {
+  clearAllData,
+  createEntryWithId,
+  deleteEntryById,
+  deleteTracker,
+  getDB,
+  purgeTombstones,
+  saveTrackerWithId,
+} from "../db";
+import { createDeviceEntry, getTombstoneCutoff } from "./tombstones";
+
+// Mock IndexedDB for testing
+import "fake-indexeddb/auto";
+
+const now = new Date("2024-06-01T12:00:00Z");
+
+describe("Tombstone cutoff", () => {
+  test("Nothing is purged before this device is registered", () => {
+    expect(getTombstoneCutoff(undefined, "device-a", 30, now)).toBeNull();
+    expect(
+      getTombstoneCutoff(
+        {
+          "device-b": {
+            lastSyncAt: "2024-06-01T00:00:00.000Z",
+            seenBefore: "2024-06-01T00:00:00.000Z",
+          },
+        },
+        "device-a",
+        30,
+        now
+      )
+    ).toBeNull();
+  });
+
+  test("Nothing is purged when deleted items are kept forever", () => {
+    const devices = {
+      "device-a": createDeviceEntry("device-a", [], now),
+    };
+    expect(getTombstoneCutoff(devices, "device-a", 0, now)).toBeNull();
+  });
+
+  test("Tombstones are purged after the horizon once all devices merged them", () => {
+    const devices = {
+      "device-a": {
+        lastSyncAt: "2024-06-01T00:00:00.000Z",
+        seenBefore: "2024-05-31T00:00:00.000Z",
+      },
+      "device-b": {
+        lastSyncAt: "2024-05-31T00:00:00.000Z",
+        seenBefore: "2024-05-31T00:00:00.000Z",
+      },
+    };
+    expect(getTombstoneCutoff(devices, "device-a", 30, now)).toEqual(
+      new Date("2024-05-02T12:00:00Z")
+    );
+
+    // Device B last merged other devices' changes long ago
+    devices["device-b"].seenBefore = "2024-04-01T00:00:00.000Z";
+    expect(getTombstoneCutoff(devices, "device-a", 30, now)).toEqual(
+      new Date("2024-04-01T00:00:00Z")
+    );
+  });
+
+  test("A device has seen changes up to the last sync of the others", () => {
+    const entry = createDeviceEntry(
+      "device-a",
+      [
+        {
+          "device-a": {
+            lastSyncAt: "2024-01-01T00:00:00.000Z",
+            seenBefore: "2024-01-01T00:00:00.000Z",
+          },
+          "device-b": {
+            lastSyncAt: "2024-05-01T00:00:00.000Z",
+            seenBefore: "2024-05-01T00:00:00.000Z",
+          },
+        },
+      ],
+      now
+    );
+    expect(entry).toEqual({
+      lastSyncAt: now.toISOString(),
+      seenBefore: "2024-05-01T00:00:00.000Z",
+    });
+  });
+});
+
+describe("purgeTombstones", () => {
+  beforeEach(async () => {
+    await clearAllData();
+    for (const id of ["tracker-1", "tracker-2"]) {
+      await saveTrackerWithId(
+        { id, title: id, type: "none", isNumber: true },
+        true
+      );
+    }
+    await createEntryWithId(
+      "entry-1",
+      "tracker-1",
+      "2024-01-01",
+      1,
+      new Date("2024-01-01T10:00:00Z")
+    );
+    await createEntryWithId(
+      "entry-2",
+      "tracker-1",
+      "2024-01-02",
+      1,
+      new Date("2024-01-02T10:00:00Z")
+    );
+    await createEntryWithId(
+      "entry-3",
+      "tracker-2",
+      "2024-01-03",
+      1,
+      new Date("2024-01-03T10:00:00Z")
+    );
+  });
+
+  test("Removes only records deleted before the cutoff", async () => {
+    await deleteEntryById("entry-1");
+    await deleteTracker("tracker-2");
+    const db = await getDB();
+
+    expect(await purgeTombstones(new Date(Date.now() - 60_000))).toBe(0);
+    expect(await db.get("entries", "entry-1")).toBeDefined();
+
+    expect(await purgeTombstones(new Date(Date.now() + 60_000))).toBe(3);
+    expect(await db.get("entries", "entry-1")).toBeUndefined();
+    expect(await db.get("entries", "entry-3")).toBeUndefined();
+    expect(await db.get("trackers", "tracker-2")).toBeUndefined();
+    expect(await db.get("entries", "entry-2")).toBeDefined();
+    expect(await db.get("trackers", "tracker-1")).toBeDefined();
+  });
+});
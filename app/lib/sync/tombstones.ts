@@ -0,0 +1,133 @@
+import { subDays } from "date-fns";
+import { purgeTombstones } from "../db";
+import { getTombstoneRetentionDays } from "../user-settings";
+import { SYNC_MANIFEST_FILENAME, downloadManifest } from "./delta";
+import type { SyncBackend, SyncDevice, SyncManifest } from "./types";
+
+/**
+ * Deleted records (tombstones) are kept so the deletion reaches all devices.
+ * Every device keeps an entry in the manifest's device registry: when it last
+ * uploaded its changes, and up to when it merged the changes of the others.
+ * A tombstone older than the retention horizon that every registered device
+ * merged is purged, locally and from the next snapshot.
+ */
+
+// A sync without changes rewrites the manifest to refresh the device entry
+// at most this often
+const DEVICE_ENTRY_REFRESH_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Creates the registry entry of this device after merging remote data
+ * @param deviceId - ID of this device
+ * @param registries - Device registries of the merged manifests
+ */
+export function createDeviceEntry(
+  deviceId: string,
+  registries: Array<Record<string, SyncDevice> | undefined>,
+  now = new Date()
+): SyncDevice {
+  // Other devices uploaded their changes up to their last sync
+  const otherSyncs = registries.flatMap((devices) =>
+    Object.entries(devices ?? {})
+      .filter(([id]) => id !== deviceId)
+      .map(([, device]) => new Date(device.lastSyncAt).getTime())
+  );
+
+  return {
+    lastSyncAt: now.toISOString(),
+    seenBefore: new Date(Math.min(now.getTime(), ...otherSyncs)).toISOString(),
+  };
+}
+
+/**
+ * Sets the registry entry of this device in a manifest
+ */
+export function withDeviceEntry(
+  manifest: SyncManifest,
+  deviceId: string,
+  entry: SyncDevice
+): SyncManifest {
+  return { ...manifest, devices: { ...manifest.devices, [deviceId]: entry } };
+}
+
+/**
+ * Refreshes the registry entry of this device when it is missing or old, so
+ * devices that rarely change data do not hold back purging. Best effort: a
+ * failed or overwritten write only delays purging.
+ */
+export async function refreshDeviceEntry(
+  backend: SyncBackend,
+  manifest: SyncManifest,
+  deviceId: string,
+  now = new Date()
+): Promise<void> {
+  const entry = manifest.devices?.[deviceId];
+  if (
+    entry &&
+    now.getTime() - new Date(entry.lastSyncAt).getTime() <
+      DEVICE_ENTRY_REFRESH_MS
+  ) {
+    return;
+  }
+
+  // Read the manifest again to not drop deltas other devices just listed
+  const latestManifest = await downloadManifest(backend);
+  if (latestManifest?.snapshotId !== manifest.snapshotId) {
+    return;
+  }
+  await backend.upload(
+    withDeviceEntry(
+      latestManifest,
+      deviceId,
+      createDeviceEntry(deviceId, [manifest.devices], now)
+    ),
+    SYNC_MANIFEST_FILENAME
+  );
+}
+
+/**
+ * Gets the date before which tombstones can be purged: older than the
+ * retention horizon and merged by all registered devices
+ * @param devices - Device registry of the merged manifest
+ * @param deviceId - ID of this device. Its own deletions must have been
+ *   uploaded, so nothing is purged before it is registered.
+ * @param retentionDays - Retention horizon, 0 to never purge
+ * @returns The date, or null if nothing can be purged
+ */
+export function getTombstoneCutoff(
+  devices: Record<string, SyncDevice> | undefined,
+  deviceId: string,
+  retentionDays: number,
+  now = new Date()
+): Date | null {
+  const ownEntry = devices?.[deviceId];
+  if (!retentionDays || !ownEntry) {
+    return null;
+  }
+
+  return new Date(
+    Math.min(
+      subDays(now, retentionDays).getTime(),
+      new Date(ownEntry.lastSyncAt).getTime(),
+      ...Object.values(devices).map((device) =>
+        new Date(device.seenBefore).getTime()
+      )
+    )
+  );
+}
+
+/**
+ * Purges local tombstones that all registered devices merged
+ * @returns The number of purged records
+ */
+export async function purgeMergedTombstones(
+  devices: Record<string, SyncDevice> | undefined,
+  deviceId: string
+): Promise<number> {
+  const cutoff = getTombstoneCutoff(
+    devices,
+    deviceId,
+    getTombstoneRetentionDays()
+  );
+  return cutoff ? purgeTombstones(cutoff) : 0;
+}
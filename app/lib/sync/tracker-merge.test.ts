@@ -0,0 +1,165 @@
+import { describe, test, expect, beforeEach } from "bun:test";
+import {
+  clearAllData,
+  getTrackerById,
+  saveTrackerWithId,
+  updateTracker,
+} from "../db";
+import { exportData, importData } from "../data";
+import type { Tracker } from "../trackers";
+
+// Mock IndexedDB for testing
+import "fake-indexeddb/auto";
+
+const trackerId = "tracker-1";
+
+async function setupSharedTracker() {
+  await saveTrackerWithId(
+    {
+      id: trackerId,
+      title: "Water",
+      type: "liters",
+      isNumber: true,
+      goal: 1500,
+      updatedAt: new Date("2024-01-01T10:00:00Z"),
+    },
+    true
+  );
+  return exportData();
+}
+
+// Edit the tracker like the edit page does, a few ms apart from other edits
+async function editTracker(changes: Partial<Tracker>) {
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  const tracker = await getTrackerById(trackerId);
+  await updateTracker({ ...tracker!, ...changes });
+}
+
+describe("Tracker metadata merge", () => {
+  beforeEach(async () => {
+    await clearAllData();
+  });
+
+  test("Rename on one device and goal change on another → Both survive", async () => {
+    const base = await setupSharedTracker();
+
+    // Device A: rename
+    await editTracker({ title: "Hydration" });
+    const deviceAExport = await exportData();
+
+    // Device B: change the goal later
+    await importData(base, true);
+    await editTracker({ goal: 2000 });
+    const deviceBExport = await exportData();
+
+    // Device B receives Device A's data
+    await importData(deviceAExport, false);
+    let tracker = await getTrackerById(trackerId);
+    expect(tracker?.title).toBe("Hydration");
+    expect(tracker?.goal).toBe(2000);
+
+    // Device A receives Device B's data
+    await importData(deviceAExport, true);
+    await importData(deviceBExport, false);
+    tracker = await getTrackerById(trackerId);
+    expect(tracker?.title).toBe("Hydration");
+    expect(tracker?.goal).toBe(2000);
+  });
+
+  test("Parent, type, hidden state and display unit changes sync", async () => {
+    const base = await setupSharedTracker();
+
+    await editTracker({
+      parentId: "tracker-parent",
+      type: "kilograms",
+      isHidden: true,
+      displayUnit: "lb",
+    });
+    const deviceAExport = await exportData();
+
+    await importData(base, true);
+    await importData(deviceAExport, false);
+
+    const tracker = await getTrackerById(trackerId);
+    expect(tracker?.parentId).toBe("tracker-parent");
+    expect(tracker?.type).toBe("kilograms");
+    expect(tracker?.isHidden).toBe(true);
+    expect(tracker?.displayUnit).toBe("lb");
+  });
+
+  test("Same property changed on both devices → Later change wins", async () => {
+    const base = await setupSharedTracker();
+
+    await editTracker({ title: "Older title" });
+    const deviceAExport = await exportData();
+
+    await importData(base, true);
+    await editTracker({ title: "Newer title" });
+    await importData(deviceAExport, false);
+
+    const tracker = await getTrackerById(trackerId);
+    expect(tracker?.title).toBe("Newer title");
+  });
+
+  test("Changes on both devices since the last sync are reported as conflicts", async () => {
+    const base = await setupSharedTracker();
+    const lastSyncedAt = new Date();
+
+    await editTracker({ title: "Older title" });
+    const deviceAExport = await exportData();
+
+    await importData(base, true);
+    await editTracker({ title: "Newer title", goal: 2000 });
+    const report = await importData(deviceAExport, false, { lastSyncedAt });
+
+    // The goal was only changed on this device
+    expect(report.conflicts).toHaveLength(1);
+    expect(report.conflicts[0]).toMatchObject({
+      type: "tracker",
+      id: trackerId,
+      group: "title",
+      kept: "local",
+      local: { title: "Newer title" },
+      imported: { title: "Older title" },
+    });
+    expect(report.trackers.updated).toBe(0);
+
+    // Before the last sync, the imported title is just outdated
+    const laterReport = await importData(deviceAExport, false, {
+      lastSyncedAt: new Date(Date.now() + 60_000),
+    });
+    expect(laterReport.conflicts).toHaveLength(0);
+  });
+
+  test("Clearing an optional property syncs", async () => {
+    const base = await setupSharedTracker();
+
+    await editTracker({ goal: undefined });
+    const deviceAExport = await exportData();
+
+    await importData(base, true);
+    await importData(deviceAExport, false);
+
+    const tracker = await getTrackerById(trackerId);
+    expect(tracker?.goal).toBeUndefined();
+  });
+
+  test("Exports without field timestamps are merged by updatedAt", async () => {
+    await setupSharedTracker();
+    await editTracker({ title: "Local title" });
+
+    const oldExport = await exportData();
+    oldExport.trackers[0] = {
+      ...oldExport.trackers[0],
+      title: "Imported title",
+      goal: 3000,
+      updatedAt: new Date(Date.now() + 60_000).toISOString(),
+      fieldUpdatedAt: undefined,
+    };
+    await importData(oldExport, false);
+
+    const tracker = await getTrackerById(trackerId);
+    expect(tracker?.title).toBe("Imported title");
+    expect(tracker?.goal).toBe(3000);
+  });
+});
@@ -1,3 +1,5 @@
+import type { SyncBackendType } from "../user-settings";
+
 export type SyncStatus = "idle" | "syncing" | "success" | "error";
 
 export interface SyncResult {
@@ -14,3 +16,52 @@ export interface SyncState {
   lastSyncTime?: Date;
   lastError?: string;
 }
+
+export interface SyncBackendMetadata {
+  lastModified?: Date;
+  etag?: string;
+  size?: number;
+}
+
+/**
+ * Remote storage for the synced data files. `performSync` only talks to this
+ * interface, so any backend works with the sync scheduler and button.
+ * Methods without a file name use the main data file (the full snapshot).
+ */
+export interface SyncBackend {
+  type: SyncBackendType;
+  /** Resolves to null when there is no data yet, rejects when unreachable */
+  download(filename?: string): Promise<unknown | null>;
+  upload(data: unknown, filename?: string): Promise<boolean>;
+  remove(filename: string): Promise<boolean>;
+  exists(filename?: string): Promise<boolean>;
+  getMetadata(): Promise<SyncBackendMetadata | null>;
+}
+
+/**
+ * Registry entry of a device in the manifest, telling which deletions it has
+ * merged so they can be purged safely
+ */
+export interface SyncDevice {
+  /** All local changes before this were uploaded */
+  lastSyncAt: string;
+  /** The device merged all changes other devices made before this */
+  seenBefore: string;
+}
+
+/**
+ * Remote list of delta files written since the last full snapshot. Each sync
+ * uploads its local changes as a new delta file instead of all data.
+ */
+export interface SyncManifest {
+  version: 1;
+  /** Changes whenever a device rewrites the snapshot and drops the deltas */
+  snapshotId: string;
+  segments: Array<{
+    file: string;
+    createdAt: string;
+    changes: number;
+  }>;
+  /** Devices syncing this data, by device ID */
+  devices?: Record<string, SyncDevice>;
+}
@@ -0,0 +1,78 @@
+import { describe, test, expect } from "bun:test";
+import type { HistoryEntry } from "./history";
+import {
+  calculateTagStats,
+  filterEntriesByTag,
+  getTrackerTags,
+} from "./tag-stats";
+
+const createEntry = (
+  id: string,
+  date: string,
+  value: number,
+  comment?: string
+): HistoryEntry => ({
+  id,
+  trackerId: "alcohol",
+  date,
+  value,
+  comment,
+  createdAt: new Date(`${date}T12:00:00`),
+});
+
+// Most recent first, like getEntryHistory
+const entries = [
+  createEntry("1", "2024-01-15", 500, "#Beer with friends"),
+  createEntry("2", "2024-01-10", 200, "#wine #beer"),
+  createEntry("3", "2024-01-02", 300, "#beer"),
+  createEntry("4", "2024-01-01", 1000, "New year"),
+];
+
+describe("Tag Stats", () => {
+  test("lists tags by number of uses with their latest casing", () => {
+    expect(getTrackerTags(entries)).toEqual([
+      { tag: "beer", displayName: "Beer", count: 3 },
+      { tag: "wine", displayName: "wine", count: 1 },
+    ]);
+  });
+
+  test("filters entries by tag regardless of casing", () => {
+    expect(
+      filterEntriesByTag(entries, "#BEER").map((entry) => entry.id)
+    ).toEqual(["1", "2", "3"]);
+    expect(filterEntriesByTag(entries, "cider")).toEqual([]);
+  });
+
+  test("calculates totals, shares and averages per tag", () => {
+    const [beer, wine] = calculateTagStats(
+      entries,
+      { fromDate: new Date(2024, 0, 1), toDate: new Date(2024, 0, 31) },
+      "month"
+    );
+
+    expect(beer).toMatchObject({
+      tag: "beer",
+      total: 1000,
+      count: 3,
+      share: 50,
+      averagePerUse: 1000 / 3,
+      trend: [{ periodStart: "2024-01-01", total: 1000 }],
+    });
+    expect(wine).toMatchObject({ tag: "wine", total: 200, share: 10 });
+  });
+
+  test("fills every trend period of the range", () => {
+    const [beer] = calculateTagStats(
+      entries,
+      { fromDate: new Date(2024, 0, 1), toDate: new Date(2024, 0, 21) },
+      "week"
+    );
+
+    // Weeks start on Monday, January 1st 2024 is a Monday
+    expect(beer.trend).toEqual([
+      { periodStart: "2024-01-01", total: 300 },
+      { periodStart: "2024-01-08", total: 200 },
+      { periodStart: "2024-01-15", total: 500 },
+    ]);
+  });
+});
@@ -0,0 +1,157 @@
+import { addMonths, addWeeks, isAfter } from "date-fns";
+import { formatDateString, parseLocalDate } from "./dates";
+import { getGoalPeriodKey } from "./goals";
+import type { HistoryEntry } from "./history";
+import { extractHashtagsWithOriginalCasing } from "./tags";
+
+export type TagTrendPeriod = "week" | "month";
+
+export type TagStats = {
+  tag: string; // Lowercase tag name
+  displayName: string; // Casing of the most recent use
+  total: number; // Stored as integer, like entry values
+  count: number;
+  share: number; // Percentage of the total of all entries
+  averagePerUse: number;
+  trend: Array<{ periodStart: string; total: number }>;
+};
+
+export type TrackerTag = Pick<TagStats, "tag" | "displayName" | "count">;
+
+const getTags = (entry: HistoryEntry) =>
+  extractHashtagsWithOriginalCasing(entry.comment);
+
+/**
+ * Lists the tags used in entries, most used first
+ * @param entries - Entries of a tracker
+ * @returns Tags with their number of uses
+ */
+export function getTrackerTags(entries: HistoryEntry[]): TrackerTag[] {
+  const tags = new Map<string, TrackerTag>();
+
+  // Entries are sorted most recent first, so the first casing wins
+  for (const entry of entries) {
+    for (const { lowercase, original } of getTags(entry)) {
+      const existing = tags.get(lowercase);
+      if (existing) {
+        existing.count++;
+      } else {
+        tags.set(lowercase, {
+          tag: lowercase,
+          displayName: original,
+          count: 1,
+        });
+      }
+    }
+  }
+
+  return Array.from(tags.values()).sort(
+    (a, b) => b.count - a.count || a.tag.localeCompare(b.tag)
+  );
+}
+
+/**
+ * Keeps the entries whose comment contains a tag
+ * @param entries - Entries of a tracker
+ * @param tag - Tag name, with or without "#" (case-insensitive)
+ * @returns The tagged entries
+ */
+export function filterEntriesByTag<T extends HistoryEntry>(
+  entries: T[],
+  tag: string
+): T[] {
+  const tagName = tag.replace(/^#/, "").toLowerCase();
+  return entries.filter((entry) =>
+    getTags(entry).some(({ lowercase }) => lowercase === tagName)
+  );
+}
+
+/**
+ * Lists the starts of the trend periods of a date range
+ * @param fromDate - First day of the range
+ * @param toDate - Last day of the range
+ * @param period - Trend granularity
+ * @returns Period starts in "yyyy-MM-dd" format, oldest first
+ */
+function getTrendPeriodStarts(
+  fromDate: Date,
+  toDate: Date,
+  period: TagTrendPeriod
+): string[] {
+  const periodStarts: string[] = [];
+  let start = parseLocalDate(
+    getGoalPeriodKey(formatDateString(fromDate), period)
+  );
+
+  while (!isAfter(start, toDate)) {
+    periodStarts.push(formatDateString(start));
+    start = period === "week" ? addWeeks(start, 1) : addMonths(start, 1);
+  }
+  return periodStarts;
+}
+
+/**
+ * Calculates usage statistics for every tag of a tracker
+ * @param entries - Entries of the selected period, most recent first
+ * @param dateRange - The selected period
+ * @param trendPeriod - Granularity of the trend of each tag
+ * @returns Stats per tag, highest total first
+ */
+export function calculateTagStats(
+  entries: HistoryEntry[],
+  dateRange: { fromDate: Date; toDate: Date },
+  trendPeriod: TagTrendPeriod
+): TagStats[] {
+  const periodStarts = getTrendPeriodStarts(
+    dateRange.fromDate,
+    dateRange.toDate,
+    trendPeriod
+  );
+  const overallTotal = entries.reduce((sum, entry) => sum + entry.value, 0);
+
+  const stats = new Map<
+    string,
+    Omit<TagStats, "share" | "averagePerUse" | "trend"> & {
+      periodTotals: Map<string, number>;
+    }
+  >();
+  for (const entry of entries) {
+    const periodKey = getGoalPeriodKey(entry.date, trendPeriod);
+
+    for (const { lowercase, original } of getTags(entry)) {
+      let tagStats = stats.get(lowercase);
+      if (!tagStats) {
+        tagStats = {
+          tag: lowercase,
+          displayName: original,
+          total: 0,
+          count: 0,
+          periodTotals: new Map(),
+        };
+        stats.set(lowercase, tagStats);
+      }
+
+      tagStats.total += entry.value;
+      tagStats.count++;
+      tagStats.periodTotals.set(
+        periodKey,
+        (tagStats.periodTotals.get(periodKey) || 0) + entry.value
+      );
+    }
+  }
+
+  return Array.from(stats.values())
+    .map(({ periodTotals, ...tagStats }) => ({
+      ...tagStats,
+      share: overallTotal > 0 ? (tagStats.total / overallTotal) * 100 : 0,
+      averagePerUse: tagStats.total / tagStats.count,
+      trend: periodStarts.map((periodStart) => ({
+        periodStart,
+        total: periodTotals.get(periodStart) || 0,
+      })),
+    }))
+    .sort(
+      (a, b) =>
+        b.total - a.total || b.count - a.count || a.tag.localeCompare(b.tag)
+    );
+}
@@ -0,0 +1,32 @@
+import { describe, test, expect } from "bun:test";
+import { isValidTagName, replaceHashtag } from "./tags";
+
+describe("Tags", () => {
+  test("accepts names with letters, numbers and underscores only", () => {
+    expect(isValidTagName("beer")).toBe(true);
+    expect(isValidTagName("Café_2")).toBe(true);
+    expect(isValidTagName("")).toBe(false);
+    expect(isValidTagName("two words")).toBe(false);
+    expect(isValidTagName("#beer")).toBe(false);
+  });
+
+  test("renames a hashtag regardless of its casing", () => {
+    expect(replaceHashtag("Cold #Bear with #friends", "bear", "beer")).toBe(
+      "Cold #beer with #friends"
+    );
+    // Tags that only start with the name are other tags
+    expect(replaceHashtag("#bears", "bear", "beer")).toBe("#bears");
+  });
+
+  test("drops the old hashtag when the comment has the new one", () => {
+    expect(replaceHashtag("#beer #bear #Bear", "bear", "Beer")).toBe("#beer");
+    expect(replaceHashtag("#bear and #bear", "bear", "beer")).toBe("#beer and");
+  });
+
+  test("removes a hashtag and the space before it", () => {
+    expect(replaceHashtag("Lunch #work with #team", "work")).toBe(
+      "Lunch with #team"
+    );
+    expect(replaceHashtag("#work", "work")).toBeUndefined();
+  });
+});
@@ -22,3 +22,52 @@ export function extractHashtagsWithOriginalCasing(
     original,
   }));
 }
+
+const tagNameRegex = /^[\p{L}\p{N}_]+$/u;
+
+/**
+ * Checks whether a name can be used as a hashtag
+ * @param tagName - Tag name without "#"
+ * @returns Whether the name only has letters, numbers and underscores
+ */
+export function isValidTagName(tagName: string): boolean {
+  return tagNameRegex.test(tagName);
+}
+
+/**
+ * Replaces a hashtag in a comment, or removes it. When the comment already
+ * has the new tag, the old one is removed instead, so merged tags don't
+ * appear twice.
+ * @param comment - The entry comment
+ * @param tagName - Lowercase name of the tag to replace
+ * @param newTagName - The new tag name, or undefined to remove the tag
+ * @returns The rewritten comment (undefined when nothing is left)
+ */
+export function replaceHashtag(
+  comment: string,
+  tagName: string,
+  newTagName?: string
+): string | undefined {
+  const newLowercase = newTagName?.toLowerCase();
+  let hasNewTag =
+    newLowercase !== undefined &&
+    newLowercase !== tagName &&
+    extractHashtagsWithOriginalCasing(comment).some(
+      ({ lowercase }) => lowercase === newLowercase
+    );
+
+  const rewritten = comment
+    .replace(/([ \t]*)#([\p{L}\p{N}_]+)/gu, (match, space, name) => {
+      if (name.toLowerCase() !== tagName) {
+        return match;
+      }
+      if (newTagName === undefined || hasNewTag) {
+        return "";
+      }
+      hasNewTag = true;
+      return `${space}#${newTagName}`;
+    })
+    .trim();
+
+  return rewritten || undefined;
+}
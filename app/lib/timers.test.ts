@@ -0,0 +1,123 @@
+import { describe, test, expect, beforeEach } from "bun:test";
+import {
+  clearAllData,
+  getDB,
+  getEntryHistory,
+  getRunningTimer,
+  getRunningTimers,
+  saveTrackerWithId,
+  startTimer,
+  stopTimer,
+  cancelTimer,
+} from "./db";
+import { formatElapsed, getElapsedSeconds } from "./timers";
+
+// Mock IndexedDB for testing
+import "fake-indexeddb/auto";
+
+describe("Timers", () => {
+  beforeEach(async () => {
+    await clearAllData();
+    const db = await getDB();
+    await db.delete("metadata", "runningTimers");
+
+    await saveTrackerWithId(
+      { id: "tracker-1", title: "Reading", type: "duration", isNumber: true },
+      true
+    );
+    await saveTrackerWithId(
+      {
+        id: "tracker-2",
+        title: "Meditation",
+        type: "duration",
+        isNumber: true,
+      },
+      true
+    );
+  });
+
+  test("starting a timer persists it in metadata", async () => {
+    const timer = await startTimer("tracker-1");
+
+    const db = await getDB();
+    const metadata = await db.get("metadata", "runningTimers");
+    expect(metadata?.value).toEqual([timer]);
+    expect(await getRunningTimer("tracker-1")).toEqual(timer);
+  });
+
+  test("starting a running timer keeps its start time", async () => {
+    const first = await startTimer("tracker-1");
+    const second = await startTimer("tracker-1");
+
+    expect(second.startedAt).toBe(first.startedAt);
+    expect((await getRunningTimers()).length).toBe(1);
+  });
+
+  test("timers run concurrently across trackers", async () => {
+    await startTimer("tracker-1");
+    await startTimer("tracker-2");
+
+    const timers = await getRunningTimers();
+    expect(timers.map((t) => t.trackerId)).toEqual(["tracker-1", "tracker-2"]);
+  });
+
+  test("stopping a timer logs the elapsed seconds on the start date", async () => {
+    // Simulate a timer started 25 minutes ago
+    const startedAt = new Date(Date.now() - 25 * 60 * 1000);
+    const db = await getDB();
+    await db.put("metadata", {
+      key: "runningTimers",
+      value: [{ trackerId: "tracker-1", startedAt: startedAt.toISOString() }],
+    });
+
+    const logged = await stopTimer("tracker-1", "Chapter 3 #fiction");
+
+    expect(logged?.value).toBeGreaterThanOrEqual(1500);
+    expect(logged?.value).toBeLessThan(1510);
+
+    const history = await getEntryHistory("tracker-1");
+    expect(history.length).toBe(1);
+    expect(history[0].value).toBe(logged!.value);
+    expect(history[0].date).toBe(logged!.date);
+    expect(history[0].comment).toBe("Chapter 3 #fiction");
+    expect(logged?.created).toEqual([history[0].id]);
+    expect(await getRunningTimer("tracker-1")).toBeNull();
+  });
+
+  test("stopping a tracker without a timer does nothing", async () => {
+    expect(await stopTimer("tracker-1")).toBeNull();
+    expect(await getEntryHistory("tracker-1")).toEqual([]);
+  });
+
+  test("cancelling a timer discards it without an entry", async () => {
+    await startTimer("tracker-1");
+    await startTimer("tracker-2");
+    await cancelTimer("tracker-1");
+
+    const timers = await getRunningTimers();
+    expect(timers.map((t) => t.trackerId)).toEqual(["tracker-2"]);
+    expect(await getEntryHistory("tracker-1")).toEqual([]);
+  });
+
+  describe("Elapsed time", () => {
+    test("calculates whole elapsed seconds", () => {
+      const timer = {
+        trackerId: "tracker-1",
+        startedAt: "2024-01-01T10:00:00.000Z",
+      };
+
+      expect(
+        getElapsedSeconds(timer, new Date("2024-01-01T10:01:05.900Z"))
+      ).toBe(65);
+      expect(
+        getElapsedSeconds(timer, new Date("2024-01-01T09:00:00.000Z"))
+      ).toBe(0);
+    });
+
+    test("formats elapsed time like a stopwatch", () => {
+      expect(formatElapsed(5)).toBe("0:05");
+      expect(formatElapsed(245)).toBe("4:05");
+      expect(formatElapsed(3723)).toBe("1:02:03");
+    });
+  });
+});
@@ -0,0 +1,37 @@
+// Running timers are kept in the metadata store (see db.ts) so they survive
+// reloads and closing the app. Stopping a timer logs the elapsed time as an
+// entry on the day the timer was started.
+
+export type RunningTimer = {
+  trackerId: string;
+  startedAt: string; // ISO timestamp
+};
+
+/**
+ * Gets the time elapsed since a timer was started
+ * @param timer - The running timer
+ * @param now - The reference time (defaults to the current time)
+ * @returns Elapsed whole seconds (never negative)
+ */
+export function getElapsedSeconds(
+  timer: Pick<RunningTimer, "startedAt">,
+  now: Date = new Date()
+): number {
+  const elapsedMs = now.getTime() - new Date(timer.startedAt).getTime();
+  return Math.max(0, Math.floor(elapsedMs / 1000));
+}
+
+/**
+ * Formats elapsed seconds like a stopwatch
+ * @param seconds - Elapsed seconds
+ * @returns A string like "4:05" or "1:02:03"
+ */
+export function formatElapsed(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const remainingSeconds = seconds % 60;
+
+  const mm = hours > 0 ? minutes.toString().padStart(2, "0") : `${minutes}`;
+  const ss = remainingSeconds.toString().padStart(2, "0");
+  return hours > 0 ? `${hours}:${mm}:${ss}` : `${mm}:${ss}`;
+}
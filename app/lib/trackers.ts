@@ -1,52 +1,155 @@
+import { getRegisteredCustomUnit } from "./custom-units";
+import type { DisplayUnit } from "./number-conversions";
+
 export const trackerTypes = [
   "liters",
   "steps",
   "kilometers",
   "kilograms",
+  "duration",
   "none",
   "checkbox",
 ] as const;
 
-export type TrackerType = (typeof trackerTypes)[number];
+export type BuiltInTrackerType = (typeof trackerTypes)[number];
+
+// Trackers measured in a user-defined unit reference it as "custom:<unitId>"
+export type CustomTrackerType = `custom:${string}`;
+
+export type TrackerType = BuiltInTrackerType | CustomTrackerType;
+
+export type TrackerTypeLabels = {
+  shortest: string;
+  short: string;
+  long: string;
+};
 
-export const trackerTypesLabels: Record<
-  TrackerType,
+export const trackerTypesLabels: Record<BuiltInTrackerType, TrackerTypeLabels> =
   {
-    shortest: string;
-    short: string;
-    long: string;
+    none: {
+      shortest: "",
+      short: "None",
+      long: "None",
+    },
+    checkbox: {
+      shortest: "",
+      short: "Checkbox",
+      long: "Checkbox",
+    },
+    liters: {
+      shortest: "L",
+      short: "liters",
+      long: "Liters (L)",
+    },
+    steps: {
+      shortest: "steps",
+      short: "steps",
+      long: "Steps",
+    },
+    kilometers: {
+      shortest: "km",
+      short: "km",
+      long: "Kilometers (km)",
+    },
+    kilograms: {
+      shortest: "kg",
+      short: "kg",
+      long: "Kilograms (kg)",
+    },
+    duration: {
+      shortest: "",
+      short: "time",
+      long: "Duration (h:mm)",
+    },
+  };
+
+export const goalPeriods = ["day", "week", "month"] as const;
+
+export type GoalPeriod = (typeof goalPeriods)[number];
+
+export type GoalPeriodLabels = {
+  adjective: string;
+  singular: string;
+  plural: string;
+};
+
+export const goalPeriodsLabels: Record<GoalPeriod, GoalPeriodLabels> = {
+  day: { adjective: "Daily", singular: "day", plural: "days" },
+  week: { adjective: "Weekly", singular: "week", plural: "weeks" },
+  month: { adjective: "Monthly", singular: "month", plural: "months" },
+};
+
+export function isGoalPeriod(value: unknown): value is GoalPeriod {
+  return goalPeriods.includes(value as GoalPeriod);
+}
+
+// "range" goals use goal as the minimum and goalMax as the maximum
+export const goalDirections = ["atLeast", "atMost", "range"] as const;
+
+export type GoalDirection = (typeof goalDirections)[number];
+
+export const goalDirectionsLabels: Record<GoalDirection, string> = {
+  atLeast: "At least",
+  atMost: "At most",
+  range: "Within a range",
+};
+
+export function isGoalDirection(value: unknown): value is GoalDirection {
+  return goalDirections.includes(value as GoalDirection);
+}
+
+export function isCustomTrackerType(
+  type: TrackerType
+): type is CustomTrackerType {
+  return type.startsWith("custom:");
+}
+
+export function toCustomTrackerType(unitId: string): CustomTrackerType {
+  return `custom:${unitId}`;
+}
+
+export function getCustomUnitId(type: CustomTrackerType): string {
+  return type.slice("custom:".length);
+}
+
+/**
+ * Gets display labels for built-in and custom tracker types
+ * @param type - The tracker type
+ * @returns Labels for the type (falls back to "none" for unknown custom units)
+ */
+export function getTrackerTypeLabels(type: TrackerType): TrackerTypeLabels {
+  if (!isCustomTrackerType(type)) {
+    return trackerTypesLabels[type];
   }
-> = {
-  none: {
-    shortest: "",
-    short: "None",
-    long: "None",
-  },
-  checkbox: {
-    shortest: "",
-    short: "Checkbox",
-    long: "Checkbox",
-  },
-  liters: {
-    shortest: "L",
-    short: "liters",
-    long: "Liters (L)",
-  },
-  steps: {
-    shortest: "steps",
-    short: "steps",
-    long: "Steps",
-  },
-  kilometers: {
-    shortest: "km",
-    short: "km",
-    long: "Kilometers (km)",
-  },
-  kilograms: {
-    shortest: "kg",
-    short: "kg",
-    long: "Kilograms (kg)",
-  },
+
+  const unit = getRegisteredCustomUnit(getCustomUnitId(type));
+  if (!unit) {
+    return trackerTypesLabels.none;
+  }
+
+  return {
+    shortest: unit.shortest,
+    short: unit.short,
+    long: unit.shortest ? `${unit.label} (${unit.shortest})` : unit.label,
+  };
+}
+
+// A goal as it was set from effectiveFrom until the next version
+export type GoalVersion = {
+  effectiveFrom: string; // "yyyy-MM-dd"
+  goal?: number;
+  goalPeriod?: GoalPeriod;
+  goalDirection?: GoalDirection;
+  goalMax?: number;
+};
+
+// A reminder shown at a local time on some days of the week
+export type TrackerReminder = {
+  id: string;
+  time: string; // "HH:mm"
+  weekdays: number[]; // 0 (Sunday) to 6, like Date.getDay()
+  onlyIfGoalNotMet?: boolean;
+  quickAddValue?: number; // Stored value logged from the notification
 };
 
 export type Tracker = {
@@ -58,8 +161,84 @@ export type Tracker = {
     [dateString: string]: number;
   };
   goal?: number;
+  goalPeriod?: GoalPeriod; // Period the goal applies to (defaults to "day")
+  goalDirection?: GoalDirection; // Defaults to "atLeast"
+  goalMax?: number; // Upper bound of "range" goals
+  goalHistory?: GoalVersion[]; // Goal versions, oldest first
+  reminders?: TrackerReminder[];
   parentId?: string;
   isHidden?: boolean;
+  displayUnit?: DisplayUnit; // Overrides the unit system preference
   deletedAt?: Date;
   updatedAt?: Date; // Timestamp for when tracker metadata was last modified
+  fieldUpdatedAt?: Partial<Record<TrackerFieldGroup, Date>>; // Per field group
 };
+
+// Tracker properties that are synced together, each group with its own
+// timestamp so edits of different properties on two devices are all kept
+export type TrackerFieldGroup =
+  | "title"
+  | "type"
+  | "goal"
+  | "reminders"
+  | "parentId"
+  | "isHidden"
+  | "displayUnit"
+  | "deletedAt";
+
+export const trackerFieldGroups: Record<TrackerFieldGroup, (keyof Tracker)[]> =
+  {
+    title: ["title"],
+    type: ["type", "isNumber"],
+    goal: ["goal", "goalPeriod", "goalDirection", "goalMax"],
+    reminders: ["reminders"],
+    parentId: ["parentId"],
+    isHidden: ["isHidden"],
+    displayUnit: ["displayUnit"],
+    deletedAt: ["deletedAt"], // Deleting and restoring
+  };
+
+export const trackerFieldGroupNames = Object.keys(
+  trackerFieldGroups
+) as TrackerFieldGroup[];
+
+/**
+ * Gets when a group of tracker properties was last changed
+ * @returns The group timestamp, falling back to the tracker's updatedAt.
+ *   Deletions fall back to deletedAt, as deleting did not set updatedAt.
+ */
+export function getTrackerFieldUpdatedAt(
+  tracker: Pick<Tracker, "updatedAt" | "fieldUpdatedAt" | "deletedAt">,
+  group: TrackerFieldGroup
+): Date | undefined {
+  if (group === "deletedAt") {
+    return tracker.fieldUpdatedAt?.deletedAt ?? tracker.deletedAt;
+  }
+  return tracker.fieldUpdatedAt?.[group] ?? tracker.updatedAt;
+}
+
+/**
+ * Picks the properties of a field group from a tracker
+ */
+export function pickTrackerFields(
+  tracker: Partial<Tracker>,
+  group: TrackerFieldGroup
+): Partial<Tracker> {
+  return Object.fromEntries(
+    trackerFieldGroups[group].map((field) => [field, tracker[field]])
+  );
+}
+
+/**
+ * Lists the field groups whose values differ between two tracker versions
+ */
+export function getChangedTrackerFields(
+  previous: Partial<Tracker>,
+  next: Partial<Tracker>
+): TrackerFieldGroup[] {
+  return trackerFieldGroupNames.filter(
+    (group) =>
+      JSON.stringify(pickTrackerFields(previous, group)) !==
+      JSON.stringify(pickTrackerFields(next, group))
+  );
+}
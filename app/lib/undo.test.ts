@@ -0,0 +1,154 @@
+import {
+  describe,
+  test,
+  expect,
+  beforeAll,
+  beforeEach,
+  afterEach,
+  afterAll,
+} from "bun:test";
+import {
+  clearAllData,
+  createEntry,
+  deleteEntryById,
+  deleteTracker,
+  getDB,
+  getTrackerById,
+  saveTrackerWithId,
+  updateTracker,
+} from "./db";
+import { debouncedDataChange } from "./data-change-events";
+import {
+  canRedo,
+  canUndo,
+  clearUndoHistory,
+  createEntryChangesUndo,
+  createTrackerDeletionUndo,
+  createTrackerUpdateUndo,
+  pushUndo,
+  redo,
+  undo,
+} from "./undo";
+
+// Mock IndexedDB for testing
+import "fake-indexeddb/auto";
+
+const getStoredEntry = async (id: string) => (await getDB()).get("entries", id);
+
+describe("Undo", () => {
+  // Undo events are dispatched on window. Other tests rely on it missing.
+  const globals = globalThis as { window?: EventTarget };
+  beforeAll(() => {
+    globals.window = new EventTarget();
+  });
+
+  afterAll(() => {
+    delete globals.window;
+  });
+
+  beforeEach(async () => {
+    await clearAllData();
+    clearUndoHistory();
+    await saveTrackerWithId(
+      { id: "parent", title: "Drinks", type: "liters", isNumber: true },
+      true
+    );
+    await saveTrackerWithId(
+      {
+        id: "tracker-1",
+        title: "Water",
+        type: "liters",
+        isNumber: true,
+        parentId: "parent",
+      },
+      true
+    );
+  });
+
+  afterEach(() => {
+    debouncedDataChange.cleanup();
+  });
+
+  test("undoes and redoes adding an entry, including the parent copy", async () => {
+    const created = await createEntry("tracker-1", "2024-01-01", 250);
+    expect(created).toHaveLength(2);
+    pushUndo(createEntryChangesUndo("Entry added", "tracker-1", { created }));
+
+    expect((await undo())?.label).toBe("Entry added");
+    for (const id of created) {
+      expect((await getStoredEntry(id))?.deletedAt).toBeInstanceOf(Date);
+    }
+    expect(canUndo()).toBe(false);
+    expect(canRedo()).toBe(true);
+
+    await redo();
+    for (const id of created) {
+      expect((await getStoredEntry(id))?.deletedAt).toBeUndefined();
+    }
+    expect(canUndo()).toBe(true);
+  });
+
+  test("undoes replacing entries by restoring the deleted ones", async () => {
+    const [first] = await createEntry("tracker-1", "2024-01-01", 1, true);
+    await deleteEntryById(first);
+    const created = await createEntry("tracker-1", "2024-01-01", 1, true);
+    pushUndo(
+      createEntryChangesUndo("Entry updated", "tracker-1", {
+        created,
+        deleted: [first],
+      })
+    );
+
+    await undo();
+    expect((await getStoredEntry(first))?.deletedAt).toBeUndefined();
+    expect((await getStoredEntry(created[0]))?.deletedAt).toBeInstanceOf(Date);
+
+    await redo();
+    expect((await getStoredEntry(first))?.deletedAt).toBeInstanceOf(Date);
+    expect((await getStoredEntry(created[0]))?.deletedAt).toBeUndefined();
+  });
+
+  test("undoes deleting a tracker with its entries", async () => {
+    const [entryId] = await createEntry("tracker-1", "2024-01-01", 250, true);
+    const tracker = (await getTrackerById("tracker-1"))!;
+    await deleteTracker("tracker-1");
+    pushUndo(createTrackerDeletionUndo(tracker));
+
+    await undo();
+    expect(await getTrackerById("tracker-1")).not.toBeNull();
+    expect((await getStoredEntry(entryId))?.deletedAt).toBeUndefined();
+
+    await redo();
+    expect(await getTrackerById("tracker-1")).toBeNull();
+  });
+
+  test("undoes a tracker update as a new change", async () => {
+    const previous = (await getTrackerById("tracker-1"))!;
+    const updated = { ...previous, title: "Sparkling water" };
+    const { fieldUpdatedAt } = await updateTracker({ ...updated });
+    pushUndo(createTrackerUpdateUndo(previous, updated));
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await undo();
+    const tracker = await getTrackerById("tracker-1");
+    expect(tracker?.title).toBe("Water");
+    // Newer than the update, so sync doesn't bring the update back
+    expect(tracker?.fieldUpdatedAt?.title!.getTime()).toBeGreaterThan(
+      fieldUpdatedAt!.title!.getTime()
+    );
+  });
+
+  test("a new change clears the redo stack", async () => {
+    const created = await createEntry("tracker-1", "2024-01-01", 250, true);
+    pushUndo(createEntryChangesUndo("Entry added", "tracker-1", { created }));
+    await undo();
+    expect(canRedo()).toBe(true);
+
+    const more = await createEntry("tracker-1", "2024-01-02", 250, true);
+    pushUndo(
+      createEntryChangesUndo("Entry added", "tracker-1", { created: more })
+    );
+    expect(canRedo()).toBe(false);
+    expect(await redo()).toBeNull();
+  });
+});
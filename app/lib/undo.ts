@@ -0,0 +1,185 @@
+// App-wide undo and redo of entry and tracker changes. Every change is
+// undone with another change (restoring soft-deleted records, writing back
+// the previous tracker settings), so sync sees undo and redo as regular
+// edits. While a change can still be undone from the toast, the debounced
+// data change event that triggers sync is held back, so the sync after a
+// change doesn't start before the change can't be undone anymore. A periodic
+// sync may still upload it, and then uploads the undo like any other edit.
+
+import { debouncedDataChange } from "./data-change-events";
+import {
+  deleteEntryById,
+  deleteTracker,
+  restoreEntry,
+  restoreTracker,
+  updateTracker,
+} from "./db";
+import type { Tracker } from "./trackers";
+import { createTypedEvent } from "./typed-events";
+
+// How long the toast offers to undo a change
+export const UNDO_TIMEOUT_MS = 5000;
+
+const MAX_UNDO_STEPS = 50;
+
+export interface UndoAction {
+  label: string;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+export interface UndoEvent {
+  type: "done" | "undone" | "redone";
+  label: string;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+const undoEvent = createTypedEvent<UndoEvent>("anythingtracker:undo");
+
+export const useUndoListener = undoEvent.useListener;
+
+const undoStack: UndoAction[] = [];
+const redoStack: UndoAction[] = [];
+let isRunning = false;
+
+function notify(type: UndoEvent["type"], action: UndoAction): void {
+  debouncedDataChange.hold(UNDO_TIMEOUT_MS);
+  undoEvent.dispatch({
+    type,
+    label: action.label,
+    canUndo: undoStack.length > 0,
+    canRedo: redoStack.length > 0,
+  });
+}
+
+// Record a change that was just made
+export function pushUndo(action: UndoAction): void {
+  undoStack.push(action);
+  if (undoStack.length > MAX_UNDO_STEPS) {
+    undoStack.shift();
+  }
+  redoStack.length = 0;
+  notify("done", action);
+}
+
+async function move(
+  from: UndoAction[],
+  to: UndoAction[],
+  run: (action: UndoAction) => Promise<void>,
+  type: UndoEvent["type"]
+): Promise<UndoAction | null> {
+  const action = from.at(-1);
+  if (!action || isRunning) {
+    return null;
+  }
+
+  isRunning = true;
+  try {
+    await run(action);
+  } finally {
+    isRunning = false;
+  }
+
+  from.pop();
+  to.push(action);
+  notify(type, action);
+  return action;
+}
+
+// Undo the last change. Returns it, or null if there is nothing to undo.
+export function undo(): Promise<UndoAction | null> {
+  return move(undoStack, redoStack, (action) => action.undo(), "undone");
+}
+
+// Redo the last undone change. Returns it, or null if there is nothing to redo.
+export function redo(): Promise<UndoAction | null> {
+  return move(redoStack, undoStack, (action) => action.redo(), "redone");
+}
+
+export function canUndo(): boolean {
+  return undoStack.length > 0;
+}
+
+export function canRedo(): boolean {
+  return redoStack.length > 0;
+}
+
+export function clearUndoHistory(): void {
+  undoStack.length = 0;
+  redoStack.length = 0;
+}
+
+/**
+ * Creates the undo action of entries that were created and deleted together
+ * @param created - IDs of the created entries, including copies for parents
+ * @param deleted - IDs of the deleted entries
+ */
+export function createEntryChangesUndo(
+  label: string,
+  trackerId: string,
+  { created = [], deleted = [] }: { created?: string[]; deleted?: string[] }
+): UndoAction {
+  return {
+    label,
+    undo: async () => {
+      for (const id of created) {
+        await deleteEntryById(id);
+      }
+      for (const id of deleted) {
+        await restoreEntry(id);
+      }
+      debouncedDataChange.dispatch("entry_updated", { trackerId });
+    },
+    redo: async () => {
+      for (const id of deleted) {
+        await deleteEntryById(id);
+      }
+      for (const id of created) {
+        await restoreEntry(id);
+      }
+      debouncedDataChange.dispatch("entry_updated", { trackerId });
+    },
+  };
+}
+
+// Creates the undo action of a tracker update, writing back either version
+export function createTrackerUpdateUndo(
+  previous: Tracker,
+  updated: Tracker
+): UndoAction {
+  return {
+    label: `${updated.title} updated`,
+    undo: async () => {
+      await updateTracker({ ...previous });
+      debouncedDataChange.dispatch("tracker_updated", {
+        trackerId: previous.id,
+      });
+    },
+    redo: async () => {
+      await updateTracker({ ...updated });
+      debouncedDataChange.dispatch("tracker_updated", {
+        trackerId: updated.id,
+      });
+    },
+  };
+}
+
+// Creates the undo action of deleting a tracker along with its entries
+export function createTrackerDeletionUndo(tracker: Tracker): UndoAction {
+  return {
+    label: `${tracker.title} deleted`,
+    undo: async () => {
+      await restoreTracker(tracker.id);
+      debouncedDataChange.dispatch("tracker_updated", {
+        trackerId: tracker.id,
+      });
+    },
+    redo: async () => {
+      await deleteTracker(tracker.id);
+      debouncedDataChange.dispatch("tracker_deleted", {
+        trackerId: tracker.id,
+      });
+    },
+  };
+}
@@ -5,8 +5,42 @@ export const SETTINGS_KEYS = {
   GITHUB_TOKEN: "github_token",
   GIST_ID: "gist_id",
   ENCRYPTION_ENABLED: "encryption_enabled",
+  UNIT_SYSTEM: "unit_system",
+  SYNC_BACKEND: "sync_backend",
+  WEBDAV_SYNC_CONFIG: "webdav_sync_config",
+  HTTP_SYNC_CONFIG: "http_sync_config",
+  TOMBSTONE_RETENTION_DAYS: "tombstone_retention_days",
 } as const;
 
+// Deleted items are kept this long for sync before they are purged
+export const DEFAULT_TOMBSTONE_RETENTION_DAYS = 90;
+
+export type UnitSystem = "metric" | "imperial";
+
+export const syncBackendTypes = ["gist", "webdav", "http"] as const;
+export type SyncBackendType = (typeof syncBackendTypes)[number];
+
+export type WebDavSyncConfig = {
+  url: string; // Folder URL, the data file is stored inside
+  username: string;
+  password: string;
+  // Encryption key source. Configurations saved before it existed derive
+  // the key from the password.
+  passphrase?: string;
+};
+
+export type HttpSyncConfig = {
+  url: string; // Endpoint answering GET, PUT and HEAD for the data file
+  token?: string;
+  // Encryption key source. Configurations saved before it existed derive
+  // the key from the token.
+  passphrase?: string;
+};
+
+export function isSyncBackendType(value: unknown): value is SyncBackendType {
+  return syncBackendTypes.includes(value as SyncBackendType);
+}
+
 /**
  * Get a value from localStorage safely
  * @param key - The localStorage key
@@ -115,3 +149,120 @@ export function getEncryptionEnabled(): boolean {
 export function setEncryptionEnabled(enabled: boolean): void {
   setLocalStorageItem(SETTINGS_KEYS.ENCRYPTION_ENABLED, enabled.toString());
 }
+
+/**
+ * Get the preferred unit system for displaying values
+ * @returns The unit system, "metric" if not set
+ */
+export function getUnitSystem(): UnitSystem {
+  const value = getLocalStorageItem(SETTINGS_KEYS.UNIT_SYSTEM);
+  return value === "imperial" ? "imperial" : "metric";
+}
+
+/**
+ * Set the preferred unit system for displaying values
+ * @param unitSystem - The unit system
+ */
+export function setUnitSystem(unitSystem: UnitSystem): void {
+  setLocalStorageItem(SETTINGS_KEYS.UNIT_SYSTEM, unitSystem);
+}
+
+/**
+ * Get the selected sync backend
+ * @returns The sync backend, "gist" if not set
+ */
+export function getSyncBackendType(): SyncBackendType {
+  const value = getLocalStorageItem(SETTINGS_KEYS.SYNC_BACKEND);
+  return isSyncBackendType(value) ? value : "gist";
+}
+
+/**
+ * Set the sync backend
+ * @param backend - The sync backend
+ */
+export function setSyncBackendType(backend: SyncBackendType): void {
+  setLocalStorageItem(SETTINGS_KEYS.SYNC_BACKEND, backend);
+}
+
+/**
+ * Get how long deleted items are kept for other devices to sync the deletion
+ * @returns The number of days, 0 to keep them forever
+ */
+export function getTombstoneRetentionDays(): number {
+  const value = getLocalStorageItem(SETTINGS_KEYS.TOMBSTONE_RETENTION_DAYS);
+  const days = value === null ? NaN : Number(value);
+  return Number.isInteger(days) && days >= 0
+    ? days
+    : DEFAULT_TOMBSTONE_RETENTION_DAYS;
+}
+
+/**
+ * Set how long deleted items are kept for other devices to sync the deletion
+ * @param days - The number of days, 0 to keep them forever
+ */
+export function setTombstoneRetentionDays(days: number): void {
+  setLocalStorageItem(SETTINGS_KEYS.TOMBSTONE_RETENTION_DAYS, days.toString());
+}
+
+/**
+ * Read a JSON object from localStorage
+ * @param key - The localStorage key
+ * @returns The parsed object or null if not set or invalid
+ */
+function getLocalStorageJson<T>(key: string): T | null {
+  const value = getLocalStorageItem(key);
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the WebDAV sync configuration
+ * @returns The configuration or null if not set
+ */
+export function getWebDavSyncConfig(): WebDavSyncConfig | null {
+  return getLocalStorageJson<WebDavSyncConfig>(
+    SETTINGS_KEYS.WEBDAV_SYNC_CONFIG
+  );
+}
+
+/**
+ * Set the WebDAV sync configuration
+ * @param config - The server URL and credentials
+ */
+export function setWebDavSyncConfig(config: WebDavSyncConfig): void {
+  setLocalStorageItem(SETTINGS_KEYS.WEBDAV_SYNC_CONFIG, JSON.stringify(config));
+}
+
+/**
+ * Remove the WebDAV sync configuration
+ */
+export function removeWebDavSyncConfig(): void {
+  removeLocalStorageItem(SETTINGS_KEYS.WEBDAV_SYNC_CONFIG);
+}
+
+/**
+ * Get the HTTP endpoint sync configuration
+ * @returns The configuration or null if not set
+ */
+export function getHttpSyncConfig(): HttpSyncConfig | null {
+  return getLocalStorageJson<HttpSyncConfig>(SETTINGS_KEYS.HTTP_SYNC_CONFIG);
+}
+
+/**
+ * Set the HTTP endpoint sync configuration
+ * @param config - The endpoint URL and optional token
+ */
+export function setHttpSyncConfig(config: HttpSyncConfig): void {
+  setLocalStorageItem(SETTINGS_KEYS.HTTP_SYNC_CONFIG, JSON.stringify(config));
+}
+
+/**
+ * Remove the HTTP endpoint sync configuration
+ */
+export function removeHttpSyncConfig(): void {
+  removeLocalStorageItem(SETTINGS_KEYS.HTTP_SYNC_CONFIG);
+}
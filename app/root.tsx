@@ -9,7 +9,10 @@ import {
 import { useEffect } from "react";
 import type { Route } from "./+types/root";
 import { SyncProvider } from "~/components/SyncProvider";
+import { UndoToast } from "~/components/UndoToast";
 import { usePwaInstall } from "~/lib/hooks/usePwaInstall";
+import { useDailyBackup } from "~/lib/hooks/useDailyBackup";
+import { useReminders } from "~/lib/hooks/useReminders";
 
 import "./app.css";
 
@@ -64,6 +67,8 @@ export function Layout({ children }: { children: React.ReactNode }) {
 
 export default function App() {
   usePwaInstall();
+  useReminders();
+  useDailyBackup();
 
   useEffect(() => {
     // Register service worker for PWA functionality
@@ -82,7 +87,12 @@ export default function App() {
     }
   }, []);
 
-  return <Outlet />;
+  return (
+    <>
+      <Outlet />
+      <UndoToast />
+    </>
+  );
 }
 
 export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
@@ -7,22 +7,38 @@ import {
   ChevronRight,
   ListTree,
   Plus,
+  Search,
   Settings,
 } from "lucide-react";
 import { useState, useEffect } from "react";
 import { Link, redirect, useLoaderData } from "react-router";
 import { Button } from "~/components/ui/button";
 import { Separator } from "~/components/ui/separator";
-import { formatDateForDisplay, getDaysArray, isDateToday } from "~/lib/dates";
-import { getAllTrackers } from "~/lib/db";
-import { formatStoredValue } from "~/lib/number-conversions";
+import {
+  formatDateForDisplay,
+  getDaysArray,
+  isDateToday,
+  parseLocalDate,
+} from "~/lib/dates";
+import { getAllTrackers, getRunningTimers } from "~/lib/db";
+import {
+  getGoalForDate,
+  getGoalPeriodTotal,
+  hasGoal,
+  isGoalExceeded,
+  isGoalMet,
+} from "~/lib/goals";
+import {
+  formatStoredValue,
+  getShortUnitLabel,
+} from "~/lib/number-conversions";
 import { SyncButton } from "~/components/SyncButton";
 import { isOnboardingCompleted } from "~/lib/github-gist-sync";
 import { getShowHiddenTrackers } from "~/lib/user-settings";
 import clsx from "clsx";
 import type { Tracker } from "~/lib/trackers";
-import { trackerTypesLabels } from "~/lib/trackers";
 import { InstallPwaPrompt } from "~/components/InstallPwaPrompt";
+import { GoalPeriodProgress, RunningTimers } from "~/components/tracker";
 import {
   Empty,
   EmptyHeader,
@@ -41,6 +57,7 @@ export async function clientLoader() {
 
   try {
     const trackers = await getAllTrackers();
+    const runningTimers = await getRunningTimers();
     let savedExpandedTrackers: string[] = [];
     try {
       const stored = localStorage.getItem("expandedTrackers");
@@ -48,7 +65,7 @@ export async function clientLoader() {
     } catch {
       savedExpandedTrackers = [];
     }
-    return { trackers, savedExpandedTrackers };
+    return { trackers, runningTimers, savedExpandedTrackers };
   } catch (error) {
     throw new Response("Failed to load trackers", { status: 500 });
   }
@@ -67,7 +84,7 @@ export function meta() {
 }
 
 export default function Home() {
-  const { trackers, savedExpandedTrackers } =
+  const { trackers, runningTimers, savedExpandedTrackers } =
     useLoaderData<typeof clientLoader>();
   const [currentLastDate, setCurrentLastDate] = useState(() => new Date());
   const [showHiddenTrackers, setShowHiddenTrackers] = useState(() =>
@@ -194,6 +211,11 @@ export default function Home() {
               <BarChart3 className="h-4 w-4" />
             </Link>
           </Button>
+          <Button asChild variant="ghost" size="icon">
+            <Link to="/search" prefetch="viewport">
+              <Search className="h-4 w-4" />
+            </Link>
+          </Button>
           <SyncButton />
         </div>
         <div className="flex items-center gap-2">
@@ -210,6 +232,7 @@ export default function Home() {
       </div>
       <InstallPwaPrompt />
       <div className="flex flex-col py-6">
+        <RunningTimers timers={runningTimers} trackers={trackers} />
         {sortedTrackers.length === 0 ? (
           <Empty className="my-8">
             <EmptyHeader>
@@ -311,6 +334,7 @@ export default function Home() {
                       >
                         {tracker.title}
                       </span>
+                      <GoalPeriodProgress tracker={tracker} />
                     </Link>
                   </div>
                   <div
@@ -321,6 +345,16 @@ export default function Home() {
                   >
                     {datesToShow.map((dateString) => {
                       const value = tracker.values[dateString] || 0;
+                      const goal = getGoalForDate(tracker, dateString);
+                      // Weekly/monthly goals are checked against the period-to-date total
+                      const goalProgress =
+                        goal.goalPeriod && goal.goalPeriod !== "day"
+                          ? getGoalPeriodTotal(
+                              tracker.values,
+                              goal.goalPeriod,
+                              parseLocalDate(dateString)
+                            )
+                          : value;
 
                       return (
                         <div
@@ -329,16 +363,26 @@ export default function Home() {
                             {
                               "opacity-50": value === 0,
                               "text-zinc-400":
-                                tracker.goal && value < tracker.goal,
-                              "text-green-600":
-                                tracker.goal && value >= tracker.goal,
+                                hasGoal(goal) &&
+                                !isGoalMet(goalProgress, goal) &&
+                                !isGoalExceeded(goalProgress, goal),
+                              "text-green-600": isGoalMet(goalProgress, goal),
+                              "text-red-600": isGoalExceeded(
+                                goalProgress,
+                                goal
+                              ),
                             }
                           )}
                           key={dateString}
                         >
                           {tracker.type !== "checkbox" ? (
                             <span className="font-semibold text-xs">
-                              {formatStoredValue(value, tracker.type)}
+                              {formatStoredValue(
+                                value,
+                                tracker.type,
+                                false,
+                                tracker.displayUnit
+                              )}
                             </span>
                           ) : (
                             <>
@@ -349,9 +393,14 @@ export default function Home() {
                           )}
 
                           {tracker.type !== "checkbox" &&
-                            tracker.type !== "none" && (
+                            tracker.type !== "none" &&
+                            // Durations already include their units
+                            tracker.type !== "duration" && (
                               <span className="text-xs opacity-60">
-                                {trackerTypesLabels[tracker.type].short}
+                                {getShortUnitLabel(
+                                  tracker.type,
+                                  tracker.displayUnit
+                                )}
                               </span>
                             )}
                           <Link
@@ -0,0 +1,226 @@
+import { format } from "date-fns";
+import {
+  ArchiveRestore,
+  ChevronLeft,
+  Download,
+  RotateCcw,
+  Save,
+} from "lucide-react";
+import { useMemo } from "react";
+import {
+  Form,
+  Link,
+  useActionData,
+  useLoaderData,
+  useNavigation,
+} from "react-router";
+import type { ClientActionFunctionArgs } from "react-router";
+import { Button } from "~/components/ui/button";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "~/components/ui/empty";
+import { debouncedDataChange } from "~/lib/data-change-events";
+import {
+  KEEP_DAILY_BACKUPS,
+  KEEP_WEEKLY_BACKUPS,
+  backupReasonsLabels,
+  createBackup,
+  downloadDataAsJson,
+  restoreBackup,
+} from "~/lib/data";
+import { type Backup, getBackupData, getBackups } from "~/lib/db";
+import { formatBytes } from "~/lib/file-size";
+
+export async function clientLoader() {
+  try {
+    return { backups: await getBackups() };
+  } catch (error) {
+    throw new Response("Failed to load backups", { status: 500 });
+  }
+}
+
+export async function clientAction({ request }: ClientActionFunctionArgs) {
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  try {
+    if (intent === "backup") {
+      const backup = await createBackup("manual");
+      if (!backup) {
+        return { error: "There is no data to back up" };
+      }
+      return { success: true, message: "Backup created" };
+    }
+
+    if (intent === "restore") {
+      await restoreBackup(formData.get("id") as string);
+      debouncedDataChange.dispatch("data_imported");
+      return {
+        success: true,
+        message: "Backup restored. The data it replaced was backed up before.",
+      };
+    }
+
+    return { success: false };
+  } catch (error) {
+    console.error("Failed to update backups:", error);
+    return {
+      error:
+        error instanceof Error ? error.message : "Failed to update backups",
+    };
+  }
+}
+
+export function meta() {
+  return [
+    { title: "Backups - AnythingTracker" },
+    {
+      name: "description",
+      content: "Restore or download backups of your data",
+    },
+    { name: "viewport", content: "width=device-width, initial-scale=1" },
+  ];
+}
+
+function BackupItem({ backup }: { backup: Backup }) {
+  const navigation = useNavigation();
+  const label = format(backup.createdAt, "PPp");
+
+  const handleRestore = (e: React.FormEvent) => {
+    if (
+      !confirm(
+        `Are you sure you want to replace all data with the backup of ${label}?`
+      )
+    ) {
+      e.preventDefault();
+    }
+  };
+
+  const handleDownload = async () => {
+    const data = await getBackupData(backup.id);
+    if (data) {
+      await downloadDataAsJson(data);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between border rounded-xl px-4 py-3">
+      <div className="flex flex-col">
+        <span className="text-sm font-medium">{label}</span>
+        <span className="text-xs text-muted-foreground">
+          {backupReasonsLabels[backup.reason]} · {backup.trackerCount} trackers
+          · {backup.entryCount} entries · {formatBytes(backup.size)}
+        </span>
+      </div>
+      <div className="flex">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={handleDownload}
+          aria-label={`Download backup of ${label}`}
+        >
+          <Download className="h-4 w-4" />
+        </Button>
+        <Form method="post" onSubmit={handleRestore}>
+          <input type="hidden" name="intent" value="restore" />
+          <input type="hidden" name="id" value={backup.id} />
+          <Button
+            type="submit"
+            variant="ghost"
+            size="icon"
+            disabled={navigation.state !== "idle"}
+            aria-label={`Restore backup of ${label}`}
+          >
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+        </Form>
+      </div>
+    </div>
+  );
+}
+
+export default function BackupsPage() {
+  const { backups } = useLoaderData<typeof clientLoader>();
+  const actionData = useActionData<typeof clientAction>();
+  const navigation = useNavigation();
+
+  const message = useMemo(() => {
+    if (actionData && "message" in actionData) {
+      return actionData.message;
+    }
+    return undefined;
+  }, [actionData]);
+
+  const error = useMemo(() => {
+    if (actionData && "error" in actionData) {
+      return actionData.error;
+    }
+    return undefined;
+  }, [actionData]);
+
+  return (
+    <div>
+      <div className="fixed z-50 select-none pointer-events-none top-0 left-0 right-0 h-5 bg-linear-to-b from-black/80 to-black/0" />
+      <div className="w-full h-16 flex items-center justify-between">
+        <div className="flex gap-4 items-center">
+          <Button asChild variant="ghost" size="icon">
+            <Link to="/settings" prefetch="viewport">
+              <ChevronLeft />
+            </Link>
+          </Button>
+          <span className="font-medium">Backups</span>
+        </div>
+        <Form method="post">
+          <input type="hidden" name="intent" value="backup" />
+          <Button
+            type="submit"
+            variant="ghost"
+            size="icon"
+            disabled={navigation.state !== "idle"}
+            aria-label="Back up now"
+          >
+            <Save className="h-4 w-4" />
+          </Button>
+        </Form>
+      </div>
+
+      <div className="flex flex-col py-6 gap-4">
+        {message && <div className="text-green-600 text-sm">{message}</div>}
+        {error && <div className="text-red-600 text-sm">{error}</div>}
+
+        {backups.length === 0 ? (
+          <Empty>
+            <EmptyHeader>
+              <EmptyMedia variant="icon">
+                <ArchiveRestore className="h-6 w-6" />
+              </EmptyMedia>
+              <EmptyTitle>No backups yet</EmptyTitle>
+              <EmptyDescription>
+                Your data is backed up daily and before imports and syncs change
+                it.
+              </EmptyDescription>
+            </EmptyHeader>
+          </Empty>
+        ) : (
+          <>
+            <div className="flex flex-col gap-2">
+              {backups.map((backup) => (
+                <BackupItem key={backup.id} backup={backup} />
+              ))}
+            </div>
+
+            <div className="text-xs text-muted-foreground">
+              Backups are stored on this device only. The latest backups are
+              kept, plus one for each of the last {KEEP_DAILY_BACKUPS} days and{" "}
+              {KEEP_WEEKLY_BACKUPS} weeks. Restoring a backup replaces all data.
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,323 @@
+import { ChevronLeft, Plus, Ruler, Trash2 } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import {
+  Form,
+  Link,
+  useActionData,
+  useLoaderData,
+  useNavigation,
+} from "react-router";
+import type { ClientActionFunctionArgs } from "react-router";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "~/components/ui/empty";
+import {
+  deleteCustomUnit,
+  getAllCustomUnits,
+  getAllTrackers,
+  saveCustomUnit,
+} from "~/lib/db";
+import { validateCustomUnit } from "~/lib/custom-units";
+import { debouncedDataChange } from "~/lib/data-change-events";
+import { formatStoredValue } from "~/lib/number-conversions";
+import { toCustomTrackerType } from "~/lib/trackers";
+
+type CustomUnitsPageErrors = {
+  label?: string;
+  short?: string;
+  factor?: string;
+  decimals?: string;
+  general?: string;
+};
+
+export async function clientLoader() {
+  try {
+    const customUnits = await getAllCustomUnits();
+    const trackers = await getAllTrackers();
+
+    // Units that are in use cannot be deleted
+    const usedUnitTypes = new Set<string>(trackers.map((t) => t.type));
+    const units = customUnits.map((unit) => ({
+      unit,
+      isUsed: usedUnitTypes.has(toCustomTrackerType(unit.id)),
+    }));
+
+    return { units };
+  } catch (error) {
+    throw new Response("Failed to load custom units", { status: 500 });
+  }
+}
+
+export async function clientAction({ request }: ClientActionFunctionArgs) {
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  try {
+    if (intent === "create") {
+      const unit = {
+        label: ((formData.get("label") as string) || "").trim(),
+        short: ((formData.get("short") as string) || "").trim(),
+        shortest: ((formData.get("shortest") as string) || "").trim(),
+        factor: Number(formData.get("factor")),
+        decimals: Number(formData.get("decimals")),
+      };
+
+      const errors = validateCustomUnit(unit);
+      if (Object.keys(errors).length > 0) {
+        return { error: errors };
+      }
+
+      await saveCustomUnit(unit);
+      debouncedDataChange.dispatch("custom_unit_updated");
+      return { success: true };
+    }
+
+    if (intent === "delete") {
+      const unitId = formData.get("unitId") as string;
+      const trackers = await getAllTrackers();
+      if (trackers.some((t) => t.type === toCustomTrackerType(unitId))) {
+        return {
+          error: { general: "This unit is used by a tracker" },
+        };
+      }
+
+      await deleteCustomUnit(unitId);
+      debouncedDataChange.dispatch("custom_unit_updated");
+      return { success: true };
+    }
+
+    return { success: false };
+  } catch (error) {
+    console.error("Failed to update custom units:", error);
+    return { error: { general: "Failed to update custom units" } };
+  }
+}
+
+export function meta() {
+  return [
+    { title: "Custom Units - AnythingTracker" },
+    {
+      name: "description",
+      content: "Define your own measurement units for trackers",
+    },
+    { name: "viewport", content: "width=device-width, initial-scale=1" },
+  ];
+}
+
+export default function CustomUnitsPage() {
+  const { units } = useLoaderData<typeof clientLoader>();
+  const navigation = useNavigation();
+  const actionData = useActionData<typeof clientAction>();
+
+  const [label, setLabel] = useState("");
+  const [short, setShort] = useState("");
+  const [shortest, setShortest] = useState("");
+  const [factor, setFactor] = useState("1000");
+  const [decimals, setDecimals] = useState("3");
+
+  const errors = useMemo((): CustomUnitsPageErrors => {
+    if (actionData && "error" in actionData && actionData.error) {
+      return actionData.error;
+    }
+    return {};
+  }, [actionData]);
+
+  const isCreating =
+    navigation.state === "submitting" &&
+    navigation.formData?.get("intent") === "create";
+
+  // Reset the form after a unit was created
+  useEffect(() => {
+    if (actionData && "success" in actionData && actionData.success) {
+      setLabel("");
+      setShort("");
+      setShortest("");
+      setFactor("1000");
+      setDecimals("3");
+    }
+  }, [actionData]);
+
+  const handleDelete = (e: React.FormEvent, unitLabel: string) => {
+    if (!confirm(`Are you sure you want to delete the unit "${unitLabel}"?`)) {
+      e.preventDefault();
+    }
+  };
+
+  return (
+    <div>
+      <div className="fixed z-50 select-none pointer-events-none top-0 left-0 right-0 h-5 bg-linear-to-b from-black/80 to-black/0" />
+      <div className="w-full h-16 flex items-center justify-between">
+        <div className="flex gap-4 items-center">
+          <Button asChild variant="ghost" size="icon">
+            <Link to="/settings" prefetch="viewport">
+              <ChevronLeft />
+            </Link>
+          </Button>
+          <span className="font-medium">Custom Units</span>
+        </div>
+      </div>
+
+      <div className="flex flex-col py-6 gap-4">
+        {units.length === 0 ? (
+          <Empty>
+            <EmptyHeader>
+              <EmptyMedia variant="icon">
+                <Ruler className="h-6 w-6" />
+              </EmptyMedia>
+              <EmptyTitle>No custom units yet</EmptyTitle>
+              <EmptyDescription>
+                Define units like minutes, pages or cups and use them as the
+                measurement unit of your trackers.
+              </EmptyDescription>
+            </EmptyHeader>
+          </Empty>
+        ) : (
+          <div className="flex flex-col gap-2">
+            {units.map(({ unit, isUsed }) => (
+              <div
+                key={unit.id}
+                className="flex items-center justify-between border rounded-xl px-4 py-3"
+              >
+                <div className="flex flex-col">
+                  <span className="text-sm font-medium">{unit.label}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {unit.short} · e.g.{" "}
+                    {formatStoredValue(
+                      Math.round(1.5 * unit.factor),
+                      toCustomTrackerType(unit.id),
+                      true
+                    )}
+                  </span>
+                </div>
+                <Form
+                  method="post"
+                  onSubmit={(e) => handleDelete(e, unit.label)}
+                >
+                  <input type="hidden" name="intent" value="delete" />
+                  <input type="hidden" name="unitId" value={unit.id} />
+                  <Button
+                    type="submit"
+                    variant="ghost"
+                    size="icon"
+                    disabled={isUsed || navigation.state !== "idle"}
+                    aria-label={`Delete ${unit.label}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </Form>
+              </div>
+            ))}
+            <div className="text-xs text-muted-foreground">
+              Units that are used by a tracker cannot be deleted.
+            </div>
+          </div>
+        )}
+
+        {errors.general && (
+          <div className="text-red-600 text-sm">{errors.general}</div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>New unit</CardTitle>
+            <CardDescription>
+              Values are stored as whole numbers multiplied by the storage
+              factor, e.g. a factor of 100 stores 1.25 as 125
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form method="post" className="flex flex-col gap-4">
+              <input type="hidden" name="intent" value="create" />
+              <div className="grid items-center gap-3">
+                <Label htmlFor="unitLabel">Unit name</Label>
+                <Input
+                  id="unitLabel"
+                  name="label"
+                  placeholder="Minutes"
+                  value={label}
+                  onChange={(e) => setLabel(e.target.value)}
+                />
+                {errors.label && (
+                  <div className="text-red-600 text-sm">{errors.label}</div>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid items-center gap-3">
+                  <Label htmlFor="unitShort">Short name</Label>
+                  <Input
+                    id="unitShort"
+                    name="short"
+                    placeholder="min"
+                    value={short}
+                    onChange={(e) => setShort(e.target.value)}
+                  />
+                  {errors.short && (
+                    <div className="text-red-600 text-sm">{errors.short}</div>
+                  )}
+                </div>
+                <div className="grid items-center gap-3">
+                  <Label htmlFor="unitShortest">Symbol (optional)</Label>
+                  <Input
+                    id="unitShortest"
+                    name="shortest"
+                    placeholder="m"
+                    value={shortest}
+                    onChange={(e) => setShortest(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid items-center gap-3">
+                  <Label htmlFor="unitFactor">Storage factor</Label>
+                  <Input
+                    id="unitFactor"
+                    name="factor"
+                    inputMode="numeric"
+                    value={factor}
+                    onChange={(e) => setFactor(e.target.value)}
+                  />
+                  {errors.factor && (
+                    <div className="text-red-600 text-sm">{errors.factor}</div>
+                  )}
+                </div>
+                <div className="grid items-center gap-3">
+                  <Label htmlFor="unitDecimals">Decimals</Label>
+                  <Input
+                    id="unitDecimals"
+                    name="decimals"
+                    inputMode="numeric"
+                    value={decimals}
+                    onChange={(e) => setDecimals(e.target.value)}
+                  />
+                  {errors.decimals && (
+                    <div className="text-red-600 text-sm">
+                      {errors.decimals}
+                    </div>
+                  )}
+                </div>
+              </div>
+              <Button type="submit" disabled={isCreating}>
+                <Plus />
+                {isCreating ? "Adding..." : "Add unit"}
+              </Button>
+            </Form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
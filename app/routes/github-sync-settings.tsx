@@ -1,4 +1,12 @@
-import { ChevronLeft, Save, Github, Info, X, Shield } from "lucide-react";
+import {
+  ChevronLeft,
+  Save,
+  Github,
+  History,
+  Info,
+  X,
+  Shield,
+} from "lucide-react";
 import { useState, useEffect, useMemo } from "react";
 import {
   Link,
@@ -27,6 +35,7 @@ import {
 import { downloadJsonFromGist } from "~/lib/github-gist-sync";
 import { isCryptoSupported } from "~/lib/crypto";
 import { EncryptionMigrationInfo } from "~/components/EncryptionMigrationInfo";
+import { TombstoneRetentionSetting } from "~/components/settings/TombstoneRetentionSetting";
 import { WifiOnlyAutoSyncSetting } from "~/components/settings/WifiOnlyAutoSyncSetting";
 import {
   getGithubToken,
@@ -37,6 +46,7 @@ import {
   removeGistId,
   getEncryptionEnabled,
   setEncryptionEnabled,
+  setSyncBackendType,
 } from "~/lib/user-settings";
 
 type GithubSyncSettingsPageErrors = {
@@ -84,6 +94,7 @@ export async function clientAction({ request }: ClientActionFunctionArgs) {
       setGithubToken(githubToken.trim());
       setGistId(gistId.trim());
       setEncryptionEnabled(encryptionEnabled);
+      setSyncBackendType("gist");
 
       return redirect("/");
     }
@@ -336,6 +347,7 @@ export default function GitHubSyncSettingsPage() {
           </div>
 
           <WifiOnlyAutoSyncSetting />
+          <TombstoneRetentionSetting />
 
           {hasExistingGistData &&
             encryptionEnabled !== savedEncryptionEnabled && (
@@ -354,6 +366,12 @@ export default function GitHubSyncSettingsPage() {
                   ? "Save"
                   : "Save and Enable sync"}
             </Button>
+            <Button asChild variant="outline">
+              <Link to="/sync-history" prefetch="viewport">
+                <History className="h-4 w-4" />
+                Sync history
+              </Link>
+            </Button>
           </div>
 
           <div className="mt-4 p-4 bg-yellow-50 dark:bg-yellow-950/20 rounded-lg border border-yellow-200 dark:border-yellow-900">
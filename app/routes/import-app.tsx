@@ -0,0 +1,301 @@
+import { CheckCircle2, ChevronLeft, FileUp, Upload } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { Form, Link, useActionData, useNavigation } from "react-router";
+import type { ClientActionFunctionArgs } from "react-router";
+import { Button } from "~/components/ui/button";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import {
+  type EntryImportTrackerSummary,
+  type ImportAdapterId,
+  type ImportAdapterResult,
+  type ImportedEntry,
+  detectImportAdapter,
+  getImportAdapter,
+  importAdapterIds,
+  importAdaptersLabels,
+  importEntries,
+  isImportAdapterId,
+  planEntryImport,
+  summarizeEntryImport,
+} from "~/lib/data";
+import { debouncedDataChange } from "~/lib/data-change-events";
+import { getTrackerTypeLabels } from "~/lib/trackers";
+
+// Skipped rows shown below the summary
+const PREVIEW_ROWS = 20;
+
+function parseEntries(value: FormDataEntryValue | null): ImportedEntry[] {
+  const entries = JSON.parse(value as string);
+  if (!Array.isArray(entries)) {
+    throw new Error("Invalid entries");
+  }
+  return entries;
+}
+
+export async function clientAction({ request }: ClientActionFunctionArgs) {
+  const formData = await request.formData();
+
+  try {
+    if (formData.get("intent") === "import") {
+      const report = await importEntries(parseEntries(formData.get("entries")));
+      debouncedDataChange.dispatch("data_imported");
+      return { success: true, report };
+    }
+    return { success: false };
+  } catch (error) {
+    console.error("Failed to import app data:", error);
+    return {
+      error: error instanceof Error ? error.message : "Failed to import data",
+    };
+  }
+}
+
+export function meta() {
+  return [
+    { title: "Import from another app - AnythingTracker" },
+    {
+      name: "description",
+      content: "Import history from other habit and health tracking apps",
+    },
+    { name: "viewport", content: "width=device-width, initial-scale=1" },
+  ];
+}
+
+export default function ImportAppPage() {
+  const actionData = useActionData<typeof clientAction>();
+  const navigation = useNavigation();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [text, setText] = useState("");
+  const [adapterId, setAdapterId] = useState<ImportAdapterId>("loop");
+  const [summary, setSummary] = useState<EntryImportTrackerSummary[] | null>(
+    null
+  );
+
+  const parsed = useMemo((): ImportAdapterResult | { error: string } | null => {
+    if (!text) {
+      return null;
+    }
+    try {
+      return getImportAdapter(adapterId).parse(text);
+    } catch (error) {
+      console.error("Failed to read file:", error);
+      return { error: "The file could not be read in this format" };
+    }
+  }, [text, adapterId]);
+
+  useEffect(() => {
+    let isCurrent = true;
+    setSummary(null);
+    if (parsed && "entries" in parsed) {
+      planEntryImport(parsed.entries).then((plan) => {
+        if (isCurrent) {
+          setSummary(summarizeEntryImport(plan));
+        }
+      });
+    }
+    return () => {
+      isCurrent = false;
+    };
+  }, [parsed]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    const fileText = await file.text();
+    setFileName(file.name);
+    setText(fileText);
+    const detected = detectImportAdapter(fileText);
+    if (detected) {
+      setAdapterId(detected);
+    }
+  };
+
+  const entriesJson = useMemo(
+    () => (parsed && "entries" in parsed ? JSON.stringify(parsed.entries) : ""),
+    [parsed]
+  );
+
+  const isImporting = navigation.state === "submitting";
+  const added = summary?.reduce((sum, tracker) => sum + tracker.added, 0) ?? 0;
+
+  if (actionData && "report" in actionData && actionData.report) {
+    const { report } = actionData;
+    return (
+      <div>
+        <div className="w-full h-16 flex items-center">
+          <span className="font-medium">Import from another app</span>
+        </div>
+        <div className="flex flex-col py-6 gap-4 items-center text-center">
+          <CheckCircle2 className="h-8 w-8 text-green-600" />
+          <div className="text-sm">
+            Imported {report.entries.added}{" "}
+            {report.entries.added === 1 ? "entry" : "entries"}
+            {report.trackers.added > 0 &&
+              ` and created ${report.trackers.added} ${
+                report.trackers.added === 1 ? "tracker" : "trackers"
+              }`}
+            .
+          </div>
+          <Button asChild>
+            <Link to="/">Show trackers</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="fixed z-50 select-none pointer-events-none top-0 left-0 right-0 h-5 bg-linear-to-b from-black/80 to-black/0" />
+      <div className="w-full h-16 flex items-center justify-between">
+        <div className="flex gap-4 items-center">
+          <Button asChild variant="ghost" size="icon">
+            <Link to="/settings" prefetch="viewport">
+              <ChevronLeft />
+            </Link>
+          </Button>
+          <span className="font-medium">Import from another app</span>
+        </div>
+      </div>
+
+      <div className="flex flex-col py-6 gap-4">
+        <div className="grid items-center gap-3">
+          <Label htmlFor="adapter">App</Label>
+          <Select
+            value={adapterId}
+            onValueChange={(value) =>
+              isImportAdapterId(value) && setAdapterId(value)
+            }
+          >
+            <SelectTrigger id="adapter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                {importAdapterIds.map((id) => (
+                  <SelectItem key={id} value={id}>
+                    {importAdaptersLabels[id]}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Button asChild variant="outline" className="w-full justify-start">
+          <label className="cursor-pointer">
+            <FileUp className="h-4 w-4 mr-2" />
+            {fileName ?? "Choose export file"}
+            <input
+              type="file"
+              accept={importAdapterIds
+                .map((id) => getImportAdapter(id).accept)
+                .join(",")}
+              className="hidden"
+              onChange={handleFileChange}
+            />
+          </label>
+        </Button>
+        <div className="text-xs text-muted-foreground">
+          The app is detected from the file. Entries are added to trackers with
+          the same name, or to new trackers; entries that already exist are
+          skipped.
+        </div>
+
+        {parsed && "error" in parsed && (
+          <div className="text-red-600 text-sm">{parsed.error}</div>
+        )}
+
+        {parsed && "entries" in parsed && summary && (
+          <div className="flex flex-col gap-2">
+            <span className="text-sm font-medium">Preview</span>
+            <div className="text-xs text-muted-foreground">
+              {added} new {added === 1 ? "entry" : "entries"} in{" "}
+              {summary.length} {summary.length === 1 ? "tracker" : "trackers"}
+              {parsed.skipped.length > 0 &&
+                `, ${parsed.skipped.length} ${
+                  parsed.skipped.length === 1 ? "row" : "rows"
+                } skipped`}
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tracker</TableHead>
+                  <TableHead>Unit</TableHead>
+                  <TableHead>New</TableHead>
+                  <TableHead>Existing</TableHead>
+                  <TableHead>Dates</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summary.map((tracker) => (
+                  <TableRow key={`${tracker.isNew}:${tracker.trackerTitle}`}>
+                    <TableCell>
+                      {tracker.trackerTitle}
+                      {tracker.isNew && " (new)"}
+                    </TableCell>
+                    <TableCell>
+                      {getTrackerTypeLabels(tracker.trackerType).short}
+                    </TableCell>
+                    <TableCell>{tracker.added}</TableCell>
+                    <TableCell>{tracker.duplicates}</TableCell>
+                    <TableCell>
+                      {tracker.from &&
+                        (tracker.from === tracker.to
+                          ? tracker.from
+                          : `${tracker.from} – ${tracker.to}`)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {parsed.skipped.slice(0, PREVIEW_ROWS).map((row) => (
+              <div key={row.line} className="text-xs text-muted-foreground">
+                Line {row.line}: {row.reason}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {actionData && "error" in actionData && (
+          <div className="text-red-600 text-sm">{actionData.error}</div>
+        )}
+
+        {parsed && "entries" in parsed && (
+          <Form method="post">
+            <input type="hidden" name="intent" value="import" />
+            <input type="hidden" name="entries" value={entriesJson} />
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={isImporting || added === 0}
+            >
+              <Upload className="h-4 w-4" />
+              {isImporting
+                ? "Importing..."
+                : `Import ${added} ${added === 1 ? "entry" : "entries"}`}
+            </Button>
+          </Form>
+        )}
+      </div>
+    </div>
+  );
+}
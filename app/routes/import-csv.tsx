@@ -0,0 +1,521 @@
+import { CheckCircle2, ChevronLeft, FileUp, Upload } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import {
+  Form,
+  Link,
+  useActionData,
+  useLoaderData,
+  useNavigation,
+} from "react-router";
+import type { ClientActionFunctionArgs } from "react-router";
+import { Button } from "~/components/ui/button";
+import { Checkbox } from "~/components/ui/checkbox";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import {
+  type CsvColumnMapping,
+  type EntryImportPlan,
+  csvDateFormats,
+  guessCsvColumnMapping,
+  importEntries,
+  isCsvDateFormat,
+  mapCsvRows,
+  parseCsv,
+  planEntryImport,
+} from "~/lib/data";
+import { debouncedDataChange } from "~/lib/data-change-events";
+import { getAllTrackers } from "~/lib/db";
+import { formatStoredValue } from "~/lib/number-conversions";
+import { trackerTypes, trackerTypesLabels } from "~/lib/trackers";
+
+// Rows shown in the preview
+const PREVIEW_ROWS = 20;
+
+export async function clientLoader() {
+  try {
+    return { trackers: await getAllTrackers() };
+  } catch (error) {
+    throw new Response("Failed to load trackers", { status: 500 });
+  }
+}
+
+function parseMapping(value: FormDataEntryValue | null): CsvColumnMapping {
+  const mapping = JSON.parse(value as string);
+  if (
+    typeof mapping?.dateColumn !== "number" ||
+    typeof mapping.valueColumn !== "number" ||
+    !isCsvDateFormat(mapping.dateFormat)
+  ) {
+    throw new Error("Invalid column mapping");
+  }
+  return mapping;
+}
+
+export async function clientAction({ request }: ClientActionFunctionArgs) {
+  const formData = await request.formData();
+
+  try {
+    if (formData.get("intent") === "import") {
+      const rows = parseCsv(formData.get("csv") as string);
+      const mapping = parseMapping(formData.get("mapping"));
+      const { entries } = mapCsvRows(rows, mapping, await getAllTrackers());
+      const report = await importEntries(entries);
+      debouncedDataChange.dispatch("data_imported");
+      return { success: true, report };
+    }
+    return { success: false };
+  } catch (error) {
+    console.error("Failed to import CSV:", error);
+    return {
+      error: error instanceof Error ? error.message : "Failed to import CSV",
+    };
+  }
+}
+
+export function meta() {
+  return [
+    { title: "Import CSV - AnythingTracker" },
+    {
+      name: "description",
+      content: "Import entries from a spreadsheet or another app",
+    },
+    { name: "viewport", content: "width=device-width, initial-scale=1" },
+  ];
+}
+
+interface CsvColumn {
+  // Position of the column in each row
+  index: number;
+  name: string;
+}
+
+function ColumnSelect({
+  id,
+  label,
+  columns,
+  value,
+  onChange,
+  optional,
+}: {
+  id: string;
+  label: string;
+  columns: CsvColumn[];
+  value?: number;
+  onChange: (value?: number) => void;
+  optional?: boolean;
+}) {
+  return (
+    <div className="grid items-center gap-3">
+      <Label htmlFor={id}>{label}</Label>
+      <Select
+        value={value === undefined ? "none" : String(value)}
+        onValueChange={(selected) =>
+          onChange(selected === "none" ? undefined : Number(selected))
+        }
+      >
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectGroup>
+            {optional && <SelectItem value="none">None</SelectItem>}
+            {columns.map((column) => (
+              <SelectItem key={column.index} value={String(column.index)}>
+                {column.name}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+export default function ImportCsvPage() {
+  const { trackers } = useLoaderData<typeof clientLoader>();
+  const actionData = useActionData<typeof clientAction>();
+  const navigation = useNavigation();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csv, setCsv] = useState("");
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [plan, setPlan] = useState<EntryImportPlan | null>(null);
+
+  const rows = useMemo(() => parseCsv(csv), [csv]);
+  const columns = useMemo(() => {
+    const count = rows.reduce((max, row) => Math.max(max, row.length), 0);
+    return Array.from(
+      { length: count },
+      (_, index): CsvColumn => ({
+        index,
+        name:
+          mapping?.hasHeader && rows[0]?.[index]
+            ? rows[0][index]
+            : `Column ${index + 1}`,
+      })
+    );
+  }, [rows, mapping?.hasHeader]);
+
+  const mapped = useMemo(
+    () => (mapping ? mapCsvRows(rows, mapping, trackers) : null),
+    [rows, mapping, trackers]
+  );
+
+  useEffect(() => {
+    let isCurrent = true;
+    setPlan(null);
+    if (mapped) {
+      planEntryImport(mapped.entries).then((result) => {
+        if (isCurrent) {
+          setPlan(result);
+        }
+      });
+    }
+    return () => {
+      isCurrent = false;
+    };
+  }, [mapped]);
+
+  const trackersById = useMemo(
+    () => new Map(trackers.map((tracker) => [tracker.id, tracker])),
+    [trackers]
+  );
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    const text = await file.text();
+    setFileName(file.name);
+    setCsv(text);
+    setMapping(guessCsvColumnMapping(parseCsv(text), trackers));
+  };
+
+  const updateMapping = (changes: Partial<CsvColumnMapping>) => {
+    setMapping((current) => current && { ...current, ...changes });
+  };
+
+  const isImporting = navigation.state === "submitting";
+  const newEntries = plan?.entries.filter((entry) => !entry.isDuplicate) ?? [];
+  const duplicates = (plan?.entries.length ?? 0) - newEntries.length;
+
+  if (actionData && "report" in actionData && actionData.report) {
+    const { report } = actionData;
+    return (
+      <div>
+        <div className="w-full h-16 flex items-center">
+          <span className="font-medium">Import CSV</span>
+        </div>
+        <div className="flex flex-col py-6 gap-4 items-center text-center">
+          <CheckCircle2 className="h-8 w-8 text-green-600" />
+          <div className="text-sm">
+            Imported {report.entries.added}{" "}
+            {report.entries.added === 1 ? "entry" : "entries"}
+            {report.trackers.added > 0 &&
+              ` and created ${report.trackers.added} ${
+                report.trackers.added === 1 ? "tracker" : "trackers"
+              }`}
+            .
+            {report.skipped.length > 0 &&
+              ` Skipped ${report.skipped.length} ${
+                report.skipped.length === 1 ? "entry" : "entries"
+              } of deleted trackers.`}
+          </div>
+          <Button asChild>
+            <Link to="/">Show trackers</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="fixed z-50 select-none pointer-events-none top-0 left-0 right-0 h-5 bg-linear-to-b from-black/80 to-black/0" />
+      <div className="w-full h-16 flex items-center justify-between">
+        <div className="flex gap-4 items-center">
+          <Button asChild variant="ghost" size="icon">
+            <Link to="/settings" prefetch="viewport">
+              <ChevronLeft />
+            </Link>
+          </Button>
+          <span className="font-medium">Import CSV</span>
+        </div>
+      </div>
+
+      <div className="flex flex-col py-6 gap-4">
+        <Button asChild variant="outline" className="w-full justify-start">
+          <label className="cursor-pointer">
+            <FileUp className="h-4 w-4 mr-2" />
+            {fileName ?? "Choose CSV file"}
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+          </label>
+        </Button>
+        <div className="text-xs text-muted-foreground">
+          One row per entry. Entries are added to the existing data; entries
+          that already exist with the same date, value and comment are skipped.
+        </div>
+
+        {mapping && (
+          <>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="hasHeader"
+                checked={mapping.hasHeader}
+                onCheckedChange={(checked) =>
+                  updateMapping({ hasHeader: checked === true })
+                }
+              />
+              <Label htmlFor="hasHeader" className="cursor-pointer">
+                First row has column names
+              </Label>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <ColumnSelect
+                id="dateColumn"
+                label="Date"
+                columns={columns}
+                value={mapping.dateColumn}
+                onChange={(dateColumn) =>
+                  updateMapping({ dateColumn: dateColumn ?? 0 })
+                }
+              />
+              <div className="grid items-center gap-3">
+                <Label htmlFor="dateFormat">Date format</Label>
+                <Select
+                  value={mapping.dateFormat}
+                  onValueChange={(dateFormat) =>
+                    isCsvDateFormat(dateFormat) && updateMapping({ dateFormat })
+                  }
+                >
+                  <SelectTrigger id="dateFormat">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectGroup>
+                      {csvDateFormats.map((dateFormat) => (
+                        <SelectItem key={dateFormat} value={dateFormat}>
+                          {dateFormat}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <ColumnSelect
+                id="valueColumn"
+                label="Value"
+                columns={columns}
+                value={mapping.valueColumn}
+                onChange={(valueColumn) =>
+                  updateMapping({ valueColumn: valueColumn ?? 0 })
+                }
+              />
+              <ColumnSelect
+                id="commentColumn"
+                label="Comment"
+                columns={columns}
+                value={mapping.commentColumn}
+                onChange={(commentColumn) => updateMapping({ commentColumn })}
+                optional
+              />
+            </div>
+
+            <div className="grid items-center gap-3">
+              <Label htmlFor="trackerSource">Tracker</Label>
+              <Select
+                value={
+                  mapping.trackerColumn !== undefined
+                    ? `column:${mapping.trackerColumn}`
+                    : `tracker:${mapping.trackerId ?? ""}`
+                }
+                onValueChange={(value) => {
+                  const [kind, key] = value.split(":");
+                  updateMapping(
+                    kind === "column"
+                      ? { trackerColumn: Number(key), trackerId: undefined }
+                      : { trackerColumn: undefined, trackerId: key }
+                  );
+                }}
+              >
+                <SelectTrigger id="trackerSource">
+                  <SelectValue placeholder="Choose a tracker" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectGroup>
+                    <SelectLabel>Tracker names from column</SelectLabel>
+                    {columns.map((column) => (
+                      <SelectItem
+                        key={column.index}
+                        value={`column:${column.index}`}
+                      >
+                        {column.name}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                  <SelectGroup>
+                    <SelectLabel>All rows to tracker</SelectLabel>
+                    {trackers.map((tracker) => (
+                      <SelectItem
+                        key={tracker.id}
+                        value={`tracker:${tracker.id}`}
+                      >
+                        {tracker.title}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                </SelectContent>
+              </Select>
+              <div className="text-xs text-muted-foreground">
+                Values are read in the unit the tracker shows them in. Tracker
+                names are matched to existing trackers, ignoring case.
+              </div>
+            </div>
+
+            {plan && plan.newTrackerTitles.length > 0 && (
+              <div className="grid items-center gap-3">
+                <Label htmlFor="newTrackerType">
+                  Unit of new trackers: {plan.newTrackerTitles.join(", ")}
+                </Label>
+                <Select
+                  value={mapping.newTrackerType}
+                  onValueChange={(value) =>
+                    updateMapping({
+                      newTrackerType:
+                        trackerTypes.find((type) => type === value) ?? "none",
+                    })
+                  }
+                >
+                  <SelectTrigger id="newTrackerType">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectGroup>
+                      {trackerTypes.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {trackerTypesLabels[type].long}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {plan && mapped && (
+              <div className="flex flex-col gap-2">
+                <span className="text-sm font-medium">Preview</span>
+                <div className="text-xs text-muted-foreground">
+                  {newEntries.length} new{" "}
+                  {newEntries.length === 1 ? "entry" : "entries"}
+                  {duplicates > 0 && `, ${duplicates} already imported`}
+                  {mapped.skipped.length > 0 &&
+                    `, ${mapped.skipped.length} ${
+                      mapped.skipped.length === 1 ? "row" : "rows"
+                    } skipped`}
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Line</TableHead>
+                      <TableHead>Tracker</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Value</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {plan.entries.slice(0, PREVIEW_ROWS).map((entry) => {
+                      const tracker = entry.trackerId
+                        ? trackersById.get(entry.trackerId)
+                        : undefined;
+                      return (
+                        <TableRow
+                          key={entry.line}
+                          className={
+                            entry.isDuplicate ? "text-muted-foreground" : ""
+                          }
+                        >
+                          <TableCell>{entry.line}</TableCell>
+                          <TableCell>
+                            {entry.trackerTitle}
+                            {!tracker && " (new)"}
+                          </TableCell>
+                          <TableCell>{entry.date}</TableCell>
+                          <TableCell>
+                            {formatStoredValue(
+                              entry.value,
+                              entry.trackerType,
+                              true,
+                              tracker?.displayUnit
+                            )}
+                            {entry.isDuplicate && " (exists)"}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+                {mapped.skipped.slice(0, PREVIEW_ROWS).map((row) => (
+                  <div key={row.line} className="text-xs text-muted-foreground">
+                    Line {row.line}: {row.reason}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {actionData && "error" in actionData && (
+              <div className="text-red-600 text-sm">{actionData.error}</div>
+            )}
+
+            <Form method="post">
+              <input type="hidden" name="intent" value="import" />
+              <input type="hidden" name="csv" value={csv} />
+              <input
+                type="hidden"
+                name="mapping"
+                value={JSON.stringify(mapping)}
+              />
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isImporting || newEntries.length === 0}
+              >
+                <Upload className="h-4 w-4" />
+                {isImporting
+                  ? "Importing..."
+                  : `Import ${newEntries.length} ${
+                      newEntries.length === 1 ? "entry" : "entries"
+                    }`}
+              </Button>
+            </Form>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,393 @@
+import { CheckCircle2, ChevronLeft, FileUp, Upload } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Form, Link, useActionData, useNavigation } from "react-router";
+import type { ClientActionFunctionArgs } from "react-router";
+import { Button } from "~/components/ui/button";
+import { Checkbox } from "~/components/ui/checkbox";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import {
+  type ExportData,
+  type ImportMode,
+  type TrackerImportPreview,
+  excludeTrackersFromImport,
+  importData,
+  importModes,
+  importModesLabels,
+  isImportMode,
+  previewImport,
+  readExportData,
+} from "~/lib/data";
+import { debouncedDataChange } from "~/lib/data-change-events";
+import type { StoredEntry } from "~/lib/db";
+import { formatStoredValue } from "~/lib/number-conversions";
+
+const changeLabels: Record<TrackerImportPreview["change"], string> = {
+  added: "New",
+  updated: "Updated",
+  deleted: "Removed",
+  unchanged: "",
+};
+
+const sampleLabels: Record<keyof TrackerImportPreview["samples"], string> = {
+  added: "Added",
+  updated: "Updated",
+  deleted: "Removed",
+  conflicted: "Changed on both sides, newer kept",
+};
+
+function parseExportData(text: string): ExportData {
+  // Backups of older versions are migrated to the current format
+  return readExportData(JSON.parse(text));
+}
+
+export async function clientAction({ request }: ClientActionFunctionArgs) {
+  const formData = await request.formData();
+
+  try {
+    if (formData.get("intent") === "import") {
+      const mode = formData.get("mode");
+      if (!isImportMode(mode)) {
+        throw new Error("Invalid import mode");
+      }
+      const data = await excludeTrackersFromImport(
+        parseExportData(formData.get("data") as string),
+        mode,
+        JSON.parse(formData.get("excluded") as string)
+      );
+      const report = await importData(data, mode === "replace");
+      debouncedDataChange.dispatch("data_imported");
+      return { success: true, report };
+    }
+    return { success: false };
+  } catch (error) {
+    console.error("Failed to import data:", error);
+    return {
+      error: error instanceof Error ? error.message : "Failed to import data",
+    };
+  }
+}
+
+export function meta() {
+  return [
+    { title: "Import data - AnythingTracker" },
+    {
+      name: "description",
+      content: "Preview and import a backup of your trackers",
+    },
+    { name: "viewport", content: "width=device-width, initial-scale=1" },
+  ];
+}
+
+function formatSample(
+  entry: StoredEntry,
+  tracker: TrackerImportPreview
+): string {
+  const value = formatStoredValue(
+    entry.value,
+    tracker.type,
+    true,
+    tracker.displayUnit
+  );
+  return `${entry.date}: ${value}${entry.comment ? ` – ${entry.comment}` : ""}`;
+}
+
+function TrackerSamples({ tracker }: { tracker: TrackerImportPreview }) {
+  const kinds = (
+    Object.keys(sampleLabels) as (keyof TrackerImportPreview["samples"])[]
+  ).filter((kind) => tracker.samples[kind].length > 0);
+  if (kinds.length === 0) {
+    return null;
+  }
+  return (
+    <div className="flex flex-col gap-1 pt-1 text-xs text-muted-foreground">
+      {kinds.map((kind) => (
+        <div key={kind}>
+          <span className="font-medium">{sampleLabels[kind]}</span>
+          {tracker.samples[kind].map((entry) => (
+            <div key={entry.id}>{formatSample(entry, tracker)}</div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function ImportDataPage() {
+  const actionData = useActionData<typeof clientAction>();
+  const navigation = useNavigation();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [text, setText] = useState("");
+  const [data, setData] = useState<ExportData | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [preview, setPreview] = useState<TrackerImportPreview[] | null>(null);
+  const [excluded, setExcluded] = useState<string[]>([]);
+
+  useEffect(() => {
+    let isCurrent = true;
+    setPreview(null);
+    if (data) {
+      previewImport(data, mode).then((result) => {
+        if (isCurrent) {
+          setPreview(result);
+        }
+      });
+    }
+    return () => {
+      isCurrent = false;
+    };
+  }, [data, mode]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    const fileText = await file.text();
+    setFileName(file.name);
+    setExcluded([]);
+    try {
+      setData(parseExportData(fileText));
+      setText(fileText);
+      setFileError(null);
+    } catch (error) {
+      setData(null);
+      setText("");
+      setFileError(
+        error instanceof SyntaxError
+          ? "The file is not valid JSON"
+          : error instanceof Error
+          ? error.message
+          : "The file is not an AnythingTracker backup"
+      );
+    }
+  };
+
+  const toggleTracker = (trackerId: string, isIncluded: boolean) => {
+    setExcluded((current) =>
+      isIncluded
+        ? current.filter((id) => id !== trackerId)
+        : [...current, trackerId]
+    );
+  };
+
+  const included =
+    preview?.filter((tracker) => !excluded.includes(tracker.trackerId)) ?? [];
+  const totals = included.reduce(
+    (sum, tracker) => ({
+      added: sum.added + tracker.entries.added,
+      updated: sum.updated + tracker.entries.updated,
+      deleted: sum.deleted + tracker.entries.deleted,
+      conflicts: sum.conflicts + tracker.conflicts,
+    }),
+    { added: 0, updated: 0, deleted: 0, conflicts: 0 }
+  );
+  const isImporting = navigation.state === "submitting";
+
+  if (actionData && "report" in actionData && actionData.report) {
+    const { report } = actionData;
+    return (
+      <div>
+        <div className="w-full h-16 flex items-center">
+          <span className="font-medium">Import data</span>
+        </div>
+        <div className="flex flex-col py-6 gap-4 items-center text-center">
+          <CheckCircle2 className="h-8 w-8 text-green-600" />
+          <div className="text-sm">
+            {report.entries.added} entries added, {report.entries.updated}{" "}
+            updated and {report.entries.deleted} removed.
+          </div>
+          <Button asChild>
+            <Link to="/">Show trackers</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="fixed z-50 select-none pointer-events-none top-0 left-0 right-0 h-5 bg-linear-to-b from-black/80 to-black/0" />
+      <div className="w-full h-16 flex items-center justify-between">
+        <div className="flex gap-4 items-center">
+          <Button asChild variant="ghost" size="icon">
+            <Link to="/settings" prefetch="viewport">
+              <ChevronLeft />
+            </Link>
+          </Button>
+          <span className="font-medium">Import data</span>
+        </div>
+      </div>
+
+      <div className="flex flex-col py-6 gap-4">
+        <Button asChild variant="outline" className="w-full justify-start">
+          <label className="cursor-pointer">
+            <FileUp className="h-4 w-4 mr-2" />
+            {fileName ?? "Choose backup file"}
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+          </label>
+        </Button>
+        {fileError && (
+          <div className="text-red-600 text-sm whitespace-pre-line">
+            {fileError}
+          </div>
+        )}
+
+        {data && (
+          <>
+            <div className="grid items-center gap-3">
+              <Label htmlFor="mode">Mode</Label>
+              <Select
+                value={mode}
+                onValueChange={(value) => isImportMode(value) && setMode(value)}
+              >
+                <SelectTrigger id="mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectGroup>
+                    {importModes.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {importModesLabels[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                </SelectContent>
+              </Select>
+              <div className="text-xs text-muted-foreground">
+                {mode === "merge"
+                  ? "Keeps the newer version of trackers and entries that exist on both sides."
+                  : "Removes all data that is not in the backup."}{" "}
+                Unchecked trackers are left as they are.
+              </div>
+            </div>
+
+            {preview && (
+              <div className="flex flex-col gap-2">
+                <span className="text-sm font-medium">Preview</span>
+                <div className="text-xs text-muted-foreground">
+                  {preview.length === 0
+                    ? "The import changes nothing."
+                    : `${totals.added} entries added, ${totals.updated} updated, ${totals.deleted} removed, ${totals.conflicts} conflicts`}
+                </div>
+                {preview.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead />
+                        <TableHead>Tracker</TableHead>
+                        <TableHead>Added</TableHead>
+                        <TableHead>Updated</TableHead>
+                        <TableHead>Removed</TableHead>
+                        <TableHead>Conflicts</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.map((tracker) => {
+                        const isIncluded = !excluded.includes(
+                          tracker.trackerId
+                        );
+                        return (
+                          <TableRow
+                            key={tracker.trackerId}
+                            className={
+                              isIncluded ? "" : "text-muted-foreground"
+                            }
+                          >
+                            <TableCell className="align-top">
+                              <Checkbox
+                                checked={isIncluded}
+                                aria-label={`Import ${tracker.title}`}
+                                onCheckedChange={(checked) =>
+                                  toggleTracker(
+                                    tracker.trackerId,
+                                    checked === true
+                                  )
+                                }
+                              />
+                            </TableCell>
+                            <TableCell className="align-top whitespace-normal">
+                              <details>
+                                <summary className="cursor-pointer">
+                                  {tracker.title}
+                                  {tracker.change !== "unchanged" &&
+                                    ` (${changeLabels[tracker.change]})`}
+                                </summary>
+                                <TrackerSamples tracker={tracker} />
+                              </details>
+                            </TableCell>
+                            <TableCell className="align-top">
+                              {tracker.entries.added}
+                            </TableCell>
+                            <TableCell className="align-top">
+                              {tracker.entries.updated}
+                            </TableCell>
+                            <TableCell className="align-top">
+                              {tracker.entries.deleted}
+                            </TableCell>
+                            <TableCell className="align-top">
+                              {tracker.conflicts}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            )}
+
+            {actionData && "error" in actionData && (
+              <div className="text-red-600 text-sm">{actionData.error}</div>
+            )}
+
+            <Form method="post">
+              <input type="hidden" name="intent" value="import" />
+              <input type="hidden" name="data" value={text} />
+              <input type="hidden" name="mode" value={mode} />
+              <input
+                type="hidden"
+                name="excluded"
+                value={JSON.stringify(excluded)}
+              />
+              <Button
+                type="submit"
+                className="w-full"
+                variant={mode === "replace" ? "destructive" : "default"}
+                disabled={isImporting || !preview || included.length === 0}
+              >
+                <Upload className="h-4 w-4" />
+                {isImporting
+                  ? "Importing..."
+                  : mode === "replace"
+                  ? "Replace data"
+                  : "Merge data"}
+              </Button>
+            </Form>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,10 +3,11 @@ import { Link, useLoaderData, useNavigate } from "react-router";
 import type { Route } from "./+types/monthly-recap";
 import html2canvas from "html2canvas-pro";
 import { getAllTrackers, getEntryHistory } from "~/lib/db";
-import type { Tracker } from "~/lib/trackers";
+import { type Tracker, goalPeriodsLabels } from "~/lib/trackers";
 import { formatStoredValue } from "~/lib/number-conversions";
 import { getShowHiddenTrackers } from "~/lib/user-settings";
-import { calculateUnifiedStats } from "~/lib/stats";
+import { calculateUnifiedStats, getGoalStatsConfig } from "~/lib/stats";
+import { hasGoal } from "~/lib/goals";
 import { Button } from "~/components/ui/button";
 import {
   Select,
@@ -138,8 +139,9 @@ export async function clientLoader({ request }: Route.ClientLoaderArgs) {
     const fromDate = new Date(year, month, 1);
     const toDate = endOfMonth(fromDate);
 
+    // Pass all entries so weekly goals include days outside the month
     const periodStats = calculateUnifiedStats(
-      entries,
+      allEntries,
       { fromDate, toDate },
       tracker.goal,
       {
@@ -150,6 +152,7 @@ export async function clientLoader({ request }: Route.ClientLoaderArgs) {
         includePercentageDaysTracked: true,
         includeBestDay: true,
         includeTodayGoalMet: true,
+        ...getGoalStatsConfig(tracker),
       }
     );
 
@@ -161,13 +164,15 @@ export async function clientLoader({ request }: Route.ClientLoaderArgs) {
           )
         : fromDate;
 
-    const hasGoal = tracker.goal && tracker.goal > 0;
+    const trackerHasGoal = hasGoal(tracker);
 
     const streakStats = calculateUnifiedStats(
       allEntries,
       { fromDate: firstEntryDate, toDate: endOfToday() },
       tracker.goal,
-      hasGoal ? { includeGoalStreaks: true } : { includeStreaks: true }
+      trackerHasGoal
+        ? { includeGoalStreaks: true, ...getGoalStatsConfig(tracker) }
+        : { includeStreaks: true }
     );
 
     stats.push({
@@ -180,10 +185,10 @@ export async function clientLoader({ request }: Route.ClientLoaderArgs) {
       isCurrentMonth,
       average: periodStats.average ?? 0,
       bestDay: periodStats.bestDay ?? null,
-      longestStreak: hasGoal
+      longestStreak: trackerHasGoal
         ? (streakStats.longestGoalStreak ?? 0)
         : (streakStats.longestStreak ?? 0),
-      currentStreak: hasGoal
+      currentStreak: trackerHasGoal
         ? (streakStats.currentGoalStreak ?? 0)
         : (streakStats.currentStreak ?? 0),
       entries,
@@ -539,20 +544,40 @@ export default function MonthlyRecap() {
       {monthlyStats.length > 0 && (
         <div className="max-w-2xl mx-auto space-y-6 select-none">
           {monthlyStats.map((stat, index) => {
+            // Weekly/monthly goals count streaks and misses in their periods
+            const goalPeriod =
+              hasGoal(stat.tracker) && stat.tracker.goalPeriod !== "day"
+                ? stat.tracker.goalPeriod
+                : undefined;
+            const goalPeriodLabels = goalPeriod
+              ? goalPeriodsLabels[goalPeriod]
+              : undefined;
             const displayTotal =
               stat.tracker.type === "checkbox"
                 ? stat.daysTracked
-                : formatStoredValue(stat.total, stat.tracker.type);
+                : formatStoredValue(
+                    stat.total,
+                    stat.tracker.type,
+                    false,
+                    stat.tracker.displayUnit
+                  );
             const displayAvg =
               stat.tracker.type === "checkbox"
                 ? "-"
                 : formatStoredValue(
                     Math.round(stat.average),
-                    stat.tracker.type
+                    stat.tracker.type,
+                    false,
+                    stat.tracker.displayUnit
                   );
             const displayBest =
               stat.bestDay && stat.tracker.type !== "checkbox"
-                ? formatStoredValue(stat.bestDay.value, stat.tracker.type)
+                ? formatStoredValue(
+                    stat.bestDay.value,
+                    stat.tracker.type,
+                    false,
+                    stat.tracker.displayUnit
+                  )
                 : "-";
 
             return (
@@ -699,7 +724,9 @@ export default function MonthlyRecap() {
                           themeObject.description
                         )}
                       >
-                        Longest Streak
+                        {goalPeriodLabels
+                          ? `Longest ${goalPeriodLabels.adjective} Streak`
+                          : "Longest Streak"}
                       </div>
                     </div>
 
@@ -720,7 +747,9 @@ export default function MonthlyRecap() {
                           themeObject.description
                         )}
                       >
-                        Current Streak
+                        {goalPeriodLabels
+                          ? `Current ${goalPeriodLabels.adjective} Streak`
+                          : "Current Streak"}
                       </div>
                     </div>
 
@@ -742,7 +771,11 @@ export default function MonthlyRecap() {
                             )}
                           >
                             {" "}
-                            (+ today)
+                            (+{" "}
+                            {goalPeriodLabels
+                              ? `this ${goalPeriodLabels.singular}`
+                              : "today"}
+                            )
                           </span>
                         )}
                       </div>
@@ -752,7 +785,14 @@ export default function MonthlyRecap() {
                           themeObject.description
                         )}
                       >
-                        {stat.tracker.goal ? "Days Goal Missed" : "Days Missed"}
+                        {goalPeriodLabels
+                          ? `${goalPeriodLabels.adjective} Goals Missed`
+                          : stat.tracker.goalDirection === "atMost" &&
+                            hasGoal(stat.tracker)
+                          ? "Days Over Limit"
+                          : hasGoal(stat.tracker)
+                          ? "Days Goal Missed"
+                          : "Days Missed"}
                       </div>
                     </div>
 
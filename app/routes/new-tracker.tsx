@@ -21,28 +21,42 @@ import {
   SelectContent,
   SelectGroup,
   SelectItem,
+  SelectLabel,
+  SelectSeparator,
   SelectTrigger,
   SelectValue,
 } from "~/components/ui/select";
 import { useFormState } from "~/lib/hooks";
-import { getAllTrackers, saveTracker } from "~/lib/db";
+import { getAllCustomUnits, getAllTrackers, saveTracker } from "~/lib/db";
 import { debouncedDataChange } from "~/lib/data-change-events";
 import {
+  type TrackerReminder,
   type TrackerType,
   trackerTypes,
   trackerTypesLabels,
+  getTrackerTypeLabels,
+  toCustomTrackerType,
 } from "~/lib/trackers";
-import { NumberInput } from "~/components/NumberInput";
 import {
-  toDisplayValue,
-  toStoredValue,
-  getInputStep,
+  GoalFields,
+  type GoalFieldsValue,
+  ReminderFields,
+} from "~/components/tracker";
+import { parseGoalFormData } from "~/lib/goals";
+import { parseRemindersFormData } from "~/lib/reminders";
+import {
+  type DisplayUnit,
+  displayUnitDefinitions,
+  getDisplayUnitOptions,
+  isDisplayUnit,
+  resolveDisplayUnit,
 } from "~/lib/number-conversions";
 
 export async function clientLoader({ request }: ClientLoaderFunctionArgs) {
   try {
     const trackers = await getAllTrackers();
-    return { trackers };
+    const customUnits = await getAllCustomUnits();
+    return { trackers, customUnits };
   } catch (error) {
     throw new Response("Failed to load trackers", { status: 500 });
   }
@@ -53,9 +67,9 @@ export async function clientAction({ request }: ClientActionFunctionArgs) {
 
   const title = formData.get("title") as string;
   const type = formData.get("type") as TrackerType;
-  const goalStr = formData.get("goal") as string;
   const parentId = formData.get("parentId") as string;
   const isHidden = formData.get("isHidden") === "true";
+  const displayUnit = formData.get("displayUnit");
 
   // Validation
   if (!title || !title.trim()) {
@@ -67,8 +81,11 @@ export async function clientAction({ request }: ClientActionFunctionArgs) {
       title: title.trim(),
       type,
       isNumber: type !== "checkbox",
-      ...(goalStr && parseFloat(goalStr) > 0 && { goal: parseFloat(goalStr) }),
+      ...parseGoalFormData(formData, type),
+      reminders: parseRemindersFormData(formData),
       ...(parentId && parentId !== "none" && { parentId }),
+      ...(isDisplayUnit(displayUnit) &&
+        getDisplayUnitOptions(type).includes(displayUnit) && { displayUnit }),
       isHidden,
     };
 
@@ -96,19 +113,19 @@ export function meta() {
   ];
 }
 
-interface TrackerFormData {
+interface TrackerFormData extends GoalFieldsValue {
   title: string;
   type: TrackerType;
-  goal?: number; // Stored as integer (e.g., milliliters for liters)
   parentId?: string;
+  displayUnit?: DisplayUnit;
   isHidden: boolean;
+  reminders: TrackerReminder[];
 }
 
 export default function NewTrackerPage() {
-  const { trackers } = useLoaderData<typeof clientLoader>();
+  const { trackers, customUnits } = useLoaderData<typeof clientLoader>();
   const navigation = useNavigation();
   const actionData = useActionData<typeof clientAction>();
-  const [isCheckboxTypeSelected, setIsCheckboxTypeSelected] = useState(false);
   const [isTypeDisabled, setIsTypeDisabled] = useState(false);
 
   const { state, errors, updateField, setFieldError, clearErrors, setState } =
@@ -116,12 +133,22 @@ export default function NewTrackerPage() {
       title: "",
       type: "none",
       goal: undefined,
+      goalPeriod: "day",
+      goalDirection: "atLeast",
+      goalMax: undefined,
       parentId: undefined,
+      displayUnit: undefined,
       isHidden: false,
+      reminders: [],
     });
 
   const isSaving = navigation.state === "submitting";
 
+  const displayUnitOptions = getDisplayUnitOptions(state.type);
+  const defaultDisplayUnit = resolveDisplayUnit(state.type);
+  const defaultDisplayUnitLabel =
+    defaultDisplayUnit && displayUnitDefinitions[defaultDisplayUnit].label;
+
   // Update errors from action data
   useEffect(() => {
     if (actionData && "error" in actionData && actionData.error) {
@@ -137,7 +164,6 @@ export default function NewTrackerPage() {
       const parentTracker = trackers.find((t) => t.id === state.parentId);
       if (parentTracker) {
         updateField("type", parentTracker.type);
-        setIsCheckboxTypeSelected(parentTracker.type === "checkbox");
         setIsTypeDisabled(true);
       }
     } else {
@@ -175,6 +201,11 @@ export default function NewTrackerPage() {
         </div>
         <div className="flex flex-col py-6 gap-4">
           <input type="hidden" name="type" value={state.type} />
+          <input
+            type="hidden"
+            name="displayUnit"
+            value={state.displayUnit ?? ""}
+          />
           <input
             type="hidden"
             name="parentId"
@@ -185,9 +216,27 @@ export default function NewTrackerPage() {
             name="isHidden"
             value={state.isHidden.toString()}
           />
+          <input
+            type="hidden"
+            name="reminders"
+            value={JSON.stringify(state.reminders)}
+          />
+          <input type="hidden" name="goalPeriod" value={state.goalPeriod} />
+          <input
+            type="hidden"
+            name="goalDirection"
+            value={state.goalDirection}
+          />
           {state.goal !== undefined && (
             <input type="hidden" name="goal" value={state.goal.toString()} />
           )}
+          {state.goalMax !== undefined && (
+            <input
+              type="hidden"
+              name="goalMax"
+              value={state.goalMax.toString()}
+            />
+          )}
 
           <div className="grid items-center gap-3">
             <Label htmlFor="trackerName">Tracker name</Label>
@@ -211,7 +260,8 @@ export default function NewTrackerPage() {
               value={state.type}
               onValueChange={(value: TrackerType) => {
                 updateField("type", value);
-                setIsCheckboxTypeSelected(value === "checkbox");
+                // Display unit overrides are specific to a type
+                updateField("displayUnit", undefined);
               }}
               disabled={isTypeDisabled}
             >
@@ -229,6 +279,25 @@ export default function NewTrackerPage() {
                     </SelectItem>
                   ))}
                 </SelectGroup>
+                {customUnits.length > 0 && (
+                  <>
+                    <SelectSeparator />
+                    <SelectGroup>
+                      <SelectLabel>Custom units</SelectLabel>
+                      {customUnits.map((unit) => (
+                        <SelectItem
+                          key={unit.id}
+                          value={toCustomTrackerType(unit.id)}
+                        >
+                          {
+                            getTrackerTypeLabels(toCustomTrackerType(unit.id))
+                              .long
+                          }
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  </>
+                )}
               </SelectContent>
             </Select>
             {isTypeDisabled && (
@@ -240,29 +309,50 @@ export default function NewTrackerPage() {
               <div className="text-red-600 text-sm">{errors.type}</div>
             )}
           </div>
-          {!isCheckboxTypeSelected && (
+          {displayUnitOptions.length > 0 && (
             <div className="grid items-center gap-3">
-              <Label htmlFor="trackerDailyGoal">Daily goal (optional)</Label>
-              <NumberInput
-                id="trackerDailyGoal"
-                value={
-                  state.goal !== undefined
-                    ? toDisplayValue(state.goal, state.type)
-                    : null
+              <Label htmlFor="trackerDisplayUnitTrigger">Display unit</Label>
+              <Select
+                value={state.displayUnit ?? "default"}
+                onValueChange={(value: string) =>
+                  updateField(
+                    "displayUnit",
+                    isDisplayUnit(value) ? value : undefined
+                  )
                 }
-                onChange={(displayValue) => {
-                  if (displayValue !== null) {
-                    const storedValue = toStoredValue(displayValue, state.type);
-                    updateField("goal", storedValue);
-                  } else {
-                    updateField("goal", undefined);
-                  }
-                }}
-                step={getInputStep(state.type)}
-                placeholder={state.type === "liters" ? "1" : "100"}
-              />
+              >
+                <SelectTrigger id="trackerDisplayUnitTrigger">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectGroup>
+                    <SelectItem value="default">
+                      Default from settings ({defaultDisplayUnitLabel})
+                    </SelectItem>
+                    {displayUnitOptions.map((unit) => (
+                      <SelectItem key={unit} value={unit}>
+                        {displayUnitDefinitions[unit].label}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                </SelectContent>
+              </Select>
             </div>
           )}
+
+          <GoalFields
+            type={state.type}
+            displayUnit={state.displayUnit}
+            value={state}
+            onChange={updateField}
+          />
+
+          <ReminderFields
+            type={state.type}
+            displayUnit={state.displayUnit}
+            value={state.reminders}
+            onChange={(reminders) => updateField("reminders", reminders)}
+          />
           <div className="grid items-center gap-3">
             <Label htmlFor="parentTracker">Parent tracker (optional)</Label>
             <Select
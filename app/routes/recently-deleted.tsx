@@ -0,0 +1,235 @@
+import { format, parseISO } from "date-fns";
+import { ChevronLeft, RotateCcw, Trash2 } from "lucide-react";
+import { useMemo } from "react";
+import {
+  Form,
+  Link,
+  useActionData,
+  useLoaderData,
+  useNavigation,
+} from "react-router";
+import type { ClientActionFunctionArgs } from "react-router";
+import { Button } from "~/components/ui/button";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "~/components/ui/empty";
+import { debouncedDataChange } from "~/lib/data-change-events";
+import {
+  getAllTrackers,
+  getDeletedItems,
+  restoreEntry,
+  restoreTracker,
+} from "~/lib/db";
+import { formatStoredValue } from "~/lib/number-conversions";
+import { getTombstoneRetentionDays } from "~/lib/user-settings";
+
+export async function clientLoader() {
+  try {
+    const [deleted, trackers] = await Promise.all([
+      getDeletedItems(),
+      getAllTrackers(),
+    ]);
+    return {
+      ...deleted,
+      trackersById: Object.fromEntries(
+        trackers.map((tracker) => [tracker.id, tracker])
+      ),
+      retentionDays: getTombstoneRetentionDays(),
+    };
+  } catch (error) {
+    throw new Response("Failed to load deleted items", { status: 500 });
+  }
+}
+
+export async function clientAction({ request }: ClientActionFunctionArgs) {
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+  const id = formData.get("id") as string;
+
+  try {
+    if (intent === "restoreTracker") {
+      await restoreTracker(id);
+      debouncedDataChange.dispatch("tracker_updated", { trackerId: id });
+      return { success: true };
+    }
+
+    if (intent === "restoreEntry") {
+      await restoreEntry(id);
+      debouncedDataChange.dispatch("entry_updated");
+      return { success: true };
+    }
+
+    return { success: false };
+  } catch (error) {
+    console.error("Failed to restore:", error);
+    return {
+      error: error instanceof Error ? error.message : "Failed to restore",
+    };
+  }
+}
+
+export function meta() {
+  return [
+    { title: "Recently Deleted - AnythingTracker" },
+    {
+      name: "description",
+      content: "Restore deleted trackers and entries",
+    },
+    { name: "viewport", content: "width=device-width, initial-scale=1" },
+  ];
+}
+
+function RestoreButton({
+  intent,
+  id,
+  label,
+}: {
+  intent: "restoreTracker" | "restoreEntry";
+  id: string;
+  label: string;
+}) {
+  const navigation = useNavigation();
+
+  return (
+    <Form method="post">
+      <input type="hidden" name="intent" value={intent} />
+      <input type="hidden" name="id" value={id} />
+      <Button
+        type="submit"
+        variant="ghost"
+        size="icon"
+        disabled={navigation.state !== "idle"}
+        aria-label={label}
+      >
+        <RotateCcw className="h-4 w-4" />
+      </Button>
+    </Form>
+  );
+}
+
+export default function RecentlyDeletedPage() {
+  const { trackers, entries, trackersById, retentionDays } =
+    useLoaderData<typeof clientLoader>();
+  const actionData = useActionData<typeof clientAction>();
+
+  const error = useMemo(() => {
+    if (actionData && "error" in actionData) {
+      return actionData.error;
+    }
+    return undefined;
+  }, [actionData]);
+
+  return (
+    <div>
+      <div className="fixed z-50 select-none pointer-events-none top-0 left-0 right-0 h-5 bg-linear-to-b from-black/80 to-black/0" />
+      <div className="w-full h-16 flex items-center justify-between">
+        <div className="flex gap-4 items-center">
+          <Button asChild variant="ghost" size="icon">
+            <Link to="/settings" prefetch="viewport">
+              <ChevronLeft />
+            </Link>
+          </Button>
+          <span className="font-medium">Recently Deleted</span>
+        </div>
+      </div>
+
+      <div className="flex flex-col py-6 gap-4">
+        {error && <div className="text-red-600 text-sm">{error}</div>}
+
+        {trackers.length === 0 && entries.length === 0 ? (
+          <Empty>
+            <EmptyHeader>
+              <EmptyMedia variant="icon">
+                <Trash2 className="h-6 w-6" />
+              </EmptyMedia>
+              <EmptyTitle>Nothing deleted</EmptyTitle>
+              <EmptyDescription>
+                Deleted trackers and entries show up here, so you can restore
+                them.
+              </EmptyDescription>
+            </EmptyHeader>
+          </Empty>
+        ) : (
+          <>
+            {trackers.length > 0 && (
+              <div className="flex flex-col gap-2">
+                <span className="text-sm font-medium">Trackers</span>
+                {trackers.map((tracker) => (
+                  <div
+                    key={tracker.id}
+                    className="flex items-center justify-between border rounded-xl px-4 py-3"
+                  >
+                    <div className="flex flex-col">
+                      <span className="text-sm font-medium">
+                        {tracker.title}
+                      </span>
+                      <span className="text-xs text-muted-foreground">
+                        Deleted {format(tracker.deletedAt!, "PPp")}
+                      </span>
+                    </div>
+                    <RestoreButton
+                      intent="restoreTracker"
+                      id={tracker.id}
+                      label={`Restore ${tracker.title}`}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {entries.length > 0 && (
+              <div className="flex flex-col gap-2">
+                <span className="text-sm font-medium">Entries</span>
+                {entries.map((entry) => {
+                  const tracker = trackersById[entry.trackerId];
+                  return (
+                    <div
+                      key={entry.id}
+                      className="flex items-center justify-between border rounded-xl px-4 py-3"
+                    >
+                      <div className="flex flex-col min-w-0">
+                        <span className="text-sm font-medium">
+                          {tracker.title} · {format(parseISO(entry.date), "PP")}
+                          {tracker.type !== "checkbox" &&
+                            ` · ${formatStoredValue(
+                              entry.value,
+                              tracker.type,
+                              true,
+                              tracker.displayUnit
+                            )}`}
+                        </span>
+                        {entry.comment && (
+                          <span className="text-xs truncate">
+                            {entry.comment}
+                          </span>
+                        )}
+                        <span className="text-xs text-muted-foreground">
+                          Deleted {format(entry.deletedAt!, "PPp")}
+                        </span>
+                      </div>
+                      <RestoreButton
+                        intent="restoreEntry"
+                        id={entry.id}
+                        label={`Restore entry of ${tracker.title}`}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="text-xs text-muted-foreground">
+              Restoring a tracker also restores the entries deleted with it.
+              {retentionDays > 0 &&
+                ` When syncing, deleted items are removed for good after ${retentionDays} days once every device has synced.`}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
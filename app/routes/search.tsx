@@ -0,0 +1,212 @@
+import { ChevronLeft, Search, SearchX } from "lucide-react";
+import { useEffect } from "react";
+import {
+  Form,
+  Link,
+  useLoaderData,
+  useNavigation,
+  useRevalidator,
+} from "react-router";
+import type { ClientLoaderFunctionArgs } from "react-router";
+import { SearchResultGroup } from "~/components/SearchResultGroup";
+import { Button } from "~/components/ui/button";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "~/components/ui/empty";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { getAllEntriesWithTags, getAllTrackers } from "~/lib/db";
+import {
+  groupSearchResultsByDate,
+  hasSearchCriteria,
+  parseSearchParams,
+  searchEntries,
+} from "~/lib/search";
+
+export async function clientLoader({ request }: ClientLoaderFunctionArgs) {
+  const url = new URL(request.url);
+  const filters = parseSearchParams(url.searchParams);
+
+  try {
+    const trackers = await getAllTrackers();
+    const results = hasSearchCriteria(filters)
+      ? searchEntries(await getAllEntriesWithTags(), trackers, filters)
+      : [];
+
+    return {
+      filters,
+      trackers: trackers.map(({ id, title }) => ({ id, title })),
+      groups: groupSearchResultsByDate(results),
+      resultsCount: results.length,
+    };
+  } catch (error) {
+    throw new Response("Failed to search entries", { status: 500 });
+  }
+}
+
+export function meta() {
+  return [
+    { title: "Search - AnythingTracker" },
+    {
+      name: "description",
+      content: "Search comments and tags across all your trackers",
+    },
+    { name: "viewport", content: "width=device-width, initial-scale=1" },
+  ];
+}
+
+export default function SearchPage() {
+  const { filters, trackers, groups, resultsCount } =
+    useLoaderData<typeof clientLoader>();
+  const navigation = useNavigation();
+  const revalidator = useRevalidator();
+  const isSearching = navigation.state === "loading";
+
+  useEffect(() => {
+    const handleDataChange = () => {
+      revalidator.revalidate();
+    };
+
+    window.addEventListener("anythingtracker:datachange", handleDataChange);
+    return () => {
+      window.removeEventListener(
+        "anythingtracker:datachange",
+        handleDataChange
+      );
+    };
+  }, [revalidator]);
+
+  return (
+    <div>
+      <div className="fixed z-50 select-none pointer-events-none top-0 left-0 right-0 h-5 bg-linear-to-b from-black/80 to-black/0" />
+      <div className="w-full h-16 flex items-center justify-between">
+        <div className="flex gap-4 items-center">
+          <Button asChild variant="ghost" size="icon">
+            <Link to="/" prefetch="viewport">
+              <ChevronLeft />
+            </Link>
+          </Button>
+          <span className="font-medium">Search</span>
+        </div>
+      </div>
+
+      {/* Remount on navigation so the fields follow the URL */}
+      <Form
+        method="get"
+        key={JSON.stringify(filters)}
+        className="flex flex-col py-6 gap-4"
+      >
+        <div className="flex gap-2">
+          <Input
+            type="search"
+            name="q"
+            aria-label="Search"
+            placeholder="Search comments and #tags"
+            defaultValue={filters.query}
+            autoFocus
+          />
+          <Button type="submit" disabled={isSearching}>
+            <Search />
+            Search
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="grid col-span-2 items-center gap-2">
+            <Label htmlFor="searchTrackerTrigger">Tracker</Label>
+            <Select name="tracker" defaultValue={filters.trackerId ?? "all"}>
+              <SelectTrigger id="searchTrackerTrigger">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  <SelectItem value="all">All trackers</SelectItem>
+                  {trackers.map((tracker) => (
+                    <SelectItem key={tracker.id} value={tracker.id}>
+                      {tracker.title}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid items-center gap-2">
+            <Label htmlFor="searchFrom">From</Label>
+            <Input
+              type="date"
+              id="searchFrom"
+              name="from"
+              defaultValue={filters.fromDate}
+            />
+          </div>
+          <div className="grid items-center gap-2">
+            <Label htmlFor="searchTo">To</Label>
+            <Input
+              type="date"
+              id="searchTo"
+              name="to"
+              defaultValue={filters.toDate}
+            />
+          </div>
+          <div className="grid items-center gap-2">
+            <Label htmlFor="searchMin">Minimum value</Label>
+            <Input
+              type="number"
+              step="any"
+              id="searchMin"
+              name="min"
+              defaultValue={filters.minValue}
+            />
+          </div>
+          <div className="grid items-center gap-2">
+            <Label htmlFor="searchMax">Maximum value</Label>
+            <Input
+              type="number"
+              step="any"
+              id="searchMax"
+              name="max"
+              defaultValue={filters.maxValue}
+            />
+          </div>
+        </div>
+      </Form>
+
+      {hasSearchCriteria(filters) && groups.length === 0 && (
+        <Empty>
+          <EmptyHeader>
+            <EmptyMedia variant="icon">
+              <SearchX className="h-6 w-6" />
+            </EmptyMedia>
+            <EmptyTitle>No matching entries</EmptyTitle>
+            <EmptyDescription>
+              Try other words or tags, or widen the filters.
+            </EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      )}
+
+      {groups.length > 0 && (
+        <div className="space-y-4">
+          <div className="text-sm text-muted-foreground">
+            {resultsCount} {resultsCount === 1 ? "entry" : "entries"} found
+          </div>
+          {groups.map(({ date, results }) => (
+            <SearchResultGroup key={date} date={date} results={results} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
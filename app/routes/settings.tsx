@@ -4,15 +4,15 @@ import {
   Upload,
   Settings as SettingsIcon,
   CheckCircle2,
+  Hash,
+  Ruler,
+  RotateCcw,
+  FileSpreadsheet,
+  Smartphone,
+  ArchiveRestore,
 } from "lucide-react";
-import { useRef, useState, useEffect } from "react";
-import {
-  Link,
-  useNavigation,
-  useSubmit,
-  useActionData,
-  Form,
-} from "react-router";
+import { useState, useEffect } from "react";
+import { Link, useNavigation, useSubmit, useActionData } from "react-router";
 import type { ClientActionFunctionArgs } from "react-router";
 import { Button } from "~/components/ui/button";
 import { Checkbox } from "~/components/ui/checkbox";
@@ -25,15 +25,26 @@ import {
   CardTitle,
 } from "~/components/ui/card";
 import { Separator } from "~/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
 import { exportAllData } from "~/lib/data-operations";
-import { importData, validateExportData } from "~/lib/data";
-import { debouncedDataChange } from "~/lib/data-change-events";
+import { CsvExportDialog } from "~/components/CsvExportDialog";
 import { DevUtils } from "~/components/settings/dev-utils";
-import { isSyncConfigured } from "~/lib/github-gist-sync";
+import { isSyncConfigured, syncBackendsLabels } from "~/lib/sync";
 import {
   getShowHiddenTrackers,
   setShowHiddenTrackers,
   getEncryptionEnabled,
+  getSyncBackendType,
+  getUnitSystem,
+  setUnitSystem,
+  type UnitSystem,
 } from "~/lib/user-settings";
 import { useStateWithDelayedReset } from "~/lib/hooks";
 import { APP_VERSION, CHANGELOG } from "~/lib/version";
@@ -53,44 +64,6 @@ export async function clientAction({ request }: ClientActionFunctionArgs) {
       };
     }
 
-    if (intent === "import") {
-      const file = formData.get("file");
-      if (!file || !(file instanceof File)) {
-        return {
-          success: false,
-          message: "No file selected",
-          intent: "import",
-        };
-      }
-
-      const text = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = (e) => resolve(e.target?.result as string);
-        reader.onerror = () => reject(new Error("Failed to read file"));
-        reader.readAsText(file);
-      });
-
-      const data = JSON.parse(text);
-
-      if (!validateExportData(data)) {
-        return {
-          success: false,
-          message: "Invalid data format",
-          intent: "import",
-        };
-      }
-
-      await importData(data);
-      debouncedDataChange.dispatch("data_imported");
-
-      return {
-        success: true,
-        message: "Data imported successfully",
-        shouldReload: true,
-        intent: "import",
-      };
-    }
-
     if (intent === "toggleHiddenTrackers") {
       const showHidden = formData.get("showHidden") === "true";
       setShowHiddenTrackers(showHidden);
@@ -98,6 +71,13 @@ export async function clientAction({ request }: ClientActionFunctionArgs) {
       return { success: true };
     }
 
+    if (intent === "setUnitSystem") {
+      const unitSystem = formData.get("unitSystem");
+      setUnitSystem(unitSystem === "imperial" ? "imperial" : "metric");
+      window.dispatchEvent(new Event("storage"));
+      return { success: true };
+    }
+
     return { success: false, message: "Unknown intent" };
   } catch (error) {
     console.error("Settings action error:", error);
@@ -125,30 +105,23 @@ export default function SettingsPage() {
   const submit = useSubmit();
   const actionData = useActionData<typeof clientAction>();
   const transientActionData = useStateWithDelayedReset(actionData);
-  const fileInputRef = useRef<HTMLInputElement>(null);
-  const importFormRef = useRef<HTMLFormElement>(null);
   const [showHiddenTrackers, setShowHiddenTrackersState] = useState(
     getShowHiddenTrackers()
   );
+  const [unitSystem, setUnitSystemState] = useState(getUnitSystem());
 
   const syncConfigured = isSyncConfigured();
+  const syncBackendType = getSyncBackendType();
   const encryptionEnabled = getEncryptionEnabled();
 
   const isExporting =
     navigation.state === "submitting" &&
     navigation.formData?.get("intent") === "export";
-  const isImporting =
-    navigation.state === "submitting" &&
-    navigation.formData?.get("intent") === "import";
 
   const exportSuccess =
     transientActionData?.success &&
     "intent" in transientActionData &&
     transientActionData.intent === "export";
-  const importSuccess =
-    transientActionData?.success &&
-    "intent" in transientActionData &&
-    transientActionData.intent === "import";
 
   const handleExport = async () => {
     const formData = new FormData();
@@ -156,37 +129,17 @@ export default function SettingsPage() {
     submit(formData, { method: "post" });
   };
 
-  const handleImportClick = () => {
-    fileInputRef.current?.click();
-  };
-
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    if (!confirm("Import data? This will replace all existing data.")) {
-      event.target.value = "";
-      return;
-    }
-
-    if (importFormRef.current) {
-      submit(importFormRef.current, { method: "post" });
-    }
-
-    event.target.value = "";
-  };
-
-  const getGitHubSyncStatus = () => {
+  const getSyncStatus = () => {
     if (syncConfigured) {
       return {
-        text: "Configured",
+        text: syncBackendsLabels[syncBackendType],
         color: "text-green-600 dark:text-green-400",
       };
     }
     return { text: "Not configured", color: "text-gray-500" };
   };
 
-  const gitHubStatus = getGitHubSyncStatus();
+  const syncStatus = getSyncStatus();
 
   const handleToggleHiddenTrackers = (checked: boolean) => {
     setShowHiddenTrackersState(checked);
@@ -197,6 +150,15 @@ export default function SettingsPage() {
     submit(formData, { method: "post" });
   };
 
+  const handleUnitSystemChange = (value: UnitSystem) => {
+    setUnitSystemState(value);
+
+    const formData = new FormData();
+    formData.append("intent", "setUnitSystem");
+    formData.append("unitSystem", value);
+    submit(formData, { method: "post" });
+  };
+
   return (
     <div>
       <div className="fixed z-50 select-none pointer-events-none top-0 left-0 right-0 h-5 bg-linear-to-b from-black/80 to-black/0" />
@@ -241,45 +203,48 @@ export default function SettingsPage() {
                   </>
                 )}
               </Button>
-              <Form
-                ref={importFormRef}
-                className="hidden"
-                encType="multipart/form-data"
+              <Button
+                asChild
+                variant="outline"
+                className="w-full justify-start"
               >
-                <input type="hidden" name="intent" value="import" />
-                <input
-                  ref={fileInputRef}
-                  type="file"
-                  name="file"
-                  accept=".json"
-                  onChange={handleFileChange}
-                />
-              </Form>
+                <Link to="/import-data" prefetch="viewport">
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import data
+                </Link>
+              </Button>
               <Button
+                asChild
                 variant="outline"
-                onClick={handleImportClick}
-                disabled={isImporting}
                 className="w-full justify-start"
               >
-                {importSuccess ? (
-                  <>
-                    <CheckCircle2 className="h-4 w-4 mr-2 text-green-600 dark:text-green-400" />
-                    Imported
-                  </>
-                ) : (
-                  <>
-                    <Upload className="h-4 w-4 mr-2" />
-                    {isImporting ? "Importing..." : "Import data"}
-                  </>
-                )}
+                <Link to="/import-csv" prefetch="viewport">
+                  <FileSpreadsheet className="h-4 w-4 mr-2" />
+                  Import entries from CSV
+                </Link>
+              </Button>
+              <Button
+                asChild
+                variant="outline"
+                className="w-full justify-start"
+              >
+                <Link to="/import-app" prefetch="viewport">
+                  <Smartphone className="h-4 w-4 mr-2" />
+                  Import from another app
+                </Link>
               </Button>
+              <CsvExportDialog>
+                <Button variant="outline" className="w-full justify-start">
+                  <FileSpreadsheet className="h-4 w-4 mr-2" />
+                  Export entries as CSV
+                </Button>
+              </CsvExportDialog>
               <div className="text-xs text-muted-foreground mt-2">
                 Download creates a JSON file with all your trackers and history.
-                Import might break existing data. Please backup your data before
-                importing.
+                Import shows what changes before anything is imported.
                 <br />
-                It is recommended to import data exported from the same version
-                of AnythingTracker.
+                Backups from older versions of AnythingTracker are upgraded when
+                they are imported.
               </div>
             </div>
           </CardContent>
@@ -287,21 +252,18 @@ export default function SettingsPage() {
 
         <Card>
           <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              GitHub Sync
-            </CardTitle>
+            <CardTitle className="flex items-center gap-2">Sync</CardTitle>
             <CardDescription>
-              Backup to GitHub Gist and sync across devices
+              Backup to GitHub Gist, WebDAV or your own server and sync across
+              devices
             </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="flex flex-col gap-3">
               <div className="flex items-center justify-between">
                 <span className="text-sm">Status</span>
-                <span
-                  className={clsx("text-sm font-medium", gitHubStatus.color)}
-                >
-                  {gitHubStatus.text}
+                <span className={clsx("text-sm font-medium", syncStatus.color)}>
+                  {syncStatus.text}
                 </span>
               </div>
               {syncConfigured && (
@@ -324,15 +286,16 @@ export default function SettingsPage() {
                 variant="outline"
                 className="w-full justify-start"
               >
-                <Link to="/github-sync-settings" prefetch="viewport">
+                <Link to="/sync-settings" prefetch="viewport">
                   <SettingsIcon className="h-4 w-4 mr-2" />
-                  Configure GitHub Sync
+                  Configure sync
                 </Link>
               </Button>
               {syncConfigured && (
                 <div className="text-xs text-muted-foreground mt-2">
-                  Your data is automatically backed up to GitHub Gist. Use the
-                  Dev Utils panel to manually sync.
+                  Your data is automatically backed up to{" "}
+                  {syncBackendsLabels[syncBackendType]}. Use the Dev Utils panel
+                  to manually sync.
                 </div>
               )}
             </div>
@@ -381,6 +344,115 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
 
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">Units</CardTitle>
+            <CardDescription>
+              Choose how liters, kilometers and kilograms are displayed
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col gap-3">
+              <div className="grid items-center gap-3">
+                <Label htmlFor="unitSystemTrigger">Unit system</Label>
+                <Select
+                  value={unitSystem}
+                  onValueChange={handleUnitSystemChange}
+                >
+                  <SelectTrigger id="unitSystemTrigger">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectGroup>
+                      <SelectItem value="metric">Metric (L, km, kg)</SelectItem>
+                      <SelectItem value="imperial">
+                        Imperial (fl oz, mi, lb)
+                      </SelectItem>
+                    </SelectGroup>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="text-xs text-muted-foreground mt-2">
+                Values are always stored in metric units, so switching does not
+                change your data. You can also pick a different display unit for
+                a single tracker from its edit page.
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              Custom Units
+            </CardTitle>
+            <CardDescription>
+              Define your own measurement units like minutes, pages or cups
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild variant="outline" className="w-full justify-start">
+              <Link to="/custom-units" prefetch="viewport">
+                <Ruler className="h-4 w-4 mr-2" />
+                Manage custom units
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">Tags</CardTitle>
+            <CardDescription>
+              Rename, merge or delete tags across your entries
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild variant="outline" className="w-full justify-start">
+              <Link to="/tags" prefetch="viewport">
+                <Hash className="h-4 w-4 mr-2" />
+                Manage tags
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">Backups</CardTitle>
+            <CardDescription>
+              Snapshots of your data, taken daily and before imports and syncs
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild variant="outline" className="w-full justify-start">
+              <Link to="/backups" prefetch="viewport">
+                <ArchiveRestore className="h-4 w-4 mr-2" />
+                Show backups
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              Recently Deleted
+            </CardTitle>
+            <CardDescription>
+              Restore deleted trackers and entries
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild variant="outline" className="w-full justify-start">
+              <Link to="/recently-deleted" prefetch="viewport">
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Show deleted items
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
+
         <DevUtils />
 
         <Card>
@@ -0,0 +1,276 @@
+import { format } from "date-fns";
+import {
+  AlertCircle,
+  CheckCircle2,
+  ChevronLeft,
+  History,
+  Trash2,
+} from "lucide-react";
+import { Form, Link, useLoaderData, useNavigation } from "react-router";
+import type { ClientActionFunctionArgs } from "react-router";
+import { Button } from "~/components/ui/button";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "~/components/ui/empty";
+import type { ChangeCounts, MergeConflict } from "~/lib/data";
+import {
+  type SyncRun,
+  MAX_SYNC_RUNS,
+  clearSyncRuns,
+  getAllTrackers,
+  getSyncRuns,
+} from "~/lib/db";
+import { formatBytes } from "~/lib/file-size";
+import { syncBackendsLabels } from "~/lib/sync";
+import { isSyncBackendType } from "~/lib/user-settings";
+
+export async function clientLoader() {
+  try {
+    const [runs, trackers] = await Promise.all([
+      getSyncRuns(),
+      getAllTrackers(),
+    ]);
+    return {
+      runs,
+      trackerTitles: Object.fromEntries(
+        trackers.map((tracker) => [tracker.id, tracker.title])
+      ),
+    };
+  } catch (error) {
+    throw new Response("Failed to load sync history", { status: 500 });
+  }
+}
+
+export async function clientAction({ request }: ClientActionFunctionArgs) {
+  const formData = await request.formData();
+
+  try {
+    if (formData.get("intent") === "clear") {
+      await clearSyncRuns();
+      return { success: true };
+    }
+    return { success: false };
+  } catch (error) {
+    console.error("Failed to clear sync history:", error);
+    return { error: "Failed to clear sync history" };
+  }
+}
+
+export function meta() {
+  return [
+    { title: "Sync History - AnythingTracker" },
+    {
+      name: "description",
+      content: "See what each sync changed and which conflicts it resolved",
+    },
+    { name: "viewport", content: "width=device-width, initial-scale=1" },
+  ];
+}
+
+function formatCounts({ added, updated, deleted }: ChangeCounts): string {
+  if (added + updated + deleted === 0) {
+    return "–";
+  }
+  return [
+    added && `${added} added`,
+    updated && `${updated} updated`,
+    deleted && `${deleted} deleted`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+function getBackendLabel(backend: string): string {
+  return isSyncBackendType(backend) ? syncBackendsLabels[backend] : backend;
+}
+
+function ConflictDetails({
+  conflict,
+  trackerTitle,
+}: {
+  conflict: MergeConflict;
+  trackerTitle: string;
+}) {
+  const subject =
+    conflict.type === "tracker"
+      ? `${trackerTitle}: ${conflict.group}`
+      : `Entry in ${trackerTitle}`;
+
+  return (
+    <details className="text-xs border rounded-lg px-3 py-2">
+      <summary className="cursor-pointer">
+        {subject} – kept{" "}
+        {conflict.kept === "local" ? "this device's" : "the remote"} version
+      </summary>
+      <div className="grid gap-2 mt-2">
+        {(["local", "imported"] as const).map((side) => (
+          <div key={side}>
+            <div className="font-medium">
+              {side === "local" ? "This device" : "Remote"}
+              {conflict.kept === side && " (kept)"}
+            </div>
+            <pre className="p-2 bg-secondary/50 rounded overflow-x-auto">
+              {JSON.stringify(conflict[side], null, 2)}
+            </pre>
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+}
+
+function SyncRunCard({
+  run,
+  trackerTitles,
+}: {
+  run: SyncRun;
+  trackerTitles: Record<string, string>;
+}) {
+  const seconds = (run.finishedAt.getTime() - run.startedAt.getTime()) / 1000;
+
+  return (
+    <div className="flex flex-col gap-3 border rounded-xl px-4 py-3">
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex flex-col">
+          <span className="text-sm font-medium">
+            {format(run.startedAt, "PPp")}
+          </span>
+          <span className="text-xs text-muted-foreground">
+            {getBackendLabel(run.backend)}
+            {run.mode && ` · ${run.mode === "delta" ? "Changes" : "Full sync"}`}
+            {` · ${seconds.toFixed(1)} s · ↓ ${formatBytes(
+              run.bytesDownloaded
+            )} ↑ ${formatBytes(run.bytesUploaded)}`}
+          </span>
+        </div>
+        {run.status === "success" ? (
+          <CheckCircle2
+            className="h-4 w-4 shrink-0 text-green-600"
+            aria-label="Succeeded"
+          />
+        ) : (
+          <AlertCircle
+            className="h-4 w-4 shrink-0 text-red-600"
+            aria-label="Failed"
+          />
+        )}
+      </div>
+
+      {run.error && <div className="text-red-600 text-sm">{run.error}</div>}
+
+      <div className="grid grid-cols-[auto_1fr_1fr] gap-x-3 gap-y-1 text-xs">
+        <span />
+        <span className="text-muted-foreground">From remote</span>
+        <span className="text-muted-foreground">To remote</span>
+        {(["trackers", "entries", "tags"] as const).map((type) => (
+          <div key={type} className="contents">
+            <span className="capitalize text-muted-foreground">{type}</span>
+            <span>{formatCounts(run.received[type])}</span>
+            <span>{formatCounts(run.sent[type])}</span>
+          </div>
+        ))}
+      </div>
+
+      {!!run.tombstonesPurged && (
+        <div className="text-xs text-muted-foreground">
+          Removed {run.tombstonesPurged} deleted{" "}
+          {run.tombstonesPurged === 1 ? "item" : "items"} for good
+        </div>
+      )}
+
+      {run.conflicts.length > 0 && (
+        <div className="flex flex-col gap-2">
+          <span className="text-xs font-medium">
+            {run.conflicts.length}{" "}
+            {run.conflicts.length === 1 ? "conflict" : "conflicts"}
+          </span>
+          {run.conflicts.map((conflict) => (
+            <ConflictDetails
+              key={`${conflict.type}-${conflict.id}-${conflict.group ?? ""}`}
+              conflict={conflict}
+              trackerTitle={
+                trackerTitles[conflict.trackerId] ?? "Deleted tracker"
+              }
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function SyncHistoryPage() {
+  const { runs, trackerTitles } = useLoaderData<typeof clientLoader>();
+  const navigation = useNavigation();
+
+  const handleClear = (e: React.FormEvent) => {
+    if (!confirm("Are you sure you want to clear the sync history?")) {
+      e.preventDefault();
+    }
+  };
+
+  return (
+    <div>
+      <div className="fixed z-50 select-none pointer-events-none top-0 left-0 right-0 h-5 bg-linear-to-b from-black/80 to-black/0" />
+      <div className="w-full h-16 flex items-center justify-between">
+        <div className="flex gap-4 items-center">
+          <Button asChild variant="ghost" size="icon">
+            <Link to="/sync-settings" prefetch="viewport">
+              <ChevronLeft />
+            </Link>
+          </Button>
+          <span className="font-medium">Sync History</span>
+        </div>
+        {runs.length > 0 && (
+          <Form method="post" onSubmit={handleClear}>
+            <input type="hidden" name="intent" value="clear" />
+            <Button
+              type="submit"
+              variant="ghost"
+              size="icon"
+              disabled={navigation.state !== "idle"}
+              aria-label="Clear sync history"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </Form>
+        )}
+      </div>
+
+      <div className="flex flex-col py-6 gap-4">
+        {runs.length === 0 ? (
+          <Empty>
+            <EmptyHeader>
+              <EmptyMedia variant="icon">
+                <History className="h-6 w-6" />
+              </EmptyMedia>
+              <EmptyTitle>No syncs yet</EmptyTitle>
+              <EmptyDescription>
+                Each sync is listed here with the changes it made.
+              </EmptyDescription>
+            </EmptyHeader>
+          </Empty>
+        ) : (
+          <>
+            {runs.map((run) => (
+              <SyncRunCard
+                key={run.id}
+                run={run}
+                trackerTitles={trackerTitles}
+              />
+            ))}
+            <div className="text-xs text-muted-foreground">
+              The last {MAX_SYNC_RUNS} syncs are kept. A conflict means this
+              device and another one changed the same data since the previous
+              sync; the newer change was kept.
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
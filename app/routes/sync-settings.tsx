@@ -0,0 +1,396 @@
+import { ChevronLeft, Github, History, Save, Shield, X } from "lucide-react";
+import { useMemo, useState } from "react";
+import {
+  Form,
+  Link,
+  redirect,
+  useActionData,
+  useLoaderData,
+  useNavigation,
+} from "react-router";
+import type { ClientActionFunctionArgs } from "react-router";
+import { Button } from "~/components/ui/button";
+import { Checkbox } from "~/components/ui/checkbox";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { TombstoneRetentionSetting } from "~/components/settings/TombstoneRetentionSetting";
+import { WifiOnlyAutoSyncSetting } from "~/components/settings/WifiOnlyAutoSyncSetting";
+import { isCryptoSupported } from "~/lib/crypto";
+import { isSyncConfigured, syncBackendsLabels } from "~/lib/sync";
+import {
+  type SyncBackendType,
+  getEncryptionEnabled,
+  getHttpSyncConfig,
+  getSyncBackendType,
+  getWebDavSyncConfig,
+  isSyncBackendType,
+  removeHttpSyncConfig,
+  removeWebDavSyncConfig,
+  setEncryptionEnabled,
+  setHttpSyncConfig,
+  setSyncBackendType,
+  setWebDavSyncConfig,
+  syncBackendTypes,
+} from "~/lib/user-settings";
+
+type SyncSettingsPageErrors = {
+  url?: string;
+  username?: string;
+  password?: string;
+  passphrase?: string;
+  general?: string;
+};
+
+export async function clientLoader() {
+  return {
+    backendType: getSyncBackendType(),
+    webDav: getWebDavSyncConfig(),
+    http: getHttpSyncConfig(),
+    encryptionEnabled: getEncryptionEnabled(),
+    isSyncEnabled: isSyncConfigured(),
+  };
+}
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+export async function clientAction({ request }: ClientActionFunctionArgs) {
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+  const backendType = formData.get("backendType");
+
+  try {
+    if (intent === "save" && isSyncBackendType(backendType)) {
+      const url = ((formData.get("url") as string) || "").trim();
+      if (!isHttpUrl(url)) {
+        return { error: { url: "Please enter an http:// or https:// URL" } };
+      }
+
+      const encryptionEnabled = formData.get("encryptionEnabled") === "true";
+      const passphrase = (formData.get("passphrase") as string) || undefined;
+      if (encryptionEnabled && !passphrase) {
+        return {
+          error: { passphrase: "A passphrase is required to encrypt data" },
+        };
+      }
+
+      if (backendType === "webdav") {
+        const username = ((formData.get("username") as string) || "").trim();
+        const password = (formData.get("password") as string) || "";
+        if (!username) {
+          return { error: { username: "Username is required" } };
+        }
+        if (!password) {
+          return { error: { password: "Password is required" } };
+        }
+        setWebDavSyncConfig({ url, username, password, passphrase });
+      } else {
+        const token = ((formData.get("token") as string) || "").trim();
+        setHttpSyncConfig({ url, token: token || undefined, passphrase });
+      }
+
+      setEncryptionEnabled(encryptionEnabled);
+      setSyncBackendType(backendType);
+      return redirect("/");
+    }
+
+    if (intent === "optOut") {
+      if (backendType === "webdav") {
+        removeWebDavSyncConfig();
+      } else if (backendType === "http") {
+        removeHttpSyncConfig();
+      }
+      return redirect("/");
+    }
+
+    return { success: false };
+  } catch (error) {
+    console.error("Failed to save sync settings:", error);
+    return { error: { general: "Failed to save settings" } };
+  }
+}
+
+export function meta() {
+  return [
+    { title: "Sync Settings - AnythingTracker" },
+    {
+      name: "description",
+      content: "Choose where your data is backed up and synced",
+    },
+    { name: "viewport", content: "width=device-width, initial-scale=1" },
+  ];
+}
+
+export default function SyncSettingsPage() {
+  const navigation = useNavigation();
+  const actionData = useActionData<typeof clientAction>();
+  const loaderData = useLoaderData<typeof clientLoader>();
+
+  const [backendType, setBackendType] = useState<SyncBackendType>(
+    loaderData.backendType
+  );
+  const [encryptionEnabled, setEncryptionEnabledState] = useState(
+    loaderData.encryptionEnabled
+  );
+
+  const isSaving =
+    navigation.state === "submitting" &&
+    navigation.formData?.get("intent") === "save";
+
+  const errors = useMemo((): SyncSettingsPageErrors => {
+    if (actionData && "error" in actionData && actionData.error) {
+      return actionData.error;
+    }
+    return {};
+  }, [actionData]);
+
+  const isConfiguredBackend =
+    loaderData.isSyncEnabled && backendType === loaderData.backendType;
+
+  const handleOptOut = (e: React.FormEvent) => {
+    if (
+      !confirm(
+        `Are you sure you want to stop syncing with ${syncBackendsLabels[backendType]}? The settings of this server will be removed.`
+      )
+    ) {
+      e.preventDefault();
+    }
+  };
+
+  return (
+    <div>
+      <div className="fixed z-50 select-none pointer-events-none top-0 left-0 right-0 h-5 bg-linear-to-b from-black/80 to-black/0" />
+      <div className="w-full h-16 flex items-center justify-between">
+        <div className="flex gap-4 items-center">
+          <Button asChild variant="ghost" size="icon">
+            <Link to="/settings" prefetch="viewport">
+              <ChevronLeft />
+            </Link>
+          </Button>
+          <span className="font-medium">Sync Settings</span>
+        </div>
+      </div>
+
+      <div className="flex flex-col py-6 gap-4">
+        <div className="grid items-center gap-3">
+          <Label htmlFor="syncBackendTrigger">Sync with</Label>
+          <Select
+            value={backendType}
+            onValueChange={(value: string) =>
+              setBackendType(isSyncBackendType(value) ? value : "gist")
+            }
+          >
+            <SelectTrigger id="syncBackendTrigger">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                {syncBackendTypes.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {syncBackendsLabels[type]}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {backendType === "gist" ? (
+          <Button asChild variant="outline" className="w-full justify-start">
+            <Link to="/github-sync-settings" prefetch="viewport">
+              <Github className="h-4 w-4 mr-2" />
+              Configure GitHub Gist sync
+            </Link>
+          </Button>
+        ) : (
+          <Form method="post" key={backendType} className="flex flex-col gap-4">
+            <input type="hidden" name="intent" value="save" />
+            <input type="hidden" name="backendType" value={backendType} />
+
+            <div className="grid items-center gap-3">
+              <Label htmlFor="syncUrl">
+                {backendType === "webdav" ? "Folder URL" : "Endpoint URL"}
+              </Label>
+              <Input
+                type="url"
+                id="syncUrl"
+                name="url"
+                placeholder={
+                  backendType === "webdav"
+                    ? "https://cloud.example.com/remote.php/dav/files/me/AnythingTracker"
+                    : "https://example.com/anythingtracker/data.json"
+                }
+                defaultValue={
+                  backendType === "webdav"
+                    ? loaderData.webDav?.url
+                    : loaderData.http?.url
+                }
+                className={errors.url ? "border-red-500" : ""}
+              />
+              {errors.url && (
+                <div className="text-red-600 text-sm">{errors.url}</div>
+              )}
+              <div className="text-xs text-muted-foreground">
+                {backendType === "webdav"
+                  ? "The data is stored as anythingtracker-data.json in this folder."
+                  : "The endpoint has to answer GET, PUT, HEAD and DELETE requests for the data file and the sync files next to it, and 404 for missing files."}
+              </div>
+            </div>
+
+            {backendType === "webdav" ? (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid items-center gap-3">
+                  <Label htmlFor="syncUsername">Username</Label>
+                  <Input
+                    id="syncUsername"
+                    name="username"
+                    autoComplete="username"
+                    defaultValue={loaderData.webDav?.username}
+                    className={errors.username ? "border-red-500" : ""}
+                  />
+                  {errors.username && (
+                    <div className="text-red-600 text-sm">
+                      {errors.username}
+                    </div>
+                  )}
+                </div>
+                <div className="grid items-center gap-3">
+                  <Label htmlFor="syncPassword">Password</Label>
+                  <Input
+                    type="password"
+                    id="syncPassword"
+                    name="password"
+                    autoComplete="current-password"
+                    defaultValue={loaderData.webDav?.password}
+                    className={errors.password ? "border-red-500" : ""}
+                  />
+                  {errors.password && (
+                    <div className="text-red-600 text-sm">
+                      {errors.password}
+                    </div>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <div className="grid items-center gap-3">
+                <Label htmlFor="syncToken">Bearer token (optional)</Label>
+                <Input
+                  type="password"
+                  id="syncToken"
+                  name="token"
+                  defaultValue={loaderData.http?.token}
+                />
+              </div>
+            )}
+
+            <div className="grid items-center gap-3">
+              <input
+                type="hidden"
+                name="encryptionEnabled"
+                value={encryptionEnabled.toString()}
+              />
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="encryptionEnabled"
+                  checked={encryptionEnabled}
+                  onCheckedChange={(checked) =>
+                    setEncryptionEnabledState(checked as boolean)
+                  }
+                  disabled={!isCryptoSupported()}
+                />
+                <Label
+                  htmlFor="encryptionEnabled"
+                  className="flex items-center gap-2 cursor-pointer"
+                >
+                  <Shield className="h-4 w-4" />
+                  Encrypt data before upload
+                </Label>
+              </div>
+              {encryptionEnabled && (
+                <>
+                  <Label htmlFor="syncPassphrase">Encryption passphrase</Label>
+                  <Input
+                    type="password"
+                    id="syncPassphrase"
+                    name="passphrase"
+                    autoComplete="new-password"
+                    defaultValue={
+                      backendType === "webdav"
+                        ? loaderData.webDav?.passphrase
+                        : loaderData.http?.passphrase
+                    }
+                    className={errors.passphrase ? "border-red-500" : ""}
+                  />
+                  {errors.passphrase && (
+                    <div className="text-red-600 text-sm">
+                      {errors.passphrase}
+                    </div>
+                  )}
+                </>
+              )}
+              <div className="text-xs text-muted-foreground">
+                Use the same passphrase on all devices. It is kept apart from
+                your {backendType === "webdav" ? "password" : "token"}, so
+                changing that doesn't make synced data unreadable. Data
+                encrypted with the{" "}
+                {backendType === "webdav" ? "password" : "token"} before can
+                still be read.
+              </div>
+            </div>
+
+            <WifiOnlyAutoSyncSetting />
+            <TombstoneRetentionSetting />
+
+            {errors.general && (
+              <div className="text-red-600 text-sm">{errors.general}</div>
+            )}
+
+            <Button type="submit" disabled={isSaving}>
+              <Save className="h-4 w-4" />
+              {isSaving
+                ? "Saving..."
+                : isConfiguredBackend
+                ? "Save"
+                : "Save and Enable sync"}
+            </Button>
+          </Form>
+        )}
+
+        {backendType !== "gist" && isConfiguredBackend && (
+          <Form method="post" onSubmit={handleOptOut}>
+            <input type="hidden" name="intent" value="optOut" />
+            <input type="hidden" name="backendType" value={backendType} />
+            <Button
+              type="submit"
+              variant="outline"
+              className="text-muted-foreground w-full"
+            >
+              <X className="h-4 w-4" />
+              Stop syncing with {syncBackendsLabels[backendType]}
+            </Button>
+          </Form>
+        )}
+
+        <Button asChild variant="ghost" className="w-full justify-start">
+          <Link to="/sync-history" prefetch="viewport">
+            <History className="h-4 w-4 mr-2" />
+            Sync history
+          </Link>
+        </Button>
+      </div>
+    </div>
+  );
+}
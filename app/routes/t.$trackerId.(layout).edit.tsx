@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useEffect } from "react";
 import {
   useLoaderData,
   useRevalidator,
@@ -15,10 +15,16 @@ import { Save, Trash2 } from "lucide-react";
 import {
   getTrackerById,
   getEntryHistory,
+  getAllCustomUnits,
   updateTracker,
   deleteTracker,
 } from "~/lib/db";
 import { debouncedDataChange } from "~/lib/data-change-events";
+import {
+  createTrackerDeletionUndo,
+  createTrackerUpdateUndo,
+  pushUndo,
+} from "~/lib/undo";
 import { useFormState } from "~/lib/hooks";
 import { Button } from "~/components/ui/button";
 import { Input } from "~/components/ui/input";
@@ -29,19 +35,32 @@ import {
   SelectContent,
   SelectGroup,
   SelectItem,
+  SelectLabel,
+  SelectSeparator,
   SelectTrigger,
   SelectValue,
 } from "~/components/ui/select";
 import {
+  type TrackerReminder,
   type TrackerType,
   trackerTypes,
   trackerTypesLabels,
+  getTrackerTypeLabels,
+  toCustomTrackerType,
 } from "~/lib/trackers";
-import { NumberInput } from "~/components/NumberInput";
 import {
-  toDisplayValue,
-  toStoredValue,
-  getInputStep,
+  GoalFields,
+  type GoalFieldsValue,
+  ReminderFields,
+} from "~/components/tracker";
+import { parseGoalFormData, recordGoalChange } from "~/lib/goals";
+import { parseRemindersFormData } from "~/lib/reminders";
+import {
+  type DisplayUnit,
+  displayUnitDefinitions,
+  getDisplayUnitOptions,
+  isDisplayUnit,
+  resolveDisplayUnit,
 } from "~/lib/number-conversions";
 
 export async function clientLoader({ params }: ClientLoaderFunctionArgs) {
@@ -58,8 +77,9 @@ export async function clientLoader({ params }: ClientLoaderFunctionArgs) {
 
     const entries = await getEntryHistory(trackerId);
     const hasEntries = entries.length > 0;
+    const customUnits = await getAllCustomUnits();
 
-    return { tracker, hasEntries };
+    return { tracker, hasEntries, customUnits };
   } catch (error) {
     throw new Response("Failed to load tracker", { status: 500 });
   }
@@ -79,16 +99,22 @@ export async function clientAction({
 
   try {
     if (intent === "delete") {
+      const tracker = await getTrackerById(trackerId);
+      if (!tracker) {
+        throw new Response("Tracker not found", { status: 404 });
+      }
+
       await deleteTracker(trackerId);
       debouncedDataChange.dispatch("tracker_deleted", { trackerId });
+      pushUndo(createTrackerDeletionUndo(tracker));
       return redirect("/");
     }
 
     if (intent === "update") {
       const title = formData.get("title") as string;
       const type = formData.get("type") as TrackerType;
-      const goalStr = formData.get("goal") as string;
       const isHidden = formData.get("isHidden") === "true";
+      const displayUnit = formData.get("displayUnit");
 
       if (!title || !title.trim()) {
         return { error: { title: "Tracker name is required" } };
@@ -99,18 +125,27 @@ export async function clientAction({
         throw new Response("Tracker not found", { status: 404 });
       }
 
+      // Earlier dates keep being evaluated against the goal they had
+      const goal = parseGoalFormData(formData, type);
       const updatedTracker = {
         ...tracker,
         title: title.trim(),
         type,
         isNumber: type !== "checkbox",
-        goal:
-          goalStr && parseFloat(goalStr) > 0 ? parseFloat(goalStr) : undefined,
+        ...goal,
+        goalHistory: recordGoalChange(tracker, goal),
+        reminders: parseRemindersFormData(formData),
+        displayUnit:
+          isDisplayUnit(displayUnit) &&
+          getDisplayUnitOptions(type).includes(displayUnit)
+            ? displayUnit
+            : undefined,
         isHidden,
       };
 
       await updateTracker(updatedTracker);
       debouncedDataChange.dispatch("tracker_updated", { trackerId });
+      pushUndo(createTrackerUpdateUndo(tracker, updatedTracker));
 
       return redirect("/");
     }
@@ -133,28 +168,32 @@ export function meta({ params }: { params: { trackerId: string } }) {
   ];
 }
 
-interface TrackerFormData {
+interface TrackerFormData extends GoalFieldsValue {
   title: string;
   type: TrackerType;
-  goal?: number;
+  displayUnit?: DisplayUnit;
   isHidden: boolean;
+  reminders: TrackerReminder[];
 }
 
 export default function TrackerEditPage() {
-  const { tracker, hasEntries } = useLoaderData<typeof clientLoader>();
+  const { tracker, hasEntries, customUnits } =
+    useLoaderData<typeof clientLoader>();
   const revalidator = useRevalidator();
   const navigation = useNavigation();
   const actionData = useActionData<typeof clientAction>();
-  const [isCheckboxTypeSelected, setIsCheckboxTypeSelected] = useState(
-    tracker.type === "checkbox"
-  );
 
   const { state, errors, updateField, setFieldError, clearErrors, setState } =
     useFormState<TrackerFormData>({
       title: tracker.title,
       type: tracker.type,
       goal: tracker.goal,
+      goalPeriod: tracker.goalPeriod ?? "day",
+      goalDirection: tracker.goalDirection ?? "atLeast",
+      goalMax: tracker.goalMax,
+      displayUnit: tracker.displayUnit,
       isHidden: tracker.isHidden || false,
+      reminders: tracker.reminders ?? [],
     });
 
   const isSaving =
@@ -207,20 +246,44 @@ export default function TrackerEditPage() {
 
   const canChangeType = !hasEntries && !tracker.parentId;
 
+  const displayUnitOptions = getDisplayUnitOptions(state.type);
+  const defaultDisplayUnit = resolveDisplayUnit(state.type);
+  const defaultDisplayUnitLabel =
+    defaultDisplayUnit && displayUnitDefinitions[defaultDisplayUnit].label;
+
   return (
     <div>
       <div className="fixed z-50 select-none pointer-events-none top-0 left-0 right-0 h-5 bg-linear-to-b from-black/80 to-black/0" />
       <Form method="post">
         <input type="hidden" name="intent" value="update" />
         <input type="hidden" name="type" value={state.type} />
+        <input
+          type="hidden"
+          name="displayUnit"
+          value={state.displayUnit ?? ""}
+        />
         <input
           type="hidden"
           name="isHidden"
           value={state.isHidden.toString()}
         />
-        {state.goal && (
+        <input
+          type="hidden"
+          name="reminders"
+          value={JSON.stringify(state.reminders)}
+        />
+        <input type="hidden" name="goalPeriod" value={state.goalPeriod} />
+        <input type="hidden" name="goalDirection" value={state.goalDirection} />
+        {state.goal !== undefined && (
           <input type="hidden" name="goal" value={state.goal.toString()} />
         )}
+        {state.goalMax !== undefined && (
+          <input
+            type="hidden"
+            name="goalMax"
+            value={state.goalMax.toString()}
+          />
+        )}
 
         <div className="flex flex-col py-6 gap-4">
           <div className="grid items-center gap-3">
@@ -246,10 +309,12 @@ export default function TrackerEditPage() {
               value={state.type}
               onValueChange={(value: TrackerType) => {
                 updateField("type", value);
-                setIsCheckboxTypeSelected(value === "checkbox");
+                // Display unit overrides are specific to a type
+                updateField("displayUnit", undefined);
                 // Clear goal when switching to checkbox type
                 if (value === "checkbox") {
                   updateField("goal", undefined);
+                  updateField("goalMax", undefined);
                 }
               }}
               disabled={!canChangeType}
@@ -268,6 +333,25 @@ export default function TrackerEditPage() {
                     </SelectItem>
                   ))}
                 </SelectGroup>
+                {customUnits.length > 0 && (
+                  <>
+                    <SelectSeparator />
+                    <SelectGroup>
+                      <SelectLabel>Custom units</SelectLabel>
+                      {customUnits.map((unit) => (
+                        <SelectItem
+                          key={unit.id}
+                          value={toCustomTrackerType(unit.id)}
+                        >
+                          {
+                            getTrackerTypeLabels(toCustomTrackerType(unit.id))
+                              .long
+                          }
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  </>
+                )}
               </SelectContent>
             </Select>
             {!canChangeType && hasEntries && (
@@ -285,30 +369,51 @@ export default function TrackerEditPage() {
             )}
           </div>
 
-          {!isCheckboxTypeSelected && (
+          {displayUnitOptions.length > 0 && (
             <div className="grid items-center gap-3">
-              <Label htmlFor="trackerDailyGoal">Daily goal (optional)</Label>
-              <NumberInput
-                id="trackerDailyGoal"
-                value={
-                  state.goal !== undefined
-                    ? toDisplayValue(state.goal, state.type)
-                    : null
+              <Label htmlFor="trackerDisplayUnitTrigger">Display unit</Label>
+              <Select
+                value={state.displayUnit ?? "default"}
+                onValueChange={(value: string) =>
+                  updateField(
+                    "displayUnit",
+                    isDisplayUnit(value) ? value : undefined
+                  )
                 }
-                onChange={(displayValue) => {
-                  if (displayValue !== null) {
-                    const storedValue = toStoredValue(displayValue, state.type);
-                    updateField("goal", storedValue);
-                  } else {
-                    updateField("goal", undefined);
-                  }
-                }}
-                step={getInputStep(state.type)}
-                placeholder={state.type === "liters" ? "1" : "100"}
-              />
+              >
+                <SelectTrigger id="trackerDisplayUnitTrigger">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectGroup>
+                    <SelectItem value="default">
+                      Default from settings ({defaultDisplayUnitLabel})
+                    </SelectItem>
+                    {displayUnitOptions.map((unit) => (
+                      <SelectItem key={unit} value={unit}>
+                        {displayUnitDefinitions[unit].label}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                </SelectContent>
+              </Select>
             </div>
           )}
 
+          <GoalFields
+            type={state.type}
+            displayUnit={state.displayUnit}
+            value={state}
+            onChange={updateField}
+          />
+
+          <ReminderFields
+            type={state.type}
+            displayUnit={state.displayUnit}
+            value={state.reminders}
+            onChange={(reminders) => updateField("reminders", reminders)}
+          />
+
           <div className="flex items-center gap-3">
             <Checkbox
               id="isHidden"
@@ -9,9 +9,20 @@ import type {
   ClientLoaderFunctionArgs,
   ClientActionFunctionArgs,
 } from "react-router";
-import { getTrackerById, getEntryHistory, deleteEntryById } from "~/lib/db";
-import { TrackerHistory } from "~/components/tracker";
+import {
+  getTrackerById,
+  getEntryHistory,
+  deleteEntryById,
+  updateEntry,
+} from "~/lib/db";
+import {
+  EditEntryDialog,
+  TrackerHistory,
+  type EntryChanges,
+  type HistoryEntry,
+} from "~/components/tracker";
 import { debouncedDataChange } from "~/lib/data-change-events";
+import { createEntryChangesUndo, pushUndo } from "~/lib/undo";
 
 export async function clientLoader({ params }: ClientLoaderFunctionArgs) {
   const trackerId = params.trackerId;
@@ -48,12 +59,32 @@ export async function clientAction({
     if (intent === "deleteEntry" && entryId) {
       await deleteEntryById(entryId);
       debouncedDataChange.dispatch("entry_deleted", { trackerId });
+      pushUndo(
+        createEntryChangesUndo("Entry deleted", trackerId, {
+          deleted: [entryId],
+        })
+      );
+    }
+
+    if (intent === "updateEntry" && entryId) {
+      const date = formData.get("date") as string;
+      const value = Number(formData.get("value"));
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !Number.isInteger(value)) {
+        return { success: false, error: "Invalid entry" };
+      }
+
+      await updateEntry(entryId, {
+        date,
+        value,
+        comment: (formData.get("comment") as string) || undefined,
+      });
+      debouncedDataChange.dispatch("entry_updated", { trackerId, date, value });
     }
 
     return { success: true };
   } catch (error) {
-    console.error("Failed to delete entry:", error);
-    return { success: false, error: "Failed to delete entry" };
+    console.error("Failed to update entry:", error);
+    return { success: false, error: "Failed to update entry" };
   }
 }
 
@@ -74,6 +105,7 @@ export default function TrackerHistoryPage() {
   const submit = useSubmit();
   const navigation = useNavigation();
   const [deletingEntryId, setDeletingEntryId] = useState<string | null>(null);
+  const [editingEntry, setEditingEntry] = useState<HistoryEntry | null>(null);
 
   useEffect(() => {
     const handleDataChange = () => {
@@ -103,6 +135,17 @@ export default function TrackerHistoryPage() {
     submit(formData, { method: "post" });
   };
 
+  const handleSaveEntry = (entryId: string, changes: EntryChanges) => {
+    const formData = new FormData();
+    formData.append("intent", "updateEntry");
+    formData.append("entryId", entryId);
+    formData.append("date", changes.date);
+    formData.append("value", changes.value.toString());
+    formData.append("comment", changes.comment ?? "");
+
+    submit(formData, { method: "post" });
+  };
+
   // Clear deletingEntryId when navigation is complete
   useEffect(() => {
     if (navigation.state === "idle") {
@@ -125,9 +168,16 @@ export default function TrackerHistoryPage() {
         history={history}
         tracker={tracker}
         onDeleteEntry={handleDeleteEntry}
+        onEditEntry={setEditingEntry}
         deletingEntryId={deletingEntryId}
         entryLoading={navigation.state !== "idle"}
       />
+      <EditEntryDialog
+        entry={editingEntry}
+        tracker={tracker}
+        onOpenChange={(open) => !open && setEditingEntry(null)}
+        onSave={handleSaveEntry}
+      />
     </>
   );
 }
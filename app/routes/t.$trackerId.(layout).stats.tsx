@@ -14,9 +14,26 @@ import {
   CardTitle,
 } from "~/components/ui/card";
 import { PeriodSelector } from "~/components/tracker/stats/PeriodSelector";
-import { getSelectedPeriod, calculateUnifiedStats } from "~/lib/stats";
-import { toDisplayValue } from "~/lib/number-conversions";
+import { CsvExportDialog } from "~/components/CsvExportDialog";
+import { Button } from "~/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  getSelectedPeriod,
+  calculateUnifiedStats,
+  getGoalStatsConfig,
+} from "~/lib/stats";
+import { formatStoredValue, toDisplayValue } from "~/lib/number-conversions";
+import { formatGoalPeriodCount, hasGoal } from "~/lib/goals";
+import { filterEntriesByTag, getTrackerTags } from "~/lib/tag-stats";
+import { goalPeriodsLabels } from "~/lib/trackers";
 import { startOfToday, differenceInDays, endOfToday, format } from "date-fns";
+import { FileSpreadsheet } from "lucide-react";
 
 export async function clientLoader({
   params,
@@ -42,13 +59,21 @@ export async function clientLoader({
     }
     const allEntries = await getEntryHistory(trackerId);
 
-    const entries = allEntries.filter((entry) => {
+    const periodEntries = allEntries.filter((entry) => {
       // Convert Date objects to strings for consistent comparison with entry.date
       const fromDateStr = format(fromDate, "yyyy-MM-dd");
       const toDateStr = format(toDate, "yyyy-MM-dd");
       return entry.date >= fromDateStr && entry.date <= toDateStr;
     });
 
+    // The tag filter isolates tagged entries in the period stats and charts
+    const tags = getTrackerTags(allEntries);
+    const tagParam = url.searchParams.get("tag")?.toLowerCase();
+    const tag = tags.some((t) => t.tag === tagParam) ? tagParam : undefined;
+    const entries = tag
+      ? filterEntriesByTag(periodEntries, tag)
+      : periodEntries;
+
     // Calculate period-specific stats (total, average, missed days, consistency)
     const periodStats = calculateUnifiedStats(
       entries,
@@ -62,6 +87,7 @@ export async function clientLoader({
         includePercentageDaysTracked: true,
         includeBestDay: true,
         includeTodayGoalMet: true,
+        ...getGoalStatsConfig(tracker),
       }
     );
 
@@ -74,17 +100,18 @@ export async function clientLoader({
           )
         : fromDate;
 
-    const hasGoal = tracker.goal && tracker.goal > 0;
+    const trackerHasGoal = hasGoal(tracker);
 
     const streakStats = calculateUnifiedStats(
       allEntries,
       { fromDate: firstEntryDate, toDate: endOfToday() },
       tracker.goal,
-      hasGoal
+      trackerHasGoal
         ? {
             includeGoalStreaks: true,
             includeMissedGoalDays: true,
             includeConsistencyScore: true,
+            ...getGoalStatsConfig(tracker),
           }
         : {
             includeStreaks: true,
@@ -95,10 +122,10 @@ export async function clientLoader({
     const stats = {
       ...periodStats,
       // Use goal streaks if tracker has a goal, otherwise use general streaks
-      currentGoalStreak: hasGoal
+      currentGoalStreak: trackerHasGoal
         ? streakStats.currentGoalStreak
         : streakStats.currentStreak,
-      longestGoalStreak: hasGoal
+      longestGoalStreak: trackerHasGoal
         ? streakStats.longestGoalStreak
         : streakStats.longestStreak,
       missedGoalDays: streakStats.missedGoalDays,
@@ -109,6 +136,8 @@ export async function clientLoader({
       tracker,
       entries,
       stats,
+      tags,
+      tag,
       selectedValue,
       fromDate,
       toDate,
@@ -134,6 +163,8 @@ export default function TrackerChartsPage() {
     tracker,
     entries,
     stats,
+    tags,
+    tag,
     selectedValue,
     fromDate,
     toDate,
@@ -164,17 +195,42 @@ export default function TrackerChartsPage() {
   }
 
   const formatValue = (value: number) => {
-    const displayValue = toDisplayValue(value, tracker.type);
+    if (tracker.type === "duration") {
+      return formatStoredValue(value, tracker.type);
+    }
+
+    const displayValue = toDisplayValue(
+      value,
+      tracker.type,
+      tracker.displayUnit
+    );
     return displayValue.toLocaleString(undefined, {
       minimumFractionDigits: 0,
       maximumFractionDigits: 2,
     });
   };
 
-  const hasGoal = tracker.goal && tracker.goal > 0;
+  const trackerHasGoal = hasGoal(tracker);
+  const goalPeriod = tracker.goalPeriod ?? "day";
+
+  const navigateToStats = (from: string, to: string, tag?: string) => {
+    const searchParams = new URLSearchParams({ from, to });
+    if (tag) {
+      searchParams.set("tag", tag);
+    }
+    navigate(`?${searchParams}`);
+  };
 
   const handleDateRangeChange = (from: string, to: string) => {
-    navigate(`?from=${from}&to=${to}`);
+    navigateToStats(from, to, tag);
+  };
+
+  const handleTagChange = (value: string) => {
+    navigateToStats(
+      format(fromDate, "yyyy-MM-dd"),
+      format(toDate, "yyyy-MM-dd"),
+      value === "all" ? undefined : value
+    );
   };
 
   // Determine if we should show daily or weekly charts
@@ -186,13 +242,37 @@ export default function TrackerChartsPage() {
   return (
     <div className="grid gap-4">
       <div className="fixed z-50 select-none pointer-events-none top-0 left-0 right-0 h-5 bg-linear-to-b from-black/80 to-black/0" />
-      <div className="flex justify-end">
+      <div className="flex justify-end gap-2">
+        {tags.length > 0 && (
+          <Select value={tag ?? "all"} onValueChange={handleTagChange}>
+            <SelectTrigger aria-label="Filter by tag">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent align="end">
+              <SelectItem value="all">All entries</SelectItem>
+              {tags.map((t) => (
+                <SelectItem key={t.tag} value={t.tag}>
+                  #{t.displayName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
         <PeriodSelector
           selectedValue={selectedValue}
           onDateRangeChange={handleDateRangeChange}
           fromDate={format(fromDate, "yyyy-MM-dd")}
           toDate={format(toDate, "yyyy-MM-dd")}
         />
+        <CsvExportDialog
+          trackerId={tracker.id}
+          from={format(fromDate, "yyyy-MM-dd")}
+          to={format(toDate, "yyyy-MM-dd")}
+        >
+          <Button variant="outline" size="icon" aria-label="Export CSV">
+            <FileSpreadsheet className="h-4 w-4" />
+          </Button>
+        </CsvExportDialog>
       </div>
 
       <div className="grid grid-cols-2 gap-4">
@@ -245,14 +325,16 @@ export default function TrackerChartsPage() {
         toDate={new Date(toDate)}
       />
 
-      {hasGoal && (
+      {trackerHasGoal && (
         <div className="grid grid-cols-2 gap-4">
           <Card>
             <CardHeader>
               <CardDescription>Current goal streak</CardDescription>
               <CardTitle className="text-2xl">
-                {stats.currentGoalStreak ?? 0}{" "}
-                {(stats.currentGoalStreak ?? 0) === 1 ? "day" : "days"}
+                {formatGoalPeriodCount(
+                  stats.currentGoalStreak ?? 0,
+                  goalPeriod
+                )}
               </CardTitle>
             </CardHeader>
           </Card>
@@ -260,17 +342,20 @@ export default function TrackerChartsPage() {
             <CardHeader>
               <CardDescription>Longest goal streak</CardDescription>
               <CardTitle className="text-2xl">
-                {stats.longestGoalStreak ?? 0}{" "}
-                {(stats.longestGoalStreak ?? 0) === 1 ? "day" : "days"}
+                {formatGoalPeriodCount(
+                  stats.longestGoalStreak ?? 0,
+                  goalPeriod
+                )}
               </CardTitle>
             </CardHeader>
           </Card>
           <Card>
             <CardHeader>
-              <CardDescription>Missed goal days</CardDescription>
+              <CardDescription>
+                Missed goal {goalPeriodsLabels[goalPeriod].plural}
+              </CardDescription>
               <CardTitle className="text-2xl">
-                {stats.missedGoalDays ?? 0}{" "}
-                {(stats.missedGoalDays ?? 0) === 1 ? "day" : "days"}
+                {formatGoalPeriodCount(stats.missedGoalDays ?? 0, goalPeriod)}
               </CardTitle>
             </CardHeader>
           </Card>
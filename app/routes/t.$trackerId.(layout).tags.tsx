@@ -0,0 +1,150 @@
+import { useEffect } from "react";
+import { Link, useLoaderData, useNavigate, useRevalidator } from "react-router";
+import type { ClientLoaderFunctionArgs } from "react-router";
+import { differenceInDays, format, startOfToday } from "date-fns";
+import { Hash, Pencil } from "lucide-react";
+import { PeriodSelector } from "~/components/tracker/stats/PeriodSelector";
+import { TagStatsCard } from "~/components/tracker/stats/TagStatsCard";
+import { Button } from "~/components/ui/button";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "~/components/ui/empty";
+import { getEntryHistory, getTrackerById } from "~/lib/db";
+import { getSelectedPeriod } from "~/lib/stats";
+import { type TagTrendPeriod, calculateTagStats } from "~/lib/tag-stats";
+
+export async function clientLoader({
+  params,
+  request,
+}: ClientLoaderFunctionArgs) {
+  const trackerId = params.trackerId;
+  if (!trackerId) {
+    throw new Response("Tracker ID is required", { status: 400 });
+  }
+
+  const url = new URL(request.url);
+
+  const { selectedValue, fromDate, toDate } = getSelectedPeriod(
+    url.searchParams.get("from"),
+    url.searchParams.get("to"),
+    startOfToday()
+  );
+
+  try {
+    const tracker = await getTrackerById(trackerId);
+    if (!tracker) {
+      throw new Response("Tracker not found", { status: 404 });
+    }
+
+    const fromDateStr = format(fromDate, "yyyy-MM-dd");
+    const toDateStr = format(toDate, "yyyy-MM-dd");
+    const entries = (await getEntryHistory(trackerId)).filter(
+      (entry) => entry.date >= fromDateStr && entry.date <= toDateStr
+    );
+
+    // Weekly trends for up to about three months, monthly beyond
+    const trendPeriod: TagTrendPeriod =
+      differenceInDays(toDate, fromDate) <= 92 ? "week" : "month";
+
+    return {
+      tracker,
+      tagStats: calculateTagStats(entries, { fromDate, toDate }, trendPeriod),
+      trendPeriod,
+      selectedValue,
+      fromDate,
+      toDate,
+    };
+  } catch (error) {
+    throw new Response("Failed to load tracker", { status: 500 });
+  }
+}
+
+export function meta() {
+  return [
+    { title: "Tags - AnythingTracker" },
+    {
+      name: "description",
+      content: "See how the tags of your tracker add up",
+    },
+    { name: "viewport", content: "width=device-width, initial-scale=1" },
+  ];
+}
+
+export default function TrackerTagsPage() {
+  const { tracker, tagStats, trendPeriod, selectedValue, fromDate, toDate } =
+    useLoaderData<typeof clientLoader>();
+  const revalidator = useRevalidator();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const handleDataChange = () => {
+      revalidator.revalidate();
+    };
+
+    window.addEventListener("anythingtracker:datachange", handleDataChange);
+    return () => {
+      window.removeEventListener(
+        "anythingtracker:datachange",
+        handleDataChange
+      );
+    };
+  }, [revalidator]);
+
+  const from = format(fromDate, "yyyy-MM-dd");
+  const to = format(toDate, "yyyy-MM-dd");
+
+  const handleDateRangeChange = (from: string, to: string) => {
+    navigate(`?from=${from}&to=${to}`);
+  };
+
+  const getStatsUrl = (tag: string) =>
+    `/t/${tracker.id}/stats?${new URLSearchParams({ from, to, tag })}`;
+
+  return (
+    <div className="grid gap-4">
+      <div className="fixed z-50 select-none pointer-events-none top-0 left-0 right-0 h-5 bg-linear-to-b from-black/80 to-black/0" />
+      <div className="flex justify-between gap-2">
+        <Button asChild variant="ghost">
+          <Link to={`/tags?tracker=${tracker.id}`} prefetch="viewport">
+            <Pencil />
+            Manage tags
+          </Link>
+        </Button>
+        <PeriodSelector
+          selectedValue={selectedValue}
+          onDateRangeChange={handleDateRangeChange}
+          fromDate={from}
+          toDate={to}
+        />
+      </div>
+
+      {tagStats.length === 0 ? (
+        <Empty>
+          <EmptyHeader>
+            <EmptyMedia variant="icon">
+              <Hash className="h-6 w-6" />
+            </EmptyMedia>
+            <EmptyTitle>No tags in this period</EmptyTitle>
+            <EmptyDescription>
+              Add #tags to entry comments to see how they add up.
+            </EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        tagStats.map((stats) => (
+          <TagStatsCard
+            key={stats.tag}
+            tracker={tracker}
+            stats={stats}
+            trendPeriod={trendPeriod}
+            statsUrl={getStatsUrl(stats.tag)}
+          />
+        ))
+      )}
+    </div>
+  );
+}
@@ -57,6 +57,10 @@ export default function TrackerPageLayout() {
             label: "Stats",
             url: `/t/${trackerId}/stats`,
           },
+          {
+            label: "Tags",
+            url: `/t/${trackerId}/tags`,
+          },
           {
             label: "Edit",
             url: `/t/${trackerId}/edit`,
@@ -1,9 +1,10 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import {
   useLoaderData,
   useSubmit,
   useNavigation,
   useNavigate,
+  redirect,
 } from "react-router";
 import type {
   ClientLoaderFunctionArgs,
@@ -18,14 +19,72 @@ import {
   getDB,
   deleteEntryById,
   getEntryHistory,
+  getRunningTimer,
+  startTimer,
+  stopTimer,
+  cancelTimer,
 } from "~/lib/db";
 import { debouncedDataChange } from "~/lib/data-change-events";
+import { createEntryChangesUndo, pushUndo } from "~/lib/undo";
 import {
   TrackerHeader,
   EntryInput,
+  EntryTimer,
   TrackerHistory,
 } from "~/components/tracker";
 
+// Shared by the entry form and reminder notification actions
+async function addValue(
+  trackerId: string,
+  date: string,
+  value: number,
+  comment?: string
+) {
+  const created = await createEntry(
+    trackerId,
+    date,
+    value,
+    false,
+    false,
+    comment
+  );
+  debouncedDataChange.dispatch("entry_added", { trackerId, date, value });
+  pushUndo(createEntryChangesUndo("Entry added", trackerId, { created }));
+}
+
+async function setCheckbox(
+  trackerId: string,
+  date: string,
+  checked: boolean,
+  comment?: string
+) {
+  const value = checked ? 1 : 0;
+
+  // Delete all existing entries for this date
+  const db = await getDB();
+  const entries = await db.getAllFromIndex("entries", "by-tracker", trackerId);
+  const dateEntries = entries.filter(
+    (entry) => entry.date === date && !entry.deletedAt
+  );
+  for (const entry of dateEntries) {
+    await deleteEntryById(entry.id);
+  }
+
+  // Create new entry if checked
+  const created =
+    value > 0
+      ? await createEntry(trackerId, date, value, false, false, comment)
+      : [];
+
+  debouncedDataChange.dispatch("entry_updated", { trackerId, date, value });
+  pushUndo(
+    createEntryChangesUndo(checked ? "Checked" : "Unchecked", trackerId, {
+      created,
+      deleted: dateEntries.map((entry) => entry.id),
+    })
+  );
+}
+
 export async function clientLoader({
   params,
   request,
@@ -39,6 +98,12 @@ export async function clientLoader({
   const dateParam = url.searchParams.get("date");
   const selectedDate = dateParam || formatDateString(new Date());
 
+  // Reminder notifications open this page with a value to log. Loaders
+  // also run on revalidation and prefetching, so the page posts it to the
+  // action instead of logging it here.
+  const logParam = parseInt(url.searchParams.get("log") ?? "");
+  const logValue = !Number.isNaN(logParam) && logParam > 0 ? logParam : null;
+
   try {
     const tracker = await getTrackerById(trackerId);
     if (!tracker) {
@@ -52,7 +117,17 @@ export async function clientLoader({
     // Filter history to only entries for the selected date
     const history = allHistory.filter((entry) => entry.date === selectedDate);
 
-    return { tracker, currentValue, selectedDate, mostUsedTags, history };
+    const timer = await getRunningTimer(trackerId);
+
+    return {
+      tracker,
+      currentValue,
+      selectedDate,
+      mostUsedTags,
+      history,
+      timer,
+      logValue,
+    };
   } catch (error) {
     throw new Response("Failed to load tracker", { status: 500 });
   }
@@ -73,43 +148,59 @@ export async function clientAction({
   const comment = (formData.get("comment") as string) || undefined;
 
   try {
+    if (intent === "logReminderValue") {
+      const tracker = await getTrackerById(trackerId);
+      const value = parseInt(formData.get("value") as string);
+      if (tracker && value > 0) {
+        if (tracker.type === "checkbox") {
+          await setCheckbox(trackerId, date, true);
+        } else {
+          await addValue(trackerId, date, value);
+        }
+      }
+
+      // Drop the parameter so reloading doesn't log the value again
+      const url = new URL(request.url);
+      url.searchParams.delete("log");
+      return redirect(`${url.pathname}${url.search}`);
+    }
+
     if (intent === "addValue") {
       const valueToAdd = parseInt(formData.get("value") as string);
       if (!isNaN(valueToAdd)) {
-        await createEntry(trackerId, date, valueToAdd, false, false, comment);
-        debouncedDataChange.dispatch("entry_added", {
-          trackerId,
-          date,
-          value: valueToAdd,
-        });
+        await addValue(trackerId, date, valueToAdd, comment);
       }
     } else if (intent === "setCheckbox") {
       const checked = formData.get("checked") === "true";
-      const value = checked ? 1 : 0;
-
-      // Delete all existing entries for this date
-      const db = await getDB();
-      const entries = await db.getAllFromIndex(
-        "entries",
-        "by-tracker",
-        trackerId
-      );
-      const dateEntries = entries.filter((entry) => entry.date === date);
-      for (const entry of dateEntries) {
-        await deleteEntryById(entry.id);
-      }
-
-      // Create new entry if checked
-      if (value > 0) {
-        await createEntry(trackerId, date, value, false, false, comment);
+      await setCheckbox(trackerId, date, checked, comment);
+    } else if (intent === "startTimer") {
+      await startTimer(trackerId);
+    } else if (intent === "stopTimer") {
+      const logged = await stopTimer(trackerId, comment);
+      if (logged && logged.value > 0) {
+        debouncedDataChange.dispatch("entry_added", {
+          trackerId,
+          date: logged.date,
+          value: logged.value,
+        });
+        pushUndo(
+          createEntryChangesUndo("Entry added", trackerId, {
+            created: logged.created,
+          })
+        );
       }
-
-      debouncedDataChange.dispatch("entry_updated", { trackerId, date, value });
+    } else if (intent === "cancelTimer") {
+      await cancelTimer(trackerId);
     } else if (intent === "deleteEntry") {
       const entryId = formData.get("entryId") as string;
       if (entryId) {
         await deleteEntryById(entryId);
         debouncedDataChange.dispatch("entry_deleted", { trackerId });
+        pushUndo(
+          createEntryChangesUndo("Entry deleted", trackerId, {
+            deleted: [entryId],
+          })
+        );
       }
     }
 
@@ -141,6 +232,8 @@ export default function LogEntryPage() {
     currentValue: loaderCurrentValue,
     selectedDate,
     history,
+    timer,
+    logValue,
   } = useLoaderData<typeof clientLoader>();
 
   const [deletingEntryId, setDeletingEntryId] = useState<string | null>(null);
@@ -174,6 +267,19 @@ export default function LogEntryPage() {
     submit(formData, { method: "post" });
   };
 
+  const handleTimerAction = (
+    intent: "startTimer" | "stopTimer" | "cancelTimer",
+    comment?: string
+  ) => {
+    const formData = new FormData();
+    formData.append("intent", intent);
+    if (comment) {
+      formData.append("comment", comment);
+    }
+
+    submit(formData, { method: "post" });
+  };
+
   const handleDeleteEntry = async (entryId: string) => {
     if (!confirm("Are you sure you want to delete this entry?")) {
       return;
@@ -188,6 +294,22 @@ export default function LogEntryPage() {
     submit(formData, { method: "post" });
   };
 
+  // Log the value of a reminder notification once, replacing the history
+  // entry so going back doesn't open the page with the value again
+  const loggedReminderUrl = useRef<string | null>(null);
+  useEffect(() => {
+    if (!logValue || loggedReminderUrl.current === window.location.href) {
+      return;
+    }
+    loggedReminderUrl.current = window.location.href;
+
+    const formData = new FormData();
+    formData.append("intent", "logReminderValue");
+    formData.append("value", logValue.toString());
+    formData.append("date", selectedDate);
+    submit(formData, { method: "post", replace: true });
+  }, [logValue, selectedDate, submit]);
+
   // Clear deletingEntryId when navigation is complete
   useEffect(() => {
     if (navigation.state === "idle") {
@@ -213,6 +335,16 @@ export default function LogEntryPage() {
         onDateChange={handleDateChange}
       />
 
+      {tracker.type === "duration" && (
+        <EntryTimer
+          timer={timer}
+          onStart={() => handleTimerAction("startTimer")}
+          onStop={(comment) => handleTimerAction("stopTimer", comment)}
+          onCancel={() => handleTimerAction("cancelTimer")}
+          loading={isLoading}
+        />
+      )}
+
       <EntryInput
         tracker={tracker}
         currentValue={loaderCurrentValue}
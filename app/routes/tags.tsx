@@ -0,0 +1,307 @@
+import { Check, ChevronLeft, Hash, Pencil, Trash2, X } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import {
+  Form,
+  Link,
+  useActionData,
+  useLoaderData,
+  useNavigate,
+  useNavigation,
+} from "react-router";
+import type {
+  ClientActionFunctionArgs,
+  ClientLoaderFunctionArgs,
+} from "react-router";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "~/components/ui/empty";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { deleteTag, getAllTrackers, getTagUsage, renameTag } from "~/lib/db";
+import { debouncedDataChange } from "~/lib/data-change-events";
+import { isValidTagName } from "~/lib/tags";
+
+export async function clientLoader({ request }: ClientLoaderFunctionArgs) {
+  const url = new URL(request.url);
+
+  try {
+    const trackers = await getAllTrackers();
+    const trackerParam = url.searchParams.get("tracker");
+    const trackerId = trackers.some((t) => t.id === trackerParam)
+      ? trackerParam ?? undefined
+      : undefined;
+
+    return {
+      trackers: trackers.map(({ id, title }) => ({ id, title })),
+      trackerId,
+      tags: await getTagUsage(trackerId),
+    };
+  } catch (error) {
+    throw new Response("Failed to load tags", { status: 500 });
+  }
+}
+
+export async function clientAction({ request }: ClientActionFunctionArgs) {
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+  const tagName = formData.get("tagName") as string;
+  const trackerId = (formData.get("trackerId") as string) || undefined;
+
+  try {
+    if (intent === "rename") {
+      const newTagName = ((formData.get("newTagName") as string) || "")
+        .trim()
+        .replace(/^#/, "");
+      if (!isValidTagName(newTagName)) {
+        return {
+          error: "Tags can only contain letters, numbers and underscores",
+        };
+      }
+
+      const count = await renameTag(tagName, newTagName, trackerId);
+      debouncedDataChange.dispatch("entry_updated");
+      return { success: true, count };
+    }
+
+    if (intent === "delete") {
+      const count = await deleteTag(tagName, trackerId);
+      debouncedDataChange.dispatch("entry_updated");
+      return { success: true, count };
+    }
+
+    return { success: false };
+  } catch (error) {
+    console.error("Failed to update tags:", error);
+    return { error: "Failed to update tags" };
+  }
+}
+
+export function meta() {
+  return [
+    { title: "Tags - AnythingTracker" },
+    {
+      name: "description",
+      content: "Rename, merge and delete the tags of your entries",
+    },
+    { name: "viewport", content: "width=device-width, initial-scale=1" },
+  ];
+}
+
+export default function TagsPage() {
+  const { trackers, trackerId, tags } = useLoaderData<typeof clientLoader>();
+  const navigation = useNavigation();
+  const navigate = useNavigate();
+  const actionData = useActionData<typeof clientAction>();
+  const [editingTag, setEditingTag] = useState<string | null>(null);
+
+  const error = useMemo(() => {
+    if (actionData && "error" in actionData) {
+      return actionData.error;
+    }
+    return undefined;
+  }, [actionData]);
+
+  // Close the rename field after a rename went through
+  useEffect(() => {
+    if (actionData && "success" in actionData && actionData.success) {
+      setEditingTag(null);
+    }
+  }, [actionData]);
+
+  const scope = trackerId
+    ? `in "${trackers.find((t) => t.id === trackerId)?.title}"`
+    : "in all trackers";
+
+  const handleRename = (e: React.FormEvent<HTMLFormElement>, tag: string) => {
+    const newTagName = (
+      new FormData(e.currentTarget).get("newTagName") as string
+    )
+      .trim()
+      .replace(/^#/, "");
+    const target = tags.find(
+      (t) => t.tagName === newTagName.toLowerCase() && t.tagName !== tag
+    );
+    if (
+      target &&
+      !confirm(
+        `#${target.displayName} already exists ${scope}. Merge #${tag} into it?`
+      )
+    ) {
+      e.preventDefault();
+    }
+  };
+
+  const handleDelete = (e: React.FormEvent, tag: string) => {
+    if (
+      !confirm(
+        `Are you sure you want to remove #${tag} from all entry comments ${scope}?`
+      )
+    ) {
+      e.preventDefault();
+    }
+  };
+
+  return (
+    <div>
+      <div className="fixed z-50 select-none pointer-events-none top-0 left-0 right-0 h-5 bg-linear-to-b from-black/80 to-black/0" />
+      <div className="w-full h-16 flex items-center justify-between">
+        <div className="flex gap-4 items-center">
+          <Button asChild variant="ghost" size="icon">
+            <Link to="/settings" prefetch="viewport">
+              <ChevronLeft />
+            </Link>
+          </Button>
+          <span className="font-medium">Tags</span>
+        </div>
+      </div>
+
+      <div className="flex flex-col py-6 gap-4">
+        <div className="grid items-center gap-3">
+          <Label htmlFor="tagsTrackerTrigger">Tracker</Label>
+          <Select
+            value={trackerId ?? "all"}
+            onValueChange={(value) =>
+              navigate(value === "all" ? "?" : `?tracker=${value}`)
+            }
+          >
+            <SelectTrigger id="tagsTrackerTrigger">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                <SelectItem value="all">All trackers</SelectItem>
+                {trackers.map((tracker) => (
+                  <SelectItem key={tracker.id} value={tracker.id}>
+                    {tracker.title}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {error && <div className="text-red-600 text-sm">{error}</div>}
+        {actionData && "count" in actionData && (
+          <div className="text-sm text-muted-foreground">
+            Updated {actionData.count}{" "}
+            {actionData.count === 1 ? "entry" : "entries"}
+          </div>
+        )}
+
+        {tags.length === 0 ? (
+          <Empty>
+            <EmptyHeader>
+              <EmptyMedia variant="icon">
+                <Hash className="h-6 w-6" />
+              </EmptyMedia>
+              <EmptyTitle>No tags yet</EmptyTitle>
+              <EmptyDescription>
+                Add #tags to entry comments to group your entries.
+              </EmptyDescription>
+            </EmptyHeader>
+          </Empty>
+        ) : (
+          <div className="flex flex-col gap-2">
+            {tags.map((tag) =>
+              editingTag === tag.tagName ? (
+                <Form
+                  key={tag.tagName}
+                  method="post"
+                  className="flex items-center gap-2 border rounded-xl px-4 py-3"
+                  onSubmit={(e) => handleRename(e, tag.tagName)}
+                >
+                  <input type="hidden" name="intent" value="rename" />
+                  <input type="hidden" name="tagName" value={tag.tagName} />
+                  <input type="hidden" name="trackerId" value={trackerId} />
+                  <Input
+                    name="newTagName"
+                    aria-label={`New name for #${tag.displayName}`}
+                    defaultValue={tag.displayName}
+                    autoFocus
+                  />
+                  <Button
+                    type="submit"
+                    variant="ghost"
+                    size="icon"
+                    disabled={navigation.state !== "idle"}
+                    aria-label="Save tag name"
+                  >
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Cancel"
+                    onClick={() => setEditingTag(null)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </Form>
+              ) : (
+                <div
+                  key={tag.tagName}
+                  className="flex items-center justify-between border rounded-xl px-4 py-3"
+                >
+                  <div className="flex flex-col">
+                    <span className="text-sm font-medium">
+                      #{tag.displayName}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {tag.count} {tag.count === 1 ? "entry" : "entries"}
+                    </span>
+                  </div>
+                  <div className="flex items-center">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Rename #${tag.displayName}`}
+                      onClick={() => setEditingTag(tag.tagName)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Form
+                      method="post"
+                      onSubmit={(e) => handleDelete(e, tag.displayName)}
+                    >
+                      <input type="hidden" name="intent" value="delete" />
+                      <input type="hidden" name="tagName" value={tag.tagName} />
+                      <input type="hidden" name="trackerId" value={trackerId} />
+                      <Button
+                        type="submit"
+                        variant="ghost"
+                        size="icon"
+                        disabled={navigation.state !== "idle"}
+                        aria-label={`Delete #${tag.displayName}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </Form>
+                  </div>
+                </div>
+              )
+            )}
+            <div className="text-xs text-muted-foreground">
+              Renaming a tag to an existing one merges them. Deleting a tag
+              removes it from the entry comments and keeps the entries.
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -155,3 +155,24 @@ self.addEventListener('message', (event) => {
     );
   }
 });
+
+// Notification click: open the tracker, or log the reminder's value when the
+// "log" action was chosen (the log entry page handles the ?log= parameter)
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+
+  const { url, logUrl } = event.notification.data || {};
+  const targetUrl = event.action === 'log' && logUrl ? logUrl : url || '/';
+
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: 'window', includeUncontrolled: true })
+      .then((clients) => {
+        const client = clients.find((c) => 'focus' in c);
+        if (client) {
+          return client.focus().then(() => client.navigate(targetUrl));
+        }
+        return self.clients.openWindow(targetUrl);
+      })
+  );
+});
@@ -0,0 +1,106 @@
+#!/usr/bin/env node
+
+// Generates the JSON Schema of backup files from the ExportData type
+// Usage: bun scripts/generate-export-schema.js [--check]
+
+import { readFileSync, writeFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import ts from 'typescript';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const rootDir = join(__dirname, '..');
+const typesPath = join(rootDir, 'app/lib/data/types.ts');
+const schemaPath = join(rootDir, 'public/export-schema.json');
+
+const program = ts.createProgram([typesPath], {
+  strict: true,
+  target: ts.ScriptTarget.ES2022,
+});
+const checker = program.getTypeChecker();
+const sourceFile = program.getSourceFile(typesPath);
+
+const exportDataNode = sourceFile.statements.find(
+  (statement) =>
+    ts.isInterfaceDeclaration(statement) &&
+    statement.name.text === 'ExportData'
+);
+if (!exportDataNode) {
+  console.error('ExportData not found in', typesPath);
+  process.exit(1);
+}
+
+// Convert a TypeScript type to a JSON Schema
+function toSchema(type) {
+  if (type.isUnion()) {
+    // Optional properties include undefined, which JSON doesn't have
+    const types = type.types.filter(
+      (member) => !(member.flags & ts.TypeFlags.Undefined)
+    );
+    if (types.every((member) => member.flags & ts.TypeFlags.BooleanLiteral)) {
+      return { type: 'boolean' };
+    }
+    if (types.every((member) => member.isLiteral())) {
+      return { enum: types.map((member) => member.value) };
+    }
+    return types.length === 1
+      ? toSchema(types[0])
+      : { anyOf: types.map(toSchema) };
+  }
+  if (type.isLiteral()) {
+    return { const: type.value };
+  }
+  if (type.flags & ts.TypeFlags.String) {
+    return { type: 'string' };
+  }
+  if (type.flags & ts.TypeFlags.Number) {
+    return { type: 'number' };
+  }
+  if (type.flags & ts.TypeFlags.Boolean) {
+    return { type: 'boolean' };
+  }
+  if (checker.isArrayType(type)) {
+    return {
+      type: 'array',
+      items: toSchema(checker.getTypeArguments(type)[0]),
+    };
+  }
+
+  const indexType = checker.getIndexTypeOfType(type, ts.IndexKind.String);
+  if (indexType) {
+    return { type: 'object', additionalProperties: toSchema(indexType) };
+  }
+
+  const properties = {};
+  const required = [];
+  for (const property of checker.getPropertiesOfType(type)) {
+    const propertyType = checker.getTypeOfSymbol(property);
+    properties[property.name] = toSchema(propertyType);
+    if (!(property.flags & ts.SymbolFlags.Optional)) {
+      required.push(property.name);
+    }
+  }
+  return { type: 'object', properties, required };
+}
+
+const schema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  title: 'AnythingTracker backup',
+  description:
+    'Generated from ExportData in app/lib/data/types.ts by scripts/generate-export-schema.js',
+  ...toSchema(checker.getTypeAtLocation(exportDataNode.name)),
+};
+const json = `${JSON.stringify(schema, null, 2)}\n`;
+
+if (process.argv.includes('--check')) {
+  if (readFileSync(schemaPath, 'utf8') !== json) {
+    console.error(
+      'public/export-schema.json is outdated. Run: bun scripts/generate-export-schema.js'
+    );
+    process.exit(1);
+  }
+  console.log('public/export-schema.json is up to date');
+} else {
+  writeFileSync(schemaPath, json);
+  console.log('Wrote public/export-schema.json');
+}